@@ -24,7 +24,20 @@ import storesRouter from './routes/stores.js';
 import filesRouter from './routes/files.js';
 import searchRouter from './routes/search.js';
 import operationsRouter from './routes/operations.js';
+import chatsRouter from './routes/chats.js';
+import presetsRouter from './routes/presets.js';
+import historyRouter from './routes/history.js';
+import jobsRouter from './routes/jobs.js';
+import syncRouter from './routes/sync.js';
+import keysRouter from './routes/keys.js';
+import accessRouter from './routes/access.js';
+import auditRouter from './routes/audit.js';
 import mcpRouter from './routes/mcp.js';
+import { setErrorResponse } from './lib/errors.js';
+import { closeStorage, getStorage } from './lib/storage/index.js';
+import { resumeJobs } from './lib/jobs.js';
+import { authMiddleware, isAuthEnabled } from './lib/auth.js';
+import { getTrustedProxies } from './lib/proxy-auth.js';
 
 const app = new Koa();
 const router = new Router();
@@ -73,14 +86,14 @@ app.use(async (ctx, next) => {
   } catch (err) {
     const error = err as Error;
     console.error('Error:', error.message);
-    ctx.status = 500;
-    ctx.body = { message: error.message || 'Internal server error' };
+    setErrorResponse(ctx, error, 'Internal server error');
   }
 });
 
 // Middleware
 app.use(cors());
 app.use(bodyParser());
+app.use(authMiddleware);
 
 // Routes
 app.use(router.routes());
@@ -93,11 +106,49 @@ app.use(searchRouter.routes());
 app.use(searchRouter.allowedMethods());
 app.use(operationsRouter.routes());
 app.use(operationsRouter.allowedMethods());
+app.use(chatsRouter.routes());
+app.use(chatsRouter.allowedMethods());
+app.use(presetsRouter.routes());
+app.use(presetsRouter.allowedMethods());
+app.use(historyRouter.routes());
+app.use(historyRouter.allowedMethods());
+app.use(jobsRouter.routes());
+app.use(jobsRouter.allowedMethods());
+app.use(syncRouter.routes());
+app.use(syncRouter.allowedMethods());
+app.use(keysRouter.routes());
+app.use(keysRouter.allowedMethods());
+app.use(accessRouter.routes());
+app.use(accessRouter.allowedMethods());
+app.use(auditRouter.routes());
+app.use(auditRouter.allowedMethods());
 app.use(mcpRouter.routes());
 app.use(mcpRouter.allowedMethods());
 
 const PORT = process.env.PORT || 4000;
 
-app.listen(PORT, () => {
+// Open storage (and apply migrations) before accepting requests
+await getStorage();
+await resumeJobs();
+
+if (!isAuthEnabled()) {
+  console.warn('[auth] API_AUTH_ENABLED is not set: the REST API accepts requests without a key');
+}
+// Fails on an invalid TRUSTED_PROXY_CIDRS before the first request
+if (getTrustedProxies()) {
+  console.log(`[auth] Trusting identity headers from ${process.env.TRUSTED_PROXY_CIDRS}`);
+}
+
+const server = app.listen(PORT, () => {
   console.log(`API server running on http://localhost:${PORT}`);
 });
+
+// Close storage cleanly so the SQLite WAL is checkpointed
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.once(signal, () => {
+    server.close();
+    closeStorage()
+      .catch((error) => console.error('Failed to close storage:', error))
+      .finally(() => process.exit(0));
+  });
+}
@@ -0,0 +1,205 @@
+import assert from 'node:assert/strict';
+import { before, describe, it, mock } from 'node:test';
+import type { ParameterizedContext } from 'koa';
+import {
+  createAccess,
+  isSubject,
+  parseGrant,
+  requireRole,
+  requireRoleOnAnyStore,
+  resolveAccess,
+  type Access,
+} from './access.js';
+import { AccessDeniedError } from './errors.js';
+import { getStorage } from './storage/index.js';
+
+type RouteContext = Parameters<ReturnType<typeof requireRole>>[0];
+
+// Minimal Koa context for route middleware
+function createContext(access?: Access, params: Record<string, string> = {}) {
+  return { state: { access }, params, status: 404, body: undefined as unknown } as RouteContext &
+    ParameterizedContext;
+}
+
+describe('createAccess', () => {
+  it('resolves roles per store, normalizing store names', () => {
+    const access = createAccess([
+      { storeName: 'fileSearchStores/docs', role: 'editor' },
+      { storeName: 'fileSearchStores/wiki', role: 'viewer' },
+    ]);
+
+    assert.equal(access.roleFor('docs'), 'editor');
+    assert.equal(access.roleFor('fileSearchStores/docs'), 'editor');
+    assert.equal(access.can('viewer', 'docs'), true);
+    assert.equal(access.can('editor', 'wiki'), false);
+    assert.equal(access.can('viewer', 'other'), false);
+    // Without a store, the role is required on every store
+    assert.equal(access.can('viewer'), false);
+  });
+
+  it('keeps the highest of a store role and an all-stores role', () => {
+    const access = createAccess([
+      { storeName: '*', role: 'editor' },
+      { storeName: 'fileSearchStores/docs', role: 'viewer' },
+      { storeName: 'fileSearchStores/wiki', role: 'admin' },
+    ]);
+
+    assert.equal(access.roleFor('docs'), 'editor');
+    assert.equal(access.roleFor('wiki'), 'admin');
+    assert.equal(access.roleFor('other'), 'editor');
+    assert.equal(access.can('editor'), true);
+    assert.equal(access.can('admin'), false);
+  });
+
+  it('keeps the highest role granted twice on a store', () => {
+    const access = createAccess([
+      { storeName: 'fileSearchStores/docs', role: 'admin' },
+      { storeName: 'fileSearchStores/docs', role: 'viewer' },
+    ]);
+
+    assert.equal(access.roleFor('docs'), 'admin');
+  });
+
+  it('throws AccessDeniedError naming the missing role', () => {
+    const access = createAccess([{ storeName: 'fileSearchStores/docs', role: 'viewer' }]);
+
+    assert.doesNotThrow(() => access.require('viewer', 'docs'));
+    assert.throws(
+      () => access.require('editor', 'docs'),
+      new AccessDeniedError('Requires the editor role on fileSearchStores/docs')
+    );
+    assert.throws(
+      () => access.require('admin'),
+      new AccessDeniedError('Requires the admin role on all stores')
+    );
+  });
+
+  it('tells whether a role is held on any store', () => {
+    const access = createAccess([{ storeName: 'fileSearchStores/docs', role: 'editor' }]);
+
+    assert.equal(access.canOnAnyStore('viewer'), true);
+    assert.equal(access.canOnAnyStore('editor'), true);
+    assert.equal(access.canOnAnyStore('admin'), false);
+    assert.equal(createAccess([]).canOnAnyStore('viewer'), false);
+  });
+
+  it('allows everything when unrestricted', () => {
+    const access = createAccess('all');
+
+    assert.equal(access.unrestricted, true);
+    assert.equal(access.roleFor('docs'), 'admin');
+    assert.equal(access.can('admin'), true);
+    assert.equal(access.canOnAnyStore('admin'), true);
+  });
+});
+
+describe('resolveAccess', () => {
+  before(async () => {
+    process.env.STORAGE_DRIVER = 'memory';
+    const storage = await getStorage();
+    const createTime = new Date().toISOString();
+    await storage.roleGrants.put({
+      subject: 'user:ann',
+      storeName: 'fileSearchStores/docs',
+      role: 'viewer',
+      createTime,
+    });
+    await storage.roleGrants.put({
+      subject: 'group:writers',
+      storeName: 'fileSearchStores/docs',
+      role: 'editor',
+      createTime,
+    });
+    await storage.roleGrants.put({
+      subject: 'group:auditors',
+      storeName: '*',
+      role: 'viewer',
+      createTime,
+    });
+  });
+
+  it('combines the grants of a user and its groups', async () => {
+    const access = await resolveAccess(['user:ann', 'group:writers', 'group:auditors']);
+
+    assert.equal(access.roleFor('docs'), 'editor');
+    assert.equal(access.roleFor('wiki'), 'viewer');
+  });
+
+  it('ignores grants of other subjects', async () => {
+    const access = await resolveAccess(['user:ann']);
+
+    assert.equal(access.roleFor('docs'), 'viewer');
+    assert.equal(access.roleFor('wiki'), undefined);
+  });
+});
+
+describe('grant validation', () => {
+  it('accepts key, user and group subjects', () => {
+    assert.equal(isSubject('key:abc'), true);
+    assert.equal(isSubject('user:ann@example.com'), true);
+    assert.equal(isSubject('group:writers'), true);
+    assert.equal(isSubject('team:writers'), false);
+    assert.equal(isSubject('user:'), false);
+    assert.equal(isSubject('user:two words'), false);
+  });
+
+  it('normalizes the store name of a grant', () => {
+    assert.deepEqual(parseGrant({ storeName: ' docs ', role: 'editor' }), {
+      storeName: 'fileSearchStores/docs',
+      role: 'editor',
+    });
+    assert.deepEqual(parseGrant({ storeName: '*', role: 'admin' }), {
+      storeName: '*',
+      role: 'admin',
+    });
+    assert.match(String(parseGrant({ role: 'admin' })), /storeName is required/);
+    assert.match(String(parseGrant({ storeName: 'docs', role: 'owner' })), /role must be one of/);
+  });
+});
+
+describe('requireRole', () => {
+  const access = createAccess([{ storeName: 'fileSearchStores/docs', role: 'editor' }]);
+
+  it('calls the next middleware when the role is held on the route store', async () => {
+    const ctx = createContext(access, { storeName: 'fileSearchStores%2Fdocs' });
+    const next = mock.fn(async () => {});
+
+    await requireRole('editor', 'storeName')(ctx, next);
+
+    assert.equal(next.mock.callCount(), 1);
+  });
+
+  it('responds 403 without the role', async () => {
+    const ctx = createContext(access, { storeName: 'docs' });
+    const next = mock.fn(async () => {});
+
+    await requireRole('admin', 'storeName')(ctx, next);
+
+    assert.equal(next.mock.callCount(), 0);
+    assert.equal(ctx.status, 403);
+    assert.deepEqual(ctx.body, { message: 'Requires the admin role on fileSearchStores/docs' });
+  });
+
+  it('allows nothing to a request without resolved access', async () => {
+    const ctx = createContext(undefined, { storeName: 'docs' });
+    const next = mock.fn(async () => {});
+
+    await requireRole('viewer', 'storeName')(ctx, next);
+
+    assert.equal(ctx.status, 403);
+  });
+
+  it('requires a role on any store for shared resources', async () => {
+    const next = mock.fn(async () => {});
+    const editor = createContext(access);
+    await requireRoleOnAnyStore('editor')(editor, next);
+    assert.equal(next.mock.callCount(), 1);
+
+    const viewer = createContext(
+      createAccess([{ storeName: 'fileSearchStores/docs', role: 'viewer' }])
+    );
+    await requireRoleOnAnyStore('editor')(viewer, next);
+    assert.equal(viewer.status, 403);
+    assert.deepEqual(viewer.body, { message: 'Requires the editor role on at least one store' });
+  });
+});
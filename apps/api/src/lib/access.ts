@@ -0,0 +1,167 @@
+import type { Next, ParameterizedContext } from 'koa';
+import { AccessDeniedError } from './errors.js';
+import { getStorage, type Role, type RoleGrantRecord } from './storage/index.js';
+
+export type { Role };
+
+// Lowest to highest; each role includes the ones before it
+export const ROLES: Role[] = ['viewer', 'editor', 'admin'];
+
+// Store name of a grant that applies to every store
+export const ALL_STORES = '*';
+
+export function isRole(value: unknown): value is Role {
+  return ROLES.includes(value as Role);
+}
+
+// "abc" or "fileSearchStores/abc" -> "fileSearchStores/abc"; "*" is kept
+export function toGrantStoreName(name: string): string {
+  if (name === ALL_STORES) return name;
+  return name.startsWith('fileSearchStores/') ? name : `fileSearchStores/${name}`;
+}
+
+// Subjects are API keys ("key:{id}"), users ("user:{name}") or their groups ("group:{name}")
+export function isSubject(value: unknown): value is string {
+  return typeof value === 'string' && /^(key|user|group):\S+$/.test(value);
+}
+
+/**
+ * Validate a grant from a request body, returning it with a normalized store
+ * name or an error message.
+ */
+export function parseGrant(value: unknown): Pick<RoleGrantRecord, 'storeName' | 'role'> | string {
+  const { storeName, role } = (value ?? {}) as { storeName?: unknown; role?: unknown };
+  if (typeof storeName !== 'string' || !storeName.trim()) {
+    return 'storeName is required (a store name, or "*" for all stores)';
+  }
+  if (!isRole(role)) {
+    return `role must be one of: ${ROLES.join(', ')}`;
+  }
+  return { storeName: toGrantStoreName(storeName.trim()), role };
+}
+
+/**
+ * What the caller of a request may do, resolved once per request from its
+ * role grants. Unrestricted access (auth disabled, bootstrap key) allows
+ * everything.
+ */
+export interface Access {
+  unrestricted: boolean;
+  // Granted role by store name, "*" for every store
+  roles: Record<string, Role>;
+  roleFor(storeName: string): Role | undefined;
+  // Without a store name, the role is required on every store ("*")
+  can(role: Role, storeName?: string): boolean;
+  // Like can(), but throws AccessDeniedError
+  require(role: Role, storeName?: string): void;
+  // Whether the role is held on at least one store, for resources shared across stores
+  canOnAnyStore(role: Role): boolean;
+}
+
+export interface AccessState {
+  access?: Access;
+}
+
+function maxRole(a: Role | undefined, b: Role | undefined): Role | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return ROLES.indexOf(a) >= ROLES.indexOf(b) ? a : b;
+}
+
+export function createAccess(
+  grants: Pick<RoleGrantRecord, 'storeName' | 'role'>[] | 'all'
+): Access {
+  const unrestricted = grants === 'all';
+  const roles: Record<string, Role> = {};
+  if (grants !== 'all') {
+    // A subject and its groups may each hold a role on the same store
+    for (const grant of grants) {
+      roles[grant.storeName] = maxRole(roles[grant.storeName], grant.role) ?? grant.role;
+    }
+  }
+
+  const roleFor = (storeName: string): Role | undefined => {
+    if (unrestricted) return 'admin';
+    const name = toGrantStoreName(storeName);
+    return name === ALL_STORES ? roles[ALL_STORES] : maxRole(roles[ALL_STORES], roles[name]);
+  };
+  const can = (role: Role, storeName = ALL_STORES): boolean => {
+    const granted = roleFor(storeName);
+    return !!granted && ROLES.indexOf(granted) >= ROLES.indexOf(role);
+  };
+
+  return {
+    unrestricted,
+    roles,
+    roleFor,
+    can,
+    require(role, storeName) {
+      if (!can(role, storeName)) {
+        throw new AccessDeniedError(
+          storeName && storeName !== ALL_STORES
+            ? `Requires the ${role} role on ${toGrantStoreName(storeName)}`
+            : `Requires the ${role} role on all stores`
+        );
+      }
+    },
+    canOnAnyStore(role) {
+      return (
+        unrestricted ||
+        Object.values(roles).some((granted) => ROLES.indexOf(granted) >= ROLES.indexOf(role))
+      );
+    },
+  };
+}
+
+export const UNRESTRICTED_ACCESS = createAccess('all');
+
+// Access from the stored grants of a caller's subjects, e.g. a user and its groups
+export async function resolveAccess(subjects: string[]): Promise<Access> {
+  const storage = await getStorage();
+  const grants = await Promise.all(subjects.map((subject) => storage.roleGrants.list({ subject })));
+  return createAccess(grants.flat());
+}
+
+/**
+ * Access of the current request. Set by authMiddleware; a request that
+ * did not pass through it is allowed nothing.
+ */
+export function accessOf(ctx: ParameterizedContext<AccessState>): Access {
+  return ctx.state.access ?? createAccess([]);
+}
+
+/**
+ * Route middleware requiring a role on the store named by a route
+ * parameter, or on every store when no parameter is given.
+ */
+export function requireRole(role: Role, storeParam?: string) {
+  return async (
+    ctx: ParameterizedContext<AccessState> & { params: Record<string, string | undefined> },
+    next: Next
+  ) => {
+    const param = storeParam ? ctx.params[storeParam] : undefined;
+    try {
+      accessOf(ctx).require(role, param ? decodeURIComponent(param) : undefined);
+    } catch (error) {
+      ctx.status = 403;
+      ctx.body = { message: (error as Error).message };
+      return;
+    }
+    return next();
+  };
+}
+
+/**
+ * Route middleware requiring a role on at least one store, for resources
+ * every team shares, such as search presets.
+ */
+export function requireRoleOnAnyStore(role: Role) {
+  return async (ctx: ParameterizedContext<AccessState>, next: Next) => {
+    if (!accessOf(ctx).canOnAnyStore(role)) {
+      ctx.status = 403;
+      ctx.body = { message: `Requires the ${role} role on at least one store` };
+      return;
+    }
+    return next();
+  };
+}
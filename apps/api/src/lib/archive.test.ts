@@ -0,0 +1,271 @@
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import zlib from 'node:zlib';
+import { afterEach, describe, it } from 'node:test';
+import { ArchiveError, extractArchive, type ExtractLimits } from './archive.js';
+
+const LIMITS: ExtractLimits = { maxEntries: 10, maxEntryBytes: 1024, maxTotalBytes: 4096 };
+
+interface TarEntry {
+  name: string;
+  content?: string;
+  type?: string; // '0' file, '2' symlink, '5' directory
+  linkName?: string;
+  // Raw size field, instead of the content's length in octal
+  sizeField?: string;
+  // Pre-POSIX (v7) header, without the "ustar" magic
+  v7?: boolean;
+}
+
+function tarHeader(entry: TarEntry, size: number): Buffer {
+  const header = Buffer.alloc(512);
+  header.write(entry.name, 0, 100);
+  header.write('0000644\0', 100);
+  header.write('0000000\0', 108);
+  header.write('0000000\0', 116);
+  header.write(entry.sizeField ?? `${size.toString(8).padStart(11, '0')}\0`, 124);
+  header.write('00000000000\0', 136);
+  header.write(entry.type ?? '0', 156);
+  if (entry.linkName) header.write(entry.linkName, 157, 100);
+  if (!entry.v7) header.write('ustar\x0000', 257);
+  header.fill(' ', 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  header.write(`${checksum.toString(8).padStart(6, '0')}\0 `, 148);
+  return header;
+}
+
+function tar(entries: TarEntry[]): Buffer {
+  const blocks = entries.flatMap((entry) => {
+    const content = Buffer.from(entry.content ?? '');
+    const padding = Buffer.alloc((512 - (content.length % 512)) % 512);
+    return [tarHeader(entry, content.length), content, padding];
+  });
+  return Buffer.concat([...blocks, Buffer.alloc(1024)]);
+}
+
+interface ZipEntry {
+  name: string;
+  content?: string;
+  deflate?: boolean;
+  symlink?: boolean;
+  // Uncompressed size written to the central directory instead of the real one
+  declaredSize?: number;
+}
+
+function zip(entries: ZipEntry[]): Buffer {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+  for (const entry of entries) {
+    const name = Buffer.from(entry.name);
+    const content = Buffer.from(entry.content ?? '');
+    const data = entry.deflate ? zlib.deflateRawSync(content) : content;
+
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(20, 4);
+    local.writeUInt16LE(entry.deflate ? 8 : 0, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(content.length, 22);
+    local.writeUInt16LE(name.length, 26);
+
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    // Made by Unix, so the external attributes hold a file mode
+    central.writeUInt16LE((3 << 8) | 20, 4);
+    central.writeUInt16LE(20, 6);
+    central.writeUInt16LE(entry.deflate ? 8 : 0, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(entry.declaredSize ?? content.length, 24);
+    central.writeUInt16LE(name.length, 28);
+    central.writeUInt32LE(((entry.symlink ? 0o120777 : 0o100644) << 16) >>> 0, 38);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, name, data);
+    centrals.push(central, name);
+    offset += local.length + name.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(entries.length, 8);
+  end.writeUInt16LE(entries.length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+  return Buffer.concat([...locals, directory, end]);
+}
+
+const tempFiles: string[] = [];
+
+async function extract(data: Buffer, limits = LIMITS): Promise<Record<string, string>> {
+  const archivePath = path.join(os.tmpdir(), `archive-test-${crypto.randomUUID()}`);
+  tempFiles.push(archivePath);
+  await fs.writeFile(archivePath, data);
+
+  const files = await extractArchive(archivePath, limits);
+  tempFiles.push(...files.map((file) => file.filePath));
+  const contents: Record<string, string> = {};
+  for (const file of files) contents[file.path] = await fs.readFile(file.filePath, 'utf8');
+  return contents;
+}
+
+function rejectsWith(data: Buffer, message: RegExp, limits = LIMITS): Promise<void> {
+  return assert.rejects(extract(data, limits), (error: unknown) => {
+    assert.ok(error instanceof ArchiveError);
+    assert.match(error.message, message);
+    return true;
+  });
+}
+
+describe('extractArchive', () => {
+  afterEach(async () => {
+    await Promise.all(tempFiles.splice(0).map((file) => fs.rm(file, { force: true })));
+  });
+
+  it('extracts stored and deflated zip entries, skipping folders and dotfiles', async () => {
+    const files = await extract(
+      zip([
+        { name: 'docs/' },
+        { name: 'docs/a.md', content: 'stored' },
+        { name: 'docs/b.md', content: 'deflated '.repeat(20), deflate: true },
+        { name: 'docs/.DS_Store', content: 'x' },
+        { name: '__MACOSX/docs/._a.md', content: 'x' },
+      ])
+    );
+
+    assert.deepEqual(files, { 'docs/a.md': 'stored', 'docs/b.md': 'deflated '.repeat(20) });
+  });
+
+  it('extracts ustar, gzipped and v7 tar archives', async () => {
+    const entries: TarEntry[] = [
+      { name: 'docs/', type: '5' },
+      { name: './docs/a.md', content: 'a' },
+    ];
+
+    assert.deepEqual(await extract(tar(entries)), { 'docs/a.md': 'a' });
+    assert.deepEqual(await extract(zlib.gzipSync(tar(entries))), { 'docs/a.md': 'a' });
+    assert.deepEqual(
+      await extract(tar([{ name: 'old.txt', content: 'v7', type: '\0', v7: true }])),
+      { 'old.txt': 'v7' }
+    );
+  });
+
+  it('skips symbolic links', async () => {
+    assert.deepEqual(
+      await extract(
+        tar([
+          { name: 'a.md', content: 'a' },
+          { name: 'passwd', type: '2', linkName: '/etc/passwd' },
+        ])
+      ),
+      { 'a.md': 'a' }
+    );
+    assert.deepEqual(
+      await extract(
+        zip([
+          { name: 'a.md', content: 'a' },
+          { name: 'passwd', content: '/etc/passwd', symlink: true },
+        ])
+      ),
+      { 'a.md': 'a' }
+    );
+  });
+
+  it('rejects paths outside the archive', async () => {
+    await rejectsWith(zip([{ name: '../evil.md', content: 'x' }]), /points outside the archive/);
+    await rejectsWith(tar([{ name: 'docs/../../evil.md', content: 'x' }]), /points outside/);
+    await rejectsWith(tar([{ name: '/etc/evil.md', content: 'x' }]), /points outside/);
+  });
+
+  describe('limits', () => {
+    const three = [1, 2, 3].map((i) => ({ name: `${i}.md`, content: 'x' }));
+    const fewEntries = { ...LIMITS, maxEntries: 2 };
+
+    it('rejects more entries than maxEntries', async () => {
+      await rejectsWith(zip(three), /more than 2 files/, fewEntries);
+      await rejectsWith(tar(three), /more than 2 files/, fewEntries);
+    });
+
+    it('rejects an entry larger than maxEntryBytes', async () => {
+      const big = { name: 'big.md', content: 'x'.repeat(2000) };
+      await rejectsWith(zip([big]), /"big.md" is larger than 1024 bytes/);
+      await rejectsWith(tar([big]), /"big.md" is larger than 1024 bytes/);
+    });
+
+    it('counts inflated bytes, not the declared size', async () => {
+      const bomb = { name: 'bomb.md', content: 'x'.repeat(2000), deflate: true, declaredSize: 10 };
+      await rejectsWith(zip([bomb]), /"bomb.md" is larger than 1024 bytes/);
+    });
+
+    it('rejects archives larger than maxTotalBytes', async () => {
+      const entries = [1, 2, 3, 4, 5].map((i) => ({ name: `${i}.md`, content: 'x'.repeat(1000) }));
+      await rejectsWith(zip(entries), /Archive is larger than 4096 bytes/);
+      await rejectsWith(tar(entries), /Archive is larger than 4096 bytes/);
+    });
+  });
+
+  describe('malformed archives', () => {
+    it('rejects unknown formats', async () => {
+      await rejectsWith(Buffer.from('plain text, not an archive'), /Unsupported archive format/);
+    });
+
+    it('rejects truncated tar archives', async () => {
+      const data = tar([{ name: 'a.md', content: 'x'.repeat(600) }]);
+      // Inside the content, then inside the second entry's header
+      await rejectsWith(data.subarray(0, 700), /Truncated tar archive/);
+      const two = tar([
+        { name: 'a.md', content: 'a' },
+        { name: 'b.md', content: 'b' },
+      ]);
+      await rejectsWith(two.subarray(0, 1024 + 100), /Truncated tar archive/);
+    });
+
+    it('rejects tar headers with a bad checksum or size', async () => {
+      const badChecksum = tar([
+        { name: 'a.md', content: 'a' },
+        { name: 'b.md', content: 'b' },
+      ]);
+      badChecksum.write('c', 1024);
+      await rejectsWith(badChecksum, /Invalid tar header/);
+
+      const badSize = tar([{ name: 'a.md', content: 'a', sizeField: 'zz\0' }]);
+      await rejectsWith(badSize, /Invalid tar header/);
+    });
+
+    it('rejects truncated gzip data', async () => {
+      const data = zlib.gzipSync(tar([{ name: 'a.md', content: 'a' }]));
+      await rejectsWith(data.subarray(0, data.length - 10), /Invalid compressed data/);
+    });
+
+    it('rejects zip archives without a valid central directory', async () => {
+      const data = zip([{ name: 'a.md', content: 'a' }]);
+      await rejectsWith(data.subarray(0, data.length - 30), /Invalid zip archive/);
+
+      const badDirectory = Buffer.from(data);
+      badDirectory.writeUInt32LE(0, data.length - 22 - 50);
+      await rejectsWith(badDirectory, /Invalid zip central directory/);
+
+      const badOffset = Buffer.from(data);
+      badOffset.writeUInt32LE(data.length, data.length - 6);
+      await rejectsWith(badOffset, /Invalid zip central directory/);
+    });
+
+    it('rejects zip entries whose local header is missing', async () => {
+      const data = zip([{ name: 'a.md', content: 'a' }]);
+      data.writeUInt32LE(0, 0);
+      // Without the local header signature the data is no longer recognized as a zip
+      await rejectsWith(data, /Unsupported archive format/);
+
+      const two = zip([
+        { name: 'a.md', content: 'a' },
+        { name: 'b.md', content: 'b' },
+      ]);
+      two.writeUInt32LE(0, 30 + 4 + 1);
+      await rejectsWith(two, /Invalid zip entry "b.md"/);
+    });
+  });
+});
@@ -0,0 +1,392 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { pipeline } from 'stream/promises';
+import zlib from 'zlib';
+
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP_CENTRAL_HEADER = 0x02014b50;
+const ZIP_END_OF_CENTRAL_DIR = 0x06054b50;
+const TAR_BLOCK_SIZE = 512;
+// File type bits of a zip entry's Unix mode (high half of its external attributes)
+const S_IFMT = 0o170000;
+const S_IFLNK = 0o120000;
+// Largest GNU long name or PAX header read into memory
+const MAX_TAR_META_BYTES = 64 * 1024;
+
+const ARCHIVE_EXTENSIONS = ['.zip', '.tar', '.tar.gz', '.tgz'];
+
+export class ArchiveError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveError';
+  }
+}
+
+export interface ExtractedFile {
+  // Path of the entry inside the archive, e.g. "docs/guide.md"
+  path: string;
+  // Temporary file holding the entry's content; owned by the caller
+  filePath: string;
+}
+
+export interface ExtractLimits {
+  // Files extracted, ignored entries excluded
+  maxEntries: number;
+  // Decompressed bytes of one entry
+  maxEntryBytes: number;
+  // Decompressed bytes of all entries together
+  maxTotalBytes: number;
+}
+
+export function isArchiveName(fileName: string): boolean {
+  const lower = fileName.toLowerCase();
+  return ARCHIVE_EXTENSIONS.some((ext) => lower.endsWith(ext));
+}
+
+// Folders, dotfiles and macOS resource forks are not documents
+function isIgnoredEntry(entryPath: string): boolean {
+  return (
+    entryPath.endsWith('/') ||
+    entryPath.startsWith('__MACOSX/') ||
+    path.posix.basename(entryPath).startsWith('.')
+  );
+}
+
+// Absolute paths and ".." segments would escape the folder the archive is extracted to
+function isUnsafePath(entryPath: string): boolean {
+  return (
+    /^([/\\]|[a-zA-Z]:)/.test(entryPath) ||
+    entryPath.split(/[/\\]/).some((segment) => segment === '..')
+  );
+}
+
+/**
+ * Writes entries to temporary files as they are decompressed, enforcing the
+ * limits on the way so an archive bomb fails before it fills memory or disk.
+ */
+class Extraction {
+  readonly files: ExtractedFile[] = [];
+  // The limit that stopped extraction; pipeline() reports it as an abort
+  failure: ArchiveError | undefined;
+  private totalBytes = 0;
+
+  constructor(private readonly limits: ExtractLimits) {}
+
+  checkEntryCount(count: number): void {
+    if (count > this.limits.maxEntries) {
+      this.fail(`Archive contains more than ${this.limits.maxEntries} files`);
+    }
+  }
+
+  checkEntrySize(entryPath: string, size: number): void {
+    if (size > this.limits.maxEntryBytes) {
+      this.fail(`"${entryPath}" is larger than ${this.limits.maxEntryBytes} bytes when extracted`);
+    }
+    if (this.totalBytes + size > this.limits.maxTotalBytes) {
+      this.fail(`Archive is larger than ${this.limits.maxTotalBytes} bytes when extracted`);
+    }
+  }
+
+  private fail(message: string): never {
+    this.failure = new ArchiveError(message);
+    throw this.failure;
+  }
+
+  // Write an entry's content, counting every chunk against the limits
+  async write(entryPath: string, chunks: AsyncIterable<Buffer>): Promise<void> {
+    if (isUnsafePath(entryPath)) this.fail(`"${entryPath}" points outside the archive`);
+    this.checkEntryCount(this.files.length + 1);
+    const filePath = path.join(os.tmpdir(), `gemindex-${crypto.randomUUID()}`);
+    this.files.push({ path: entryPath, filePath });
+
+    const handle = await fs.promises.open(filePath, 'w');
+    try {
+      let entryBytes = 0;
+      for await (const chunk of chunks) {
+        this.checkEntrySize(entryPath, entryBytes + chunk.length);
+        entryBytes += chunk.length;
+        this.totalBytes += chunk.length;
+        await handle.write(chunk);
+      }
+    } finally {
+      await handle.close();
+    }
+  }
+
+  async discard(): Promise<void> {
+    await Promise.all(this.files.map((file) => fs.promises.unlink(file.filePath).catch(() => {})));
+  }
+}
+
+async function readAt(handle: fs.promises.FileHandle, position: number, length: number) {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+interface ZipEntry {
+  path: string;
+  method: number;
+  compressedSize: number;
+  uncompressedSize: number;
+  localOffset: number;
+}
+
+async function readZipDirectory(handle: fs.promises.FileHandle, size: number) {
+  // The end of central directory record sits within the last 64 KiB (its comment is at most 65535 bytes)
+  const tailStart = Math.max(0, size - 22 - 0xffff);
+  const tail = await readAt(handle, tailStart, size - tailStart);
+  let eocd = -1;
+  for (let i = tail.length - 22; i >= 0; i--) {
+    if (tail.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIR) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd < 0) throw new ArchiveError('Invalid zip archive');
+
+  const count = tail.readUInt16LE(eocd + 10);
+  const centralDirSize = tail.readUInt32LE(eocd + 12);
+  const centralDirOffset = tail.readUInt32LE(eocd + 16);
+  if (count === 0xffff || centralDirOffset === 0xffffffff) {
+    throw new ArchiveError('ZIP64 archives are not supported');
+  }
+  if (centralDirOffset + centralDirSize > size) {
+    throw new ArchiveError('Invalid zip central directory');
+  }
+
+  const dir = await readAt(handle, centralDirOffset, centralDirSize);
+  const entries: ZipEntry[] = [];
+  let offset = 0;
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > dir.length || dir.readUInt32LE(offset) !== ZIP_CENTRAL_HEADER) {
+      throw new ArchiveError('Invalid zip central directory');
+    }
+    const flags = dir.readUInt16LE(offset + 8);
+    const method = dir.readUInt16LE(offset + 10);
+    const compressedSize = dir.readUInt32LE(offset + 20);
+    const uncompressedSize = dir.readUInt32LE(offset + 24);
+    const nameLength = dir.readUInt16LE(offset + 28);
+    const extraLength = dir.readUInt16LE(offset + 30);
+    const commentLength = dir.readUInt16LE(offset + 32);
+    const unixMode = dir.readUInt32LE(offset + 38) >>> 16;
+    const localOffset = dir.readUInt32LE(offset + 42);
+    const entryPath = dir.toString('utf8', offset + 46, offset + 46 + nameLength);
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Symbolic links are skipped, like in tar archives
+    if (isIgnoredEntry(entryPath) || (unixMode & S_IFMT) === S_IFLNK) continue;
+    if (flags & 0x1) throw new ArchiveError(`"${entryPath}" is encrypted`);
+    if (method !== 0 && method !== 8) {
+      throw new ArchiveError(`"${entryPath}" uses an unsupported compression method`);
+    }
+    entries.push({ path: entryPath, method, compressedSize, uncompressedSize, localOffset });
+  }
+  return entries;
+}
+
+async function extractZip(archivePath: string, extraction: Extraction): Promise<void> {
+  const handle = await fs.promises.open(archivePath, 'r');
+  try {
+    const { size } = await handle.stat();
+    const entries = await readZipDirectory(handle, size);
+    extraction.checkEntryCount(entries.length);
+    // Declared sizes fail a bomb early; the actual output is counted while inflating
+    for (const entry of entries) extraction.checkEntrySize(entry.path, entry.uncompressedSize);
+
+    for (const entry of entries) {
+      const header = await readAt(handle, entry.localOffset, 30);
+      if (header.length < 30 || header.readUInt32LE(0) !== ZIP_LOCAL_HEADER) {
+        throw new ArchiveError(`Invalid zip entry "${entry.path}"`);
+      }
+      const dataStart = entry.localOffset + 30 + header.readUInt16LE(26) + header.readUInt16LE(28);
+      if (dataStart + entry.compressedSize > size) {
+        throw new ArchiveError(`Invalid zip entry "${entry.path}"`);
+      }
+
+      const source = fs.createReadStream(archivePath, {
+        start: dataStart,
+        // end is inclusive; an empty entry reads nothing
+        end: Math.max(dataStart, dataStart + entry.compressedSize - 1),
+      });
+      const write = (chunks: AsyncIterable<Buffer>) => extraction.write(entry.path, chunks);
+      if (entry.compressedSize === 0) {
+        source.destroy();
+        await write((async function* () {})());
+      } else if (entry.method === 8) {
+        await pipeline(source, zlib.createInflateRaw(), write);
+      } else {
+        await pipeline(source, write);
+      }
+    }
+  } finally {
+    await handle.close();
+  }
+}
+
+function readCString(block: Buffer, start: number, length: number): string {
+  const field = block.subarray(start, start + length);
+  const end = field.indexOf(0);
+  return field.toString('utf8', 0, end < 0 ? field.length : end);
+}
+
+// Header checksum: the sum of its bytes with the checksum field read as spaces.
+// Some old tar versions summed signed bytes, so both sums are accepted
+function isTarHeader(block: Buffer): boolean {
+  const stored = parseInt(readCString(block, 148, 8).trim(), 8);
+  if (!Number.isInteger(stored)) return false;
+  let unsigned = 0;
+  let signed = 0;
+  for (let i = 0; i < TAR_BLOCK_SIZE; i++) {
+    const byte = i >= 148 && i < 156 ? 0x20 : (block[i] ?? 0);
+    unsigned += byte;
+    signed += byte > 127 ? byte - 256 : byte;
+  }
+  return stored === unsigned || stored === signed;
+}
+
+// PAX extended header records: "<length> <key>=<value>\n"
+function readPaxPath(data: Buffer): string | undefined {
+  const match = /(?:^|\n)\d+ path=([^\n]*)\n/.exec(data.toString('utf8'));
+  return match?.[1];
+}
+
+/**
+ * Reads exact byte counts from a stream of chunks, so tar entries can be
+ * consumed block by block without buffering the archive.
+ */
+class ChunkReader {
+  private buffered: Buffer = Buffer.alloc(0);
+  private done = false;
+
+  constructor(private readonly source: AsyncIterator<Buffer>) {}
+
+  private async fill(): Promise<boolean> {
+    if (this.done) return false;
+    const next = await this.source.next();
+    if (next.done) {
+      this.done = true;
+      return false;
+    }
+    this.buffered = Buffer.concat([this.buffered, next.value]);
+    return true;
+  }
+
+  // Exactly `length` bytes, or fewer at the end of the stream
+  async read(length: number): Promise<Buffer> {
+    while (this.buffered.length < length && (await this.fill()));
+    const result = this.buffered.subarray(0, length);
+    this.buffered = this.buffered.subarray(result.length);
+    return result;
+  }
+
+  // The next `length` bytes as they arrive
+  async *stream(length: number): AsyncGenerator<Buffer> {
+    let remaining = length;
+    while (remaining > 0) {
+      if (this.buffered.length === 0 && !(await this.fill())) {
+        throw new ArchiveError('Truncated tar archive');
+      }
+      const chunk = this.buffered.subarray(0, remaining);
+      this.buffered = this.buffered.subarray(chunk.length);
+      remaining -= chunk.length;
+      yield chunk;
+    }
+  }
+
+  async skip(length: number): Promise<void> {
+    for await (const _chunk of this.stream(length));
+  }
+}
+
+async function readTar(source: AsyncIterable<Buffer>, extraction: Extraction): Promise<void> {
+  const reader = new ChunkReader(source[Symbol.asyncIterator]());
+  // Name overrides from a preceding GNU long name or PAX header
+  let nextPath: string | undefined;
+
+  for (;;) {
+    const header = await reader.read(TAR_BLOCK_SIZE);
+    // End of the archive: zero blocks, or the end of the data when they are missing
+    if (header.length === 0 || header.every((byte) => byte === 0)) break;
+    if (header.length < TAR_BLOCK_SIZE) throw new ArchiveError('Truncated tar archive');
+    if (!isTarHeader(header)) throw new ArchiveError('Invalid tar header');
+
+    const size = parseInt(readCString(header, 124, 12).trim() || '0', 8);
+    if (!Number.isFinite(size) || size < 0) throw new ArchiveError('Invalid tar header');
+    const type = String.fromCharCode(header[156] ?? 0);
+    const padding = Math.ceil(size / TAR_BLOCK_SIZE) * TAR_BLOCK_SIZE - size;
+
+    if (type === 'L' || type === 'x') {
+      if (size > MAX_TAR_META_BYTES) throw new ArchiveError('Invalid tar header');
+      const data = await reader.read(size);
+      nextPath = type === 'L' ? readCString(data, 0, data.length) : (readPaxPath(data) ?? nextPath);
+      await reader.skip(padding);
+      continue;
+    }
+
+    let entryPath = readCString(header, 0, 100);
+    if (readCString(header, 257, 6) === 'ustar') {
+      const prefix = readCString(header, 345, 155);
+      if (prefix) entryPath = `${prefix}/${entryPath}`;
+    }
+    entryPath = (nextPath ?? entryPath).replace(/^\.\//, '');
+    nextPath = undefined;
+
+    // Regular files only ('0', NUL for old archives, '7' contiguous files): links,
+    // devices and directories are skipped
+    if ((type === '0' || type === '\0' || type === '7') && !isIgnoredEntry(entryPath)) {
+      extraction.checkEntrySize(entryPath, size);
+      await extraction.write(entryPath, reader.stream(size));
+    } else {
+      await reader.skip(size);
+    }
+    await reader.skip(padding);
+  }
+}
+
+/**
+ * Extract the files of a zip, tar or tar.gz archive into temporary files.
+ * Entries are streamed to disk; exceeding a limit, or an entry path that is
+ * absolute or contains "..", fails the whole extraction.
+ * Directories, symbolic links, dotfiles and __MACOSX entries are skipped.
+ */
+export async function extractArchive(
+  archivePath: string,
+  limits: ExtractLimits
+): Promise<ExtractedFile[]> {
+  const handle = await fs.promises.open(archivePath, 'r');
+  let head: Buffer;
+  try {
+    head = await readAt(handle, 0, TAR_BLOCK_SIZE);
+  } finally {
+    await handle.close();
+  }
+
+  const extraction = new Extraction(limits);
+  try {
+    if (head.length >= 4 && head.readUInt32LE(0) === ZIP_LOCAL_HEADER) {
+      await extractZip(archivePath, extraction);
+    } else if (head.length >= 2 && head[0] === 0x1f && head[1] === 0x8b) {
+      await pipeline(fs.createReadStream(archivePath), zlib.createGunzip(), (source) =>
+        readTar(source, extraction)
+      );
+    } else if (head.length >= TAR_BLOCK_SIZE && isTarHeader(head)) {
+      // ustar, GNU and pre-POSIX (v7) tar, recognized by their header checksum
+      await pipeline(fs.createReadStream(archivePath), (source) => readTar(source, extraction));
+    } else {
+      throw new ArchiveError('Unsupported archive format (expected zip, tar or tar.gz)');
+    }
+  } catch (error) {
+    await extraction.discard();
+    if (extraction.failure) throw extraction.failure;
+    if (error instanceof ArchiveError) throw error;
+    // zlib errors: corrupt or truncated compressed data
+    if ((error as NodeJS.ErrnoException).code?.startsWith('Z_')) {
+      throw new ArchiveError('Invalid compressed data in archive');
+    }
+    throw error;
+  }
+  return extraction.files;
+}
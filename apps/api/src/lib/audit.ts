@@ -0,0 +1,102 @@
+import crypto from 'crypto';
+import type { Next, ParameterizedContext } from 'koa';
+import { toGrantStoreName } from './access.js';
+import type { AuthState } from './auth.js';
+import { getHttpStatus } from './errors.js';
+import { toDocumentPath } from './gemini.js';
+import { getStorage, type AuditRecord, type AuditSource } from './storage/index.js';
+
+// Sent by the dashboard and the CLI to tell where a request comes from
+const CLIENT_HEADER = 'x-gemindex-client';
+const CLIENT_SOURCES: AuditSource[] = ['dashboard', 'cli'];
+
+export interface AuditState extends AuthState {
+  // Filled in by a handler when the route parameters do not tell the whole story
+  audit?: Pick<AuditRecord, 'storeName' | 'documentName' | 'details'>;
+}
+
+type AuditContext = ParameterizedContext<AuditState> & {
+  params: Record<string, string | undefined>;
+};
+
+// Who made a request and through which client
+export type AuditActor = Pick<AuditRecord, 'actor' | 'actorLabel' | 'source'>;
+
+export function getRequestSource(ctx: ParameterizedContext): AuditSource {
+  if (ctx.path === '/mcp' || ctx.path.startsWith('/mcp/')) return 'mcp';
+  const client = ctx.get(CLIENT_HEADER) as AuditSource;
+  return CLIENT_SOURCES.includes(client) ? client : 'api';
+}
+
+export function getAuditActor(ctx: ParameterizedContext<AuthState>): AuditActor {
+  return {
+    actor: ctx.state.auth?.subject ?? 'anonymous',
+    actorLabel: ctx.state.auth?.label,
+    source: getRequestSource(ctx),
+  };
+}
+
+/**
+ * Append an entry to the audit log. A failure to write it is logged and
+ * does not fail the request it describes.
+ */
+export async function recordAudit(entry: Omit<AuditRecord, 'id' | 'createTime'>): Promise<void> {
+  try {
+    const storage = await getStorage();
+    await storage.auditLog.append({
+      id: crypto.randomUUID(),
+      ...entry,
+      createTime: new Date().toISOString(),
+    });
+  } catch (error) {
+    console.warn(
+      `[audit] Failed to record ${entry.action}:`,
+      error instanceof Error ? error.message : error
+    );
+  }
+}
+
+function paramValue(ctx: AuditContext, name: string | undefined): string | undefined {
+  const value = name ? ctx.params[name] : undefined;
+  return value ? decodeURIComponent(value) : undefined;
+}
+
+/**
+ * Route middleware recording the request as `action` once it completes,
+ * successful or not (denied requests included). The target store and
+ * document come from the named route parameters.
+ */
+export function audit(action: string, storeParam?: string, documentParam?: string) {
+  return async (ctx: AuditContext, next: Next) => {
+    let thrown: unknown;
+    try {
+      await next();
+    } catch (error) {
+      thrown = error;
+    }
+
+    const status = thrown ? getHttpStatus(thrown) : ctx.status;
+    const store = paramValue(ctx, storeParam);
+    const document = paramValue(ctx, documentParam);
+    const body = ctx.body as { message?: unknown } | undefined;
+    const error =
+      thrown instanceof Error
+        ? thrown.message
+        : status >= 400 && typeof body?.message === 'string'
+          ? body.message
+          : undefined;
+
+    await recordAudit({
+      ...getAuditActor(ctx),
+      action,
+      storeName: store && toGrantStoreName(store),
+      documentName: (store && document && toDocumentPath(store, document)) || undefined,
+      result: status < 400 ? 'success' : 'failure',
+      status,
+      error,
+      ...ctx.state.audit,
+    });
+
+    if (thrown) throw thrown;
+  };
+}
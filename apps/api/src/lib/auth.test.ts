@@ -0,0 +1,123 @@
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import { beforeEach, describe, it, mock } from 'node:test';
+import type { ParameterizedContext } from 'koa';
+import { authMiddleware, generateApiKey, type AuthState } from './auth.js';
+import { getStorage } from './storage/index.js';
+
+const BOOTSTRAP_KEY = 'bootstrap-secret';
+
+// Minimal Koa context for authMiddleware, from a socket address with no proxy headers
+function createContext(path: string, authorization?: string) {
+  const headers: Record<string, string> = {};
+  return {
+    path,
+    headers: { ...(authorization && { authorization }) },
+    req: { socket: { remoteAddress: '127.0.0.1' } },
+    state: {},
+    status: 404,
+    body: undefined as unknown,
+    get: () => '',
+    set: (name: string, value: string) => {
+      headers[name] = value;
+    },
+    responseHeaders: headers,
+  } as unknown as ParameterizedContext<AuthState> & { responseHeaders: Record<string, string> };
+}
+
+async function authorize(path: string, authorization?: string) {
+  const ctx = createContext(path, authorization);
+  const next = mock.fn(async () => {});
+  await authMiddleware(ctx, next);
+  return { ctx, passed: next.mock.callCount() === 1 };
+}
+
+// Store a new API key, optionally expired, with roles; returns the key
+async function createKey(
+  grants: { storeName: string; role: 'viewer' | 'editor' | 'admin' }[],
+  expireTime?: string
+): Promise<{ id: string; key: string }> {
+  const storage = await getStorage();
+  const { key, prefix, keyHash } = generateApiKey();
+  const id = crypto.randomUUID();
+  const createTime = new Date().toISOString();
+  await storage.apiKeys.create({ id, label: 'Test key', prefix, keyHash, expireTime, createTime });
+  for (const grant of grants) {
+    await storage.roleGrants.put({ subject: `key:${id}`, ...grant, createTime });
+  }
+  return { id, key };
+}
+
+describe('authMiddleware', () => {
+  beforeEach(() => {
+    process.env.STORAGE_DRIVER = 'memory';
+    process.env.API_AUTH_ENABLED = 'true';
+    process.env.API_BOOTSTRAP_KEY = BOOTSTRAP_KEY;
+    delete process.env.TRUSTED_PROXY_CIDRS;
+  });
+
+  it('gives every request every role when auth is disabled', async () => {
+    process.env.API_AUTH_ENABLED = 'false';
+
+    const { ctx, passed } = await authorize('/api/stores');
+
+    assert.equal(passed, true);
+    assert.equal(ctx.state.access?.unrestricted, true);
+  });
+
+  it('leaves the health check and non-API paths open', async () => {
+    assert.equal((await authorize('/api/health')).passed, true);
+    assert.equal((await authorize('/mcp')).passed, true);
+  });
+
+  it('requires a bearer token', async () => {
+    const { ctx, passed } = await authorize('/api/stores', 'Basic dXNlcjpwYXNz');
+
+    assert.equal(passed, false);
+    assert.equal(ctx.status, 401);
+    assert.equal(ctx.responseHeaders['WWW-Authenticate'], 'Bearer realm="GemIndex"');
+  });
+
+  it('rejects unknown and expired keys', async () => {
+    const expired = await createKey([], new Date(Date.now() - 1000).toISOString());
+
+    for (const key of ['gmx_unknown', expired.key]) {
+      const { ctx, passed } = await authorize('/api/stores', `Bearer ${key}`);
+      assert.equal(passed, false);
+      assert.equal(ctx.status, 401);
+      assert.deepEqual(ctx.body, { message: 'Invalid or expired API key' });
+    }
+  });
+
+  it('identifies a stored key and resolves its roles', async () => {
+    const { id, key } = await createKey([{ storeName: 'fileSearchStores/docs', role: 'editor' }]);
+
+    const { ctx, passed } = await authorize('/api/stores', `Bearer ${key}`);
+
+    assert.equal(passed, true);
+    assert.deepEqual(ctx.state.auth, { subject: `key:${id}`, label: 'Test key' });
+    assert.equal(ctx.state.access?.unrestricted, false);
+    assert.equal(ctx.state.access?.can('editor', 'docs'), true);
+    assert.equal(ctx.state.access?.can('admin', 'docs'), false);
+    assert.equal(ctx.state.access?.can('viewer', 'wiki'), false);
+
+    const storage = await getStorage();
+    assert.ok((await storage.apiKeys.get(id))?.lastUsedTime);
+  });
+
+  it('gives the bootstrap key every role', async () => {
+    const { ctx, passed } = await authorize('/api/keys', `Bearer ${BOOTSTRAP_KEY}`);
+
+    assert.equal(passed, true);
+    assert.equal(ctx.state.auth?.subject, 'key:bootstrap');
+    assert.equal(ctx.state.access?.unrestricted, true);
+  });
+
+  it('does not accept the bootstrap key once it is unset', async () => {
+    process.env.API_BOOTSTRAP_KEY = '';
+
+    const { ctx } = await authorize('/api/keys', `Bearer ${BOOTSTRAP_KEY}`);
+
+    assert.equal(ctx.status, 401);
+  });
+});
@@ -0,0 +1,136 @@
+import crypto from 'crypto';
+import type { Next, ParameterizedContext } from 'koa';
+import { resolveAccess, UNRESTRICTED_ACCESS, type AccessState } from './access.js';
+import { getProxyIdentity } from './proxy-auth.js';
+import { getStorage, type ApiKeyRecord } from './storage/index.js';
+
+const KEY_PREFIX = 'gmx_';
+// Characters of a key kept in clear, e.g. "gmx_AbCd"
+const DISPLAY_PREFIX_LENGTH = KEY_PREFIX.length + 4;
+// lastUsedTime is only written when older than this, not on every request
+const LAST_USED_RESOLUTION_MS = 60_000;
+
+// Paths under /api that never require a key
+const PUBLIC_PATHS = ['/api/health'];
+
+// Subject of the bootstrap key, which has every role
+const BOOTSTRAP_SUBJECT = 'key:bootstrap';
+
+// Caller of an authenticated request, available as ctx.state.auth.
+// The subject ("key:{id}" or "user:{name}") is what role grants refer to.
+export interface AuthIdentity {
+  subject: string;
+  label: string;
+  // Users signed in through the trusted proxy
+  email?: string;
+  groups?: string[];
+}
+
+export interface AuthState extends AccessState {
+  auth?: AuthIdentity;
+}
+
+export function keySubject(keyId: string): string {
+  return `key:${keyId}`;
+}
+
+export function isAuthEnabled(): boolean {
+  return process.env.API_AUTH_ENABLED === 'true';
+}
+
+export function hashApiKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Generate a new API key. The key is returned to the caller once; only its
+ * hash and display prefix are stored.
+ */
+export function generateApiKey(): { key: string; prefix: string; keyHash: string } {
+  const key = `${KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  return { key, prefix: key.slice(0, DISPLAY_PREFIX_LENGTH), keyHash: hashApiKey(key) };
+}
+
+export function isKeyExpired(key: ApiKeyRecord, now = Date.now()): boolean {
+  return !!key.expireTime && Date.parse(key.expireTime) <= now;
+}
+
+/**
+ * Identify the caller of a bearer token: a stored, unexpired API key or the
+ * bootstrap key from API_BOOTSTRAP_KEY.
+ */
+export async function authenticate(token: string): Promise<AuthIdentity | undefined> {
+  const keyHash = hashApiKey(token);
+
+  const bootstrapKey = process.env.API_BOOTSTRAP_KEY;
+  if (
+    bootstrapKey &&
+    crypto.timingSafeEqual(Buffer.from(hashApiKey(bootstrapKey)), Buffer.from(keyHash))
+  ) {
+    return { subject: BOOTSTRAP_SUBJECT, label: 'Bootstrap key (API_BOOTSTRAP_KEY)' };
+  }
+
+  const storage = await getStorage();
+  const key = await storage.apiKeys.findByHash(keyHash);
+  if (!key || isKeyExpired(key)) return undefined;
+
+  const now = new Date();
+  if (!key.lastUsedTime || now.getTime() - Date.parse(key.lastUsedTime) > LAST_USED_RESOLUTION_MS) {
+    await storage.apiKeys.setLastUsed(key.id, now.toISOString());
+  }
+  return { subject: keySubject(key.id), label: key.label };
+}
+
+// Roles of an authenticated caller, including those granted to its groups
+export async function accessFor(identity: AuthIdentity) {
+  if (identity.subject === BOOTSTRAP_SUBJECT) return UNRESTRICTED_ACCESS;
+  return resolveAccess([
+    identity.subject,
+    ...(identity.groups ?? []).map((group) => `group:${group}`),
+  ]);
+}
+
+/**
+ * Require an API key (Authorization: Bearer <key>) on /api routes when
+ * API_AUTH_ENABLED is true, and resolve the caller's roles into
+ * ctx.state.access. Users signed in through a trusted proxy need no key.
+ * Without auth every request has every role. /mcp authenticates on its own.
+ */
+export async function authMiddleware(ctx: ParameterizedContext<AuthState>, next: Next) {
+  if (!ctx.path.startsWith('/api/') || PUBLIC_PATHS.includes(ctx.path)) {
+    return next();
+  }
+
+  // The proxy may also pass its own bearer token, so its identity comes first
+  const proxyIdentity = getProxyIdentity(ctx);
+  if (proxyIdentity) {
+    ctx.state.auth = proxyIdentity;
+    ctx.state.access = isAuthEnabled() ? await accessFor(proxyIdentity) : UNRESTRICTED_ACCESS;
+    return next();
+  }
+
+  if (!isAuthEnabled()) {
+    ctx.state.access = UNRESTRICTED_ACCESS;
+    return next();
+  }
+
+  const authHeader = ctx.headers.authorization;
+  if (!authHeader?.startsWith('Bearer ')) {
+    ctx.status = 401;
+    ctx.set('WWW-Authenticate', 'Bearer realm="GemIndex"');
+    ctx.body = { message: 'Authentication required: send an API key as a Bearer token' };
+    return;
+  }
+
+  const identity = await authenticate(authHeader.slice(7).trim());
+  if (!identity) {
+    ctx.status = 401;
+    ctx.set('WWW-Authenticate', 'Bearer realm="GemIndex", error="invalid_token"');
+    ctx.body = { message: 'Invalid or expired API key' };
+    return;
+  }
+
+  ctx.state.auth = identity;
+  ctx.state.access = await accessFor(identity);
+  return next();
+}
@@ -0,0 +1,67 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+const SHA256_PATTERN = /^[0-9a-f]{64}$/;
+
+export interface StoredBlob {
+  path: string;
+  size: number;
+}
+
+/**
+ * Directory where original uploads are kept (BLOB_STORE_PATH), or undefined
+ * when originals are not retained.
+ */
+export function getBlobStorePath(): string | undefined {
+  return process.env.BLOB_STORE_PATH || undefined;
+}
+
+// Blobs are sharded by the first two hex digits: {dir}/ab/abcdef...
+function blobPath(dir: string, sha256: string): string {
+  return path.join(dir, sha256.slice(0, 2), sha256);
+}
+
+/**
+ * Keep a copy of an uploaded file, keyed by its SHA-256. Content already in the
+ * store is not copied again. Does nothing when the blob store is disabled.
+ */
+export async function putBlob(sha256: string, filePath: string): Promise<void> {
+  const dir = getBlobStorePath();
+  if (!dir || !SHA256_PATTERN.test(sha256)) return;
+
+  const target = blobPath(dir, sha256);
+  const exists = await fs.access(target).then(
+    () => true,
+    () => false
+  );
+  if (exists) return;
+
+  // Copy next to the target and rename, so a blob is never read half-written
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  const partial = `${target}.${crypto.randomUUID()}.partial`;
+  try {
+    await fs.copyFile(filePath, partial);
+    await fs.rename(partial, target);
+  } catch (error) {
+    await fs.unlink(partial).catch(() => {});
+    throw error;
+  }
+}
+
+/**
+ * Find the original content with the given SHA-256, if it was retained.
+ */
+export async function getBlob(sha256: string): Promise<StoredBlob | undefined> {
+  const dir = getBlobStorePath();
+  // The hash comes from document metadata; never let it escape the directory
+  if (!dir || !SHA256_PATTERN.test(sha256)) return undefined;
+
+  const target = blobPath(dir, sha256);
+  try {
+    const stat = await fs.stat(target);
+    return stat.isFile() ? { path: target, size: stat.size } : undefined;
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,75 @@
+import crypto from 'crypto';
+import type { ConversationTurn, GroundingChunk, GroundingSupport, SearchConfig } from './gemini.js';
+
+// Sessions are kept in memory; the least recently updated ones are evicted past this limit
+const MAX_CHAT_SESSIONS = 500;
+// Only the most recent turns are re-sent to Gemini to bound request size
+const MAX_HISTORY_TURNS = 20;
+
+export type ChatConfig = Omit<SearchConfig, 'history'>;
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+  // Grounding for model turns
+  sources?: GroundingChunk[];
+  supports?: GroundingSupport[];
+  createTime: string;
+}
+
+export interface ChatSession {
+  id: string;
+  storeName: string;
+  config: ChatConfig;
+  messages: ChatMessage[];
+  createTime: string;
+  updateTime: string;
+}
+
+const sessions = new Map<string, ChatSession>();
+
+export function createChat(storeName: string, config: ChatConfig): ChatSession {
+  const now = new Date().toISOString();
+  const chat: ChatSession = {
+    id: crypto.randomUUID(),
+    storeName: storeName.startsWith('fileSearchStores/')
+      ? storeName
+      : `fileSearchStores/${storeName}`,
+    config,
+    messages: [],
+    createTime: now,
+    updateTime: now,
+  };
+
+  sessions.set(chat.id, chat);
+  if (sessions.size > MAX_CHAT_SESSIONS) {
+    const oldest = [...sessions.values()].sort((a, b) =>
+      a.updateTime.localeCompare(b.updateTime)
+    )[0];
+    if (oldest) sessions.delete(oldest.id);
+  }
+  return chat;
+}
+
+export function getChat(id: string): ChatSession | undefined {
+  return sessions.get(id);
+}
+
+export function deleteChat(id: string): boolean {
+  return sessions.delete(id);
+}
+
+/**
+ * Append a user question and the model's grounded answer to a chat.
+ */
+export function appendTurn(chat: ChatSession, question: ChatMessage, answer: ChatMessage): void {
+  chat.messages.push(question, answer);
+  chat.updateTime = answer.createTime;
+}
+
+/**
+ * Conversation history to re-send to Gemini, limited to the most recent turns.
+ */
+export function getHistory(chat: ChatSession): ConversationTurn[] {
+  return chat.messages.slice(-MAX_HISTORY_TURNS).map(({ role, text }) => ({ role, text }));
+}
@@ -0,0 +1,122 @@
+import { getBlob } from './blobs.js';
+import * as gemini from './gemini.js';
+import { GeminiNotFoundError } from './errors.js';
+import type { DocumentUpdateJobPayload } from './jobs.js';
+import { getStorage } from './storage/index.js';
+
+/**
+ * A document change that cannot be applied: the new name is taken, or the
+ * content needed for the copy is no longer available.
+ */
+export class DocumentUpdateConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DocumentUpdateConflictError';
+  }
+}
+
+export interface DocumentChanges {
+  displayName?: string;
+  customMetadata?: gemini.CustomMetadata[];
+}
+
+function sameMetadata(a: gemini.CustomMetadata[], b: gemini.CustomMetadata[]): boolean {
+  const normalize = (entries: gemini.CustomMetadata[]) =>
+    JSON.stringify(
+      [...entries]
+        .sort((x, y) => x.key.localeCompare(y.key))
+        .map((m) => [m.key, m.stringValue ?? null, m.numericValue ?? null])
+    );
+  return normalize(a) === normalize(b);
+}
+
+// Whether a recorded Files API upload has passed its expiration time
+function isExpired(record: { expireTime?: string }): boolean {
+  return !!record.expireTime && Date.parse(record.expireTime) <= Date.now();
+}
+
+/**
+ * Whether a document's content can still be re-imported for a rename or
+ * metadata change: its Files API upload has not expired, or its original is
+ * in the blob store. Only checks local records, without calling Gemini.
+ */
+export async function canUpdateDocument(file: gemini.FileSearchStoreFile): Promise<boolean> {
+  if (!file.sha256) return false;
+  const storage = await getStorage();
+  const source = await storage.uploadedFiles.get(file.sha256);
+  if (source && !isExpired(source)) return true;
+  return !!(await getBlob(file.sha256));
+}
+
+// Files with their `updatable` flag, as listed by the API
+export async function withUpdatable(files: gemini.FileSearchStoreFile[]) {
+  return Promise.all(
+    files.map(async (file) => ({ ...file, updatable: await canUpdateDocument(file) }))
+  );
+}
+
+/**
+ * Check a rename or metadata change and find the content to re-import.
+ *
+ * Gemini documents cannot be modified once imported, so changes are applied by
+ * importing the document's Files API upload again and deleting the old
+ * document. Gemini keeps uploads for 48 hours; after that the original kept in
+ * the blob store (BLOB_STORE_PATH) is uploaded again, and without one the
+ * change is refused. Returns the document, plus the job payload when there is
+ * something to change.
+ */
+export async function prepareDocumentUpdate(
+  storeName: string,
+  documentName: string,
+  changes: DocumentChanges
+): Promise<{ file: gemini.FileSearchStoreFile; payload?: DocumentUpdateJobPayload }> {
+  const file = await gemini.getFile(storeName, documentName);
+  const currentName = file.originalDisplayName || file.displayName || '';
+  const displayName = changes.displayName ?? currentName;
+  const customMetadata = changes.customMetadata ?? file.metadata ?? [];
+
+  if (displayName === currentName && sameMetadata(customMetadata, file.metadata ?? [])) {
+    return { file };
+  }
+
+  if (displayName !== currentName) {
+    const existing = await gemini.listFiles(storeName);
+    const taken = existing.some(
+      (f) => f.name !== file.name && (f.originalDisplayName || f.displayName) === displayName
+    );
+    if (taken) {
+      throw new DocumentUpdateConflictError(`A file named "${displayName}" already exists`);
+    }
+  }
+
+  const unavailable = new DocumentUpdateConflictError(
+    'The uploaded content of this file is no longer available; re-upload it to change its name or metadata'
+  );
+  if (!file.sha256) throw unavailable;
+
+  const storage = await getStorage();
+  const source = await storage.uploadedFiles.get(file.sha256);
+  let sourceFile = source && !isExpired(source) ? source.fileName : undefined;
+  if (sourceFile) {
+    try {
+      await gemini.getUploadedFile(sourceFile);
+    } catch (error) {
+      if (!(error instanceof GeminiNotFoundError)) throw error;
+      await storage.uploadedFiles.delete(file.sha256);
+      sourceFile = undefined;
+    }
+  }
+  // Without a Files API upload, the job uploads the retained original again
+  if (!sourceFile && !(await getBlob(file.sha256))) throw unavailable;
+
+  return {
+    file,
+    payload: {
+      documentName: file.name,
+      ...(sourceFile && { sourceFile }),
+      sha256: file.sha256,
+      uploadedAt: file.customMetadata?.find((m) => m.key === 'uploadedAt')?.stringValue,
+      config: { displayName, customMetadata, chunkingConfig: source?.chunkingConfig },
+    },
+  };
+}
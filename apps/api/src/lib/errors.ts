@@ -0,0 +1,167 @@
+import type { ParameterizedContext } from 'koa';
+
+// Error payload returned by Google APIs: { error: { code, message, status, details } }
+export interface GoogleErrorBody {
+  error?: {
+    code?: number;
+    message?: string;
+    status?: string;
+    details?: unknown[];
+  };
+}
+
+/**
+ * Base error for failed Gemini API calls.
+ * Carries the upstream HTTP status and Google's canonical status/details.
+ */
+export class GeminiApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly code?: string,
+    public readonly details: unknown[] = []
+  ) {
+    super(message);
+    this.name = 'GeminiApiError';
+  }
+}
+
+export class GeminiNotFoundError extends GeminiApiError {
+  constructor(message: string, status = 404, code?: string, details?: unknown[]) {
+    super(message, status, code, details);
+    this.name = 'GeminiNotFoundError';
+  }
+}
+
+export class GeminiPermissionError extends GeminiApiError {
+  constructor(message: string, status = 403, code?: string, details?: unknown[]) {
+    super(message, status, code, details);
+    this.name = 'GeminiPermissionError';
+  }
+}
+
+export class GeminiQuotaError extends GeminiApiError {
+  constructor(message: string, status = 429, code?: string, details?: unknown[]) {
+    super(message, status, code, details);
+    this.name = 'GeminiQuotaError';
+  }
+}
+
+export class GeminiInvalidArgumentError extends GeminiApiError {
+  constructor(message: string, status = 400, code?: string, details?: unknown[]) {
+    super(message, status, code, details);
+    this.name = 'GeminiInvalidArgumentError';
+  }
+}
+
+export class GeminiUpstreamError extends GeminiApiError {
+  constructor(message: string, status = 502, code?: string, details?: unknown[]) {
+    super(message, status, code, details);
+    this.name = 'GeminiUpstreamError';
+  }
+}
+
+/**
+ * The caller's role does not allow the request.
+ */
+export class AccessDeniedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AccessDeniedError';
+  }
+}
+
+/**
+ * The store's protection level does not allow the request.
+ */
+export class StoreProtectedError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StoreProtectedError';
+  }
+}
+
+/**
+ * Parse a Google error response body, tolerating empty or non-JSON payloads.
+ */
+export function parseGoogleErrorBody(text: string): GoogleErrorBody {
+  try {
+    return JSON.parse(text) as GoogleErrorBody;
+  } catch {
+    return text ? { error: { message: text } } : {};
+  }
+}
+
+/**
+ * Create the matching GeminiApiError subclass for an HTTP status and error body.
+ */
+export function createGeminiApiError(
+  status: number,
+  body: GoogleErrorBody,
+  fallbackMessage = `HTTP ${status}`
+): GeminiApiError {
+  const message = body.error?.message || fallbackMessage;
+  const code = body.error?.status;
+  const details = body.error?.details ?? [];
+
+  if (status === 429 || code === 'RESOURCE_EXHAUSTED') {
+    return new GeminiQuotaError(message, status, code, details);
+  }
+  if (status === 404) {
+    return new GeminiNotFoundError(message, status, code, details);
+  }
+  if (status === 401 || status === 403) {
+    return new GeminiPermissionError(message, status, code, details);
+  }
+  if (status === 400) {
+    return new GeminiInvalidArgumentError(message, status, code, details);
+  }
+  if (status >= 500) {
+    return new GeminiUpstreamError(message, status, code, details);
+  }
+  return new GeminiApiError(message, status, code, details);
+}
+
+/**
+ * Build a GeminiApiError from a failed fetch Response.
+ */
+export async function geminiErrorFromResponse(
+  response: Response,
+  fallbackMessage?: string
+): Promise<GeminiApiError> {
+  const text = await response.text().catch(() => '');
+  return createGeminiApiError(response.status, parseGoogleErrorBody(text), fallbackMessage);
+}
+
+/**
+ * Map an error to the HTTP status our API should respond with.
+ */
+export function getHttpStatus(error: unknown): number {
+  if (error instanceof AccessDeniedError) return 403;
+  if (error instanceof StoreProtectedError) return 403;
+  if (error instanceof GeminiNotFoundError) return 404;
+  if (error instanceof GeminiPermissionError) return 403;
+  if (error instanceof GeminiQuotaError) return 429;
+  if (error instanceof GeminiInvalidArgumentError) return 400;
+  if (error instanceof GeminiUpstreamError) return error.status === 503 ? 503 : 502;
+  if (error instanceof GeminiApiError) return error.status >= 400 ? error.status : 502;
+  return 500;
+}
+
+/**
+ * Write an error response with the mapped status and Google error details.
+ */
+export function setErrorResponse(
+  ctx: ParameterizedContext,
+  error: unknown,
+  fallbackMessage: string
+): void {
+  ctx.status = getHttpStatus(error);
+  ctx.body = {
+    message: error instanceof Error && error.message ? error.message : fallbackMessage,
+    ...(error instanceof GeminiApiError && {
+      code: error.code,
+      details: error.details.length > 0 ? error.details : undefined,
+    }),
+  };
+}
@@ -0,0 +1,70 @@
+import assert from 'node:assert/strict';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import { search } from './gemini.js';
+
+const SYSTEM_PROMPT = 'Answer in one sentence.';
+
+// Stub Gemini: an empty document list and a canned answer; returns the generateContent bodies
+function stubGemini(): Record<string, unknown>[] {
+  const requests: Record<string, unknown>[] = [];
+  mock.method(globalThis, 'fetch', async (input: string | URL, init?: RequestInit) => {
+    const url = String(input);
+    if (url.includes('/documents')) {
+      return Response.json({ documents: [] });
+    }
+    if (url.includes(':generateContent')) {
+      requests.push(JSON.parse(String(init?.body)) as Record<string, unknown>);
+      return Response.json({ candidates: [{ content: { parts: [{ text: 'Answer' }] } }] });
+    }
+    return new Response('{}', { status: 404 });
+  });
+  return requests;
+}
+
+describe('search system prompt', () => {
+  beforeEach(() => {
+    process.env.GEMINI_API_KEY = 'test-key';
+    delete process.env.GEMINI_LEGACY_SYSTEM_PROMPT;
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  it('sends the system prompt as systemInstruction by default', async () => {
+    const requests = stubGemini();
+
+    const result = await search('store', 'What is it?', { systemPrompt: SYSTEM_PROMPT });
+
+    assert.equal(result.text, 'Answer');
+    assert.equal(requests.length, 1);
+    assert.deepEqual(requests[0]?.systemInstruction, { parts: [{ text: SYSTEM_PROMPT }] });
+    assert.deepEqual(requests[0]?.contents, [{ role: 'user', parts: [{ text: 'What is it?' }] }]);
+  });
+
+  it('sends user/model prompt turns in legacy mode', async () => {
+    const requests = stubGemini();
+
+    await search('store', 'What is it?', {
+      systemPrompt: SYSTEM_PROMPT,
+      legacySystemPrompt: true,
+    });
+
+    assert.equal(requests[0]?.systemInstruction, undefined);
+    assert.deepEqual(requests[0]?.contents, [
+      { role: 'user', parts: [{ text: SYSTEM_PROMPT }] },
+      { role: 'model', parts: [{ text: 'Understood. I will follow these instructions.' }] },
+      { role: 'user', parts: [{ text: 'What is it?' }] },
+    ]);
+  });
+
+  it('uses legacy mode when GEMINI_LEGACY_SYSTEM_PROMPT is set', async () => {
+    process.env.GEMINI_LEGACY_SYSTEM_PROMPT = 'true';
+    const requests = stubGemini();
+
+    await search('store', 'What is it?', { systemPrompt: SYSTEM_PROMPT });
+
+    assert.equal(requests[0]?.systemInstruction, undefined);
+    assert.equal((requests[0]?.contents as unknown[]).length, 3);
+  });
+});
@@ -1,8 +1,13 @@
 import fs from 'fs';
 import path from 'path';
 import crypto from 'crypto';
+import { GeminiUpstreamError, geminiErrorFromResponse } from './errors.js';
+import { fetchWithRetry } from './retry.js';
+import { uploadFileInChunks } from './resumable-upload.js';
 
 const GEMINI_API_BASE = 'https://generativelanguage.googleapis.com/v1beta';
+// Largest page size accepted by the list endpoints (fileSearchStores, documents)
+const MAX_PAGE_SIZE = 20;
 
 function getApiKey(): string {
   const apiKey = process.env.GEMINI_API_KEY;
@@ -12,27 +17,34 @@ function getApiKey(): string {
   return apiKey;
 }
 
-interface ApiError {
-  error?: { message?: string };
+interface FetchApiOptions extends RequestInit {
+  // Safe to retry on 5xx/network errors (defaults to true for GET and DELETE)
+  idempotent?: boolean;
 }
 
-async function fetchApi<T>(endpoint: string, options?: RequestInit): Promise<T> {
+async function fetchApi<T>(endpoint: string, options?: FetchApiOptions): Promise<T> {
   const apiKey = getApiKey();
   const url = `${GEMINI_API_BASE}${endpoint}${endpoint.includes('?') ? '&' : '?'}key=${apiKey}`;
-
-  const response = await fetch(url, {
-    ...options,
-    headers: {
-      'Content-Type': 'application/json',
-      ...options?.headers,
+  const { idempotent, ...init } = options ?? {};
+  const method = init.method ?? 'GET';
+
+  const response = await fetchWithRetry(
+    url,
+    {
+      ...init,
+      headers: {
+        'Content-Type': 'application/json',
+        ...init.headers,
+      },
     },
-  });
+    {
+      label: `${method} ${endpoint.split('?')[0]}`,
+      idempotent: idempotent ?? (method === 'GET' || method === 'DELETE'),
+    }
+  );
 
   if (!response.ok) {
-    const errorData = (await response
-      .json()
-      .catch(() => ({ error: { message: 'Unknown error' } }))) as ApiError;
-    throw new Error(errorData.error?.message || `HTTP ${response.status}`);
+    throw await geminiErrorFromResponse(response);
   }
 
   return response.json() as Promise<T>;
@@ -61,6 +73,7 @@ export interface FileSearchStoreFile {
   displayName?: string;
   originalDisplayName?: string; // Original filename (from customMetadata or Files API)
   sha256?: string; // SHA256 hash for sync comparison (from customMetadata)
+  configHash?: string; // Hash of the chunking config and user metadata (from customMetadata)
   state?: string;
   createTime?: string;
   updateTime?: string;
@@ -68,12 +81,28 @@ export interface FileSearchStoreFile {
   mimeType?: string;
   uri?: string;
   customMetadata?: CustomMetadata[];
+  metadata?: CustomMetadata[]; // User-defined entries (customMetadata minus reserved keys)
   error?: {
     code: number;
     message: string;
   };
 }
 
+export interface ListOptions {
+  pageSize?: number;
+  pageToken?: string;
+}
+
+export interface ListStoresPage {
+  stores: FileSearchStore[];
+  nextPageToken?: string;
+}
+
+export interface ListFilesPage {
+  files: FileSearchStoreFile[];
+  nextPageToken?: string;
+}
+
 export interface Operation {
   name?: string;
   done?: boolean;
@@ -84,10 +113,35 @@ export interface Operation {
   response?: unknown;
 }
 
+// Build list endpoint with pagination query params
+function withPageParams(endpoint: string, options?: ListOptions): string {
+  const params = new URLSearchParams();
+  if (options?.pageSize) params.set('pageSize', String(options.pageSize));
+  if (options?.pageToken) params.set('pageToken', options.pageToken);
+  const query = params.toString();
+  return query ? `${endpoint}?${query}` : endpoint;
+}
+
 // Store operations
+export async function listStoresPage(options?: ListOptions): Promise<ListStoresPage> {
+  const data = await fetchApi<{ fileSearchStores?: FileSearchStore[]; nextPageToken?: string }>(
+    withPageParams('/fileSearchStores', options)
+  );
+  return {
+    stores: data.fileSearchStores ?? [],
+    nextPageToken: data.nextPageToken || undefined,
+  };
+}
+
 export async function listStores(): Promise<FileSearchStore[]> {
-  const data = await fetchApi<{ fileSearchStores?: FileSearchStore[] }>('/fileSearchStores');
-  return data.fileSearchStores ?? [];
+  const stores: FileSearchStore[] = [];
+  let pageToken: string | undefined;
+  do {
+    const page = await listStoresPage({ pageSize: MAX_PAGE_SIZE, pageToken });
+    stores.push(...page.stores);
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+  return stores;
 }
 
 export async function createStore(displayName: string): Promise<FileSearchStore> {
@@ -109,6 +163,18 @@ export async function deleteStore(name: string, force = false): Promise<void> {
   });
 }
 
+// customMetadata keys managed by GemIndex itself
+export const RESERVED_METADATA_KEYS = ['originalFileName', 'uploadedAt', 'sha256', 'configHash'];
+
+// Gemini allows at most 20 customMetadata entries per document
+export const MAX_CUSTOM_METADATA = 20 - RESERVED_METADATA_KEYS.length;
+
+// Helper to extract user-defined entries from customMetadata
+function getUserMetadata(customMetadata?: CustomMetadata[]): CustomMetadata[] {
+  if (!customMetadata) return [];
+  return customMetadata.filter((m) => !RESERVED_METADATA_KEYS.includes(m.key));
+}
+
 // Helper to extract original filename from customMetadata
 function getOriginalFileName(customMetadata?: CustomMetadata[]): string | undefined {
   if (!customMetadata) return undefined;
@@ -123,177 +189,327 @@ function getSha256(customMetadata?: CustomMetadata[]): string | undefined {
   return meta?.stringValue;
 }
 
+// Helper to extract the config hash from customMetadata
+function getConfigHash(customMetadata?: CustomMetadata[]): string | undefined {
+  if (!customMetadata) return undefined;
+  const meta = customMetadata.find((m) => m.key === 'configHash');
+  return meta?.stringValue;
+}
+
+// Extract original filename, sha256 and config hash from customMetadata
+function toStoreFile(doc: FileSearchStoreFile): FileSearchStoreFile {
+  return {
+    ...doc,
+    originalDisplayName: getOriginalFileName(doc.customMetadata),
+    sha256: getSha256(doc.customMetadata),
+    configHash: getConfigHash(doc.customMetadata),
+    metadata: getUserMetadata(doc.customMetadata),
+  };
+}
+
+// Full resource name of a document. documentName can be:
+// - Full path: "fileSearchStores/{store}/documents/{id}"
+// - "documents/{id}" or the document ID only: "{id}"
+export function toDocumentPath(storeName: string, documentName: string): string {
+  if (documentName.startsWith('fileSearchStores/')) return documentName;
+  const name = storeName.startsWith('fileSearchStores/')
+    ? storeName
+    : `fileSearchStores/${storeName}`;
+  return documentName.startsWith('documents/')
+    ? `${name}/${documentName}`
+    : `${name}/documents/${documentName}`;
+}
+
 // File operations (documents in Gemini API terminology)
-export async function listFiles(storeName: string): Promise<FileSearchStoreFile[]> {
+export async function listFilesPage(
+  storeName: string,
+  options?: ListOptions
+): Promise<ListFilesPage> {
   const name = storeName.startsWith('fileSearchStores/')
     ? storeName
     : `fileSearchStores/${storeName}`;
-  try {
-    const data = await fetchApi<{ documents?: FileSearchStoreFile[] }>(`/${name}/documents`);
-    const documents = data.documents ?? [];
-
-    // Extract original filename and sha256 from customMetadata
-    return documents.map((doc) => ({
-      ...doc,
-      originalDisplayName: getOriginalFileName(doc.customMetadata),
-      sha256: getSha256(doc.customMetadata),
-    }));
-  } catch (error) {
-    console.error('Error listing files:', error);
-    return [];
-  }
+  const data = await fetchApi<{ documents?: FileSearchStoreFile[]; nextPageToken?: string }>(
+    withPageParams(`/${name}/documents`, options)
+  );
+  const documents = data.documents ?? [];
+
+  return {
+    files: documents.map(toStoreFile),
+    nextPageToken: data.nextPageToken || undefined,
+  };
+}
+
+export async function listFiles(storeName: string): Promise<FileSearchStoreFile[]> {
+  const files: FileSearchStoreFile[] = [];
+  let pageToken: string | undefined;
+  do {
+    const page = await listFilesPage(storeName, { pageSize: MAX_PAGE_SIZE, pageToken });
+    files.push(...page.files);
+    pageToken = page.nextPageToken;
+  } while (pageToken);
+  return files;
+}
+
+export async function getFile(
+  storeName: string,
+  documentName: string
+): Promise<FileSearchStoreFile> {
+  const doc = await fetchApi<FileSearchStoreFile>(`/${toDocumentPath(storeName, documentName)}`);
+  return toStoreFile(doc);
+}
+
+export interface ChunkingConfig {
+  whiteSpaceConfig?: {
+    maxTokensPerChunk?: number;
+    maxOverlapTokens?: number;
+  };
 }
 
 export interface UploadConfig {
   displayName?: string;
+  chunkingConfig?: ChunkingConfig;
+  customMetadata?: CustomMetadata[];
 }
 
-export async function uploadFile(
+// A file uploaded to the Files API, from which documents are imported.
+// Gemini deletes it after expirationTime (48 hours)
+export interface UploadedFile {
+  name: string; // files/{id}
+  sha256: string;
+  expirationTime?: string;
+}
+
+export interface UploadOptions {
+  // Documents replaced by this upload. When omitted, the store is listed for
+  // documents with the same original file name
+  replaces?: string[];
+  // Called with the documents about to be replaced, before they are deleted;
+  // throwing cancels the upload
+  beforeReplace?: (documentNames: string[]) => void | Promise<void>;
+  // Called once the content is uploaded, before the file is imported into the store
+  onImporting?: (file: UploadedFile) => void | Promise<void>;
+}
+
+export interface ImportOptions {
+  displayName: string;
+  sha256: string;
+  // Defaults to now; kept from the original document when copying it
+  uploadedAt?: string;
+  customMetadata?: CustomMetadata[];
+  chunkingConfig?: ChunkingConfig;
+}
+
+/**
+ * Hash of the settings a document was imported with (chunking config and user
+ * metadata, in key order), so a sync can re-upload files whose settings changed.
+ * Matches the CLI's computeConfigHash.
+ */
+export function computeConfigHash(config: {
+  chunkingConfig?: ChunkingConfig;
+  customMetadata?: CustomMetadata[];
+}): string {
+  const whiteSpace = config.chunkingConfig?.whiteSpaceConfig;
+  const canonical = JSON.stringify({
+    chunking: whiteSpace
+      ? [whiteSpace.maxTokensPerChunk, whiteSpace.maxOverlapTokens ?? null]
+      : null,
+    metadata: [...(config.customMetadata ?? [])]
+      .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+      .map((m) => [m.key, m.stringValue ?? null, m.numericValue ?? null]),
+  });
+  return crypto.createHash('sha256').update(canonical).digest('hex');
+}
+
+// Get a Files API file, e.g. to check that it has not expired yet
+export async function getUploadedFile(
+  fileName: string
+): Promise<{ name: string; expirationTime?: string; state?: string }> {
+  return fetchApi(`/${fileName}`);
+}
+
+/**
+ * Import a Files API file into a store as a new document, with GemIndex's
+ * reserved metadata (originalFileName, uploadedAt, sha256, configHash) first.
+ */
+export async function importFile(
   storeName: string,
-  filePath: string,
-  config?: UploadConfig
+  fileName: string,
+  options: ImportOptions
 ): Promise<Operation> {
   const apiKey = getApiKey();
   const name = storeName.startsWith('fileSearchStores/')
     ? storeName
     : `fileSearchStores/${storeName}`;
+  const importUrl = `${GEMINI_API_BASE}/${name}:importFile?key=${apiKey}`;
+
+  const importResponse = await fetchWithRetry(
+    importUrl,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        file_name: fileName,
+        custom_metadata: [
+          { key: 'originalFileName', string_value: options.displayName },
+          { key: 'uploadedAt', string_value: options.uploadedAt ?? new Date().toISOString() },
+          { key: 'sha256', string_value: options.sha256 },
+          { key: 'configHash', string_value: computeConfigHash(options) },
+          ...(options.customMetadata ?? []).map((m) =>
+            m.numericValue !== undefined
+              ? { key: m.key, numeric_value: m.numericValue }
+              : { key: m.key, string_value: m.stringValue }
+          ),
+        ],
+        ...(options.chunkingConfig?.whiteSpaceConfig && {
+          chunking_config: {
+            white_space_config: {
+              max_tokens_per_chunk: options.chunkingConfig.whiteSpaceConfig.maxTokensPerChunk,
+              max_overlap_tokens: options.chunkingConfig.whiteSpaceConfig.maxOverlapTokens,
+            },
+          },
+        }),
+      }),
+    },
+    // Import creates a document, so only rate-limited (429) attempts are retried
+    { label: `POST /${name}:importFile`, idempotent: false }
+  );
 
-  const fileContent = fs.readFileSync(filePath);
+  if (!importResponse.ok) {
+    throw await geminiErrorFromResponse(
+      importResponse,
+      `Import failed: HTTP ${importResponse.status}`
+    );
+  }
+
+  const importResponseText = await importResponse.text();
+
+  let result: Operation;
+  try {
+    result = JSON.parse(importResponseText) as Operation;
+    // If response field exists, the operation is complete (Gemini API may not include done field)
+    if (result.response && result.done === undefined) {
+      result.done = true;
+    }
+  } catch {
+    // If response is empty but status is OK, create a minimal operation response
+    result = { done: true };
+  }
+
+  return result;
+}
+
+export async function uploadFile(
+  storeName: string,
+  filePath: string,
+  config?: UploadConfig,
+  options: UploadOptions = {}
+): Promise<Operation> {
   const displayName = config?.displayName || path.basename(filePath);
-  // Use displayName for mimeType detection since filePath might be a temp file without extension
-  const mimeType = getMimeType(displayName);
-  // Calculate SHA256 hash for sync comparison
-  const fileHash = crypto.createHash('sha256').update(fileContent).digest('hex');
 
   // Step 0: Delete existing files with the same originalFileName (overwrite behavior)
-  const existingFiles = await listFiles(storeName);
-  const duplicates = existingFiles.filter((f) => f.originalDisplayName === displayName);
-  await Promise.all(duplicates.map((f) => deleteFile(storeName, f.name)));
+  const duplicates =
+    options.replaces ??
+    (await listFiles(storeName))
+      .filter((f) => f.originalDisplayName === displayName)
+      .map((f) => f.name);
+  if (duplicates.length > 0) await options.beforeReplace?.(duplicates);
+  await Promise.all(duplicates.map((documentName) => deleteFile(storeName, documentName)));
 
-  // Step 1: Upload file to Files API first
+  // Steps 1-2: Upload file to Files API first
+  const uploadedFile = await uploadToFilesApi(filePath, displayName);
+
+  // Step 3: Import file to store using :importFile endpoint with custom metadata
+  await options.onImporting?.(uploadedFile);
+
+  return importFile(storeName, uploadedFile.name, {
+    displayName,
+    sha256: uploadedFile.sha256,
+    customMetadata: config?.customMetadata,
+    chunkingConfig: config?.chunkingConfig,
+  });
+}
+
+/**
+ * Upload a file to the Files API with a resumable upload, without importing
+ * it into a store. displayName also determines the MIME type.
+ */
+export async function uploadToFilesApi(
+  filePath: string,
+  displayName: string
+): Promise<UploadedFile> {
+  const apiKey = getApiKey();
+
+  const { size: fileSize } = await fs.promises.stat(filePath);
+  // Use displayName for mimeType detection since filePath might be a temp file without extension
+  const mimeType = getMimeType(displayName);
+  // Calculate SHA256 hash for sync comparison (streamed, the file is never fully buffered)
+  const fileHash = await computeSha256(filePath);
+
+  // Step 1: Start a resumable upload session
   const startUploadUrl = `https://generativelanguage.googleapis.com/upload/v1beta/files?key=${apiKey}`;
 
-  const startResponse = await fetch(startUploadUrl, {
-    method: 'POST',
-    headers: {
-      'X-Goog-Upload-Protocol': 'resumable',
-      'X-Goog-Upload-Command': 'start',
-      'X-Goog-Upload-Header-Content-Length': String(fileContent.length),
-      'X-Goog-Upload-Header-Content-Type': mimeType,
-      'Content-Type': 'application/json',
+  const startResponse = await fetchWithRetry(
+    startUploadUrl,
+    {
+      method: 'POST',
+      headers: {
+        'X-Goog-Upload-Protocol': 'resumable',
+        'X-Goog-Upload-Command': 'start',
+        'X-Goog-Upload-Header-Content-Length': String(fileSize),
+        'X-Goog-Upload-Header-Content-Type': mimeType,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        file: { displayName },
+      }),
     },
-    body: JSON.stringify({
-      file: { displayName },
-    }),
-  });
+    // Starting an upload session has no side effects until data is finalized
+    { label: 'POST /upload/files (start)', idempotent: true }
+  );
 
   if (!startResponse.ok) {
-    const errorText = await startResponse.text();
-    console.error('Upload start failed:', startResponse.status, errorText);
-    const errorData = JSON.parse(errorText).error || { message: 'Upload start failed' };
-    throw new Error(errorData.message || `Upload start failed: HTTP ${startResponse.status}`);
+    const error = await geminiErrorFromResponse(
+      startResponse,
+      `Upload start failed: HTTP ${startResponse.status}`
+    );
+    console.error('Upload start failed:', error.status, error.message);
+    throw error;
   }
 
   const uploadUrl = startResponse.headers.get('X-Goog-Upload-URL');
   if (!uploadUrl) {
-    throw new Error('No upload URL received');
+    throw new GeminiUpstreamError('No upload URL received');
   }
 
-  // Step 2: Upload the file content
-  const uploadResponse = await fetch(uploadUrl, {
-    method: 'POST',
-    headers: {
-      'Content-Length': String(fileContent.length),
-      'X-Goog-Upload-Offset': '0',
-      'X-Goog-Upload-Command': 'upload, finalize',
-    },
-    body: fileContent,
+  // Step 2: Upload the file content in chunks, resuming from the persisted offset on failure
+  const granularity = parseInt(
+    startResponse.headers.get('X-Goog-Upload-Chunk-Granularity') ?? '',
+    10
+  );
+  const uploadResponseText = await uploadFileInChunks(uploadUrl, filePath, fileSize, {
+    granularity: Number.isInteger(granularity) && granularity > 0 ? granularity : undefined,
   });
 
-  if (!uploadResponse.ok) {
-    const errorText = await uploadResponse.text();
-    console.error('Upload failed:', uploadResponse.status, errorText);
-    const errorData = JSON.parse(errorText).error || { message: 'Upload failed' };
-    throw new Error(errorData.message || `Upload failed: HTTP ${uploadResponse.status}`);
-  }
-
-  const uploadResponseText = await uploadResponse.text();
-
-  let uploadedFile: { file: { name: string } };
+  let uploadedFile: { file: { name: string; expirationTime?: string } };
   try {
-    uploadedFile = JSON.parse(uploadResponseText) as { file: { name: string } };
+    uploadedFile = JSON.parse(uploadResponseText) as typeof uploadedFile;
   } catch {
-    throw new Error('Failed to parse upload response');
+    throw new GeminiUpstreamError('Failed to parse upload response');
   }
 
   if (!uploadedFile.file?.name) {
-    throw new Error('Upload response missing file name');
+    throw new GeminiUpstreamError('Upload response missing file name');
   }
 
-  // Step 3: Import file to store using :importFile endpoint with custom metadata
-  const importUrl = `${GEMINI_API_BASE}/${name}:importFile?key=${apiKey}`;
-
-  const importResponse = await fetch(importUrl, {
-    method: 'POST',
-    headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({
-      file_name: uploadedFile.file.name,
-      custom_metadata: [
-        { key: 'originalFileName', string_value: displayName },
-        { key: 'uploadedAt', string_value: new Date().toISOString() },
-        { key: 'sha256', string_value: fileHash },
-      ],
-    }),
-  });
-
-  const importResponseText = await importResponse.text();
-
-  if (!importResponse.ok) {
-    let errorMessage = 'Import failed';
-    try {
-      const errorData = JSON.parse(importResponseText);
-      errorMessage = errorData.error?.message || `Import failed: HTTP ${importResponse.status}`;
-    } catch {
-      errorMessage = importResponseText || `Import failed: HTTP ${importResponse.status}`;
-    }
-    throw new Error(errorMessage);
-  }
-
-  let result: Operation;
-  try {
-    result = JSON.parse(importResponseText) as Operation;
-    // If response field exists, the operation is complete (Gemini API may not include done field)
-    if (result.response && result.done === undefined) {
-      result.done = true;
-    }
-  } catch {
-    // If response is empty but status is OK, create a minimal operation response
-    result = { done: true };
-  }
-
-  return result;
+  return {
+    name: uploadedFile.file.name,
+    sha256: fileHash,
+    expirationTime: uploadedFile.file.expirationTime,
+  };
 }
 
 export async function deleteFile(storeName: string, documentName: string): Promise<void> {
-  // documentName can be:
-  // - Full path: "fileSearchStores/{store}/documents/{id}"
-  // - Document ID only: "{id}"
-  let fullPath: string;
-  if (documentName.startsWith('fileSearchStores/')) {
-    fullPath = documentName;
-  } else if (documentName.startsWith('documents/')) {
-    const name = storeName.startsWith('fileSearchStores/')
-      ? storeName
-      : `fileSearchStores/${storeName}`;
-    fullPath = `${name}/${documentName}`;
-  } else {
-    const name = storeName.startsWith('fileSearchStores/')
-      ? storeName
-      : `fileSearchStores/${storeName}`;
-    fullPath = `${name}/documents/${documentName}`;
-  }
-
-  await fetchApi<unknown>(`/${fullPath}?force=true`, {
+  await fetchApi<unknown>(`/${toDocumentPath(storeName, documentName)}?force=true`, {
     method: 'DELETE',
   });
 }
@@ -333,6 +549,8 @@ export async function waitForOperation(
 }
 
 // Search
+export const DEFAULT_SEARCH_MODEL = 'gemini-2.5-flash';
+
 export interface SearchConfig {
   systemPrompt?: string;
   model?: string;
@@ -340,12 +558,25 @@ export interface SearchConfig {
   topP?: number;
   topK?: number;
   maxOutputTokens?: number;
+  // AIP-160 filter over document customMetadata, e.g. 'team = "billing" AND version >= 3'
+  metadataFilter?: string;
+  // Send systemPrompt as fake user/model turns instead of systemInstruction
+  // (defaults to GEMINI_LEGACY_SYSTEM_PROMPT=true)
+  legacySystemPrompt?: boolean;
+  // Earlier conversation turns, re-sent before the query for follow-up questions
+  history?: ConversationTurn[];
+}
+
+export interface ConversationTurn {
+  role: 'user' | 'model';
+  text: string;
 }
 
 export interface GroundingChunk {
   title: string;
   text: string;
   fileSearchStore: string;
+  document?: string; // fileSearchStores/{store}/documents/{id}, when the document is still listed
 }
 
 export interface GroundingSupport {
@@ -361,53 +592,88 @@ export interface SearchResult {
   supports: GroundingSupport[];
 }
 
-export async function search(
-  storeName: string,
+export type SearchStreamEvent = { type: 'delta'; text: string } | ({ type: 'done' } & SearchResult);
+
+interface GroundingMetadata {
+  groundingChunks?: Array<{
+    retrievedContext?: {
+      title?: string;
+      text?: string;
+      fileSearchStore?: string;
+    };
+  }>;
+  groundingSupports?: Array<{
+    segment?: {
+      startIndex?: number;
+      endIndex?: number;
+      text?: string;
+    };
+    groundingChunkIndices?: number[];
+  }>;
+}
+
+interface GenerateContentResponse {
+  candidates?: Array<{
+    content?: { parts?: Array<{ text?: string }> };
+    groundingMetadata?: GroundingMetadata;
+  }>;
+}
+
+interface PreparedSearch {
+  model: string;
+  requestBody: Record<string, unknown>;
+  toSources: (metadata?: GroundingMetadata) => GroundingChunk[];
+}
+
+/**
+ * Build the generateContent request for a search and the mapping from
+ * grounding chunks back to original file names and stores.
+ */
+async function prepareSearch(
+  storeNames: string | string[],
   query: string,
   config?: SearchConfig
-): Promise<SearchResult> {
-  const model = config?.model ?? 'gemini-2.5-flash';
-  const name = storeName.startsWith('fileSearchStores/')
-    ? storeName
-    : `fileSearchStores/${storeName}`;
-
-  // Get file list to map file IDs to original display names
-  const files = await listFiles(storeName);
+): Promise<PreparedSearch> {
+  const model = config?.model ?? DEFAULT_SEARCH_MODEL;
+  const names = [...new Set(Array.isArray(storeNames) ? storeNames : [storeNames])].map((n) =>
+    n.startsWith('fileSearchStores/') ? n : `fileSearchStores/${n}`
+  );
+
+  // Get file lists of every store to map file IDs to original display names and stores
+  const fileLists = await Promise.all(
+    names.map(async (name) => ({ name, files: await listFiles(name) }))
+  );
   const fileIdToName = new Map<string, string>();
-  files.forEach((f) => {
-    if (f.displayName && f.originalDisplayName) {
-      fileIdToName.set(f.displayName, f.originalDisplayName);
-    }
+  const fileIdToStore = new Map<string, string>();
+  const fileIdToDocument = new Map<string, string>();
+  fileLists.forEach(({ name, files }) => {
+    files.forEach((f) => {
+      if (f.displayName && f.originalDisplayName) {
+        fileIdToName.set(f.displayName, f.originalDisplayName);
+      }
+      if (f.displayName) {
+        fileIdToStore.set(f.displayName, name);
+        fileIdToDocument.set(f.displayName, f.name);
+      }
+    });
   });
 
-  interface GroundingMetadata {
-    groundingChunks?: Array<{
-      retrievedContext?: {
-        title?: string;
-        text?: string;
-        fileSearchStore?: string;
-      };
-    }>;
-    groundingSupports?: Array<{
-      segment?: {
-        startIndex?: number;
-        endIndex?: number;
-        text?: string;
-      };
-      groundingChunkIndices?: number[];
-    }>;
-  }
-
-  // Build contents with optional system instruction
+  // Build contents; the system prompt goes in systemInstruction unless legacy mode is enabled,
+  // which emulates it with a user turn and a canned model acknowledgement
+  const legacySystemPrompt =
+    config?.legacySystemPrompt ?? process.env.GEMINI_LEGACY_SYSTEM_PROMPT === 'true';
   const contents: Array<{ role?: string; parts: Array<{ text: string }> }> = [];
-  if (config?.systemPrompt) {
+  if (config?.systemPrompt && legacySystemPrompt) {
     contents.push({ role: 'user', parts: [{ text: config.systemPrompt }] });
     contents.push({
       role: 'model',
       parts: [{ text: 'Understood. I will follow these instructions.' }],
     });
   }
-  contents.push({ parts: [{ text: query }] });
+  for (const turn of config?.history ?? []) {
+    contents.push({ role: turn.role, parts: [{ text: turn.text }] });
+  }
+  contents.push({ role: 'user', parts: [{ text: query }] });
 
   // Build generation config
   const generationConfig: Record<string, unknown> = {};
@@ -422,61 +688,184 @@ export async function search(
     tools: [
       {
         fileSearch: {
-          fileSearchStoreNames: [name],
+          fileSearchStoreNames: names,
+          ...(config?.metadataFilter && { metadataFilter: config.metadataFilter }),
         },
       },
     ],
   };
 
+  if (config?.systemPrompt && !legacySystemPrompt) {
+    requestBody.systemInstruction = { parts: [{ text: config.systemPrompt }] };
+  }
+
   if (Object.keys(generationConfig).length > 0) {
     requestBody.generationConfig = generationConfig;
   }
 
-  const response = await fetchApi<{
-    candidates?: Array<{
-      content?: { parts?: Array<{ text?: string }> };
-      groundingMetadata?: GroundingMetadata;
-    }>;
-  }>(`/models/${model}:generateContent`, {
-    method: 'POST',
-    body: JSON.stringify(requestBody),
-  });
-
-  const candidate = response.candidates?.[0];
-  const text = candidate?.content?.parts?.map((p) => p.text).join('') ?? '';
-
   // Extract grounding chunks as sources with original file names
-  const sources: GroundingChunk[] =
-    candidate?.groundingMetadata?.groundingChunks
+  const toSources = (metadata?: GroundingMetadata): GroundingChunk[] =>
+    metadata?.groundingChunks
       ?.map((chunk) => chunk.retrievedContext)
       .filter((ctx): ctx is NonNullable<typeof ctx> => !!ctx)
       .map((ctx) => ({
         // Map file ID to original display name
         title: (ctx.title && fileIdToName.get(ctx.title)) || ctx.title || 'Unknown',
         text: ctx.text ?? '',
-        fileSearchStore: ctx.fileSearchStore ?? '',
+        // Tag each source with the store it came from
+        fileSearchStore:
+          ctx.fileSearchStore ||
+          (ctx.title && fileIdToStore.get(ctx.title)) ||
+          (names.length === 1 ? names[0] : undefined) ||
+          '',
+        // Lets clients open the cited passage in the document
+        ...(ctx.title &&
+          fileIdToDocument.has(ctx.title) && {
+            document: fileIdToDocument.get(ctx.title),
+          }),
       })) ?? [];
 
-  // Extract grounding supports for inline citations
-  const supports: GroundingSupport[] =
-    candidate?.groundingMetadata?.groundingSupports
+  return { model, requestBody, toSources };
+}
+
+// Extract grounding supports for inline citations
+function toSupports(metadata?: GroundingMetadata): GroundingSupport[] {
+  return (
+    metadata?.groundingSupports
       ?.map((support) => ({
         startIndex: support.segment?.startIndex ?? 0,
         endIndex: support.segment?.endIndex ?? 0,
         text: support.segment?.text ?? '',
         chunkIndices: support.groundingChunkIndices ?? [],
       }))
-      .filter((s) => s.text.length > 0) ?? [];
+      .filter((s) => s.text.length > 0) ?? []
+  );
+}
+
+export async function search(
+  storeNames: string | string[],
+  query: string,
+  config?: SearchConfig
+): Promise<SearchResult> {
+  const { model, requestBody, toSources } = await prepareSearch(storeNames, query, config);
+
+  const response = await fetchApi<GenerateContentResponse>(`/models/${model}:generateContent`, {
+    method: 'POST',
+    body: JSON.stringify(requestBody),
+    // generateContent is read-only, so transient failures can be retried
+    idempotent: true,
+  });
+
+  const candidate = response.candidates?.[0];
+  const text = candidate?.content?.parts?.map((p) => p.text).join('') ?? '';
 
   return {
     text,
-    sources,
-    supports,
+    sources: toSources(candidate?.groundingMetadata),
+    supports: toSupports(candidate?.groundingMetadata),
+  };
+}
+
+/**
+ * Stream a search answer via streamGenerateContent (SSE).
+ * Yields text deltas as they arrive, then a final event with the full text and
+ * the grounding sources/supports, which Gemini only sends with the last chunks.
+ */
+export async function* searchStream(
+  storeNames: string | string[],
+  query: string,
+  config?: SearchConfig,
+  signal?: AbortSignal
+): AsyncGenerator<SearchStreamEvent> {
+  const { model, requestBody, toSources } = await prepareSearch(storeNames, query, config);
+  const endpoint = `/models/${model}:streamGenerateContent`;
+
+  // Only the initial request is retried; a stream that fails midway is surfaced to the caller
+  const response = await fetchWithRetry(
+    `${GEMINI_API_BASE}${endpoint}?alt=sse&key=${getApiKey()}`,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(requestBody),
+      signal,
+    },
+    { label: `POST ${endpoint}`, idempotent: true }
+  );
+
+  if (!response.ok) {
+    throw await geminiErrorFromResponse(response);
+  }
+  if (!response.body) {
+    throw new GeminiUpstreamError('Empty streaming response');
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  let text = '';
+  let groundingMetadata: GroundingMetadata = {};
+
+  const handleEvent = (data: string): string => {
+    const chunk = JSON.parse(data) as GenerateContentResponse;
+    const candidate = chunk.candidates?.[0];
+    const metadata = candidate?.groundingMetadata;
+    if (metadata) {
+      groundingMetadata = {
+        groundingChunks: metadata.groundingChunks ?? groundingMetadata.groundingChunks,
+        groundingSupports: metadata.groundingSupports ?? groundingMetadata.groundingSupports,
+      };
+    }
+    return candidate?.content?.parts?.map((p) => p.text ?? '').join('') ?? '';
+  };
+
+  try {
+    for (let finished = false; !finished; ) {
+      const { done, value } = await reader.read();
+      finished = done;
+      buffer += value ?? '';
+
+      // SSE events are separated by a blank line; keep the trailing partial event until the end
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = done ? '' : (events.pop() ?? '');
+      for (const event of events) {
+        const data = event
+          .split(/\r?\n/)
+          .filter((line) => line.startsWith('data:'))
+          .map((line) => line.slice(5).trimStart())
+          .join('\n');
+        if (!data) continue;
+
+        const delta = handleEvent(data);
+        if (delta) {
+          text += delta;
+          yield { type: 'delta', text: delta };
+        }
+      }
+    }
+  } finally {
+    // Stops the upstream request when the consumer gives up early
+    await reader.cancel().catch(() => {});
+  }
+
+  yield {
+    type: 'done',
+    text,
+    sources: toSources(groundingMetadata),
+    supports: toSupports(groundingMetadata),
   };
 }
 
 // Utility functions
-function getMimeType(filePath: string): string {
+function computeSha256(filePath: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash('sha256');
+    fs.createReadStream(filePath)
+      .on('data', (chunk) => hash.update(chunk))
+      .on('end', () => resolve(hash.digest('hex')))
+      .on('error', reject);
+  });
+}
+
+export function getMimeType(filePath: string): string {
   const ext = path.extname(filePath).toLowerCase();
   const mimeTypes: Record<string, string> = {
     '.pdf': 'application/pdf',
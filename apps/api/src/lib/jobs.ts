@@ -0,0 +1,366 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import { toGrantStoreName } from './access.js';
+import { recordAudit, type AuditActor } from './audit.js';
+import { getBlob, putBlob } from './blobs.js';
+import * as gemini from './gemini.js';
+import { requireUnprotected } from './protection.js';
+import { getStorage, type JobRecord, type JobStatus } from './storage/index.js';
+
+export const UPLOAD_JOB_TYPE = 'upload';
+export const DOCUMENT_UPDATE_JOB_TYPE = 'document-update';
+
+const DEFAULT_CONCURRENCY = 2;
+const ACTIVE_STATUSES: JobStatus[] = ['queued', 'uploading', 'importing'];
+
+// Audit action recording the outcome of each job type
+const JOB_AUDIT_ACTIONS: Record<string, string> = {
+  [UPLOAD_JOB_TYPE]: 'job.upload',
+  [DOCUMENT_UPDATE_JOB_TYPE]: 'job.document_update',
+};
+
+// Payload fields shared by every job type
+interface JobPayloadBase {
+  // Caller that queued the job, credited with its outcome in the audit log
+  requestedBy?: AuditActor;
+}
+
+export interface UploadJobPayload extends JobPayloadBase {
+  // Temporary copy of the uploaded file, removed when the job finishes
+  filePath: string;
+  config: gemini.UploadConfig;
+  // Documents to replace, when the caller already listed the store (batch uploads)
+  replaces?: string[];
+}
+
+// Copy-and-swap of a document: its content is re-imported from the Files API
+// with the new display name and metadata, then the old document is deleted
+export interface DocumentUpdateJobPayload extends JobPayloadBase {
+  documentName: string;
+  // files/{id}; when absent, the original is uploaded again from the blob store
+  sourceFile?: string;
+  sha256: string;
+  // Kept from the original document
+  uploadedAt?: string;
+  config: gemini.UploadConfig & { displayName: string };
+}
+
+// Job IDs waiting for a free worker, in arrival order
+const pending: string[] = [];
+let running = 0;
+
+// Number of jobs processed at the same time (JOB_CONCURRENCY, default 2)
+function getConcurrency(): number {
+  const value = parseInt(process.env.JOB_CONCURRENCY ?? '', 10);
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_CONCURRENCY;
+}
+
+export function isJobFinished(job: JobRecord): boolean {
+  return !ACTIVE_STATUSES.includes(job.status);
+}
+
+async function updateJob(job: JobRecord, changes: Partial<JobRecord>): Promise<JobRecord> {
+  const storage = await getStorage();
+  const updated = { ...job, ...changes, updateTime: new Date().toISOString() };
+  await storage.jobs.update(updated);
+  return updated;
+}
+
+async function runUploadJob(job: JobRecord): Promise<void> {
+  const { filePath, config, replaces } = job.payload as unknown as UploadJobPayload;
+  let current = job;
+  // Documents about to be replaced, and those actually deleted once the import starts
+  let replacing: string[] = [];
+  let replaced: string[] | undefined;
+  try {
+    current = await updateJob(current, { status: 'uploading' });
+    const operation = await gemini.uploadFile(job.storeName, filePath, config, {
+      replaces,
+      // Protection may have been raised since the job was queued
+      beforeReplace: async (documentNames) => {
+        await requireUnprotected(job.storeName, 'file.replace');
+        replacing = documentNames;
+      },
+      onImporting: async (file) => {
+        replaced = replacing;
+        current = await updateJob(current, { status: 'importing' });
+        // Keep the original for GET .../content; the upload itself does not depend on it
+        await putBlob(file.sha256, filePath).catch((error) =>
+          console.warn(
+            `[jobs] Could not keep original of job ${job.id}:`,
+            error instanceof Error ? error.message : error
+          )
+        );
+        // Remember the upload so the document can be renamed without re-uploading it
+        const storage = await getStorage();
+        await storage.uploadedFiles.put({
+          sha256: file.sha256,
+          fileName: file.name,
+          chunkingConfig: config.chunkingConfig,
+          expireTime: file.expirationTime,
+          createTime: new Date().toISOString(),
+        });
+      },
+    });
+
+    // The import runs as a long-running operation; the file is searchable once it is done
+    const finished = await gemini.waitForOperation(operation);
+    if (finished.error) {
+      await updateJob(current, {
+        status: 'failed',
+        error: finished.error.message || 'Import failed',
+        result: { operation: finished.name, replaced },
+      });
+      return;
+    }
+    await updateJob(current, {
+      status: 'indexed',
+      result: { operation: finished.name, response: finished.response, replaced },
+    });
+  } catch (error) {
+    await updateJob(current, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Upload failed',
+      // The replaced documents are gone even though the upload failed
+      ...(replaced && { result: { replaced } }),
+    });
+  } finally {
+    await fs.unlink(filePath).catch(() => {});
+  }
+}
+
+/**
+ * Upload a document's original from the blob store to the Files API again,
+ * once Gemini has deleted the previous upload. Returns the new files/{id}.
+ */
+async function reuploadOriginal(
+  sha256: string,
+  config: DocumentUpdateJobPayload['config']
+): Promise<string> {
+  const blob = await getBlob(sha256);
+  if (!blob) {
+    throw new Error('The uploaded content of this file is no longer available');
+  }
+  const file = await gemini.uploadToFilesApi(blob.path, config.displayName);
+  // Later changes within 48 hours reuse this upload
+  const storage = await getStorage();
+  await storage.uploadedFiles.put({
+    sha256: file.sha256,
+    fileName: file.name,
+    chunkingConfig: config.chunkingConfig,
+    expireTime: file.expirationTime,
+    createTime: new Date().toISOString(),
+  });
+  return file.name;
+}
+
+async function runDocumentUpdateJob(job: JobRecord): Promise<void> {
+  const { documentName, sourceFile, sha256, uploadedAt, config } =
+    job.payload as unknown as DocumentUpdateJobPayload;
+  let current = job;
+  try {
+    // Checked before creating the copy and again before deleting the original,
+    // as protection may change while the job waits or imports
+    await requireUnprotected(job.storeName, 'file.update');
+    let fileName = sourceFile;
+    if (!fileName) {
+      current = await updateJob(current, { status: 'uploading' });
+      fileName = await reuploadOriginal(sha256, config);
+    }
+    current = await updateJob(current, { status: 'importing' });
+    const operation = await gemini.importFile(job.storeName, fileName, {
+      displayName: config.displayName,
+      sha256,
+      uploadedAt,
+      customMetadata: config.customMetadata,
+      chunkingConfig: config.chunkingConfig,
+    });
+
+    const finished = await gemini.waitForOperation(operation);
+    if (finished.error) {
+      await updateJob(current, {
+        status: 'failed',
+        error: finished.error.message || 'Import failed',
+        result: { operation: finished.name },
+      });
+      return;
+    }
+
+    // Swap: the new document is searchable, drop the old one
+    try {
+      await requireUnprotected(job.storeName, 'file.update');
+      await gemini.deleteFile(job.storeName, documentName);
+    } catch (error) {
+      throw new Error(
+        `Updated copy created, but the previous document could not be deleted: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+    await updateJob(current, {
+      status: 'indexed',
+      result: { operation: finished.name, response: finished.response, replaced: documentName },
+    });
+  } catch (error) {
+    await updateJob(current, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : 'Update failed',
+    });
+  }
+}
+
+async function runJob(id: string): Promise<void> {
+  const storage = await getStorage();
+  const job = await storage.jobs.get(id);
+  if (!job || isJobFinished(job)) return;
+
+  if (job.type === UPLOAD_JOB_TYPE) {
+    await runUploadJob(job);
+  } else if (job.type === DOCUMENT_UPDATE_JOB_TYPE) {
+    await runDocumentUpdateJob(job);
+  } else {
+    await updateJob(job, { status: 'failed', error: `Unknown job type "${job.type}"` });
+  }
+
+  const finished = await storage.jobs.get(id);
+  if (finished) await auditJob(finished);
+}
+
+/**
+ * Record the outcome of a finished job, credited to the caller that queued it.
+ * The request itself is audited when the job is queued; this entry tells
+ * whether the change was made and which documents it deleted.
+ */
+async function auditJob(job: JobRecord): Promise<void> {
+  const { requestedBy, config, documentName } = job.payload as Partial<
+    UploadJobPayload & DocumentUpdateJobPayload
+  >;
+  const replaced = job.result?.replaced as string | string[] | undefined;
+  const succeeded = job.status === 'indexed';
+  await recordAudit({
+    // Jobs queued before jobs recorded their caller
+    ...(requestedBy ?? { actor: 'system', source: 'api' }),
+    action: JOB_AUDIT_ACTIONS[job.type] ?? `job.${job.type}`,
+    storeName: toGrantStoreName(job.storeName),
+    documentName,
+    result: succeeded ? 'success' : 'failure',
+    status: succeeded ? 200 : 500,
+    error: job.error,
+    details: {
+      jobId: job.id,
+      displayName: config?.displayName,
+      ...(replaced && { replaced: [replaced].flat() }),
+    },
+  });
+}
+
+// Start queued jobs while workers are free
+function drain(): void {
+  while (running < getConcurrency() && pending.length > 0) {
+    const id = pending.shift();
+    if (!id) break;
+    running++;
+    runJob(id)
+      .catch((error) =>
+        console.error(`[jobs] Job ${id} failed:`, error instanceof Error ? error.message : error)
+      )
+      .finally(() => {
+        running--;
+        drain();
+      });
+  }
+}
+
+/**
+ * Queue a file upload. The file at filePath is owned by the job from now on
+ * and deleted when it finishes.
+ */
+export async function enqueueUpload(
+  storeName: string,
+  filePath: string,
+  config: gemini.UploadConfig,
+  options: { replaces?: string[]; requestedBy?: AuditActor } = {}
+): Promise<JobRecord> {
+  const payload: UploadJobPayload = { filePath, config, ...options };
+  return enqueue(UPLOAD_JOB_TYPE, storeName, { ...payload });
+}
+
+/**
+ * Queue a copy-and-swap of a document with a new display name and/or metadata.
+ */
+export async function enqueueDocumentUpdate(
+  storeName: string,
+  payload: DocumentUpdateJobPayload
+): Promise<JobRecord> {
+  return enqueue(DOCUMENT_UPDATE_JOB_TYPE, storeName, { ...payload });
+}
+
+async function enqueue(
+  type: string,
+  storeName: string,
+  payload: Record<string, unknown>
+): Promise<JobRecord> {
+  const now = new Date().toISOString();
+  const job: JobRecord = {
+    id: crypto.randomUUID(),
+    type,
+    status: 'queued',
+    storeName: storeName.startsWith('fileSearchStores/')
+      ? storeName
+      : `fileSearchStores/${storeName}`,
+    payload,
+    createTime: now,
+    updateTime: now,
+  };
+
+  const storage = await getStorage();
+  await storage.jobs.create(job);
+  pending.push(job.id);
+  drain();
+  return job;
+}
+
+/**
+ * Requeue jobs left unfinished by a previous run (e.g. after a restart).
+ * Uploads whose temporary file is gone are marked failed.
+ */
+export async function resumeJobs(): Promise<void> {
+  const storage = await getStorage();
+  const unfinished = (
+    await Promise.all(
+      ACTIVE_STATUSES.map((status) => storage.jobs.list({ status, limit: Number.MAX_SAFE_INTEGER }))
+    )
+  )
+    .flat()
+    .sort((a, b) => a.createTime.localeCompare(b.createTime));
+
+  for (const job of unfinished) {
+    const { filePath } = job.payload as Partial<UploadJobPayload>;
+    const hasFile = filePath
+      ? await fs.access(filePath).then(
+          () => true,
+          () => false
+        )
+      : false;
+    if (job.type === UPLOAD_JOB_TYPE && !hasFile) {
+      await updateJob(job, { status: 'failed', error: 'Interrupted by a server restart' });
+      continue;
+    }
+    await updateJob(job, { status: 'queued' });
+    pending.push(job.id);
+  }
+
+  if (unfinished.length > 0) {
+    console.log(`[jobs] Resuming ${pending.length} of ${unfinished.length} unfinished job(s)`);
+  }
+  drain();
+}
+
+/**
+ * Job as returned by the API, without server-local details such as temporary
+ * file paths, or who queued it (see the audit log).
+ */
+export function toJobResponse(job: JobRecord) {
+  const { filePath: _filePath, requestedBy: _requestedBy, ...payload } = job.payload;
+  return { ...job, payload };
+}
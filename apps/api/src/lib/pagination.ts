@@ -0,0 +1,50 @@
+import type { ParsedUrlQuery } from 'querystring';
+import type { ListOptions } from './gemini.js';
+
+/**
+ * Parse optional pageSize/pageToken query params.
+ * Returns null when neither is present (caller should list every page).
+ */
+export function parseListOptions(query: ParsedUrlQuery): ListOptions | null {
+  const pageSize = typeof query.pageSize === 'string' ? query.pageSize : undefined;
+  const pageToken = typeof query.pageToken === 'string' ? query.pageToken : undefined;
+
+  if (!pageSize && !pageToken) return null;
+
+  const options: ListOptions = {};
+  if (pageSize) {
+    const size = parseInt(pageSize, 10);
+    if (!Number.isInteger(size) || size <= 0) {
+      throw new RangeError('pageSize must be a positive integer');
+    }
+    options.pageSize = size;
+  }
+  if (pageToken) options.pageToken = pageToken;
+  return options;
+}
+
+// Keyset cursor for lists paged newest first (audit log, search history)
+export interface ListCursor {
+  before: string; // createTime of the last entry of the previous page
+  beforeId?: string; // Its id, to page through entries created at the same time
+}
+
+/**
+ * Cursor to pass as `before` for the page after the one ending with entry:
+ * "{createTime}~{id}".
+ */
+export function toCursor(entry: { createTime: string; id: string }): string {
+  return `${entry.createTime}~${entry.id}`;
+}
+
+/**
+ * Parse a `before` cursor. A bare createTime, as returned before cursors
+ * carried an id, is still accepted. Returns null when the timestamp is invalid.
+ */
+export function parseCursor(value: string): ListCursor | null {
+  const separator = value.indexOf('~');
+  const createTime = separator === -1 ? value : value.slice(0, separator);
+  const id = separator === -1 ? '' : value.slice(separator + 1);
+  if (Number.isNaN(Date.parse(createTime))) return null;
+  return { before: new Date(createTime).toISOString(), ...(id && { beforeId: id }) };
+}
@@ -0,0 +1,28 @@
+import fs from 'fs/promises';
+
+export class PdfTextError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PdfTextError';
+  }
+}
+
+/**
+ * Extract the text layer of a PDF, one page after another separated by blank
+ * lines. Scanned PDFs without a text layer give an empty string.
+ */
+export async function extractPdfText(filePath: string): Promise<string> {
+  // pdf.js is only loaded when a PDF is actually read
+  const { extractText } = await import('unpdf');
+  const data = new Uint8Array(await fs.readFile(filePath));
+
+  let pages: string[];
+  try {
+    ({ text: pages } = await extractText(data));
+  } catch (error) {
+    throw new PdfTextError(
+      `The text of this PDF could not be read: ${error instanceof Error ? error.message : error}`
+    );
+  }
+  return pages.map((page) => page.trim()).join('\n\n');
+}
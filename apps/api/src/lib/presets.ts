@@ -0,0 +1,86 @@
+import type { SearchConfig } from './gemini.js';
+import { getStorage, type PresetRecord, type SearchSettings } from './storage/index.js';
+
+const STRING_SETTINGS = ['systemPrompt', 'model', 'metadataFilter'] as const;
+const NUMBER_SETTINGS = ['temperature', 'topP', 'topK', 'maxOutputTokens'] as const;
+const BOOLEAN_SETTINGS = ['legacySystemPrompt'] as const;
+
+export class PresetNotFoundError extends Error {
+  constructor(ref: string) {
+    super(`Preset "${ref}" not found`);
+    this.name = 'PresetNotFoundError';
+  }
+}
+
+/**
+ * Validate preset settings and keep only known keys.
+ * Returns the settings, or an error message for a 400 response.
+ */
+export function parseSearchSettings(value: unknown): SearchSettings | string {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return 'settings must be an object';
+  }
+
+  const input = value as Record<string, unknown>;
+  const settings: Record<string, unknown> = {};
+  for (const key of STRING_SETTINGS) {
+    if (input[key] === undefined) continue;
+    if (typeof input[key] !== 'string') return `settings.${key} must be a string`;
+    settings[key] = input[key];
+  }
+  for (const key of NUMBER_SETTINGS) {
+    if (input[key] === undefined) continue;
+    if (typeof input[key] !== 'number' || !Number.isFinite(input[key])) {
+      return `settings.${key} must be a number`;
+    }
+    settings[key] = input[key];
+  }
+  for (const key of BOOLEAN_SETTINGS) {
+    if (input[key] === undefined) continue;
+    if (typeof input[key] !== 'boolean') return `settings.${key} must be a boolean`;
+    settings[key] = input[key];
+  }
+  return settings as SearchSettings;
+}
+
+/**
+ * Find a preset by id, falling back to an exact name match.
+ */
+export async function findPreset(ref: string): Promise<PresetRecord | undefined> {
+  const storage = await getStorage();
+  return (
+    (await storage.presets.get(ref)) ??
+    (await storage.presets.list()).find((preset) => preset.name === ref)
+  );
+}
+
+/**
+ * Resolve the settings for a search: the named preset, or the store's default preset
+ * when searching a single store, with explicitly set fields in config taking precedence.
+ * Throws PresetNotFoundError if a named preset does not exist.
+ */
+export async function applyPreset(
+  storeNames: string[],
+  presetRef: string | undefined,
+  config: SearchConfig
+): Promise<SearchConfig> {
+  let preset: PresetRecord | undefined;
+  if (presetRef) {
+    preset = await findPreset(presetRef);
+    if (!preset) throw new PresetNotFoundError(presetRef);
+  } else if (storeNames.length === 1 && storeNames[0]) {
+    const storage = await getStorage();
+    const name = storeNames[0];
+    const defaults = await storage.presets.listStoreDefaults();
+    const presetId =
+      defaults[name.startsWith('fileSearchStores/') ? name : `fileSearchStores/${name}`];
+    preset = presetId ? await storage.presets.get(presetId) : undefined;
+  }
+
+  if (!preset) return config;
+
+  const overrides = Object.fromEntries(
+    Object.entries(config).filter(([, value]) => value !== undefined)
+  );
+  return { ...preset.settings, ...overrides };
+}
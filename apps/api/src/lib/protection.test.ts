@@ -0,0 +1,174 @@
+import assert from 'node:assert/strict';
+import crypto from 'node:crypto';
+import fs from 'node:fs/promises';
+import os from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, it, mock } from 'node:test';
+import type { ParameterizedContext } from 'koa';
+import { enqueueDocumentUpdate, enqueueUpload, isJobFinished } from './jobs.js';
+import {
+  BLOCKED_MESSAGES,
+  PROTECTION_LEVELS,
+  blocks,
+  getStoreProtection,
+  rejectProtected,
+  type ProtectedOperation,
+  type ProtectionLevel,
+} from './protection.js';
+import { getStorage, type JobRecord } from './storage/index.js';
+
+type RouteContext = Parameters<ReturnType<typeof rejectProtected>>[0];
+
+async function setProtection(storeName: string, level: ProtectionLevel): Promise<void> {
+  const storage = await getStorage();
+  await storage.storeProtection.put({
+    storeName: `fileSearchStores/${storeName}`,
+    level,
+    updateTime: new Date().toISOString(),
+  });
+}
+
+async function waitForJob(id: string): Promise<JobRecord> {
+  const storage = await getStorage();
+  for (;;) {
+    const job = await storage.jobs.get(id);
+    if (job && isJobFinished(job)) return job;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+beforeEach(() => {
+  process.env.STORAGE_DRIVER = 'memory';
+  delete process.env.PROTECTED_STORES;
+});
+
+describe('blocks', () => {
+  // Operations each level refuses, lowest level first
+  const expected: Record<ProtectionLevel, ProtectedOperation[]> = {
+    no_store_delete: ['store.delete'],
+    no_file_delete: ['store.delete', 'file.delete', 'file.replace', 'file.update'],
+    read_only: ['store.delete', 'file.delete', 'file.replace', 'file.update', 'file.upload'],
+  };
+  const operations = Object.keys(BLOCKED_MESSAGES) as ProtectedOperation[];
+
+  it('blocks the operations of each level and those below it', () => {
+    for (const level of PROTECTION_LEVELS) {
+      const blocked = operations.filter((operation) => blocks(level, operation));
+      assert.deepEqual(blocked.sort(), [...expected[level]].sort(), level);
+    }
+  });
+
+  it('blocks nothing without a level', () => {
+    assert.equal(
+      operations.some((operation) => blocks(undefined, operation)),
+      false
+    );
+  });
+});
+
+describe('getStoreProtection', () => {
+  it('raises stores listed in PROTECTED_STORES to no_store_delete', async () => {
+    process.env.PROTECTED_STORES = 'env-store, fileSearchStores/env-read-only';
+    await setProtection('env-read-only', 'read_only');
+
+    assert.deepEqual(await getStoreProtection('env-store'), {
+      level: 'no_store_delete',
+      storedLevel: undefined,
+      env: true,
+    });
+    assert.deepEqual(await getStoreProtection('env-read-only'), {
+      level: 'read_only',
+      storedLevel: 'read_only',
+      env: true,
+    });
+    assert.deepEqual(await getStoreProtection('open-store'), {
+      level: undefined,
+      storedLevel: undefined,
+      env: false,
+    });
+  });
+});
+
+describe('rejectProtected', () => {
+  async function run(operation: ProtectedOperation, storeName: string) {
+    const ctx = { params: { storeName }, status: 404, body: undefined as unknown };
+    const next = mock.fn(async () => {});
+    await rejectProtected(operation, 'storeName')(
+      ctx as unknown as RouteContext & ParameterizedContext,
+      next
+    );
+    return { ctx, passed: next.mock.callCount() === 1 };
+  }
+
+  it('responds 403 when the store protection blocks the operation', async () => {
+    await setProtection('route-store', 'no_file_delete');
+
+    const { ctx, passed } = await run('file.delete', 'fileSearchStores%2Froute-store');
+
+    assert.equal(passed, false);
+    assert.equal(ctx.status, 403);
+    assert.deepEqual(ctx.body, { message: BLOCKED_MESSAGES['file.delete'] });
+  });
+
+  it('lets allowed operations through', async () => {
+    await setProtection('route-store', 'no_file_delete');
+
+    assert.equal((await run('file.upload', 'route-store')).passed, true);
+    assert.equal((await run('file.delete', 'other-store')).passed, true);
+  });
+});
+
+describe('protected jobs', () => {
+  let filePath: string;
+  let geminiCalls: number;
+
+  beforeEach(async () => {
+    filePath = path.join(os.tmpdir(), `protection-test-${crypto.randomUUID()}.md`);
+    await fs.writeFile(filePath, 'content');
+    // Nothing may reach Gemini once protection refuses the job
+    geminiCalls = 0;
+    mock.method(globalThis, 'fetch', async () => {
+      geminiCalls++;
+      return new Response('{}', { status: 500 });
+    });
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    await fs.rm(filePath, { force: true });
+  });
+
+  it('fails an upload that would replace a document of a protected store', async () => {
+    await setProtection('job-store', 'no_file_delete');
+
+    const job = await enqueueUpload(
+      'job-store',
+      filePath,
+      { displayName: 'a.md' },
+      { replaces: ['fileSearchStores/job-store/documents/old'] }
+    );
+    const finished = await waitForJob(job.id);
+
+    assert.equal(finished.status, 'failed');
+    assert.equal(finished.error, BLOCKED_MESSAGES['file.replace']);
+    assert.equal(geminiCalls, 0);
+    // The job owns its temporary file
+    await assert.rejects(fs.access(filePath));
+  });
+
+  it('fails a document update once files are protected', async () => {
+    await setProtection('job-store', 'no_file_delete');
+
+    const job = await enqueueDocumentUpdate('job-store', {
+      documentName: 'fileSearchStores/job-store/documents/old',
+      sourceFile: 'files/abc',
+      sha256: 'a'.repeat(64),
+      config: { displayName: 'renamed.md' },
+    });
+    const finished = await waitForJob(job.id);
+
+    assert.equal(finished.status, 'failed');
+    assert.equal(finished.error, BLOCKED_MESSAGES['file.update']);
+    assert.equal(geminiCalls, 0);
+  });
+});
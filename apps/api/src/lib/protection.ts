@@ -0,0 +1,142 @@
+import type { Next, ParameterizedContext } from 'koa';
+import { toGrantStoreName } from './access.js';
+import { StoreProtectedError } from './errors.js';
+import { getStorage, type ProtectionLevel } from './storage/index.js';
+
+export type { ProtectionLevel };
+
+// Lowest to highest; each level includes the ones before it
+export const PROTECTION_LEVELS: ProtectionLevel[] = [
+  'no_store_delete',
+  'no_file_delete',
+  'read_only',
+];
+
+// Requests a protection level can block, named like their audit actions.
+// file.replace is an upload that deletes the document it replaces
+export type ProtectedOperation =
+  | 'store.delete'
+  | 'file.delete'
+  | 'file.replace'
+  | 'file.upload'
+  | 'file.update';
+
+// Lowest level that blocks each operation
+const BLOCKED_FROM: Record<ProtectedOperation, ProtectionLevel> = {
+  'store.delete': 'no_store_delete',
+  'file.delete': 'no_file_delete',
+  'file.replace': 'no_file_delete',
+  'file.upload': 'read_only',
+  // Updates are a copy-and-swap that deletes the original document
+  'file.update': 'no_file_delete',
+};
+
+export const BLOCKED_MESSAGES: Record<ProtectedOperation, string> = {
+  'store.delete': 'This store is protected and cannot be deleted',
+  'file.delete': 'Files in this store are protected and cannot be deleted',
+  'file.replace': 'Files in this store are protected and cannot be replaced',
+  'file.upload': 'This store is read-only',
+  'file.update': 'Files in this store are protected and cannot be updated',
+};
+
+export function isProtectionLevel(value: unknown): value is ProtectionLevel {
+  return PROTECTION_LEVELS.includes(value as ProtectionLevel);
+}
+
+export function maxProtection(
+  a: ProtectionLevel | undefined,
+  b: ProtectionLevel | undefined
+): ProtectionLevel | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return PROTECTION_LEVELS.indexOf(a) >= PROTECTION_LEVELS.indexOf(b) ? a : b;
+}
+
+// Whether a store at the given level refuses the operation
+export function blocks(level: ProtectionLevel | undefined, operation: ProtectedOperation): boolean {
+  if (!level) return false;
+  return PROTECTION_LEVELS.indexOf(level) >= PROTECTION_LEVELS.indexOf(BLOCKED_FROM[operation]);
+}
+
+/**
+ * Stores listed in PROTECTED_STORES (comma-separated IDs or names), read on
+ * each call. They cannot be deleted whatever their runtime level.
+ */
+export function getEnvProtectedStores(): string[] {
+  const protectedStores = process.env.PROTECTED_STORES;
+  if (!protectedStores) return [];
+  return protectedStores
+    .split(',')
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map(toGrantStoreName);
+}
+
+export interface StoreProtection {
+  // Effective level: the stored level, raised to no_store_delete by PROTECTED_STORES
+  level?: ProtectionLevel;
+  // Level set through the API
+  storedLevel?: ProtectionLevel;
+  // Listed in PROTECTED_STORES
+  env: boolean;
+}
+
+export async function getStoreProtection(storeName: string): Promise<StoreProtection> {
+  const name = toGrantStoreName(storeName);
+  const storage = await getStorage();
+  const storedLevel = (await storage.storeProtection.get(name))?.level;
+  const env = getEnvProtectedStores().includes(name);
+  return {
+    level: maxProtection(storedLevel, env ? 'no_store_delete' : undefined),
+    storedLevel,
+    env,
+  };
+}
+
+// Effective level by store name, for stores with any protection
+export async function listStoreProtection(): Promise<Record<string, ProtectionLevel>> {
+  const storage = await getStorage();
+  const levels: Record<string, ProtectionLevel> = {};
+  for (const record of await storage.storeProtection.list()) {
+    levels[record.storeName] = record.level;
+  }
+  for (const name of getEnvProtectedStores()) {
+    levels[name] = maxProtection(levels[name], 'no_store_delete') ?? 'no_store_delete';
+  }
+  return levels;
+}
+
+// Throws StoreProtectedError when the store's protection blocks the operation
+export async function requireUnprotected(
+  storeName: string,
+  operation: ProtectedOperation
+): Promise<void> {
+  const { level } = await getStoreProtection(storeName);
+  if (blocks(level, operation)) {
+    throw new StoreProtectedError(BLOCKED_MESSAGES[operation]);
+  }
+}
+
+/**
+ * Route middleware refusing an operation the protection of the store named
+ * by a route parameter blocks.
+ */
+export function rejectProtected(operation: ProtectedOperation, storeParam: string) {
+  return async (
+    ctx: ParameterizedContext & { params: Record<string, string | undefined> },
+    next: Next
+  ) => {
+    const param = ctx.params[storeParam];
+    if (param) {
+      try {
+        await requireUnprotected(decodeURIComponent(param), operation);
+      } catch (error) {
+        if (!(error instanceof StoreProtectedError)) throw error;
+        ctx.status = 403;
+        ctx.body = { message: error.message };
+        return;
+      }
+    }
+    return next();
+  };
+}
@@ -0,0 +1,115 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import type { ParameterizedContext } from 'koa';
+import { getProxyIdentity, getTrustedProxies } from './proxy-auth.js';
+
+// Minimal Koa context: a request from remoteAddress with the given headers
+function createContext(remoteAddress: string, headers: Record<string, string> = {}) {
+  return {
+    req: { socket: { remoteAddress } },
+    get: (name: string) => headers[name.toLowerCase()] ?? '',
+  } as unknown as ParameterizedContext;
+}
+
+const USER_HEADERS = {
+  'x-forwarded-user': 'ann',
+  'x-forwarded-email': 'ann@example.com',
+  'x-forwarded-groups': 'writers, auditors,',
+};
+
+describe('getTrustedProxies', () => {
+  afterEach(() => {
+    delete process.env.TRUSTED_PROXY_CIDRS;
+  });
+
+  it('trusts no address when TRUSTED_PROXY_CIDRS is not set', () => {
+    assert.equal(getTrustedProxies(), undefined);
+    process.env.TRUSTED_PROXY_CIDRS = ' ';
+    assert.equal(getTrustedProxies(), undefined);
+  });
+
+  it('matches IPv4 and IPv6 ranges and single addresses', () => {
+    process.env.TRUSTED_PROXY_CIDRS = '10.0.0.0/8, 192.168.1.5, fd00::/8, ::1';
+    const proxies = getTrustedProxies();
+
+    assert.equal(proxies?.check('10.20.30.40', 'ipv4'), true);
+    assert.equal(proxies?.check('11.0.0.1', 'ipv4'), false);
+    assert.equal(proxies?.check('192.168.1.5', 'ipv4'), true);
+    assert.equal(proxies?.check('192.168.1.6', 'ipv4'), false);
+    assert.equal(proxies?.check('fd12::1', 'ipv6'), true);
+    assert.equal(proxies?.check('fe80::1', 'ipv6'), false);
+    assert.equal(proxies?.check('::1', 'ipv6'), true);
+  });
+
+  it('matches IPv4-mapped IPv6 addresses against IPv4 ranges', () => {
+    process.env.TRUSTED_PROXY_CIDRS = '10.0.0.0/8,127.0.0.1';
+    const proxies = getTrustedProxies();
+
+    assert.equal(proxies?.check('::ffff:10.1.2.3', 'ipv6'), true);
+    assert.equal(proxies?.check('::ffff:127.0.0.1', 'ipv6'), true);
+    assert.equal(proxies?.check('::ffff:11.1.2.3', 'ipv6'), false);
+  });
+
+  it('rejects invalid entries', () => {
+    for (const entry of [
+      'proxy.local',
+      '10.0.0.0/33',
+      '10.0.0.0/x',
+      '10.0.0.0/',
+      '10.0.0.0/8/9',
+      '::1/129',
+    ]) {
+      process.env.TRUSTED_PROXY_CIDRS = entry;
+      assert.throws(() => getTrustedProxies(), {
+        message: `Invalid TRUSTED_PROXY_CIDRS entry "${entry}"`,
+      });
+    }
+  });
+});
+
+describe('getProxyIdentity', () => {
+  afterEach(() => {
+    delete process.env.TRUSTED_PROXY_CIDRS;
+  });
+
+  it('reads the user, email and groups headers of a trusted proxy', () => {
+    process.env.TRUSTED_PROXY_CIDRS = '10.0.0.0/8';
+
+    assert.deepEqual(getProxyIdentity(createContext('10.0.0.2', USER_HEADERS)), {
+      subject: 'user:ann',
+      label: 'ann@example.com',
+      email: 'ann@example.com',
+      groups: ['writers', 'auditors'],
+    });
+  });
+
+  it('trusts a proxy connecting over an IPv4-mapped address', () => {
+    process.env.TRUSTED_PROXY_CIDRS = '127.0.0.1';
+
+    assert.equal(
+      getProxyIdentity(createContext('::ffff:127.0.0.1', USER_HEADERS))?.subject,
+      'user:ann'
+    );
+  });
+
+  it('ignores the headers of other addresses', () => {
+    process.env.TRUSTED_PROXY_CIDRS = '10.0.0.0/8';
+
+    assert.equal(getProxyIdentity(createContext('192.168.0.2', USER_HEADERS)), undefined);
+    assert.equal(getProxyIdentity(createContext('::ffff:192.168.0.2', USER_HEADERS)), undefined);
+  });
+
+  it('ignores the headers when no proxy is trusted', () => {
+    assert.equal(getProxyIdentity(createContext('10.0.0.2', USER_HEADERS)), undefined);
+  });
+
+  it('uses the email as the user name when the user header is missing', () => {
+    process.env.TRUSTED_PROXY_CIDRS = '10.0.0.0/8';
+
+    assert.deepEqual(
+      getProxyIdentity(createContext('10.0.0.2', { 'x-forwarded-email': 'bob@example.com' })),
+      { subject: 'user:bob@example.com', label: 'bob@example.com', email: 'bob@example.com' }
+    );
+    assert.equal(getProxyIdentity(createContext('10.0.0.2')), undefined);
+  });
+});
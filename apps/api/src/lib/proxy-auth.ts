@@ -0,0 +1,74 @@
+import net from 'net';
+import type { ParameterizedContext } from 'koa';
+import type { AuthIdentity } from './auth.js';
+
+// Headers set by oauth2-proxy (--pass-user-headers / --set-xauthrequest)
+const USER_HEADER = 'x-forwarded-user';
+const EMAIL_HEADER = 'x-forwarded-email';
+const GROUPS_HEADER = 'x-forwarded-groups';
+
+let cached: { config: string; proxies: net.BlockList } | undefined;
+
+/**
+ * Addresses whose identity headers are trusted, from TRUSTED_PROXY_CIDRS
+ * (comma-separated CIDRs or single addresses). Undefined when not set.
+ * Throws on an invalid entry.
+ */
+export function getTrustedProxies(): net.BlockList | undefined {
+  const config = process.env.TRUSTED_PROXY_CIDRS?.trim();
+  if (!config) return undefined;
+  if (cached?.config === config) return cached.proxies;
+
+  const proxies = new net.BlockList();
+  for (const entry of config.split(',').map((s) => s.trim())) {
+    if (!entry) continue;
+    const [address = '', prefix, ...rest] = entry.split('/');
+    const version = net.isIP(address);
+    // An empty or non-numeric prefix must not read as /0, which would trust every address
+    const bits = prefix === undefined ? (version === 6 ? 128 : 32) : Number(prefix);
+    if (
+      !version ||
+      rest.length > 0 ||
+      (prefix !== undefined && !/^\d+$/.test(prefix)) ||
+      bits > (version === 6 ? 128 : 32)
+    ) {
+      throw new Error(`Invalid TRUSTED_PROXY_CIDRS entry "${entry}"`);
+    }
+    proxies.addSubnet(address, bits, version === 6 ? 'ipv6' : 'ipv4');
+  }
+
+  cached = { config, proxies };
+  return proxies;
+}
+
+function headerValue(ctx: ParameterizedContext, name: string): string | undefined {
+  const value = ctx.get(name).trim();
+  return value || undefined;
+}
+
+/**
+ * Identity of a user signed in through the trusted proxy, or undefined when
+ * the request did not come from it (its headers are then ignored).
+ */
+export function getProxyIdentity(ctx: ParameterizedContext): AuthIdentity | undefined {
+  const proxies = getTrustedProxies();
+  // The socket address, not ctx.ip: X-Forwarded-For is set by the client's side
+  const address = ctx.req.socket.remoteAddress;
+  if (!proxies || !address) return undefined;
+  if (!proxies.check(address, net.isIPv6(address) ? 'ipv6' : 'ipv4')) return undefined;
+
+  const email = headerValue(ctx, EMAIL_HEADER);
+  const user = headerValue(ctx, USER_HEADER) ?? email;
+  if (!user) return undefined;
+
+  const groups = headerValue(ctx, GROUPS_HEADER)
+    ?.split(',')
+    .map((group) => group.trim())
+    .filter(Boolean);
+  return {
+    subject: `user:${user}`,
+    label: email ?? user,
+    ...(email && { email }),
+    ...(groups?.length && { groups }),
+  };
+}
@@ -0,0 +1,153 @@
+import fs from 'fs/promises';
+import { GeminiUpstreamError, geminiErrorFromResponse } from './errors.js';
+import {
+  fetchWithRetry,
+  getBackoffDelay,
+  getRetryPolicy,
+  isRetryableStatus,
+  parseRetryAfter,
+  sleep,
+} from './retry.js';
+
+// Google resumable uploads require chunks to be a multiple of 256 KiB (except the last one)
+const DEFAULT_CHUNK_GRANULARITY = 256 * 1024;
+const DEFAULT_CHUNK_SIZE = 8 * 1024 * 1024;
+
+export interface ChunkedUploadOptions {
+  // Value of the X-Goog-Upload-Chunk-Granularity header from the start response
+  granularity?: number;
+}
+
+interface UploadStatus {
+  offset: number;
+  final: boolean;
+  responseText: string;
+}
+
+/**
+ * Read the upload chunk size from GEMINI_UPLOAD_CHUNK_SIZE, rounded down to the granularity.
+ */
+export function getUploadChunkSize(granularity = DEFAULT_CHUNK_GRANULARITY): number {
+  const configured = parseInt(process.env.GEMINI_UPLOAD_CHUNK_SIZE ?? '', 10);
+  const size = Number.isInteger(configured) && configured > 0 ? configured : DEFAULT_CHUNK_SIZE;
+  return Math.max(granularity, Math.floor(size / granularity) * granularity);
+}
+
+/**
+ * Ask the upload session how many bytes it has persisted.
+ */
+async function queryUploadStatus(uploadUrl: string): Promise<UploadStatus> {
+  const response = await fetchWithRetry(
+    uploadUrl,
+    {
+      method: 'POST',
+      headers: { 'X-Goog-Upload-Command': 'query' },
+    },
+    { label: 'POST /upload/files (query)', idempotent: true }
+  );
+
+  if (!response.ok) {
+    throw await geminiErrorFromResponse(
+      response,
+      `Upload status query failed: HTTP ${response.status}`
+    );
+  }
+
+  const received = parseInt(response.headers.get('X-Goog-Upload-Size-Received') ?? '0', 10);
+  return {
+    offset: Number.isInteger(received) ? received : 0,
+    final: response.headers.get('X-Goog-Upload-Status') === 'final',
+    responseText: await response.text(),
+  };
+}
+
+/**
+ * Stream a file to a resumable upload session in fixed-size chunks.
+ * Only one chunk is held in memory at a time. After a failed chunk the session
+ * is queried for the persisted offset and the upload resumes from there.
+ * Returns the body of the finalizing response.
+ */
+export async function uploadFileInChunks(
+  uploadUrl: string,
+  filePath: string,
+  totalSize: number,
+  options?: ChunkedUploadOptions
+): Promise<string> {
+  const policy = getRetryPolicy();
+  const chunkSize = getUploadChunkSize(options?.granularity);
+  const buffer = Buffer.alloc(Math.max(1, Math.min(chunkSize, totalSize)));
+  const handle = await fs.open(filePath, 'r');
+
+  let offset = 0;
+  let failures = 0;
+
+  try {
+    for (;;) {
+      const length = Math.min(chunkSize, totalSize - offset);
+      const isLast = offset + length >= totalSize;
+      const { bytesRead } = await handle.read(buffer, 0, length, offset);
+
+      let response: Response | undefined;
+      let networkError: Error | undefined;
+      try {
+        response = await fetch(uploadUrl, {
+          method: 'POST',
+          headers: {
+            'Content-Length': String(bytesRead),
+            'X-Goog-Upload-Offset': String(offset),
+            'X-Goog-Upload-Command': isLast ? 'upload, finalize' : 'upload',
+          },
+          body: buffer.subarray(0, bytesRead),
+        });
+      } catch (error) {
+        networkError = error instanceof Error ? error : new Error(String(error));
+      }
+
+      if (response?.ok) {
+        if (isLast) {
+          return await response.text();
+        }
+        await response.body?.cancel().catch(() => {});
+        offset += bytesRead;
+        failures = 0;
+        continue;
+      }
+
+      if (response && !isRetryableStatus(response.status, true)) {
+        throw await geminiErrorFromResponse(response, `Upload failed: HTTP ${response.status}`);
+      }
+
+      failures++;
+      if (failures >= policy.maxAttempts) {
+        if (response) {
+          throw await geminiErrorFromResponse(response, `Upload failed: HTTP ${response.status}`);
+        }
+        throw new GeminiUpstreamError(`Upload failed: ${networkError?.message ?? 'Unknown error'}`);
+      }
+
+      const retryAfter = response
+        ? parseRetryAfter(response.headers.get('Retry-After'))
+        : undefined;
+      const delay =
+        retryAfter !== undefined
+          ? Math.min(retryAfter, policy.maxDelayMs)
+          : getBackoffDelay(failures, policy);
+      console.warn(
+        `[gemini] Upload chunk at offset ${offset} failed ` +
+          `(${response ? `HTTP ${response.status}` : networkError?.message}), ` +
+          `resuming in ${delay}ms (attempt ${failures}/${policy.maxAttempts})`
+      );
+      await response?.body?.cancel().catch(() => {});
+      await sleep(delay);
+
+      // Resume from whatever the server has actually persisted
+      const status = await queryUploadStatus(uploadUrl);
+      if (status.final) {
+        return status.responseText;
+      }
+      offset = status.offset;
+    }
+  } finally {
+    await handle.close();
+  }
+}
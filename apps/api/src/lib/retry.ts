@@ -0,0 +1,122 @@
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface RetryOptions {
+  // Label used in retry log lines (e.g. "GET /fileSearchStores")
+  label: string;
+  // Idempotent requests are retried on 5xx and network errors; others only on 429
+  idempotent: boolean;
+  policy?: RetryPolicy;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 500;
+const DEFAULT_MAX_DELAY_MS = 10000;
+
+// Statuses that indicate a transient failure worth retrying
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+function readIntEnv(name: string, fallback: number, min: number): number {
+  const value = process.env[name];
+  if (!value) return fallback;
+  const parsed = parseInt(value, 10);
+  return Number.isInteger(parsed) && parsed >= min ? parsed : fallback;
+}
+
+/**
+ * Read the retry policy from environment variables.
+ */
+export function getRetryPolicy(): RetryPolicy {
+  return {
+    maxAttempts: readIntEnv('GEMINI_RETRY_MAX_ATTEMPTS', DEFAULT_MAX_ATTEMPTS, 1),
+    baseDelayMs: readIntEnv('GEMINI_RETRY_BASE_DELAY_MS', DEFAULT_BASE_DELAY_MS, 0),
+    maxDelayMs: readIntEnv('GEMINI_RETRY_MAX_DELAY_MS', DEFAULT_MAX_DELAY_MS, 0),
+  };
+}
+
+/**
+ * Parse a Retry-After header (delay in seconds or an HTTP date) into milliseconds.
+ */
+export function parseRetryAfter(header: string | null): number | undefined {
+  if (!header) return undefined;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds) && seconds >= 0) {
+    return seconds * 1000;
+  }
+  const date = Date.parse(header);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+  return undefined;
+}
+
+/**
+ * Exponential backoff with full jitter, capped at maxDelayMs.
+ */
+export function getBackoffDelay(attempt: number, policy: RetryPolicy): number {
+  const exponential = Math.min(policy.maxDelayMs, policy.baseDelayMs * Math.pow(2, attempt - 1));
+  return Math.round(Math.random() * exponential);
+}
+
+/**
+ * Whether a response status is worth retrying for a request of the given kind.
+ */
+export function isRetryableStatus(status: number, idempotent: boolean): boolean {
+  if (status === 429) return true;
+  return idempotent && RETRYABLE_STATUSES.has(status);
+}
+
+export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * fetch() with automatic retries for transient failures.
+ * Honors Retry-After (capped at maxDelayMs) and logs every retry.
+ */
+export async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  options: RetryOptions
+): Promise<Response> {
+  const policy = options.policy ?? getRetryPolicy();
+
+  for (let attempt = 1; ; attempt++) {
+    const isLastAttempt = attempt >= policy.maxAttempts;
+
+    let response: Response;
+    try {
+      response = await fetch(url, init);
+    } catch (error) {
+      // Network errors: retry only if the request is safe to repeat
+      if (isLastAttempt || !options.idempotent || init.signal?.aborted) {
+        throw error;
+      }
+      const delay = getBackoffDelay(attempt, policy);
+      console.warn(
+        `[gemini] ${options.label} failed (${error instanceof Error ? error.message : error}), ` +
+          `retrying in ${delay}ms (attempt ${attempt}/${policy.maxAttempts})`
+      );
+      await sleep(delay);
+      continue;
+    }
+
+    if (response.ok || isLastAttempt || !isRetryableStatus(response.status, options.idempotent)) {
+      return response;
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+    const delay =
+      retryAfter !== undefined
+        ? Math.min(retryAfter, policy.maxDelayMs)
+        : getBackoffDelay(attempt, policy);
+    console.warn(
+      `[gemini] ${options.label} returned HTTP ${response.status}, ` +
+        `retrying in ${delay}ms (attempt ${attempt}/${policy.maxAttempts})`
+    );
+    // Release the connection before retrying
+    await response.body?.cancel().catch(() => {});
+    await sleep(delay);
+  }
+}
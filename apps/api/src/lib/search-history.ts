@@ -0,0 +1,51 @@
+import crypto from 'crypto';
+import { DEFAULT_SEARCH_MODEL, type SearchConfig, type SearchResult } from './gemini.js';
+import { getStorage, type SearchHistoryRecord, type SearchSettings } from './storage/index.js';
+
+/**
+ * Record a completed search in the history.
+ * Recording is best effort: a storage failure is logged and never fails the search itself.
+ */
+export async function recordSearch(
+  storeNames: string[],
+  query: string,
+  config: SearchConfig,
+  result: SearchResult,
+  latencyMs: number
+): Promise<SearchHistoryRecord | undefined> {
+  // Conversation turns belong to chats, not to the search settings
+  const { history: _history, ...rest } = config;
+  const settings = Object.fromEntries(
+    Object.entries(rest).filter(([, value]) => value !== undefined)
+  ) as SearchSettings;
+
+  const entry: SearchHistoryRecord = {
+    id: crypto.randomUUID(),
+    storeNames: [
+      ...new Set(
+        storeNames.map((n) => (n.startsWith('fileSearchStores/') ? n : `fileSearchStores/${n}`))
+      ),
+    ],
+    query,
+    settings,
+    model: config.model ?? DEFAULT_SEARCH_MODEL,
+    answer: result.text,
+    sources: result.sources,
+    supports: result.supports,
+    latencyMs: Math.round(latencyMs),
+    pinned: false,
+    createTime: new Date().toISOString(),
+  };
+
+  try {
+    const storage = await getStorage();
+    await storage.history.add(entry);
+    return entry;
+  } catch (error) {
+    console.error(
+      'Failed to record search history:',
+      error instanceof Error ? error.message : error
+    );
+    return undefined;
+  }
+}
@@ -0,0 +1,50 @@
+import { createMemoryStorage } from './memory.js';
+import { createSqliteStorage } from './sqlite.js';
+import type { Storage } from './types.js';
+
+export type * from './types.js';
+
+const DEFAULT_SQLITE_PATH = 'data/gemindex.db';
+
+let storagePromise: Promise<Storage> | undefined;
+
+/**
+ * Create the storage selected by STORAGE_DRIVER (sqlite, the default, or memory).
+ * The SQLite file lives at STORAGE_PATH (default: data/gemindex.db).
+ */
+async function createStorage(): Promise<Storage> {
+  const driver = process.env.STORAGE_DRIVER || 'sqlite';
+  switch (driver) {
+    case 'sqlite': {
+      const filePath = process.env.STORAGE_PATH || DEFAULT_SQLITE_PATH;
+      const storage = await createSqliteStorage(filePath);
+      console.log(`[storage] Using SQLite at ${filePath}`);
+      return storage;
+    }
+    case 'memory':
+      console.log('[storage] Using in-memory storage (data is lost on restart)');
+      return createMemoryStorage();
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}" (expected "sqlite" or "memory")`);
+  }
+}
+
+/**
+ * Shared storage instance, created on first use.
+ */
+export function getStorage(): Promise<Storage> {
+  storagePromise ??= createStorage().catch((error) => {
+    storagePromise = undefined;
+    throw error;
+  });
+  return storagePromise;
+}
+
+/**
+ * Close the shared storage (e.g. on shutdown).
+ */
+export async function closeStorage(): Promise<void> {
+  const storage = await storagePromise?.catch(() => undefined);
+  storagePromise = undefined;
+  await storage?.close();
+}
@@ -0,0 +1,237 @@
+import type {
+  ApiKeyRecord,
+  AuditRecord,
+  JobRecord,
+  PresetRecord,
+  RoleGrantRecord,
+  SearchHistoryRecord,
+  Storage,
+  StoreProtectionRecord,
+  UploadedFileRecord,
+} from './types.js';
+
+const DEFAULT_LIST_LIMIT = 50;
+
+type Listed = { createTime: string; id: string };
+
+// Newest first; entries created at the same time by descending id, as in SQLite
+const byCreateTimeDesc = (a: Listed, b: Listed) =>
+  b.createTime.localeCompare(a.createTime) || (a.id < b.id ? 1 : a.id > b.id ? -1 : 0);
+
+// Keyset cursor on (createTime, id), matching the SQLite storage
+function isBefore(entry: Listed, filter?: { before?: string; beforeId?: string }): boolean {
+  if (!filter?.before) return true;
+  if (entry.createTime !== filter.before || filter.beforeId === undefined) {
+    return entry.createTime < filter.before;
+  }
+  return entry.id < filter.beforeId;
+}
+
+/**
+ * In-memory storage. Nothing survives a restart; intended for development and
+ * for environments without node:sqlite.
+ */
+export function createMemoryStorage(): Storage {
+  const presets = new Map<string, PresetRecord>();
+  const storeDefaults = new Map<string, string>();
+  const history = new Map<string, SearchHistoryRecord>();
+  const jobs = new Map<string, JobRecord>();
+  const uploadedFiles = new Map<string, UploadedFileRecord>();
+  const apiKeys = new Map<string, ApiKeyRecord>();
+  // Keyed by subject and store name
+  const roleGrants = new Map<string, RoleGrantRecord>();
+  const storeProtection = new Map<string, StoreProtectionRecord>();
+  const auditLog: AuditRecord[] = [];
+  const grantKey = (subject: string, storeName: string) => JSON.stringify([subject, storeName]);
+
+  // Records are copied in and out so callers cannot mutate stored state
+  const clone = <T>(value: T): T => structuredClone(value);
+
+  return {
+    presets: {
+      async list() {
+        return [...presets.values()].sort((a, b) => a.name.localeCompare(b.name)).map(clone);
+      },
+      async get(id) {
+        const preset = presets.get(id);
+        return preset && clone(preset);
+      },
+      async create(preset) {
+        presets.set(preset.id, clone(preset));
+      },
+      async update(preset) {
+        if (presets.has(preset.id)) presets.set(preset.id, clone(preset));
+      },
+      async delete(id) {
+        for (const [storeName, presetId] of storeDefaults) {
+          if (presetId === id) storeDefaults.delete(storeName);
+        }
+        return presets.delete(id);
+      },
+      async listStoreDefaults() {
+        return Object.fromEntries(storeDefaults);
+      },
+      async setStoreDefault(storeName, presetId) {
+        if (presetId === null) storeDefaults.delete(storeName);
+        else storeDefaults.set(storeName, presetId);
+      },
+    },
+
+    history: {
+      async list(filter) {
+        const query = filter?.query?.toLowerCase();
+        return [...history.values()]
+          .filter(
+            (entry) =>
+              (!filter?.storeName || entry.storeNames.includes(filter.storeName)) &&
+              (!query || entry.query.toLowerCase().includes(query)) &&
+              (filter?.pinned === undefined || entry.pinned === filter.pinned) &&
+              isBefore(entry, filter)
+          )
+          .sort(byCreateTimeDesc)
+          .slice(0, filter?.limit ?? DEFAULT_LIST_LIMIT)
+          .map(clone);
+      },
+      async get(id) {
+        const entry = history.get(id);
+        return entry && clone(entry);
+      },
+      async add(entry) {
+        history.set(entry.id, clone(entry));
+      },
+      async setPinned(id, pinned) {
+        const entry = history.get(id);
+        if (!entry) return false;
+        entry.pinned = pinned;
+        return true;
+      },
+      async delete(id) {
+        return history.delete(id);
+      },
+    },
+
+    jobs: {
+      async list(filter) {
+        return [...jobs.values()]
+          .filter(
+            (job) =>
+              (!filter?.storeName || job.storeName === filter.storeName) &&
+              (!filter?.status || job.status === filter.status)
+          )
+          .sort(byCreateTimeDesc)
+          .slice(0, filter?.limit ?? DEFAULT_LIST_LIMIT)
+          .map(clone);
+      },
+      async get(id) {
+        const job = jobs.get(id);
+        return job && clone(job);
+      },
+      async create(job) {
+        jobs.set(job.id, clone(job));
+      },
+      async update(job) {
+        if (jobs.has(job.id)) jobs.set(job.id, clone(job));
+      },
+    },
+
+    uploadedFiles: {
+      async get(sha256) {
+        const record = uploadedFiles.get(sha256);
+        return record && clone(record);
+      },
+      async put(record) {
+        uploadedFiles.set(record.sha256, clone(record));
+      },
+      async delete(sha256) {
+        return uploadedFiles.delete(sha256);
+      },
+    },
+
+    apiKeys: {
+      async list() {
+        return [...apiKeys.values()].sort(byCreateTimeDesc).map(clone);
+      },
+      async get(id) {
+        const key = apiKeys.get(id);
+        return key && clone(key);
+      },
+      async findByHash(keyHash) {
+        const key = [...apiKeys.values()].find((k) => k.keyHash === keyHash);
+        return key && clone(key);
+      },
+      async create(key) {
+        apiKeys.set(key.id, clone(key));
+      },
+      async setLastUsed(id, lastUsedTime) {
+        const key = apiKeys.get(id);
+        if (key) key.lastUsedTime = lastUsedTime;
+      },
+      async delete(id) {
+        return apiKeys.delete(id);
+      },
+    },
+
+    roleGrants: {
+      async list(filter) {
+        return [...roleGrants.values()]
+          .filter(
+            (grant) =>
+              (!filter?.subject || grant.subject === filter.subject) &&
+              (!filter?.storeName || grant.storeName === filter.storeName)
+          )
+          .sort(
+            (a, b) => a.subject.localeCompare(b.subject) || a.storeName.localeCompare(b.storeName)
+          )
+          .map(clone);
+      },
+      async put(grant) {
+        roleGrants.set(grantKey(grant.subject, grant.storeName), clone(grant));
+      },
+      async delete(subject, storeName) {
+        return roleGrants.delete(grantKey(subject, storeName));
+      },
+    },
+
+    storeProtection: {
+      async list() {
+        return [...storeProtection.values()]
+          .sort((a, b) => a.storeName.localeCompare(b.storeName))
+          .map(clone);
+      },
+      async get(storeName) {
+        const record = storeProtection.get(storeName);
+        return record && clone(record);
+      },
+      async put(record) {
+        storeProtection.set(record.storeName, clone(record));
+      },
+      async delete(storeName) {
+        return storeProtection.delete(storeName);
+      },
+    },
+
+    auditLog: {
+      async list(filter) {
+        return auditLog
+          .filter(
+            (entry) =>
+              (!filter?.storeName || entry.storeName === filter.storeName) &&
+              (!filter?.actor || entry.actor === filter.actor) &&
+              (!filter?.action || entry.action === filter.action) &&
+              (!filter?.source || entry.source === filter.source) &&
+              (!filter?.result || entry.result === filter.result) &&
+              (!filter?.since || entry.createTime >= filter.since) &&
+              isBefore(entry, filter)
+          )
+          .sort(byCreateTimeDesc)
+          .slice(0, filter?.limit ?? DEFAULT_LIST_LIMIT)
+          .map(clone);
+      },
+      async append(entry) {
+        auditLog.push(clone(entry));
+      },
+    },
+
+    async close() {},
+  };
+}
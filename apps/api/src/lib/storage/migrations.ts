@@ -0,0 +1,142 @@
+export interface Migration {
+  version: number;
+  name: string;
+  sql: string;
+}
+
+// Applied in order, each once. Never edit a released migration; add a new one instead.
+export const migrations: Migration[] = [
+  {
+    version: 1,
+    name: 'initial',
+    sql: `
+      CREATE TABLE presets (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        settings TEXT NOT NULL,
+        create_time TEXT NOT NULL,
+        update_time TEXT NOT NULL
+      );
+
+      CREATE TABLE search_history (
+        id TEXT PRIMARY KEY,
+        store_names TEXT NOT NULL,
+        query TEXT NOT NULL,
+        settings TEXT NOT NULL,
+        model TEXT NOT NULL,
+        answer TEXT NOT NULL,
+        sources TEXT NOT NULL,
+        supports TEXT NOT NULL,
+        latency_ms INTEGER NOT NULL,
+        pinned INTEGER NOT NULL DEFAULT 0,
+        create_time TEXT NOT NULL
+      );
+      CREATE INDEX search_history_create_time ON search_history (create_time);
+
+      CREATE TABLE jobs (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        status TEXT NOT NULL,
+        store_name TEXT NOT NULL,
+        payload TEXT NOT NULL,
+        result TEXT,
+        error TEXT,
+        create_time TEXT NOT NULL,
+        update_time TEXT NOT NULL
+      );
+      CREATE INDEX jobs_store_name ON jobs (store_name, create_time);
+    `,
+  },
+  {
+    version: 2,
+    name: 'store_default_presets',
+    sql: `
+      CREATE TABLE store_default_presets (
+        store_name TEXT PRIMARY KEY,
+        preset_id TEXT NOT NULL REFERENCES presets (id) ON DELETE CASCADE
+      );
+    `,
+  },
+  {
+    version: 3,
+    name: 'uploaded_files',
+    sql: `
+      CREATE TABLE uploaded_files (
+        sha256 TEXT PRIMARY KEY,
+        file_name TEXT NOT NULL,
+        chunking_config TEXT,
+        expire_time TEXT,
+        create_time TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 4,
+    name: 'api_keys',
+    sql: `
+      CREATE TABLE api_keys (
+        id TEXT PRIMARY KEY,
+        label TEXT NOT NULL,
+        prefix TEXT NOT NULL,
+        key_hash TEXT NOT NULL UNIQUE,
+        expire_time TEXT,
+        last_used_time TEXT,
+        create_time TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 5,
+    name: 'role_grants',
+    // Keys created before roles existed keep full access
+    sql: `
+      CREATE TABLE role_grants (
+        subject TEXT NOT NULL,
+        store_name TEXT NOT NULL,
+        role TEXT NOT NULL,
+        create_time TEXT NOT NULL,
+        PRIMARY KEY (subject, store_name)
+      );
+      CREATE INDEX role_grants_store_name ON role_grants (store_name);
+      INSERT INTO role_grants (subject, store_name, role, create_time)
+        SELECT 'key:' || id, '*', 'admin', create_time FROM api_keys;
+    `,
+  },
+  {
+    version: 6,
+    name: 'audit_log',
+    sql: `
+      CREATE TABLE audit_log (
+        id TEXT PRIMARY KEY,
+        actor TEXT NOT NULL,
+        actor_label TEXT,
+        action TEXT NOT NULL,
+        store_name TEXT,
+        document_name TEXT,
+        source TEXT NOT NULL,
+        result TEXT NOT NULL,
+        status INTEGER NOT NULL,
+        error TEXT,
+        details TEXT,
+        create_time TEXT NOT NULL
+      );
+      CREATE INDEX audit_log_create_time ON audit_log (create_time);
+      CREATE INDEX audit_log_store_name ON audit_log (store_name, create_time);
+      CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log
+        BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+      CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log
+        BEGIN SELECT RAISE(ABORT, 'audit_log is append-only'); END;
+    `,
+  },
+  {
+    version: 7,
+    name: 'store_protection',
+    sql: `
+      CREATE TABLE store_protection (
+        store_name TEXT PRIMARY KEY,
+        level TEXT NOT NULL,
+        update_time TEXT NOT NULL
+      );
+    `,
+  },
+];
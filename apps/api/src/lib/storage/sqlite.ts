@@ -0,0 +1,565 @@
+import fs from 'fs';
+import path from 'path';
+import type { DatabaseSync, SQLInputValue } from 'node:sqlite';
+import { migrations } from './migrations.js';
+import type {
+  ApiKeyRecord,
+  AuditFilter,
+  AuditRecord,
+  JobFilter,
+  JobRecord,
+  PresetRecord,
+  RoleGrantFilter,
+  RoleGrantRecord,
+  SearchHistoryFilter,
+  SearchHistoryRecord,
+  Storage,
+  StoreProtectionRecord,
+  UploadedFileRecord,
+} from './types.js';
+
+type Row = Record<string, unknown>;
+
+const DEFAULT_LIST_LIMIT = 50;
+
+function parseJson<T>(value: unknown, fallback: T): T {
+  if (typeof value !== 'string') return fallback;
+  try {
+    return JSON.parse(value) as T;
+  } catch {
+    return fallback;
+  }
+}
+
+// WHERE clause for a keyset cursor on (create_time, id), for lists ordered newest first
+function beforeCursor(
+  before: string,
+  beforeId: string | undefined,
+  params: SQLInputValue[]
+): string {
+  if (beforeId === undefined) {
+    params.push(before);
+    return 'create_time < ?';
+  }
+  params.push(before, before, beforeId);
+  return '(create_time < ? OR (create_time = ? AND id < ?))';
+}
+
+/**
+ * Apply pending migrations, each in its own transaction.
+ */
+function migrate(db: DatabaseSync): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const applied = new Set(
+    db
+      .prepare('SELECT version FROM schema_migrations')
+      .all()
+      .map((row) => Number(row.version))
+  );
+
+  for (const migration of [...migrations].sort((a, b) => a.version - b.version)) {
+    if (applied.has(migration.version)) continue;
+
+    db.exec('BEGIN');
+    try {
+      db.exec(migration.sql);
+      db.prepare('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)').run(
+        migration.version,
+        migration.name,
+        new Date().toISOString()
+      );
+      db.exec('COMMIT');
+      console.log(`[storage] Applied migration ${migration.version} (${migration.name})`);
+    } catch (error) {
+      db.exec('ROLLBACK');
+      throw new Error(
+        `Migration ${migration.version} (${migration.name}) failed: ${
+          error instanceof Error ? error.message : error
+        }`
+      );
+    }
+  }
+}
+
+function toPreset(row: Row): PresetRecord {
+  return {
+    id: String(row.id),
+    name: String(row.name),
+    settings: parseJson(row.settings, {}),
+    createTime: String(row.create_time),
+    updateTime: String(row.update_time),
+  };
+}
+
+function toHistory(row: Row): SearchHistoryRecord {
+  return {
+    id: String(row.id),
+    storeNames: parseJson(row.store_names, []),
+    query: String(row.query),
+    settings: parseJson(row.settings, {}),
+    model: String(row.model),
+    answer: String(row.answer),
+    sources: parseJson(row.sources, []),
+    supports: parseJson(row.supports, []),
+    latencyMs: Number(row.latency_ms),
+    pinned: Number(row.pinned) === 1,
+    createTime: String(row.create_time),
+  };
+}
+
+function toJob(row: Row): JobRecord {
+  return {
+    id: String(row.id),
+    type: String(row.type),
+    status: String(row.status) as JobRecord['status'],
+    storeName: String(row.store_name),
+    payload: parseJson(row.payload, {}),
+    result: row.result === null ? undefined : parseJson(row.result, undefined),
+    error: row.error === null ? undefined : String(row.error),
+    createTime: String(row.create_time),
+    updateTime: String(row.update_time),
+  };
+}
+
+function toUploadedFile(row: Row): UploadedFileRecord {
+  return {
+    sha256: String(row.sha256),
+    fileName: String(row.file_name),
+    chunkingConfig:
+      row.chunking_config === null ? undefined : parseJson(row.chunking_config, undefined),
+    expireTime: row.expire_time === null ? undefined : String(row.expire_time),
+    createTime: String(row.create_time),
+  };
+}
+
+function toApiKey(row: Row): ApiKeyRecord {
+  return {
+    id: String(row.id),
+    label: String(row.label),
+    prefix: String(row.prefix),
+    keyHash: String(row.key_hash),
+    expireTime: row.expire_time === null ? undefined : String(row.expire_time),
+    lastUsedTime: row.last_used_time === null ? undefined : String(row.last_used_time),
+    createTime: String(row.create_time),
+  };
+}
+
+function toRoleGrant(row: Row): RoleGrantRecord {
+  return {
+    subject: String(row.subject),
+    storeName: String(row.store_name),
+    role: String(row.role) as RoleGrantRecord['role'],
+    createTime: String(row.create_time),
+  };
+}
+
+function toStoreProtection(row: Row): StoreProtectionRecord {
+  return {
+    storeName: String(row.store_name),
+    level: String(row.level) as StoreProtectionRecord['level'],
+    updateTime: String(row.update_time),
+  };
+}
+
+function toAudit(row: Row): AuditRecord {
+  return {
+    id: String(row.id),
+    actor: String(row.actor),
+    actorLabel: row.actor_label === null ? undefined : String(row.actor_label),
+    action: String(row.action),
+    storeName: row.store_name === null ? undefined : String(row.store_name),
+    documentName: row.document_name === null ? undefined : String(row.document_name),
+    source: String(row.source) as AuditRecord['source'],
+    result: String(row.result) as AuditRecord['result'],
+    status: Number(row.status),
+    error: row.error === null ? undefined : String(row.error),
+    details: row.details === null ? undefined : parseJson(row.details, undefined),
+    createTime: String(row.create_time),
+  };
+}
+
+/**
+ * Embedded SQLite storage using Node's built-in node:sqlite module (Node 22.13+).
+ * The module is loaded lazily so a Node version without it fails with a clear
+ * message instead of at import time.
+ */
+export async function createSqliteStorage(filePath: string): Promise<Storage> {
+  let sqlite: typeof import('node:sqlite');
+  try {
+    sqlite = await import('node:sqlite');
+  } catch {
+    throw new Error(
+      `node:sqlite is not available on Node ${process.versions.node}; the API requires Node 22.13+`
+    );
+  }
+  const { DatabaseSync } = sqlite;
+
+  if (filePath !== ':memory:') {
+    fs.mkdirSync(path.dirname(path.resolve(filePath)), { recursive: true });
+  }
+  const db = new DatabaseSync(filePath);
+  db.exec('PRAGMA journal_mode = WAL');
+  db.exec('PRAGMA busy_timeout = 5000');
+  migrate(db);
+
+  return {
+    presets: {
+      async list() {
+        return db.prepare('SELECT * FROM presets ORDER BY name').all().map(toPreset);
+      },
+      async get(id) {
+        const row = db.prepare('SELECT * FROM presets WHERE id = ?').get(id);
+        return row ? toPreset(row) : undefined;
+      },
+      async create(preset) {
+        db.prepare(
+          'INSERT INTO presets (id, name, settings, create_time, update_time) VALUES (?, ?, ?, ?, ?)'
+        ).run(
+          preset.id,
+          preset.name,
+          JSON.stringify(preset.settings),
+          preset.createTime,
+          preset.updateTime
+        );
+      },
+      async update(preset) {
+        db.prepare('UPDATE presets SET name = ?, settings = ?, update_time = ? WHERE id = ?').run(
+          preset.name,
+          JSON.stringify(preset.settings),
+          preset.updateTime,
+          preset.id
+        );
+      },
+      async delete(id) {
+        db.prepare('DELETE FROM store_default_presets WHERE preset_id = ?').run(id);
+        return Number(db.prepare('DELETE FROM presets WHERE id = ?').run(id).changes) > 0;
+      },
+      async listStoreDefaults() {
+        const rows = db.prepare('SELECT store_name, preset_id FROM store_default_presets').all();
+        return Object.fromEntries(
+          rows.map((row) => [String(row.store_name), String(row.preset_id)])
+        );
+      },
+      async setStoreDefault(storeName, presetId) {
+        if (presetId === null) {
+          db.prepare('DELETE FROM store_default_presets WHERE store_name = ?').run(storeName);
+          return;
+        }
+        db.prepare(
+          `INSERT INTO store_default_presets (store_name, preset_id) VALUES (?, ?)
+            ON CONFLICT (store_name) DO UPDATE SET preset_id = excluded.preset_id`
+        ).run(storeName, presetId);
+      },
+    },
+
+    history: {
+      async list(filter?: SearchHistoryFilter) {
+        const where: string[] = [];
+        const params: SQLInputValue[] = [];
+        if (filter?.storeName) {
+          where.push('EXISTS (SELECT 1 FROM json_each(store_names) WHERE value = ?)');
+          params.push(filter.storeName);
+        }
+        if (filter?.query) {
+          where.push("query LIKE ? ESCAPE '\\'");
+          params.push(`%${filter.query.replace(/[\\%_]/g, (c) => `\\${c}`)}%`);
+        }
+        if (filter?.pinned !== undefined) {
+          where.push('pinned = ?');
+          params.push(filter.pinned ? 1 : 0);
+        }
+        if (filter?.before) {
+          where.push(beforeCursor(filter.before, filter.beforeId, params));
+        }
+        params.push(filter?.limit ?? DEFAULT_LIST_LIMIT);
+
+        return db
+          .prepare(
+            `SELECT * FROM search_history ${where.length ? `WHERE ${where.join(' AND ')}` : ''} ` +
+              'ORDER BY create_time DESC, id DESC LIMIT ?'
+          )
+          .all(...params)
+          .map(toHistory);
+      },
+      async get(id) {
+        const row = db.prepare('SELECT * FROM search_history WHERE id = ?').get(id);
+        return row ? toHistory(row) : undefined;
+      },
+      async add(entry) {
+        db.prepare(
+          `INSERT INTO search_history
+            (id, store_names, query, settings, model, answer, sources, supports, latency_ms, pinned, create_time)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        ).run(
+          entry.id,
+          JSON.stringify(entry.storeNames),
+          entry.query,
+          JSON.stringify(entry.settings),
+          entry.model,
+          entry.answer,
+          JSON.stringify(entry.sources),
+          JSON.stringify(entry.supports),
+          entry.latencyMs,
+          entry.pinned ? 1 : 0,
+          entry.createTime
+        );
+      },
+      async setPinned(id, pinned) {
+        const result = db
+          .prepare('UPDATE search_history SET pinned = ? WHERE id = ?')
+          .run(pinned ? 1 : 0, id);
+        return Number(result.changes) > 0;
+      },
+      async delete(id) {
+        return Number(db.prepare('DELETE FROM search_history WHERE id = ?').run(id).changes) > 0;
+      },
+    },
+
+    jobs: {
+      async list(filter?: JobFilter) {
+        const where: string[] = [];
+        const params: SQLInputValue[] = [];
+        if (filter?.storeName) {
+          where.push('store_name = ?');
+          params.push(filter.storeName);
+        }
+        if (filter?.status) {
+          where.push('status = ?');
+          params.push(filter.status);
+        }
+        params.push(filter?.limit ?? DEFAULT_LIST_LIMIT);
+
+        return db
+          .prepare(
+            `SELECT * FROM jobs ${where.length ? `WHERE ${where.join(' AND ')}` : ''} ` +
+              'ORDER BY create_time DESC LIMIT ?'
+          )
+          .all(...params)
+          .map(toJob);
+      },
+      async get(id) {
+        const row = db.prepare('SELECT * FROM jobs WHERE id = ?').get(id);
+        return row ? toJob(row) : undefined;
+      },
+      async create(job) {
+        db.prepare(
+          `INSERT INTO jobs
+            (id, type, status, store_name, payload, result, error, create_time, update_time)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        ).run(
+          job.id,
+          job.type,
+          job.status,
+          job.storeName,
+          JSON.stringify(job.payload),
+          job.result === undefined ? null : JSON.stringify(job.result),
+          job.error ?? null,
+          job.createTime,
+          job.updateTime
+        );
+      },
+      async update(job) {
+        db.prepare(
+          'UPDATE jobs SET status = ?, payload = ?, result = ?, error = ?, update_time = ? WHERE id = ?'
+        ).run(
+          job.status,
+          JSON.stringify(job.payload),
+          job.result === undefined ? null : JSON.stringify(job.result),
+          job.error ?? null,
+          job.updateTime,
+          job.id
+        );
+      },
+    },
+
+    uploadedFiles: {
+      async get(sha256) {
+        const row = db.prepare('SELECT * FROM uploaded_files WHERE sha256 = ?').get(sha256);
+        return row ? toUploadedFile(row) : undefined;
+      },
+      async put(record) {
+        db.prepare(
+          `INSERT OR REPLACE INTO uploaded_files
+            (sha256, file_name, chunking_config, expire_time, create_time)
+            VALUES (?, ?, ?, ?, ?)`
+        ).run(
+          record.sha256,
+          record.fileName,
+          record.chunkingConfig === undefined ? null : JSON.stringify(record.chunkingConfig),
+          record.expireTime ?? null,
+          record.createTime
+        );
+      },
+      async delete(sha256) {
+        return (
+          Number(db.prepare('DELETE FROM uploaded_files WHERE sha256 = ?').run(sha256).changes) > 0
+        );
+      },
+    },
+
+    apiKeys: {
+      async list() {
+        return db.prepare('SELECT * FROM api_keys ORDER BY create_time DESC').all().map(toApiKey);
+      },
+      async get(id) {
+        const row = db.prepare('SELECT * FROM api_keys WHERE id = ?').get(id);
+        return row ? toApiKey(row) : undefined;
+      },
+      async findByHash(keyHash) {
+        const row = db.prepare('SELECT * FROM api_keys WHERE key_hash = ?').get(keyHash);
+        return row ? toApiKey(row) : undefined;
+      },
+      async create(key) {
+        db.prepare(
+          `INSERT INTO api_keys
+            (id, label, prefix, key_hash, expire_time, last_used_time, create_time)
+            VALUES (?, ?, ?, ?, ?, ?, ?)`
+        ).run(
+          key.id,
+          key.label,
+          key.prefix,
+          key.keyHash,
+          key.expireTime ?? null,
+          key.lastUsedTime ?? null,
+          key.createTime
+        );
+      },
+      async setLastUsed(id, lastUsedTime) {
+        db.prepare('UPDATE api_keys SET last_used_time = ? WHERE id = ?').run(lastUsedTime, id);
+      },
+      async delete(id) {
+        return Number(db.prepare('DELETE FROM api_keys WHERE id = ?').run(id).changes) > 0;
+      },
+    },
+
+    roleGrants: {
+      async list(filter?: RoleGrantFilter) {
+        const where: string[] = [];
+        const params: SQLInputValue[] = [];
+        if (filter?.subject) {
+          where.push('subject = ?');
+          params.push(filter.subject);
+        }
+        if (filter?.storeName) {
+          where.push('store_name = ?');
+          params.push(filter.storeName);
+        }
+
+        return db
+          .prepare(
+            `SELECT * FROM role_grants ${where.length ? `WHERE ${where.join(' AND ')}` : ''} ` +
+              'ORDER BY subject, store_name'
+          )
+          .all(...params)
+          .map(toRoleGrant);
+      },
+      async put(grant) {
+        db.prepare(
+          `INSERT INTO role_grants (subject, store_name, role, create_time) VALUES (?, ?, ?, ?)
+            ON CONFLICT (subject, store_name) DO UPDATE SET role = excluded.role`
+        ).run(grant.subject, grant.storeName, grant.role, grant.createTime);
+      },
+      async delete(subject, storeName) {
+        const result = db
+          .prepare('DELETE FROM role_grants WHERE subject = ? AND store_name = ?')
+          .run(subject, storeName);
+        return Number(result.changes) > 0;
+      },
+    },
+
+    storeProtection: {
+      async list() {
+        return db
+          .prepare('SELECT * FROM store_protection ORDER BY store_name')
+          .all()
+          .map(toStoreProtection);
+      },
+      async get(storeName) {
+        const row = db
+          .prepare('SELECT * FROM store_protection WHERE store_name = ?')
+          .get(storeName);
+        return row ? toStoreProtection(row) : undefined;
+      },
+      async put(record) {
+        db.prepare(
+          `INSERT INTO store_protection (store_name, level, update_time) VALUES (?, ?, ?)
+            ON CONFLICT (store_name) DO UPDATE SET
+              level = excluded.level, update_time = excluded.update_time`
+        ).run(record.storeName, record.level, record.updateTime);
+      },
+      async delete(storeName) {
+        const result = db
+          .prepare('DELETE FROM store_protection WHERE store_name = ?')
+          .run(storeName);
+        return Number(result.changes) > 0;
+      },
+    },
+
+    auditLog: {
+      async list(filter?: AuditFilter) {
+        const where: string[] = [];
+        const params: SQLInputValue[] = [];
+        const columns = [
+          ['store_name', filter?.storeName],
+          ['actor', filter?.actor],
+          ['action', filter?.action],
+          ['source', filter?.source],
+          ['result', filter?.result],
+        ] as const;
+        for (const [column, value] of columns) {
+          if (value) {
+            where.push(`${column} = ?`);
+            params.push(value);
+          }
+        }
+        if (filter?.since) {
+          where.push('create_time >= ?');
+          params.push(filter.since);
+        }
+        if (filter?.before) {
+          where.push(beforeCursor(filter.before, filter.beforeId, params));
+        }
+        params.push(filter?.limit ?? DEFAULT_LIST_LIMIT);
+
+        return db
+          .prepare(
+            `SELECT * FROM audit_log ${where.length ? `WHERE ${where.join(' AND ')}` : ''} ` +
+              'ORDER BY create_time DESC, id DESC LIMIT ?'
+          )
+          .all(...params)
+          .map(toAudit);
+      },
+      async append(entry) {
+        db.prepare(
+          `INSERT INTO audit_log
+            (id, actor, actor_label, action, store_name, document_name, source, result, status, error, details, create_time)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        ).run(
+          entry.id,
+          entry.actor,
+          entry.actorLabel ?? null,
+          entry.action,
+          entry.storeName ?? null,
+          entry.documentName ?? null,
+          entry.source,
+          entry.result,
+          entry.status,
+          entry.error ?? null,
+          entry.details ? JSON.stringify(entry.details) : null,
+          entry.createTime
+        );
+      },
+    },
+
+    async close() {
+      db.close();
+    },
+  };
+}
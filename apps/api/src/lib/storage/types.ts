@@ -0,0 +1,220 @@
+import type { ChunkingConfig, GroundingChunk, GroundingSupport, SearchConfig } from '../gemini.js';
+
+// Search settings a preset or history entry captures (everything but the query and stores)
+export type SearchSettings = Omit<SearchConfig, 'history'>;
+
+export interface PresetRecord {
+  id: string;
+  name: string;
+  settings: SearchSettings;
+  createTime: string;
+  updateTime: string;
+}
+
+export interface SearchHistoryRecord {
+  id: string;
+  storeNames: string[];
+  query: string;
+  settings: SearchSettings;
+  model: string;
+  answer: string;
+  sources: GroundingChunk[];
+  supports: GroundingSupport[];
+  latencyMs: number;
+  pinned: boolean;
+  createTime: string;
+}
+
+export type JobStatus = 'queued' | 'uploading' | 'importing' | 'indexed' | 'failed';
+
+export interface JobRecord {
+  id: string;
+  type: string;
+  status: JobStatus;
+  storeName: string;
+  // Job-type specific input and output, stored as JSON
+  payload: Record<string, unknown>;
+  result?: Record<string, unknown>;
+  error?: string;
+  createTime: string;
+  updateTime: string;
+}
+
+// Files API upload of some content, reusable to re-import it (e.g. to rename a document)
+// until Gemini deletes it at expireTime
+export interface UploadedFileRecord {
+  sha256: string;
+  fileName: string; // files/{id}
+  chunkingConfig?: ChunkingConfig;
+  expireTime?: string;
+  createTime: string;
+}
+
+// API key; only a hash of the key itself is kept
+export interface ApiKeyRecord {
+  id: string;
+  label: string;
+  prefix: string; // Start of the key, shown to tell keys apart
+  keyHash: string; // SHA-256 of the key, hex
+  expireTime?: string;
+  lastUsedTime?: string;
+  createTime: string;
+}
+
+export type Role = 'viewer' | 'editor' | 'admin';
+
+// Role of a subject (key:{id} or user:{name}) on a store, or on every store with storeName "*"
+export interface RoleGrantRecord {
+  subject: string;
+  storeName: string;
+  role: Role;
+  createTime: string;
+}
+
+export interface RoleGrantFilter {
+  subject?: string;
+  storeName?: string;
+}
+
+// Lowest to highest; each level blocks what the ones before it block
+export type ProtectionLevel = 'no_store_delete' | 'no_file_delete' | 'read_only';
+
+// Protection of a store, set at runtime (PROTECTED_STORES adds to it)
+export interface StoreProtectionRecord {
+  storeName: string;
+  level: ProtectionLevel;
+  updateTime: string;
+}
+
+export type AuditSource = 'dashboard' | 'cli' | 'mcp' | 'api';
+export type AuditResult = 'success' | 'failure';
+
+// A mutating request, recorded whether it succeeded or not
+export interface AuditRecord {
+  id: string;
+  // Subject of the caller ("key:{id}", "user:{name}"), "anonymous" without auth
+  actor: string;
+  actorLabel?: string;
+  // e.g. "store.delete", "file.upload"
+  action: string;
+  storeName?: string;
+  documentName?: string;
+  source: AuditSource;
+  result: AuditResult;
+  // HTTP status of the response
+  status: number;
+  error?: string;
+  details?: Record<string, unknown>;
+  createTime: string;
+}
+
+export interface AuditFilter {
+  storeName?: string;
+  actor?: string;
+  action?: string;
+  source?: AuditSource;
+  result?: AuditResult;
+  // Only entries created at or after / before these timestamps
+  since?: string;
+  before?: string;
+  // With before: also entries created at before with a lower id (keyset cursor)
+  beforeId?: string;
+  limit?: number;
+}
+
+export interface SearchHistoryFilter {
+  storeName?: string;
+  // Case-insensitive substring match on the query
+  query?: string;
+  pinned?: boolean;
+  // Only entries created before this timestamp (for paging)
+  before?: string;
+  // With before: also entries created at before with a lower id (keyset cursor)
+  beforeId?: string;
+  limit?: number;
+}
+
+export interface JobFilter {
+  storeName?: string;
+  status?: JobStatus;
+  limit?: number;
+}
+
+export interface PresetRepository {
+  list(): Promise<PresetRecord[]>;
+  get(id: string): Promise<PresetRecord | undefined>;
+  create(preset: PresetRecord): Promise<void>;
+  update(preset: PresetRecord): Promise<void>;
+  // Deleting a preset also clears it as a store default
+  delete(id: string): Promise<boolean>;
+  // Default preset per store, keyed by full store name (fileSearchStores/...)
+  listStoreDefaults(): Promise<Record<string, string>>;
+  setStoreDefault(storeName: string, presetId: string | null): Promise<void>;
+}
+
+export interface SearchHistoryRepository {
+  list(filter?: SearchHistoryFilter): Promise<SearchHistoryRecord[]>;
+  get(id: string): Promise<SearchHistoryRecord | undefined>;
+  add(entry: SearchHistoryRecord): Promise<void>;
+  setPinned(id: string, pinned: boolean): Promise<boolean>;
+  delete(id: string): Promise<boolean>;
+}
+
+export interface JobRepository {
+  list(filter?: JobFilter): Promise<JobRecord[]>;
+  get(id: string): Promise<JobRecord | undefined>;
+  create(job: JobRecord): Promise<void>;
+  update(job: JobRecord): Promise<void>;
+}
+
+// Keyed by content hash; the latest upload of the same content wins
+export interface UploadedFileRepository {
+  get(sha256: string): Promise<UploadedFileRecord | undefined>;
+  put(record: UploadedFileRecord): Promise<void>;
+  delete(sha256: string): Promise<boolean>;
+}
+
+export interface ApiKeyRepository {
+  list(): Promise<ApiKeyRecord[]>;
+  get(id: string): Promise<ApiKeyRecord | undefined>;
+  findByHash(keyHash: string): Promise<ApiKeyRecord | undefined>;
+  create(key: ApiKeyRecord): Promise<void>;
+  setLastUsed(id: string, lastUsedTime: string): Promise<void>;
+  delete(id: string): Promise<boolean>;
+}
+
+// One grant per subject and store; putting a grant replaces the previous role
+export interface RoleGrantRepository {
+  list(filter?: RoleGrantFilter): Promise<RoleGrantRecord[]>;
+  put(grant: RoleGrantRecord): Promise<void>;
+  delete(subject: string, storeName: string): Promise<boolean>;
+}
+
+// One level per store; putting a record replaces the previous level
+export interface StoreProtectionRepository {
+  list(): Promise<StoreProtectionRecord[]>;
+  get(storeName: string): Promise<StoreProtectionRecord | undefined>;
+  put(record: StoreProtectionRecord): Promise<void>;
+  delete(storeName: string): Promise<boolean>;
+}
+
+// Append-only: entries are never updated or deleted
+export interface AuditLogRepository {
+  list(filter?: AuditFilter): Promise<AuditRecord[]>;
+  append(entry: AuditRecord): Promise<void>;
+}
+
+/**
+ * Server-side state. Implementations: embedded SQLite (default) and in-memory.
+ */
+export interface Storage {
+  presets: PresetRepository;
+  history: SearchHistoryRepository;
+  jobs: JobRepository;
+  uploadedFiles: UploadedFileRepository;
+  apiKeys: ApiKeyRepository;
+  roleGrants: RoleGrantRepository;
+  storeProtection: StoreProtectionRepository;
+  auditLog: AuditLogRepository;
+  close(): Promise<void>;
+}
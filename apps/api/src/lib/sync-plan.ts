@@ -0,0 +1,167 @@
+import type { FileSearchStoreFile } from './gemini.js';
+import { blocks, type ProtectionLevel } from './protection.js';
+
+const SHA256_PATTERN = /^[0-9a-f]{64}$/i;
+
+// A local file as described by a sync client
+export interface ManifestFile {
+  path: string; // Relative path, e.g. "docs/guide.md"
+  sha256: string;
+  size?: number;
+  // Hash of the file's chunking config and metadata (see gemini.computeConfigHash)
+  configHash?: string;
+}
+
+export interface SyncPlanUpload {
+  file: ManifestFile;
+  fileName: string; // Display name the file is uploaded under
+  remoteFile?: FileSearchStoreFile;
+  reason: 'new file' | 'content changed' | 'config changed' | 'missing remote hash';
+}
+
+export interface SyncPlanSkip {
+  file: ManifestFile;
+  fileName: string;
+  remoteFile: FileSearchStoreFile;
+  reason: 'unchanged';
+}
+
+export interface SyncPlanDelete {
+  remoteFile: FileSearchStoreFile;
+  reason: 'not in local';
+}
+
+export interface SyncPlan {
+  uploads: SyncPlanUpload[];
+  skips: SyncPlanSkip[];
+  deletes: SyncPlanDelete[];
+  // The store's protection level, when it has one
+  protection?: ProtectionLevel;
+  // Uploads and deletes the store's protection refuses (including uploads that
+  // replace a document); they are not in uploads/deletes
+  blockedUploads: SyncPlanUpload[];
+  blockedDeletes: SyncPlanDelete[];
+}
+
+/**
+ * Convert a file path to the display name it is stored under ("docs/guide.md" → "docs_guide.md").
+ * Matches the CLI's pathToFilename.
+ */
+export function pathToFilename(relativePath: string): string {
+  return relativePath.replace(/[/\\]/g, '_');
+}
+
+/**
+ * Validate a sync manifest. Returns the files, or an error message for a 400 response.
+ */
+export function parseManifest(value: unknown): ManifestFile[] | string {
+  if (!Array.isArray(value)) {
+    return 'files must be an array';
+  }
+
+  const files: ManifestFile[] = [];
+  const seen = new Set<string>();
+  for (const [i, entry] of (value as Partial<ManifestFile>[]).entries()) {
+    if (!entry?.path || typeof entry.path !== 'string') {
+      return `files[${i}].path is required`;
+    }
+    if (typeof entry.sha256 !== 'string' || !SHA256_PATTERN.test(entry.sha256)) {
+      return `files[${i}].sha256 must be a hex SHA-256 digest`;
+    }
+    if (entry.size !== undefined && (!Number.isInteger(entry.size) || entry.size < 0)) {
+      return `files[${i}].size must be a non-negative integer`;
+    }
+    if (
+      entry.configHash !== undefined &&
+      (typeof entry.configHash !== 'string' || !SHA256_PATTERN.test(entry.configHash))
+    ) {
+      return `files[${i}].configHash must be a hex SHA-256 digest`;
+    }
+    if (seen.has(entry.path)) {
+      return `files[${i}].path "${entry.path}" is duplicated`;
+    }
+    seen.add(entry.path);
+    files.push({
+      path: entry.path,
+      sha256: entry.sha256.toLowerCase(),
+      ...(entry.size !== undefined && { size: entry.size }),
+      ...(entry.configHash !== undefined && { configHash: entry.configHash.toLowerCase() }),
+    });
+  }
+  return files;
+}
+
+/**
+ * Build a sync plan by comparing manifest files with the store's documents.
+ * Same rules as the CLI's sync engine: files are matched by original file name,
+ * uploaded when new, changed, missing a remote hash or imported with another
+ * config hash (documents without one are left alone), and remote documents
+ * missing from the manifest are deleted only when deleteRemote is set.
+ * Uploads a read-only store refuses, and deletes and replacing uploads a
+ * store protecting its files refuses, are moved to blockedUploads/blockedDeletes.
+ */
+export function buildSyncPlan(
+  files: ManifestFile[],
+  remoteFiles: FileSearchStoreFile[],
+  deleteRemote: boolean,
+  protection?: ProtectionLevel
+): SyncPlan {
+  const plan: SyncPlan = {
+    uploads: [],
+    skips: [],
+    deletes: [],
+    ...(protection && { protection }),
+    blockedUploads: [],
+    blockedDeletes: [],
+  };
+
+  // Build map of remote files by original file name
+  const remoteByName = new Map<string, FileSearchStoreFile>();
+  for (const remote of remoteFiles) {
+    const originalFileName = remote.originalDisplayName || remote.displayName;
+    if (originalFileName) {
+      remoteByName.set(originalFileName, remote);
+    }
+  }
+
+  for (const file of files) {
+    const fileName = pathToFilename(file.path);
+    const remote = remoteByName.get(fileName);
+
+    if (!remote) {
+      plan.uploads.push({ file, fileName, reason: 'new file' });
+    } else if (!remote.sha256) {
+      // Remote file has no hash (legacy) - upload to update
+      plan.uploads.push({ file, fileName, remoteFile: remote, reason: 'missing remote hash' });
+    } else if (remote.sha256 !== file.sha256) {
+      plan.uploads.push({ file, fileName, remoteFile: remote, reason: 'content changed' });
+    } else if (file.configHash && remote.configHash && remote.configHash !== file.configHash) {
+      plan.uploads.push({ file, fileName, remoteFile: remote, reason: 'config changed' });
+    } else {
+      plan.skips.push({ file, fileName, remoteFile: remote, reason: 'unchanged' });
+    }
+
+    remoteByName.delete(fileName);
+  }
+
+  // Remaining remote files are orphans
+  if (deleteRemote) {
+    for (const remote of remoteByName.values()) {
+      plan.deletes.push({ remoteFile: remote, reason: 'not in local' });
+    }
+  }
+
+  if (blocks(protection, 'file.upload')) {
+    plan.blockedUploads = plan.uploads;
+    plan.uploads = [];
+  } else if (blocks(protection, 'file.replace')) {
+    plan.blockedUploads = plan.uploads.filter((upload) => upload.remoteFile);
+    plan.uploads = plan.uploads.filter((upload) => !upload.remoteFile);
+  }
+  if (blocks(protection, 'file.delete')) {
+    plan.blockedDeletes = plan.deletes;
+    plan.deletes = [];
+  }
+
+  return plan;
+}
@@ -1,4 +1,5 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { Access } from '../lib/access.js';
 import {
   registerStoreTools,
   registerFileTools,
@@ -6,17 +7,18 @@ import {
   registerOperationTool,
 } from './tools/index.js';
 
-export function createMcpServer(): McpServer {
+// Tools only act on the stores the caller has a role on
+export function createMcpServer(access: Access): McpServer {
   const server = new McpServer({
     name: 'gemindex-mcp',
     version: '1.0.0',
   });
 
   // Read-only Tools만 등록
-  registerStoreTools(server); // list_stores, get_store
-  registerFileTools(server); // list_files
-  registerSearchTool(server); // search
-  registerOperationTool(server); // get_operation
+  registerStoreTools(server, access); // list_stores, get_store
+  registerFileTools(server, access); // list_files
+  registerSearchTool(server, access); // search
+  registerOperationTool(server, access); // get_operation
 
   return server;
 }
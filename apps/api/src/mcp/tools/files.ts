@@ -1,14 +1,16 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
+import type { Access } from '../../lib/access.js';
 import * as gemini from '../../lib/gemini.js';
 
-export function registerFileTools(server: McpServer): void {
+export function registerFileTools(server: McpServer, access: Access): void {
   // list_files - Store 내 파일 목록 조회
   server.registerTool(
     'list_files',
     {
       title: 'List Files',
-      description: 'List all files in a specific store',
+      description:
+        'List all files in a specific store, including user-defined metadata (the "metadata" field of each file)',
       inputSchema: {
         storeName: z
           .string()
@@ -19,6 +21,7 @@ export function registerFileTools(server: McpServer): void {
     },
     async ({ storeName }) => {
       try {
+        access.require('viewer', storeName);
         const files = await gemini.listFiles(storeName);
         return {
           content: [
@@ -1,8 +1,9 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
+import type { Access } from '../../lib/access.js';
 import * as gemini from '../../lib/gemini.js';
 
-export function registerOperationTool(server: McpServer): void {
+export function registerOperationTool(server: McpServer, access: Access): void {
   // get_operation - 비동기 작업 상태 조회
   server.registerTool(
     'get_operation',
@@ -15,6 +16,7 @@ export function registerOperationTool(server: McpServer): void {
     },
     async ({ operationName }) => {
       try {
+        access.require('viewer', /^fileSearchStores\/[^/]+/.exec(operationName)?.[0]);
         const operation = await gemini.getOperation(operationName);
         return {
           content: [
@@ -1,21 +1,31 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
+import type { Access } from '../../lib/access.js';
 import * as gemini from '../../lib/gemini.js';
+import { applyPreset } from '../../lib/presets.js';
+import { recordSearch } from '../../lib/search-history.js';
 
-export function registerSearchTool(server: McpServer): void {
+export function registerSearchTool(server: McpServer, access: Access): void {
   // search - 시맨틱 검색
   server.registerTool(
     'search',
     {
       title: 'Semantic Search',
       description:
-        'Search documents in a store using natural language query powered by Gemini. Returns the answer along with source citations.',
+        'Search documents in one or more stores using natural language query powered by Gemini. Returns the answer along with source citations.',
       inputSchema: {
         storeName: z
           .string()
+          .optional()
           .describe(
             'Store identifier to search in. Use the "name" field from list_stores (e.g., "fileSearchStores/timtest-06m38rk98z12") or just the ID part (e.g., "timtest-06m38rk98z12")'
           ),
+        storeNames: z
+          .array(z.string())
+          .optional()
+          .describe(
+            'Store identifiers to search across in one query. Use instead of storeName to combine several stores; each source is tagged with its store'
+          ),
         query: z.string().describe('Natural language search query'),
         systemPrompt: z
           .string()
@@ -29,22 +39,61 @@ export function registerSearchTool(server: McpServer): void {
           .optional()
           .describe('Response randomness (0-2, default: model default)'),
         maxOutputTokens: z.number().optional().describe('Maximum tokens in response'),
+        metadataFilter: z
+          .string()
+          .optional()
+          .describe(
+            'Optional filter over document metadata (AIP-160 syntax), e.g. \'team = "billing" AND version >= 3\'. Use list_files to see available metadata keys.'
+          ),
+        preset: z
+          .string()
+          .optional()
+          .describe(
+            'Saved search preset (id or name) to use for the system prompt, model and generation settings. Other arguments override the preset. Without it, a single-store search uses the store default preset if one is set'
+          ),
       },
     },
-    async ({ storeName, query, systemPrompt, model, temperature, maxOutputTokens }) => {
+    async ({
+      storeName,
+      storeNames,
+      query,
+      systemPrompt,
+      model,
+      temperature,
+      maxOutputTokens,
+      metadataFilter,
+      preset,
+    }) => {
       try {
-        const result = await gemini.search(storeName, query, {
+        const targetStores = storeNames?.length ? storeNames : storeName ? [storeName] : [];
+        if (targetStores.length === 0) {
+          return {
+            content: [{ type: 'text', text: 'Error: storeName or storeNames is required' }],
+            isError: true,
+          };
+        }
+
+        for (const name of targetStores) {
+          access.require('viewer', name);
+        }
+
+        const config = await applyPreset(targetStores, preset, {
           systemPrompt,
           model,
           temperature,
           maxOutputTokens,
+          metadataFilter,
         });
+        const startTime = Date.now();
+        const result = await gemini.search(targetStores, query, config);
+        await recordSearch(targetStores, query, config, result, Date.now() - startTime);
 
         // 구조화된 응답
         const response = {
           answer: result.text,
           sources: result.sources.map((s) => ({
             title: s.title,
+            store: s.fileSearchStore,
             excerpt: s.text.slice(0, 500) + (s.text.length > 500 ? '...' : ''),
           })),
           citations: result.supports.map((s) => ({
@@ -1,19 +1,25 @@
 import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { z } from 'zod';
+import type { Access } from '../../lib/access.js';
 import * as gemini from '../../lib/gemini.js';
+import { getStoreProtection, listStoreProtection } from '../../lib/protection.js';
 
-export function registerStoreTools(server: McpServer): void {
+export function registerStoreTools(server: McpServer, access: Access): void {
   // list_stores - 모든 Store 목록 조회
   server.registerTool(
     'list_stores',
     {
       title: 'List Stores',
-      description: 'List all file search stores available in GemIndex',
+      description:
+        'List all file search stores available in GemIndex, with their protection level ("protection": no_store_delete, no_file_delete or read_only) when they have one',
       inputSchema: {},
     },
     async () => {
       try {
-        const stores = await gemini.listStores();
+        const levels = await listStoreProtection();
+        const stores = (await gemini.listStores())
+          .filter((store) => store.name && access.can('viewer', store.name))
+          .map((store) => ({ ...store, protection: store.name ? levels[store.name] : undefined }));
         return {
           content: [
             {
@@ -41,7 +47,7 @@ export function registerStoreTools(server: McpServer): void {
     'get_store',
     {
       title: 'Get Store',
-      description: 'Get details of a specific file search store',
+      description: 'Get details of a specific file search store, including its protection level',
       inputSchema: {
         name: z
           .string()
@@ -52,12 +58,16 @@ export function registerStoreTools(server: McpServer): void {
     },
     async ({ name }) => {
       try {
-        const store = await gemini.getStore(name);
+        access.require('viewer', name);
+        const [store, { level }] = await Promise.all([
+          gemini.getStore(name),
+          getStoreProtection(name),
+        ]);
         return {
           content: [
             {
               type: 'text',
-              text: JSON.stringify(store, null, 2),
+              text: JSON.stringify({ ...store, protection: level }, null, 2),
             },
           ],
         };
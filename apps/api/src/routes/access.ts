@@ -0,0 +1,114 @@
+import Router from '@koa/router';
+import { accessOf, isSubject, parseGrant, toGrantStoreName } from '../lib/access.js';
+import { audit, type AuditState } from '../lib/audit.js';
+import { setErrorResponse } from '../lib/errors.js';
+import { getStorage, type RoleGrantFilter } from '../lib/storage/index.js';
+
+const router = new Router<AuditState>({ prefix: '/api' });
+
+interface PutGrantRequestBody {
+  subject?: unknown;
+  storeName?: unknown;
+  role?: unknown;
+}
+
+// The caller and its roles, so clients can hide what it may not do
+router.get('/me', async (ctx) => {
+  try {
+    const access = accessOf(ctx);
+    ctx.body = {
+      subject: ctx.state.auth?.subject,
+      label: ctx.state.auth?.label,
+      email: ctx.state.auth?.email,
+      groups: ctx.state.auth?.groups,
+      unrestricted: access.unrestricted,
+      roles: access.roles,
+    };
+  } catch (error) {
+    setErrorResponse(ctx, error, 'Failed to get caller');
+  }
+});
+
+// List role grants on the stores the caller administers. Filters: subject, storeName
+router.get('/grants', async (ctx) => {
+  try {
+    const { subject, storeName } = ctx.query;
+
+    const filter: RoleGrantFilter = {};
+    if (typeof subject === 'string' && subject) filter.subject = subject;
+    if (typeof storeName === 'string' && storeName) {
+      filter.storeName = toGrantStoreName(storeName);
+    }
+
+    const access = accessOf(ctx);
+    const storage = await getStorage();
+    const grants = await storage.roleGrants.list(filter);
+    ctx.body = { grants: grants.filter((grant) => access.can('admin', grant.storeName)) };
+  } catch (error) {
+    setErrorResponse(ctx, error, 'Failed to list role grants');
+  }
+});
+
+// Grant a role on a store ("*" for all stores), replacing the subject's previous role there
+router.put('/grants', audit('grant.put'), async (ctx) => {
+  try {
+    const body = (ctx.request.body ?? {}) as PutGrantRequestBody;
+    if (!isSubject(body.subject)) {
+      ctx.status = 400;
+      ctx.body = { message: 'subject must be "key:{id}", "user:{name}" or "group:{name}"' };
+      return;
+    }
+    const grant = parseGrant(body);
+    if (typeof grant === 'string') {
+      ctx.status = 400;
+      ctx.body = { message: grant };
+      return;
+    }
+    ctx.state.audit = {
+      storeName: grant.storeName,
+      details: { subject: body.subject, role: grant.role },
+    };
+    accessOf(ctx).require('admin', grant.storeName);
+
+    const storage = await getStorage();
+    if (body.subject.startsWith('key:') && !(await storage.apiKeys.get(body.subject.slice(4)))) {
+      ctx.status = 404;
+      ctx.body = { message: 'API key not found' };
+      return;
+    }
+
+    const record = { subject: body.subject, ...grant, createTime: new Date().toISOString() };
+    await storage.roleGrants.put(record);
+    ctx.body = record;
+  } catch (error) {
+    setErrorResponse(ctx, error, 'Failed to grant role');
+  }
+});
+
+// Revoke a subject's role on a store: DELETE /api/grants?subject=&storeName=
+router.delete('/grants', audit('grant.delete'), async (ctx) => {
+  try {
+    const { subject, storeName } = ctx.query;
+    if (typeof subject !== 'string' || typeof storeName !== 'string' || !storeName) {
+      ctx.status = 400;
+      ctx.body = { message: 'subject and storeName are required' };
+      return;
+    }
+
+    const name = toGrantStoreName(storeName);
+    ctx.state.audit = { storeName: name, details: { subject } };
+    accessOf(ctx).require('admin', name);
+
+    const storage = await getStorage();
+    if (!(await storage.roleGrants.delete(subject, name))) {
+      ctx.status = 404;
+      ctx.body = { message: 'Role grant not found' };
+      return;
+    }
+    ctx.status = 204;
+  } catch (error) {
+    setErrorResponse(ctx, error, 'Failed to revoke role');
+  }
+});
+
+export default router;
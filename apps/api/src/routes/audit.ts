@@ -0,0 +1,114 @@
+import Router from '@koa/router';
+import { accessOf, toGrantStoreName } from '../lib/access.js';
+import { setErrorResponse } from '../lib/errors.js';
+import { parseCursor, toCursor } from '../lib/pagination.js';
+import {
+  getStorage,
+  type AuditFilter,
+  type AuditResult,
+  type AuditSource,
+} from '../lib/storage/index.js';
+
+const router = new Router({ prefix: '/api/audit' });
+
+const AUDIT_SOURCES: AuditSource[] = ['dashboard', 'cli', 'mcp', 'api'];
+const AUDIT_RESULTS: AuditResult[] = ['success', 'failure'];
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+// Entries in one JSONL export
+const MAX_EXPORT = 100_000;
+
+// Returns the filter, or an error message for a 400 response
+function parseAuditFilter(
+  query: Record<string, unknown>,
+  exporting: boolean
+): AuditFilter | string {
+  const { storeName, actor, action, source, result, since, before, limit } = query;
+
+  const filter: AuditFilter = { limit: exporting ? MAX_EXPORT : DEFAULT_LIMIT };
+  if (typeof storeName === 'string' && storeName) filter.storeName = toGrantStoreName(storeName);
+  if (typeof actor === 'string' && actor) filter.actor = actor;
+  if (typeof action === 'string' && action) filter.action = action;
+  if (source !== undefined) {
+    if (!AUDIT_SOURCES.includes(source as AuditSource)) {
+      return `source must be one of: ${AUDIT_SOURCES.join(', ')}`;
+    }
+    filter.source = source as AuditSource;
+  }
+  if (result !== undefined) {
+    if (!AUDIT_RESULTS.includes(result as AuditResult)) {
+      return `result must be one of: ${AUDIT_RESULTS.join(', ')}`;
+    }
+    filter.result = result as AuditResult;
+  }
+  if (since !== undefined) {
+    if (typeof since !== 'string' || Number.isNaN(Date.parse(since))) {
+      return 'since must be an ISO 8601 timestamp';
+    }
+    filter.since = new Date(since).toISOString();
+  }
+  if (before !== undefined) {
+    const cursor = typeof before === 'string' ? parseCursor(before) : null;
+    if (!cursor) return 'before must be a nextBefore cursor or an ISO 8601 timestamp';
+    Object.assign(filter, cursor);
+  }
+  if (limit !== undefined) {
+    const max = exporting ? MAX_EXPORT : MAX_LIMIT;
+    const size = typeof limit === 'string' ? parseInt(limit, 10) : NaN;
+    if (!Number.isInteger(size) || size <= 0 || size > max) {
+      return `limit must be an integer between 1 and ${max}`;
+    }
+    filter.limit = size;
+  }
+  return filter;
+}
+
+/**
+ * List audit entries, newest first. Filters: storeName, actor, action,
+ * source, result, since, before (nextBefore cursor or timestamp), limit.
+ * format=jsonl downloads every matching entry as JSON Lines.
+ * Entries are visible to admins of their store; entries without a store
+ * (keys, grants, presets) to admins of all stores.
+ */
+router.get('/', async (ctx) => {
+  try {
+    const exporting = ctx.query.format === 'jsonl';
+    if (ctx.query.format !== undefined && !exporting) {
+      ctx.status = 400;
+      ctx.body = { message: 'format must be jsonl' };
+      return;
+    }
+
+    const filter = parseAuditFilter(ctx.query, exporting);
+    if (typeof filter === 'string') {
+      ctx.status = 400;
+      ctx.body = { message: filter };
+      return;
+    }
+
+    const access = accessOf(ctx);
+    if (filter.storeName) access.require('admin', filter.storeName);
+
+    const storage = await getStorage();
+    const entries = await storage.auditLog.list(filter);
+    const visible = entries.filter((entry) => access.can('admin', entry.storeName));
+
+    if (exporting) {
+      ctx.set('Content-Type', 'application/x-ndjson; charset=utf-8');
+      ctx.set('Content-Disposition', 'attachment; filename="audit.jsonl"');
+      ctx.body = visible.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+      return;
+    }
+
+    const last = entries[entries.length - 1];
+    ctx.body = {
+      entries: visible,
+      // Pass as `before` to fetch the next page
+      nextBefore: last && entries.length === filter.limit ? toCursor(last) : undefined,
+    };
+  } catch (error) {
+    setErrorResponse(ctx, error, 'Failed to list audit log');
+  }
+});
+
+export default router;
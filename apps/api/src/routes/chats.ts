@@ -0,0 +1,122 @@
+import Router from '@koa/router';
+import * as gemini from '../lib/gemini.js';
+import * as chats from '../lib/chats.js';
+import { accessOf } from '../lib/access.js';
+import { setErrorResponse } from '../lib/errors.js';
+
+const router = new Router({ prefix: '/api' });
+
+// Chats currently waiting on Gemini; a chat answers one message at a time
+const pendingChats = new Set<string>();
+
+// Create a chat session on a store
+router.post('/stores/:storeName/chats', async (ctx) => {
+  try {
+    const storeName = ctx.params['storeName'] as string;
+    accessOf(ctx).require('viewer', storeName);
+    const { systemPrompt, model, temperature, topP, topK, maxOutputTokens, metadataFilter } = (ctx
+      .request.body ?? {}) as chats.ChatConfig;
+
+    if (metadataFilter !== undefined && typeof metadataFilter !== 'string') {
+      ctx.status = 400;
+      ctx.body = { message: 'metadataFilter must be a string' };
+      return;
+    }
+
+    // Fail early if the store does not exist
+    await gemini.getStore(storeName);
+
+    const chat = chats.createChat(storeName, {
+      systemPrompt,
+      model,
+      temperature,
+      topP,
+      topK,
+      maxOutputTokens,
+      metadataFilter: metadataFilter?.trim() || undefined,
+    });
+    ctx.status = 201;
+    ctx.body = chat;
+  } catch (error) {
+    setErrorResponse(ctx, error, 'Failed to create chat');
+  }
+});
+
+// Get a chat session with its messages
+router.get('/chats/:id', async (ctx) => {
+  const chat = chats.getChat(ctx.params['id'] as string);
+  if (!chat) {
+    ctx.status = 404;
+    ctx.body = { message: 'Chat not found' };
+    return;
+  }
+  accessOf(ctx).require('viewer', chat.storeName);
+  ctx.body = chat;
+});
+
+// Delete a chat session
+router.delete('/chats/:id', async (ctx) => {
+  const chat = chats.getChat(ctx.params['id'] as string);
+  if (!chat) {
+    ctx.status = 404;
+    ctx.body = { message: 'Chat not found' };
+    return;
+  }
+  accessOf(ctx).require('viewer', chat.storeName);
+  chats.deleteChat(chat.id);
+  ctx.status = 204;
+});
+
+// Send a message; prior turns are re-sent to Gemini so follow-ups can reference them
+router.post('/chats/:id/messages', async (ctx) => {
+  const chat = chats.getChat(ctx.params['id'] as string);
+  if (!chat) {
+    ctx.status = 404;
+    ctx.body = { message: 'Chat not found' };
+    return;
+  }
+  accessOf(ctx).require('viewer', chat.storeName);
+
+  const { message } = (ctx.request.body ?? {}) as { message?: string };
+  if (typeof message !== 'string' || !message.trim()) {
+    ctx.status = 400;
+    ctx.body = { message: 'message is required' };
+    return;
+  }
+
+  if (pendingChats.has(chat.id)) {
+    ctx.status = 409;
+    ctx.body = { message: 'Chat is still answering the previous message' };
+    return;
+  }
+
+  const question: chats.ChatMessage = {
+    role: 'user',
+    text: message.trim(),
+    createTime: new Date().toISOString(),
+  };
+
+  pendingChats.add(chat.id);
+  try {
+    const result = await gemini.search(chat.storeName, question.text, {
+      ...chat.config,
+      history: chats.getHistory(chat),
+    });
+
+    const answer: chats.ChatMessage = {
+      role: 'model',
+      text: result.text,
+      sources: result.sources,
+      supports: result.supports,
+      createTime: new Date().toISOString(),
+    };
+    chats.appendTurn(chat, question, answer);
+    ctx.body = { chatId: chat.id, question, message: answer };
+  } catch (error) {
+    setErrorResponse(ctx, error, 'Failed to send message');
+  } finally {
+    pendingChats.delete(chat.id);
+  }
+});
+
+export default router;
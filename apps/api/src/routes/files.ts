@@ -1,81 +1,641 @@
 import Router from '@koa/router';
+import type { Middleware } from 'koa';
 import multer from '@koa/multer';
+import { createReadStream } from 'fs';
 import fs from 'fs/promises';
 import os from 'os';
 import * as gemini from '../lib/gemini.js';
+import { requireRole } from '../lib/access.js';
+import { audit, getAuditActor } from '../lib/audit.js';
+import { setErrorResponse } from '../lib/errors.js';
+import { parseListOptions } from '../lib/pagination.js';
+import {
+  BLOCKED_MESSAGES,
+  blocks,
+  getStoreProtection,
+  rejectProtected,
+} from '../lib/protection.js';
+import { enqueueDocumentUpdate, enqueueUpload, toJobResponse } from '../lib/jobs.js';
+import {
+  DocumentUpdateConflictError,
+  prepareDocumentUpdate,
+  withUpdatable,
+} from '../lib/documents.js';
+import { ArchiveError, extractArchive, isArchiveName } from '../lib/archive.js';
+import { getBlob, getBlobStorePath, type StoredBlob } from '../lib/blobs.js';
+import { extractPdfText, PdfTextError } from '../lib/pdf.js';
 
 const router = new Router({ prefix: '/api/stores' });
-const upload = multer({ dest: os.tmpdir() });
 
-// List files in a store
-router.get('/:storeName/files', async (ctx) => {
+// Files accepted by one batch upload, archive entries included
+const MAX_BATCH_FILES = 1000;
+
+// Largest uploaded file, archives included (Gemini's per-document limit)
+const MAX_UPLOAD_BYTES = 100 * 1024 * 1024;
+
+// Largest archive entry and whole archive once extracted
+const MAX_ARCHIVE_ENTRY_BYTES = MAX_UPLOAD_BYTES;
+const MAX_ARCHIVE_TOTAL_BYTES = 1024 * 1024 * 1024;
+
+const upload = multer({
+  dest: os.tmpdir(),
+  // One more than the batch limit for the archive field
+  limits: { fileSize: MAX_UPLOAD_BYTES, files: MAX_BATCH_FILES + 1 },
+});
+
+/**
+ * Wrap a multer middleware so its limit errors (file too large, too many
+ * files) become 413/400 responses instead of 500s. Errors thrown further
+ * down the chain pass through untouched.
+ */
+function withUploadLimits(middleware: Middleware): Middleware {
+  return async (ctx, next) => {
+    let parsed = false;
+    try {
+      await middleware(ctx, async () => {
+        parsed = true;
+      });
+    } catch (error) {
+      if ((error as Error).name !== 'MulterError') throw error;
+      const code = (error as { code?: string }).code;
+      ctx.status = code === 'LIMIT_FILE_SIZE' ? 413 : 400;
+      ctx.body = {
+        message:
+          code === 'LIMIT_FILE_SIZE'
+            ? `Files must be ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB or smaller`
+            : (error as Error).message,
+      };
+      return;
+    }
+    if (parsed) await next();
+  };
+}
+
+// Largest original returned as text by GET .../text
+const MAX_TEXT_BYTES = 10 * 1024 * 1024;
+
+// Largest PDF whose text GET .../text extracts; PDFs are mostly images and fonts
+const MAX_PDF_BYTES = 50 * 1024 * 1024;
+
+// Non text/* types whose content is readable text
+const TEXT_APPLICATION_TYPES = ['application/json', 'application/xml'];
+
+// Validate user-defined metadata, returning an error message if invalid
+function validateCustomMetadata(customMetadata: unknown): string | null {
+  if (!Array.isArray(customMetadata)) {
+    return 'customMetadata must be an array';
+  }
+  if (customMetadata.length > gemini.MAX_CUSTOM_METADATA) {
+    return `customMetadata supports at most ${gemini.MAX_CUSTOM_METADATA} entries`;
+  }
+
+  const seen = new Set<string>();
+  for (const entry of customMetadata as Partial<gemini.CustomMetadata>[]) {
+    if (!entry?.key || typeof entry.key !== 'string') {
+      return 'customMetadata entries require a key';
+    }
+    if (gemini.RESERVED_METADATA_KEYS.includes(entry.key)) {
+      return `customMetadata key "${entry.key}" is reserved`;
+    }
+    if (seen.has(entry.key)) {
+      return `customMetadata key "${entry.key}" is duplicated`;
+    }
+    seen.add(entry.key);
+
+    const hasString = typeof entry.stringValue === 'string';
+    const hasNumber = typeof entry.numericValue === 'number' && Number.isFinite(entry.numericValue);
+    if (hasString === hasNumber) {
+      return `customMetadata "${entry.key}" requires exactly one of stringValue or numericValue`;
+    }
+  }
+  return null;
+}
+
+// Validate chunking settings, returning an error message if invalid
+function validateChunkingConfig(chunkingConfig: gemini.ChunkingConfig): string | null {
+  const whiteSpace = chunkingConfig.whiteSpaceConfig;
+  if (!whiteSpace) return null;
+
+  const { maxTokensPerChunk, maxOverlapTokens } = whiteSpace;
+  if (
+    maxTokensPerChunk !== undefined &&
+    (!Number.isInteger(maxTokensPerChunk) || maxTokensPerChunk <= 0)
+  ) {
+    return 'chunkingConfig.whiteSpaceConfig.maxTokensPerChunk must be a positive integer';
+  }
+  if (
+    maxOverlapTokens !== undefined &&
+    (!Number.isInteger(maxOverlapTokens) || maxOverlapTokens < 0)
+  ) {
+    return 'chunkingConfig.whiteSpaceConfig.maxOverlapTokens must be a non-negative integer';
+  }
+  if (
+    maxTokensPerChunk !== undefined &&
+    maxOverlapTokens !== undefined &&
+    maxOverlapTokens >= maxTokensPerChunk
+  ) {
+    return 'chunkingConfig.whiteSpaceConfig.maxOverlapTokens must be less than maxTokensPerChunk';
+  }
+  return null;
+}
+
+// Validate an upload config, returning an error message if invalid
+function validateUploadConfig(config: gemini.UploadConfig): string | null {
+  if (config.customMetadata !== undefined) {
+    const metadataError = validateCustomMetadata(config.customMetadata);
+    if (metadataError) return metadataError;
+  }
+  if (config.chunkingConfig) {
+    const chunkingError = validateChunkingConfig(config.chunkingConfig);
+    if (chunkingError) return chunkingError;
+  }
+  return null;
+}
+
+// Parse a JSON object form field, returning undefined when absent
+function parseJsonField(
+  body: Record<string, unknown> | undefined,
+  field: string
+): Record<string, unknown> | undefined {
+  const value = body?.[field];
+  if (value === undefined || value === '') return undefined;
+  let parsed: unknown;
   try {
-    const storeName = decodeURIComponent(ctx.params['storeName'] as string);
-    const files = await gemini.listFiles(storeName);
-    ctx.body = { files };
-  } catch (error) {
-    ctx.status = 500;
-    ctx.body = { message: error instanceof Error ? error.message : 'Failed to list files' };
+    parsed = typeof value === 'string' ? JSON.parse(value) : value;
+  } catch {
+    throw new Error(`${field} must be valid JSON`);
   }
-});
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`${field} must be a JSON object`);
+  }
+  return parsed as Record<string, unknown>;
+}
 
-// Upload a file to a store
-router.post('/:storeName/files', upload.single('file'), async (ctx) => {
-  const file = ctx.file;
+// Default display name of a batch file; archive paths are flattened like the CLI does
+// ("docs/guide.md" → "docs_guide.md")
+function toDisplayName(fileName: string): string {
+  return fileName.replace(/[/\\]/g, '_');
+}
 
+// List files in a store (all pages, or a single page when pageSize/pageToken is given)
+router.get('/:storeName/files', requireRole('viewer', 'storeName'), async (ctx) => {
   try {
     const storeName = decodeURIComponent(ctx.params['storeName'] as string);
 
-    if (!file) {
+    let listOptions: gemini.ListOptions | null;
+    try {
+      listOptions = parseListOptions(ctx.query);
+    } catch (error) {
       ctx.status = 400;
-      ctx.body = { message: 'No file provided' };
+      ctx.body = { message: (error as Error).message };
+      return;
+    }
+
+    if (listOptions) {
+      const page = await gemini.listFilesPage(storeName, listOptions);
+      ctx.body = { ...page, files: await withUpdatable(page.files) };
       return;
     }
 
-    // Parse config from form data
-    let config: gemini.UploadConfig | undefined;
-    const body = ctx.request.body as Record<string, unknown> | undefined;
-    const configStr = body?.config;
-    if (configStr && typeof configStr === 'string') {
+    const files = await withUpdatable(await gemini.listFiles(storeName));
+    ctx.body = { files };
+  } catch (error) {
+    setErrorResponse(ctx, error, 'Failed to list files');
+  }
+});
+
+// Upload a file to a store. The upload runs as a background job; poll GET /api/jobs/:id
+router.post(
+  '/:storeName/files',
+  audit('file.upload', 'storeName'),
+  requireRole('editor', 'storeName'),
+  rejectProtected('file.upload', 'storeName'),
+  withUploadLimits(upload.single('file')),
+  async (ctx) => {
+    const file = ctx.file;
+    // Set once the job owns the temporary file
+    let enqueued = false;
+
+    try {
+      const storeName = decodeURIComponent(ctx.params['storeName'] as string);
+
+      if (!file) {
+        ctx.status = 400;
+        ctx.body = { message: 'No file provided' };
+        return;
+      }
+
+      // Parse config from form data
+      let config: gemini.UploadConfig | undefined;
+      const body = ctx.request.body as Record<string, unknown> | undefined;
+      try {
+        config = parseJsonField(body, 'config');
+      } catch (error) {
+        ctx.status = 400;
+        ctx.body = { message: (error as Error).message };
+        return;
+      }
+
+      const configError = config && validateUploadConfig(config);
+      if (configError) {
+        ctx.status = 400;
+        ctx.body = { message: configError };
+        return;
+      }
+
+      // Use original filename as display name if not provided
+      if (!config?.displayName && file.originalname) {
+        config = { ...config, displayName: file.originalname };
+      }
+
+      // Replacing a document deletes it; the store is only listed when that matters
+      const { level } = await getStoreProtection(storeName);
+      if (blocks(level, 'file.replace')) {
+        const displayName = config?.displayName;
+        const existing = await gemini.listFiles(storeName);
+        if (existing.some((f) => f.originalDisplayName === displayName)) {
+          ctx.status = 403;
+          ctx.body = { message: BLOCKED_MESSAGES['file.replace'] };
+          return;
+        }
+      }
+
+      const job = await enqueueUpload(storeName, file.path, config ?? {}, {
+        requestedBy: getAuditActor(ctx),
+      });
+      enqueued = true;
+
+      ctx.status = 202;
+      ctx.set('Location', `/api/jobs/${job.id}`);
+      ctx.body = toJobResponse(job);
+      ctx.state.audit = { details: { displayName: config?.displayName, jobId: job.id } };
+    } catch (error) {
+      setErrorResponse(ctx, error, 'Failed to upload file');
+    } finally {
+      // Clean up temp file unless a job took it over
+      if (file?.path && !enqueued) {
+        await fs.unlink(file.path).catch(() => {});
+      }
+    }
+  }
+);
+
+interface BatchFile {
+  // Form file name, or the entry's path inside an archive
+  name: string;
+  filePath: string;
+}
+
+/**
+ * Upload many files in one request: multipart "files" fields and/or an "archive"
+ * (zip, tar or tar.gz). "config" applies to every file and "manifest" maps file
+ * names to their own config (displayName, customMetadata, chunkingConfig).
+ * The store is listed once; each file becomes its own upload job.
+ */
+router.post(
+  '/:storeName/files/batch',
+  audit('file.upload', 'storeName'),
+  requireRole('editor', 'storeName'),
+  rejectProtected('file.upload', 'storeName'),
+  withUploadLimits(
+    upload.fields([
+      { name: 'files', maxCount: MAX_BATCH_FILES },
+      { name: 'archive', maxCount: 1 },
+    ])
+  ),
+  async (ctx) => {
+    const uploaded = (ctx.files ?? {}) as Record<string, multer.File[] | undefined>;
+    const archive = uploaded['archive']?.[0];
+    const batchFiles: BatchFile[] = (uploaded['files'] ?? []).map((file) => ({
+      name: file.originalname,
+      filePath: file.path,
+    }));
+    // Temporary files handed over to upload jobs
+    const enqueued = new Set<string>();
+
+    try {
+      const storeName = decodeURIComponent(ctx.params['storeName'] as string);
+      const body = ctx.request.body as Record<string, unknown> | undefined;
+
+      let sharedConfig: gemini.UploadConfig;
+      let manifest: Record<string, unknown>;
       try {
-        config = JSON.parse(configStr);
-      } catch {
-        // Ignore parse errors
+        sharedConfig = parseJsonField(body, 'config') ?? {};
+        manifest = parseJsonField(body, 'manifest') ?? {};
+      } catch (error) {
+        ctx.status = 400;
+        ctx.body = { message: (error as Error).message };
+        return;
+      }
+
+      if (archive) {
+        if (!isArchiveName(archive.originalname)) {
+          ctx.status = 400;
+          ctx.body = { message: 'archive must be a .zip, .tar, .tar.gz or .tgz file' };
+          return;
+        }
+        try {
+          batchFiles.push(
+            ...(
+              await extractArchive(archive.path, {
+                maxEntries: MAX_BATCH_FILES - batchFiles.length,
+                maxEntryBytes: MAX_ARCHIVE_ENTRY_BYTES,
+                maxTotalBytes: MAX_ARCHIVE_TOTAL_BYTES,
+              })
+            ).map((entry) => ({ name: entry.path, filePath: entry.filePath }))
+          );
+        } catch (error) {
+          if (!(error instanceof ArchiveError)) throw error;
+          ctx.status = 400;
+          ctx.body = { message: error.message };
+          return;
+        }
+      }
+
+      if (batchFiles.length === 0) {
+        ctx.status = 400;
+        ctx.body = { message: 'No files provided' };
+        return;
+      }
+
+      // One listing for the whole batch instead of one per file
+      const existingFiles = await gemini.listFiles(storeName);
+      const { level } = await getStoreProtection(storeName);
+      const displayNames = new Set<string>();
+
+      const results = [];
+      for (const file of batchFiles) {
+        const fileConfig = manifest[file.name];
+        const config: gemini.UploadConfig = {
+          ...sharedConfig,
+          ...(typeof fileConfig === 'object' && fileConfig !== null ? fileConfig : {}),
+        };
+        if (config.displayName !== undefined && typeof config.displayName !== 'string') {
+          results.push({ name: file.name, error: 'displayName must be a string' });
+          continue;
+        }
+        config.displayName ||= toDisplayName(file.name);
+
+        const configError = validateUploadConfig(config);
+        if (configError) {
+          results.push({ name: file.name, displayName: config.displayName, error: configError });
+          continue;
+        }
+        if (displayNames.has(config.displayName)) {
+          results.push({
+            name: file.name,
+            displayName: config.displayName,
+            error: `Duplicate display name "${config.displayName}" in this batch`,
+          });
+          continue;
+        }
+        displayNames.add(config.displayName);
+
+        const replaces = existingFiles
+          .filter((f) => f.originalDisplayName === config.displayName)
+          .map((f) => f.name);
+        if (replaces.length > 0 && blocks(level, 'file.replace')) {
+          results.push({
+            name: file.name,
+            displayName: config.displayName,
+            error: BLOCKED_MESSAGES['file.replace'],
+          });
+          continue;
+        }
+        const job = await enqueueUpload(storeName, file.filePath, config, {
+          replaces,
+          requestedBy: getAuditActor(ctx),
+        });
+        enqueued.add(file.filePath);
+        results.push({
+          name: file.name,
+          displayName: config.displayName,
+          replaces,
+          job: toJobResponse(job),
+        });
       }
+
+      ctx.status = 202;
+      ctx.body = { results };
+      ctx.state.audit = {
+        details: {
+          batch: true,
+          jobIds: results.flatMap((result) => (result.job ? [result.job.id] : [])),
+          failed: results.filter((result) => result.error).length,
+        },
+      };
+    } catch (error) {
+      setErrorResponse(ctx, error, 'Failed to upload files');
+    } finally {
+      // Clean up the archive and every temp file no job took over
+      const leftovers = batchFiles.filter((file) => !enqueued.has(file.filePath));
+      await Promise.all(
+        [...leftovers.map((file) => file.filePath), ...(archive ? [archive.path] : [])].map(
+          (filePath) => fs.unlink(filePath).catch(() => {})
+        )
+      );
     }
+  }
+);
+
+/**
+ * Rename a file and/or replace its custom metadata. Gemini documents are
+ * immutable, so the change runs as a background copy-and-swap job (202);
+ * a request that changes nothing returns the file as is (200).
+ */
+router.patch(
+  '/:storeName/files/:fileName',
+  audit('file.update', 'storeName', 'fileName'),
+  requireRole('editor', 'storeName'),
+  rejectProtected('file.update', 'storeName'),
+  async (ctx) => {
+    try {
+      const storeName = decodeURIComponent(ctx.params['storeName'] as string);
+      const fileName = decodeURIComponent(ctx.params['fileName'] as string);
+      const { displayName, customMetadata } = (ctx.request.body ?? {}) as {
+        displayName?: unknown;
+        customMetadata?: unknown;
+      };
+
+      if (displayName === undefined && customMetadata === undefined) {
+        ctx.status = 400;
+        ctx.body = { message: 'displayName or customMetadata is required' };
+        return;
+      }
+      if (displayName !== undefined && (typeof displayName !== 'string' || !displayName.trim())) {
+        ctx.status = 400;
+        ctx.body = { message: 'displayName must be a non-empty string' };
+        return;
+      }
+      if (customMetadata !== undefined) {
+        const metadataError = validateCustomMetadata(customMetadata);
+        if (metadataError) {
+          ctx.status = 400;
+          ctx.body = { message: metadataError };
+          return;
+        }
+      }
+
+      let update: Awaited<ReturnType<typeof prepareDocumentUpdate>>;
+      try {
+        update = await prepareDocumentUpdate(storeName, fileName, {
+          displayName: displayName?.trim(),
+          customMetadata: customMetadata as gemini.CustomMetadata[] | undefined,
+        });
+      } catch (error) {
+        if (!(error instanceof DocumentUpdateConflictError)) throw error;
+        ctx.status = 409;
+        ctx.body = { message: error.message };
+        return;
+      }
+
+      if (!update.payload) {
+        ctx.body = update.file;
+        return;
+      }
 
-    // Use original filename as display name if not provided
-    if (!config?.displayName && file.originalname) {
-      config = { ...config, displayName: file.originalname };
+      const job = await enqueueDocumentUpdate(storeName, {
+        ...update.payload,
+        requestedBy: getAuditActor(ctx),
+      });
+      ctx.status = 202;
+      ctx.set('Location', `/api/jobs/${job.id}`);
+      ctx.body = toJobResponse(job);
+    } catch (error) {
+      setErrorResponse(ctx, error, 'Failed to update file');
     }
+  }
+);
 
-    const operation = await gemini.uploadFile(storeName, file.path, config);
+// Document and its retained original, or why the original is not available
+async function findOriginal(
+  storeName: string,
+  fileName: string
+): Promise<{ file: gemini.FileSearchStoreFile; blob: StoredBlob } | { message: string }> {
+  if (!getBlobStorePath()) {
+    return { message: 'Original content is not retained (BLOB_STORE_PATH is not set)' };
+  }
 
-    ctx.status = 202;
-    ctx.body = operation;
-  } catch (error) {
-    ctx.status = 500;
-    ctx.body = { message: error instanceof Error ? error.message : 'Failed to upload file' };
-  } finally {
-    // Clean up temp file
-    if (file?.path) {
-      await fs.unlink(file.path).catch(() => {});
+  const file = await gemini.getFile(storeName, fileName);
+  const blob = file.sha256 ? await getBlob(file.sha256) : undefined;
+  if (!blob) {
+    return { message: 'Original content of this file is not available' };
+  }
+  return { file, blob };
+}
+
+function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('text/') || TEXT_APPLICATION_TYPES.includes(mimeType);
+}
+
+/**
+ * Original content of a file, when the API retained it (BLOB_STORE_PATH).
+ * Served inline for previews; ?download=true asks the browser to save it.
+ */
+router.get(
+  '/:storeName/files/:fileName/content',
+  requireRole('viewer', 'storeName'),
+  async (ctx) => {
+    try {
+      const storeName = decodeURIComponent(ctx.params['storeName'] as string);
+      const fileName = decodeURIComponent(ctx.params['fileName'] as string);
+
+      const original = await findOriginal(storeName, fileName);
+      if ('message' in original) {
+        ctx.status = 404;
+        ctx.body = original;
+        return;
+      }
+
+      const { file, blob } = original;
+      const displayName = file.originalDisplayName || file.displayName || file.name;
+      const mimeType = file.mimeType || gemini.getMimeType(displayName);
+      const disposition = ctx.query['download'] === 'true' ? 'attachment' : 'inline';
+
+      ctx.set('Content-Type', isTextMimeType(mimeType) ? `${mimeType}; charset=utf-8` : mimeType);
+      ctx.set('Content-Length', String(blob.size));
+      ctx.set(
+        'Content-Disposition',
+        `${disposition}; filename*=UTF-8''${encodeURIComponent(displayName)}`
+      );
+      ctx.set('ETag', `"${file.sha256}"`);
+      // Uploaded HTML must not run scripts on the API's origin
+      ctx.set('Content-Security-Policy', 'sandbox');
+      ctx.set('X-Content-Type-Options', 'nosniff');
+      ctx.body = createReadStream(blob.path);
+    } catch (error) {
+      setErrorResponse(ctx, error, 'Failed to get file content');
     }
   }
-});
+);
 
-// Delete a file from a store
-router.delete('/:storeName/files/:fileName', async (ctx) => {
+/**
+ * Text of a file for the document viewer, read from its retained original.
+ * Text formats (plain text, Markdown, CSV, JSON, ...) are returned as is and
+ * PDFs as the text of their pages; other formats are not supported (415).
+ */
+router.get('/:storeName/files/:fileName/text', requireRole('viewer', 'storeName'), async (ctx) => {
   try {
     const storeName = decodeURIComponent(ctx.params['storeName'] as string);
     const fileName = decodeURIComponent(ctx.params['fileName'] as string);
 
-    await gemini.deleteFile(storeName, fileName);
-    ctx.status = 204;
+    const original = await findOriginal(storeName, fileName);
+    if ('message' in original) {
+      ctx.status = 404;
+      ctx.body = original;
+      return;
+    }
+
+    const { file, blob } = original;
+    const displayName = file.originalDisplayName || file.displayName || file.name;
+    const mimeType = file.mimeType || gemini.getMimeType(displayName);
+    const isPdf = mimeType === 'application/pdf';
+    if (!isPdf && !isTextMimeType(mimeType)) {
+      ctx.status = 415;
+      ctx.body = { message: `The text of ${mimeType} files cannot be shown` };
+      return;
+    }
+    const maxBytes = isPdf ? MAX_PDF_BYTES : MAX_TEXT_BYTES;
+    if (blob.size > maxBytes) {
+      ctx.status = 413;
+      ctx.body = { message: `Files over ${maxBytes / (1024 * 1024)} MB cannot be shown` };
+      return;
+    }
+
+    let text: string;
+    try {
+      text = isPdf ? await extractPdfText(blob.path) : await fs.readFile(blob.path, 'utf8');
+    } catch (error) {
+      if (!(error instanceof PdfTextError)) throw error;
+      ctx.status = 422;
+      ctx.body = { message: error.message };
+      return;
+    }
+
+    ctx.set('ETag', `"${file.sha256}"`);
+    ctx.body = { name: file.name, displayName, mimeType, text };
   } catch (error) {
-    ctx.status = 500;
-    ctx.body = { message: error instanceof Error ? error.message : 'Failed to delete file' };
+    setErrorResponse(ctx, error, 'Failed to get file text');
   }
 });
 
+// Delete a file from a store
+router.delete(
+  '/:storeName/files/:fileName',
+  audit('file.delete', 'storeName', 'fileName'),
+  requireRole('editor', 'storeName'),
+  rejectProtected('file.delete', 'storeName'),
+  async (ctx) => {
+    try {
+      const storeName = decodeURIComponent(ctx.params['storeName'] as string);
+      const fileName = decodeURIComponent(ctx.params['fileName'] as string);
+
+      await gemini.deleteFile(storeName, fileName);
+      ctx.status = 204;
+    } catch (error) {
+      setErrorResponse(ctx, error, 'Failed to delete file');
+    }
+  }
+);
+
 export default router;
@@ -0,0 +1,150 @@
+import Router from '@koa/router';
+import { accessOf, type Access, type Role } from '../lib/access.js';
+import { audit } from '../lib/audit.js';
+import { setErrorResponse } from '../lib/errors.js';
+import { parseCursor, toCursor } from '../lib/pagination.js';
+import {
+  getStorage,
+  type SearchHistoryFilter,
+  type SearchHistoryRecord,
+} from '../lib/storage/index.js';
+
+const router = new Router({ prefix: '/api/search/history' });
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// A past search needs the role on every store it searched
+function canAccessEntry(access: Access, entry: SearchHistoryRecord, role: Role): boolean {
+  return entry.storeNames.every((storeName) => access.can(role, storeName));
+}
+
+// List past searches, newest first.
+// Filters: storeName, q (substring of the query), pinned=true|false,
+// before (nextBefore cursor or timestamp), limit
+router.get('/', async (ctx) => {
+  try {
+    const { storeName, q, pinned, before, limit } = ctx.query;
+
+    const filter: SearchHistoryFilter = { limit: DEFAULT_LIMIT };
+    if (typeof storeName === 'string' && storeName) {
+      filter.storeName = storeName.startsWith('fileSearchStores/')
+        ? storeName
+        : `fileSearchStores/${storeName}`;
+      accessOf(ctx).require('viewer', filter.storeName);
+    }
+    if (typeof q === 'string' && q.trim()) filter.query = q.trim();
+    if (pinned === 'true' || pinned === 'false') filter.pinned = pinned === 'true';
+    if (typeof before === 'string' && before) {
+      const cursor = parseCursor(before);
+      if (!cursor) {
+        ctx.status = 400;
+        ctx.body = { message: 'before must be a nextBefore cursor or an ISO 8601 timestamp' };
+        return;
+      }
+      Object.assign(filter, cursor);
+    }
+    if (typeof limit === 'string') {
+      const size = parseInt(limit, 10);
+      if (!Number.isInteger(size) || size <= 0 || size > MAX_LIMIT) {
+        ctx.status = 400;
+        ctx.body = { message: `limit must be an integer between 1 and ${MAX_LIMIT}` };
+        return;
+      }
+      filter.limit = size;
+    }
+
+    const storage = await getStorage();
+    const entries = await storage.history.list(filter);
+    const last = entries[entries.length - 1];
+    const access = accessOf(ctx);
+    ctx.body = {
+      // Filtered after paging, so a page may hold fewer than limit entries
+      entries: entries.filter((entry) => canAccessEntry(access, entry, 'viewer')),
+      // Pass as `before` to fetch the next page
+      nextBefore: last && entries.length === filter.limit ? toCursor(last) : undefined,
+    };
+  } catch (error) {
+    setErrorResponse(ctx, error, 'Failed to list search history');
+  }
+});
+
+// Get a past search with its answer and sources
+router.get('/:id', async (ctx) => {
+  try {
+    const storage = await getStorage();
+    const entry = await storage.history.get(ctx.params['id'] as string);
+    if (!entry) {
+      ctx.status = 404;
+      ctx.body = { message: 'Search history entry not found' };
+      return;
+    }
+    if (!canAccessEntry(accessOf(ctx), entry, 'viewer')) {
+      ctx.status = 403;
+      ctx.body = { message: 'Requires the viewer role on every store of this search' };
+      return;
+    }
+    ctx.body = entry;
+  } catch (error) {
+    setErrorResponse(ctx, error, 'Failed to get search history entry');
+  }
+});
+
+// Pin or unpin a past search
+router.patch('/:id', async (ctx) => {
+  try {
+    const { pinned } = (ctx.request.body ?? {}) as { pinned?: unknown };
+    if (typeof pinned !== 'boolean') {
+      ctx.status = 400;
+      ctx.body = { message: 'pinned must be a boolean' };
+      return;
+    }
+
+    const storage = await getStorage();
+    const id = ctx.params['id'] as string;
+    const entry = await storage.history.get(id);
+    if (!entry) {
+      ctx.status = 404;
+      ctx.body = { message: 'Search history entry not found' };
+      return;
+    }
+    if (!canAccessEntry(accessOf(ctx), entry, 'viewer')) {
+      ctx.status = 403;
+      ctx.body = { message: 'Requires the viewer role on every store of this search' };
+      return;
+    }
+    await storage.history.setPinned(id, pinned);
+    ctx.body = await storage.history.get(id);
+  } catch (error) {
+    setErrorResponse(ctx, error, 'Failed to update search history entry');
+  }
+});
+
+// Delete a past search
+router.delete('/:id', audit('history.delete'), async (ctx) => {
+  ctx.state.audit = { details: { historyId: ctx.params['id'] } };
+  try {
+    const storage = await getStorage();
+    const entry = await storage.history.get(ctx.params['id'] as string);
+    if (!entry) {
+      ctx.status = 404;
+      ctx.body = { message: 'Search history entry not found' };
+      return;
+    }
+    ctx.state.audit = {
+      storeName: entry.storeNames.length === 1 ? entry.storeNames[0] : undefined,
+      details: { historyId: entry.id, storeNames: entry.storeNames },
+    };
+    if (!canAccessEntry(accessOf(ctx), entry, 'editor')) {
+      ctx.status = 403;
+      ctx.body = { message: 'Requires the editor role on every store of this search' };
+      return;
+    }
+    await storage.history.delete(entry.id);
+    ctx.status = 204;
+  } catch (error) {
+    setErrorResponse(ctx, error, 'Failed to delete search history entry');
+  }
+});
+
+export default router;
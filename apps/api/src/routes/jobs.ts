@@ -0,0 +1,71 @@
+import Router from '@koa/router';
+import { accessOf } from '../lib/access.js';
+import { setErrorResponse } from '../lib/errors.js';
+import { toJobResponse } from '../lib/jobs.js';
+import { getStorage, type JobFilter, type JobStatus } from '../lib/storage/index.js';
+
+const router = new Router({ prefix: '/api/jobs' });
+
+const JOB_STATUSES: JobStatus[] = ['queued', 'uploading', 'importing', 'indexed', 'failed'];
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+// List jobs, newest first. Filters: storeName, status, limit
+router.get('/', async (ctx) => {
+  try {
+    const { storeName, status, limit } = ctx.query;
+
+    const filter: JobFilter = { limit: DEFAULT_LIMIT };
+    if (typeof storeName === 'string' && storeName) {
+      filter.storeName = storeName.startsWith('fileSearchStores/')
+        ? storeName
+        : `fileSearchStores/${storeName}`;
+      accessOf(ctx).require('viewer', filter.storeName);
+    }
+    if (status !== undefined) {
+      if (typeof status !== 'string' || !JOB_STATUSES.includes(status as JobStatus)) {
+        ctx.status = 400;
+        ctx.body = { message: `status must be one of: ${JOB_STATUSES.join(', ')}` };
+        return;
+      }
+      filter.status = status as JobStatus;
+    }
+    if (typeof limit === 'string') {
+      const size = parseInt(limit, 10);
+      if (!Number.isInteger(size) || size <= 0 || size > MAX_LIMIT) {
+        ctx.status = 400;
+        ctx.body = { message: `limit must be an integer between 1 and ${MAX_LIMIT}` };
+        return;
+      }
+      filter.limit = size;
+    }
+
+    const storage = await getStorage();
+    const jobs = await storage.jobs.list(filter);
+    const access = accessOf(ctx);
+    ctx.body = {
+      jobs: jobs.filter((job) => access.can('viewer', job.storeName)).map(toJobResponse),
+    };
+  } catch (error) {
+    setErrorResponse(ctx, error, 'Failed to list jobs');
+  }
+});
+
+// Get a job's status
+router.get('/:id', async (ctx) => {
+  try {
+    const storage = await getStorage();
+    const job = await storage.jobs.get(ctx.params['id'] as string);
+    if (!job) {
+      ctx.status = 404;
+      ctx.body = { message: 'Job not found' };
+      return;
+    }
+    accessOf(ctx).require('viewer', job.storeName);
+    ctx.body = toJobResponse(job);
+  } catch (error) {
+    setErrorResponse(ctx, error, 'Failed to get job');
+  }
+});
+
+export default router;
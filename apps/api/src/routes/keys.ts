@@ -0,0 +1,133 @@
+import crypto from 'crypto';
+import Router from '@koa/router';
+import { parseGrant, requireRole } from '../lib/access.js';
+import { audit } from '../lib/audit.js';
+import { generateApiKey, isKeyExpired, keySubject } from '../lib/auth.js';
+import { setErrorResponse } from '../lib/errors.js';
+import { getStorage, type ApiKeyRecord, type RoleGrantRecord } from '../lib/storage/index.js';
+
+const router = new Router({ prefix: '/api/keys' });
+
+interface CreateKeyRequestBody {
+  label?: unknown;
+  expireTime?: unknown;
+  // Roles of the new key: [{ storeName, role }]; without grants it can do nothing
+  grants?: unknown;
+}
+
+// Key as returned by the API: never the hash
+function toKeyResponse(key: ApiKeyRecord) {
+  const { keyHash: _keyHash, ...rest } = key;
+  return { ...rest, expired: isKeyExpired(key) };
+}
+
+// Keys can hand out any role, so managing them requires admin on every store.
+// Writes are audited before the role check so denied attempts are recorded too.
+
+// List API keys, newest first
+router.get('/', requireRole('admin'), async (ctx) => {
+  try {
+    const storage = await getStorage();
+    const keys = await storage.apiKeys.list();
+    ctx.body = { keys: keys.map(toKeyResponse) };
+  } catch (error) {
+    setErrorResponse(ctx, error, 'Failed to list API keys');
+  }
+});
+
+// Create an API key. The key itself is only part of this response.
+router.post('/', audit('key.create'), requireRole('admin'), async (ctx) => {
+  try {
+    const { label, expireTime, grants } = (ctx.request.body ?? {}) as CreateKeyRequestBody;
+    if (typeof label !== 'string' || !label.trim()) {
+      ctx.status = 400;
+      ctx.body = { message: 'label is required' };
+      return;
+    }
+    if (
+      expireTime !== undefined &&
+      (typeof expireTime !== 'string' || Number.isNaN(Date.parse(expireTime)))
+    ) {
+      ctx.status = 400;
+      ctx.body = { message: 'expireTime must be an ISO 8601 timestamp' };
+      return;
+    }
+    if (expireTime !== undefined && Date.parse(expireTime) <= Date.now()) {
+      ctx.status = 400;
+      ctx.body = { message: 'expireTime must be in the future' };
+      return;
+    }
+
+    if (grants !== undefined && !Array.isArray(grants)) {
+      ctx.status = 400;
+      ctx.body = { message: 'grants must be an array of { storeName, role }' };
+      return;
+    }
+    const parsedGrants = (grants ?? []).map(parseGrant);
+    const invalid = parsedGrants.find((grant) => typeof grant === 'string');
+    if (invalid) {
+      ctx.status = 400;
+      ctx.body = { message: invalid };
+      return;
+    }
+
+    const { key, prefix, keyHash } = generateApiKey();
+    const record: ApiKeyRecord = {
+      id: crypto.randomUUID(),
+      label: label.trim(),
+      prefix,
+      keyHash,
+      ...(expireTime !== undefined && { expireTime: new Date(expireTime).toISOString() }),
+      createTime: new Date().toISOString(),
+    };
+    const storage = await getStorage();
+    await storage.apiKeys.create(record);
+    const keyGrants: RoleGrantRecord[] = parsedGrants
+      .filter((grant) => typeof grant !== 'string')
+      .map((grant) => ({
+        ...grant,
+        subject: keySubject(record.id),
+        createTime: record.createTime,
+      }));
+    for (const grant of keyGrants) {
+      await storage.roleGrants.put(grant);
+    }
+
+    ctx.status = 201;
+    ctx.body = { ...toKeyResponse(record), key, grants: keyGrants };
+    ctx.state.audit = { details: { keyId: record.id, label: record.label } };
+  } catch (error) {
+    setErrorResponse(ctx, error, 'Failed to create API key');
+  }
+});
+
+// Revoke an API key
+router.delete(
+  '/:id',
+  audit('key.revoke'),
+  async (ctx, next) => {
+    // Set before the role check so a denied attempt records the key too
+    ctx.state.audit = { details: { keyId: ctx.params['id'] } };
+    return next();
+  },
+  requireRole('admin'),
+  async (ctx) => {
+    try {
+      const storage = await getStorage();
+      const id = ctx.params['id'] as string;
+      if (!(await storage.apiKeys.delete(id))) {
+        ctx.status = 404;
+        ctx.body = { message: 'API key not found' };
+        return;
+      }
+      for (const grant of await storage.roleGrants.list({ subject: keySubject(id) })) {
+        await storage.roleGrants.delete(grant.subject, grant.storeName);
+      }
+      ctx.status = 204;
+    } catch (error) {
+      setErrorResponse(ctx, error, 'Failed to revoke API key');
+    }
+  }
+);
+
+export default router;
@@ -1,15 +1,51 @@
 import Router from '@koa/router';
 import type { Next, ParameterizedContext } from 'koa';
 import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { accessOf, createAccess, UNRESTRICTED_ACCESS } from '../lib/access.js';
+import { accessFor, authenticate, isAuthEnabled, type AuthState } from '../lib/auth.js';
+import { getProxyIdentity } from '../lib/proxy-auth.js';
 import { createMcpServer } from '../mcp/index.js';
 
-const router = new Router({ prefix: '/mcp' });
+const router = new Router<AuthState>({ prefix: '/mcp' });
 
-// Basic Auth 미들웨어 (환경변수로 활성화)
-const basicAuth = async (ctx: ParameterizedContext, next: Next) => {
+// Basic Auth 사용자는 모든 Store의 viewer
+const BASIC_AUTH_ACCESS = createAccess([{ storeName: '*', role: 'viewer' }]);
+
+// 인증 미들웨어: API 키(Bearer, API_AUTH_ENABLED일 때) 또는 Basic Auth(MCP_AUTH_ENABLED일 때)
+const basicAuth = async (ctx: ParameterizedContext<AuthState>, next: Next) => {
   const authEnabled = process.env.MCP_AUTH_ENABLED === 'true';
+  const authHeader = ctx.headers.authorization;
+
+  // 신뢰하는 프록시(oauth2-proxy)를 거친 사용자는 REST API와 같은 role
+  const proxyIdentity = getProxyIdentity(ctx);
+  if (proxyIdentity) {
+    ctx.state.auth = proxyIdentity;
+    ctx.state.access = isAuthEnabled() ? await accessFor(proxyIdentity) : UNRESTRICTED_ACCESS;
+    return next();
+  }
+
+  // API 키는 해당 키의 role로 제한
+  if (isAuthEnabled() && authHeader?.startsWith('Bearer ')) {
+    const identity = await authenticate(authHeader.slice(7).trim());
+    if (!identity) {
+      ctx.status = 401;
+      ctx.set('WWW-Authenticate', 'Bearer realm="GemIndex", error="invalid_token"');
+      ctx.body = { error: 'Invalid or expired API key' };
+      return;
+    }
+    ctx.state.auth = identity;
+    ctx.state.access = await accessFor(identity);
+    return next();
+  }
 
   if (!authEnabled) {
+    if (isAuthEnabled()) {
+      ctx.status = 401;
+      ctx.set('WWW-Authenticate', 'Bearer realm="GemIndex"');
+      ctx.body = { error: 'Authentication required: send an API key as a Bearer token' };
+      return;
+    }
+    ctx.state.access = UNRESTRICTED_ACCESS;
     return next();
   }
 
@@ -22,7 +58,6 @@ const basicAuth = async (ctx: ParameterizedContext, next: Next) => {
     return;
   }
 
-  const authHeader = ctx.headers.authorization;
   if (!authHeader?.startsWith('Basic ')) {
     ctx.status = 401;
     ctx.set('WWW-Authenticate', 'Basic realm="GemIndex MCP"');
@@ -39,6 +74,7 @@ const basicAuth = async (ctx: ParameterizedContext, next: Next) => {
     return;
   }
 
+  ctx.state.access = BASIC_AUTH_ACCESS;
   return next();
 };
 
@@ -49,7 +85,7 @@ router.post('/', basicAuth, async (ctx) => {
     enableJsonResponse: true, // JSON 응답 모드
   });
 
-  const server = createMcpServer();
+  const server = createMcpServer(accessOf(ctx));
   await server.connect(transport);
 
   try {
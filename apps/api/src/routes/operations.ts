@@ -1,5 +1,7 @@
 import Router from '@koa/router';
 import * as gemini from '../lib/gemini.js';
+import { accessOf } from '../lib/access.js';
+import { setErrorResponse } from '../lib/errors.js';
 
 const router = new Router({ prefix: '/api/operations' });
 
@@ -7,11 +9,13 @@ const router = new Router({ prefix: '/api/operations' });
 router.get('/:operationName', async (ctx) => {
   try {
     const operationName = decodeURIComponent(ctx.params['operationName'] as string);
+    // Store operations ("fileSearchStores/{store}/operations/{id}") need a role on their store
+    const storeName = /^fileSearchStores\/[^/]+/.exec(operationName)?.[0];
+    accessOf(ctx).require('viewer', storeName);
     const operation = await gemini.getOperation(operationName);
     ctx.body = operation;
   } catch (error) {
-    ctx.status = 500;
-    ctx.body = { message: error instanceof Error ? error.message : 'Failed to get operation' };
+    setErrorResponse(ctx, error, 'Failed to get operation');
   }
 });
 
@@ -0,0 +1,247 @@
+import crypto from 'crypto';
+import Router from '@koa/router';
+import * as gemini from '../lib/gemini.js';
+import { parseSearchSettings } from '../lib/presets.js';
+import { requireRole, requireRoleOnAnyStore } from '../lib/access.js';
+import { audit } from '../lib/audit.js';
+import { setErrorResponse } from '../lib/errors.js';
+import { getStorage, type PresetRecord } from '../lib/storage/index.js';
+
+const router = new Router({ prefix: '/api' });
+
+// Presets are shared by every team: anyone who edits some store may create,
+// change and delete them
+
+interface PresetRequestBody {
+  name?: unknown;
+  settings?: unknown;
+}
+
+const toStoreName = (name: string) =>
+  name.startsWith('fileSearchStores/') ? name : `fileSearchStores/${name}`;
+
+// Attach the stores that use each preset as their default
+function withDefaults(preset: PresetRecord, defaults: Record<string, string>) {
+  return {
+    ...preset,
+    defaultForStores: Object.keys(defaults).filter((store) => defaults[store] === preset.id),
+  };
+}
+
+// Preset names double as references in search requests, so they must be unique
+async function isNameTaken(name: string, exceptId?: string): Promise<boolean> {
+  const storage = await getStorage();
+  return (await storage.presets.list()).some(
+    (preset) => preset.name === name && preset.id !== exceptId
+  );
+}
+
+// List presets
+router.get('/presets', async (ctx) => {
+  try {
+    const storage = await getStorage();
+    const [presets, defaults] = await Promise.all([
+      storage.presets.list(),
+      storage.presets.listStoreDefaults(),
+    ]);
+    ctx.body = { presets: presets.map((preset) => withDefaults(preset, defaults)) };
+  } catch (error) {
+    setErrorResponse(ctx, error, 'Failed to list presets');
+  }
+});
+
+// Create a preset
+router.post('/presets', audit('preset.create'), requireRoleOnAnyStore('editor'), async (ctx) => {
+  try {
+    const { name, settings } = (ctx.request.body ?? {}) as PresetRequestBody;
+    if (typeof name !== 'string' || !name.trim()) {
+      ctx.status = 400;
+      ctx.body = { message: 'name is required' };
+      return;
+    }
+
+    const parsed = parseSearchSettings(settings ?? {});
+    if (typeof parsed === 'string') {
+      ctx.status = 400;
+      ctx.body = { message: parsed };
+      return;
+    }
+
+    if (await isNameTaken(name.trim())) {
+      ctx.status = 409;
+      ctx.body = { message: `A preset named "${name.trim()}" already exists` };
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const preset: PresetRecord = {
+      id: crypto.randomUUID(),
+      name: name.trim(),
+      settings: parsed,
+      createTime: now,
+      updateTime: now,
+    };
+    const storage = await getStorage();
+    await storage.presets.create(preset);
+    ctx.state.audit = { details: { presetId: preset.id, name: preset.name } };
+
+    ctx.status = 201;
+    ctx.body = withDefaults(preset, {});
+  } catch (error) {
+    setErrorResponse(ctx, error, 'Failed to create preset');
+  }
+});
+
+// Get a preset
+router.get('/presets/:id', async (ctx) => {
+  try {
+    const storage = await getStorage();
+    const preset = await storage.presets.get(ctx.params['id'] as string);
+    if (!preset) {
+      ctx.status = 404;
+      ctx.body = { message: 'Preset not found' };
+      return;
+    }
+    ctx.body = withDefaults(preset, await storage.presets.listStoreDefaults());
+  } catch (error) {
+    setErrorResponse(ctx, error, 'Failed to get preset');
+  }
+});
+
+// Update a preset's name and/or settings (settings are replaced, not merged)
+router.patch(
+  '/presets/:id',
+  audit('preset.update'),
+  requireRoleOnAnyStore('editor'),
+  async (ctx) => {
+    ctx.state.audit = { details: { presetId: ctx.params['id'] } };
+    try {
+      const storage = await getStorage();
+      const preset = await storage.presets.get(ctx.params['id'] as string);
+      if (!preset) {
+        ctx.status = 404;
+        ctx.body = { message: 'Preset not found' };
+        return;
+      }
+
+      const { name, settings } = (ctx.request.body ?? {}) as PresetRequestBody;
+      if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+        ctx.status = 400;
+        ctx.body = { message: 'name must be a non-empty string' };
+        return;
+      }
+
+      const parsed = settings === undefined ? preset.settings : parseSearchSettings(settings);
+      if (typeof parsed === 'string') {
+        ctx.status = 400;
+        ctx.body = { message: parsed };
+        return;
+      }
+
+      if (name !== undefined && (await isNameTaken(name.trim(), preset.id))) {
+        ctx.status = 409;
+        ctx.body = { message: `A preset named "${name.trim()}" already exists` };
+        return;
+      }
+
+      const updated: PresetRecord = {
+        ...preset,
+        name: name?.trim() ?? preset.name,
+        settings: parsed,
+        updateTime: new Date().toISOString(),
+      };
+      await storage.presets.update(updated);
+      ctx.body = withDefaults(updated, await storage.presets.listStoreDefaults());
+    } catch (error) {
+      setErrorResponse(ctx, error, 'Failed to update preset');
+    }
+  }
+);
+
+// Delete a preset (stores using it as their default fall back to no default)
+router.delete(
+  '/presets/:id',
+  audit('preset.delete'),
+  requireRoleOnAnyStore('editor'),
+  async (ctx) => {
+    ctx.state.audit = { details: { presetId: ctx.params['id'] } };
+    try {
+      const storage = await getStorage();
+      if (!(await storage.presets.delete(ctx.params['id'] as string))) {
+        ctx.status = 404;
+        ctx.body = { message: 'Preset not found' };
+        return;
+      }
+      ctx.status = 204;
+    } catch (error) {
+      setErrorResponse(ctx, error, 'Failed to delete preset');
+    }
+  }
+);
+
+// Get a store's default preset (null when none is set)
+router.get('/stores/:storeName/default-preset', requireRole('viewer', 'storeName'), async (ctx) => {
+  try {
+    const storage = await getStorage();
+    const defaults = await storage.presets.listStoreDefaults();
+    const presetId = defaults[toStoreName(ctx.params['storeName'] as string)];
+    const preset = presetId ? await storage.presets.get(presetId) : undefined;
+    ctx.body = { preset: preset ? withDefaults(preset, defaults) : null };
+  } catch (error) {
+    setErrorResponse(ctx, error, 'Failed to get default preset');
+  }
+});
+
+// Set a store's default preset, used by searches on that store that name no preset
+router.put(
+  '/stores/:storeName/default-preset',
+  audit('store.set_default_preset', 'storeName'),
+  requireRole('editor', 'storeName'),
+  async (ctx) => {
+    try {
+      const { presetId } = (ctx.request.body ?? {}) as { presetId?: unknown };
+      if (typeof presetId !== 'string' || !presetId) {
+        ctx.status = 400;
+        ctx.body = { message: 'presetId is required' };
+        return;
+      }
+
+      const storage = await getStorage();
+      const preset = await storage.presets.get(presetId);
+      if (!preset) {
+        ctx.status = 404;
+        ctx.body = { message: 'Preset not found' };
+        return;
+      }
+
+      // Fail early if the store does not exist
+      const storeName = toStoreName(ctx.params['storeName'] as string);
+      await gemini.getStore(storeName);
+
+      await storage.presets.setStoreDefault(storeName, preset.id);
+      ctx.body = {
+        preset: withDefaults(preset, await storage.presets.listStoreDefaults()),
+      };
+    } catch (error) {
+      setErrorResponse(ctx, error, 'Failed to set default preset');
+    }
+  }
+);
+
+// Clear a store's default preset
+router.delete(
+  '/stores/:storeName/default-preset',
+  audit('store.clear_default_preset', 'storeName'),
+  requireRole('editor', 'storeName'),
+  async (ctx) => {
+    try {
+      const storage = await getStorage();
+      await storage.presets.setStoreDefault(toStoreName(ctx.params['storeName'] as string), null);
+      ctx.status = 204;
+    } catch (error) {
+      setErrorResponse(ctx, error, 'Failed to clear default preset');
+    }
+  }
+);
+
+export default router;
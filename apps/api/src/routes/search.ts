@@ -1,47 +1,206 @@
 import Router from '@koa/router';
 import * as gemini from '../lib/gemini.js';
+import { accessOf } from '../lib/access.js';
+import { GeminiApiError, getHttpStatus, setErrorResponse } from '../lib/errors.js';
+import { applyPreset, PresetNotFoundError } from '../lib/presets.js';
+import { recordSearch } from '../lib/search-history.js';
 
 const router = new Router({ prefix: '/api' });
 
+interface SearchRequestBody {
+  storeName?: string;
+  storeNames?: string[];
+  query?: string;
+  systemPrompt?: string;
+  model?: string;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
+  metadataFilter?: string;
+  legacySystemPrompt?: boolean;
+  // Preset id or name; explicit fields above override its settings
+  preset?: string;
+}
+
+interface ParsedSearchRequest {
+  storeNames: string[];
+  query: string;
+  preset?: string;
+  config: gemini.SearchConfig;
+}
+
+// Returns the parsed request, or an error message for a 400 response
+function parseSearchRequest(body: SearchRequestBody): ParsedSearchRequest | string {
+  const { storeName, storeNames, query, metadataFilter, preset, ...config } = body;
+
+  if (
+    storeNames !== undefined &&
+    (!Array.isArray(storeNames) ||
+      storeNames.some((name) => typeof name !== 'string' || !name.trim()))
+  ) {
+    return 'storeNames must be an array of store names';
+  }
+
+  const targetStores = storeNames?.length ? storeNames : storeName ? [storeName] : [];
+  if (targetStores.length === 0) {
+    return 'storeName or storeNames is required';
+  }
+
+  if (!query) {
+    return 'query is required';
+  }
+
+  if (metadataFilter !== undefined && typeof metadataFilter !== 'string') {
+    return 'metadataFilter must be a string';
+  }
+
+  if (config.legacySystemPrompt !== undefined && typeof config.legacySystemPrompt !== 'boolean') {
+    return 'legacySystemPrompt must be a boolean';
+  }
+
+  if (preset !== undefined && typeof preset !== 'string') {
+    return 'preset must be a string';
+  }
+
+  return {
+    storeNames: targetStores,
+    query,
+    preset: preset || undefined,
+    config: {
+      systemPrompt: config.systemPrompt,
+      model: config.model,
+      temperature: config.temperature,
+      topP: config.topP,
+      topK: config.topK,
+      maxOutputTokens: config.maxOutputTokens,
+      metadataFilter: metadataFilter?.trim() || undefined,
+      legacySystemPrompt: config.legacySystemPrompt,
+    },
+  };
+}
+
 // Search documents
 router.post('/search', async (ctx) => {
   try {
-    const { storeName, query, systemPrompt, model, temperature, topP, topK, maxOutputTokens } = ctx
-      .request.body as {
-      storeName?: string;
-      query?: string;
-      systemPrompt?: string;
-      model?: string;
-      temperature?: number;
-      topP?: number;
-      topK?: number;
-      maxOutputTokens?: number;
-    };
-
-    if (!storeName) {
+    const parsed = parseSearchRequest(ctx.request.body as SearchRequestBody);
+    if (typeof parsed === 'string') {
       ctx.status = 400;
-      ctx.body = { message: 'storeName is required' };
+      ctx.body = { message: parsed };
       return;
     }
+    for (const storeName of parsed.storeNames) {
+      accessOf(ctx).require('viewer', storeName);
+    }
 
-    if (!query) {
-      ctx.status = 400;
-      ctx.body = { message: 'query is required' };
+    const config = await applyPreset(parsed.storeNames, parsed.preset, parsed.config);
+    const startTime = Date.now();
+    const result = await gemini.search(parsed.storeNames, parsed.query, config);
+    const entry = await recordSearch(
+      parsed.storeNames,
+      parsed.query,
+      config,
+      result,
+      Date.now() - startTime
+    );
+    ctx.body = { ...result, historyId: entry?.id };
+  } catch (error) {
+    if (error instanceof PresetNotFoundError) {
+      ctx.status = 404;
+      ctx.body = { message: error.message };
+      return;
+    }
+    setErrorResponse(ctx, error, 'Failed to search');
+  }
+});
+
+// Search documents, streaming the answer as Server-Sent Events:
+// "delta" events carry text as it is generated, then a single "done" event carries
+// the full text with sources/supports, or an "error" event if the stream fails
+router.post('/search/stream', async (ctx) => {
+  const parsed = parseSearchRequest(ctx.request.body as SearchRequestBody);
+  if (typeof parsed === 'string') {
+    ctx.status = 400;
+    ctx.body = { message: parsed };
+    return;
+  }
+
+  // Stop the upstream request if the client disconnects
+  const abortController = new AbortController();
+  ctx.res.on('close', () => {
+    if (!ctx.res.writableFinished) abortController.abort();
+  });
+
+  // Wait for the first event so failures before streaming starts get a regular error response
+  let events: AsyncGenerator<gemini.SearchStreamEvent>;
+  let first: IteratorResult<gemini.SearchStreamEvent>;
+  let config: gemini.SearchConfig;
+  const startTime = Date.now();
+  try {
+    for (const storeName of parsed.storeNames) {
+      accessOf(ctx).require('viewer', storeName);
+    }
+    config = await applyPreset(parsed.storeNames, parsed.preset, parsed.config);
+    events = gemini.searchStream(parsed.storeNames, parsed.query, config, abortController.signal);
+    first = await events.next();
+  } catch (error) {
+    if (error instanceof PresetNotFoundError) {
+      ctx.status = 404;
+      ctx.body = { message: error.message };
       return;
     }
+    setErrorResponse(ctx, error, 'Failed to search');
+    return;
+  }
+
+  // The response is written directly so each event is flushed as it arrives
+  ctx.respond = false;
+  ctx.res.writeHead(200, {
+    'Content-Type': 'text/event-stream; charset=utf-8',
+    'Cache-Control': 'no-cache, no-transform',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no',
+  });
 
-    const result = await gemini.search(storeName, query, {
-      systemPrompt,
-      model,
-      temperature,
-      topP,
-      topK,
-      maxOutputTokens,
-    });
-    ctx.body = result;
+  const send = async (event: gemini.SearchStreamEvent) => {
+    const { type, ...data } = event;
+    // The completed answer is recorded so the done event can carry its history id
+    const payload =
+      event.type === 'done'
+        ? {
+            ...data,
+            historyId: (
+              await recordSearch(
+                parsed.storeNames,
+                parsed.query,
+                config,
+                event,
+                Date.now() - startTime
+              )
+            )?.id,
+          }
+        : data;
+    ctx.res.write(`event: ${type}\ndata: ${JSON.stringify(payload)}\n\n`);
+  };
+
+  try {
+    if (!first.done) await send(first.value);
+    for await (const event of events) {
+      await send(event);
+    }
   } catch (error) {
-    ctx.status = 500;
-    ctx.body = { message: error instanceof Error ? error.message : 'Failed to search' };
+    if (!abortController.signal.aborted) {
+      console.error('Search stream error:', error instanceof Error ? error.message : error);
+      ctx.res.write(
+        `event: error\ndata: ${JSON.stringify({
+          status: getHttpStatus(error),
+          message: error instanceof Error && error.message ? error.message : 'Failed to search',
+          ...(error instanceof GeminiApiError && { code: error.code }),
+        })}\n\n`
+      );
+    }
+  } finally {
+    ctx.res.end();
   }
 });
 
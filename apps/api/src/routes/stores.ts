@@ -1,43 +1,63 @@
 import Router from '@koa/router';
 import * as gemini from '../lib/gemini.js';
+import { accessOf, requireRole, toGrantStoreName } from '../lib/access.js';
+import { audit, type AuditState } from '../lib/audit.js';
+import { setErrorResponse } from '../lib/errors.js';
+import { parseListOptions } from '../lib/pagination.js';
+import {
+  PROTECTION_LEVELS,
+  getStoreProtection,
+  isProtectionLevel,
+  listStoreProtection,
+  rejectProtected,
+  type StoreProtection,
+} from '../lib/protection.js';
+import { getStorage } from '../lib/storage/index.js';
 
-const router = new Router({ prefix: '/api/stores' });
+const router = new Router<AuditState>({ prefix: '/api/stores' });
 
-// Get list of protected store IDs from environment variable
-function getProtectedStoreIds(): string[] {
-  const protectedStores = process.env.PROTECTED_STORES;
-  if (!protectedStores) return [];
-  return protectedStores
-    .split(',')
-    .map((s) => s.trim())
-    .map((s) => s.replace(/^fileSearchStores\//, '')) // Normalize to ID only
-    .filter(Boolean);
+function toProtectionResponse(storeName: string, protection: StoreProtection) {
+  return {
+    storeName,
+    level: protection.level ?? null,
+    storedLevel: protection.storedLevel ?? null,
+    env: protection.env,
+  };
 }
 
-// Check if a store name is protected
-function isProtectedStore(name: string): boolean {
-  const protectedIds = getProtectedStoreIds();
-  const storeId = name.replace(/^fileSearchStores\//, '');
-  return protectedIds.includes(storeId);
-}
-
-// List all stores
+// List all stores (all pages, or a single page when pageSize/pageToken is given)
 router.get('/', async (ctx) => {
   try {
-    const stores = await gemini.listStores();
-    const storesWithProtection = stores.map((store) => ({
-      ...store,
-      protected: store.name ? isProtectedStore(store.name) : false,
-    }));
-    ctx.body = { stores: storesWithProtection };
+    let listOptions: gemini.ListOptions | null;
+    try {
+      listOptions = parseListOptions(ctx.query);
+    } catch (error) {
+      ctx.status = 400;
+      ctx.body = { message: (error as Error).message };
+      return;
+    }
+
+    const { stores, nextPageToken } = listOptions
+      ? await gemini.listStoresPage(listOptions)
+      : { stores: await gemini.listStores(), nextPageToken: undefined };
+    // Only stores the caller has a role on
+    const access = accessOf(ctx);
+    const levels = await listStoreProtection();
+    const storesWithProtection = stores
+      .filter((store) => store.name && access.can('viewer', store.name))
+      .map((store) => {
+        const protection = store.name ? levels[store.name] : undefined;
+        // protected: the store cannot be deleted (any protection level)
+        return { ...store, protected: !!protection, protection };
+      });
+    ctx.body = { stores: storesWithProtection, nextPageToken };
   } catch (error) {
-    ctx.status = 500;
-    ctx.body = { message: error instanceof Error ? error.message : 'Failed to list stores' };
+    setErrorResponse(ctx, error, 'Failed to list stores');
   }
 });
 
 // Create a new store
-router.post('/', async (ctx) => {
+router.post('/', audit('store.create'), requireRole('admin'), async (ctx) => {
   try {
     const { displayName } = ctx.request.body as { displayName?: string };
 
@@ -50,44 +70,96 @@ router.post('/', async (ctx) => {
     const store = await gemini.createStore(displayName);
     ctx.status = 201;
     ctx.body = store;
+    ctx.state.audit = { storeName: store.name, details: { displayName } };
   } catch (error) {
-    ctx.status = 500;
-    ctx.body = { message: error instanceof Error ? error.message : 'Failed to create store' };
+    setErrorResponse(ctx, error, 'Failed to create store');
   }
 });
 
 // Get a specific store
-router.get('/:name', async (ctx) => {
+router.get('/:name', requireRole('viewer', 'name'), async (ctx) => {
   try {
     const name = decodeURIComponent(ctx.params['name'] as string);
     const store = await gemini.getStore(name);
     ctx.body = store;
   } catch (error) {
-    ctx.status = 500;
-    ctx.body = { message: error instanceof Error ? error.message : 'Failed to get store' };
+    setErrorResponse(ctx, error, 'Failed to get store');
   }
 });
 
 // Delete a store
-router.delete('/:name', async (ctx) => {
-  try {
-    const name = decodeURIComponent(ctx.params['name'] as string);
+router.delete(
+  '/:name',
+  audit('store.delete', 'name'),
+  requireRole('admin', 'name'),
+  rejectProtected('store.delete', 'name'),
+  async (ctx) => {
+    try {
+      const name = decodeURIComponent(ctx.params['name'] as string);
+      const force = ctx.query.force === 'true';
 
-    // Check if store is protected
-    if (isProtectedStore(name)) {
-      ctx.status = 403;
-      ctx.body = { message: 'This store is protected and cannot be deleted' };
-      return;
+      await gemini.deleteStore(name, force);
+      ctx.status = 204;
+    } catch (error) {
+      setErrorResponse(ctx, error, 'Failed to delete store');
     }
+  }
+);
 
-    const force = ctx.query.force === 'true';
-
-    await gemini.deleteStore(name, force);
-    ctx.status = 204;
+// Get a store's protection: the effective level and where it comes from
+router.get('/:name/protection', requireRole('viewer', 'name'), async (ctx) => {
+  try {
+    const name = toGrantStoreName(decodeURIComponent(ctx.params['name'] as string));
+    ctx.body = toProtectionResponse(name, await getStoreProtection(name));
   } catch (error) {
-    ctx.status = 500;
-    ctx.body = { message: error instanceof Error ? error.message : 'Failed to delete store' };
+    setErrorResponse(ctx, error, 'Failed to get store protection');
   }
 });
 
+// Set a store's protection level: { level: "no_store_delete" | "no_file_delete" | "read_only" }
+router.put(
+  '/:name/protection',
+  audit('store.set_protection', 'name'),
+  requireRole('admin', 'name'),
+  async (ctx) => {
+    try {
+      const name = toGrantStoreName(decodeURIComponent(ctx.params['name'] as string));
+      const { level } = (ctx.request.body ?? {}) as { level?: unknown };
+      if (!isProtectionLevel(level)) {
+        ctx.status = 400;
+        ctx.body = { message: `level must be one of: ${PROTECTION_LEVELS.join(', ')}` };
+        return;
+      }
+      ctx.state.audit = { details: { level } };
+
+      const storage = await getStorage();
+      await storage.storeProtection.put({
+        storeName: name,
+        level,
+        updateTime: new Date().toISOString(),
+      });
+      ctx.body = toProtectionResponse(name, await getStoreProtection(name));
+    } catch (error) {
+      setErrorResponse(ctx, error, 'Failed to set store protection');
+    }
+  }
+);
+
+// Remove a store's runtime protection (PROTECTED_STORES still applies)
+router.delete(
+  '/:name/protection',
+  audit('store.clear_protection', 'name'),
+  requireRole('admin', 'name'),
+  async (ctx) => {
+    try {
+      const name = toGrantStoreName(decodeURIComponent(ctx.params['name'] as string));
+      const storage = await getStorage();
+      await storage.storeProtection.delete(name);
+      ctx.status = 204;
+    } catch (error) {
+      setErrorResponse(ctx, error, 'Failed to clear store protection');
+    }
+  }
+);
+
 export default router;
@@ -0,0 +1,232 @@
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { after, afterEach, before, beforeEach, describe, it, mock } from 'node:test';
+import Koa from 'koa';
+import bodyParser from 'koa-bodyparser';
+import { createAccess, type Access, type AccessState } from '../lib/access.js';
+import { getStorage, type ProtectionLevel } from '../lib/storage/index.js';
+import syncRouter from './sync.js';
+
+const hash = (char: string) => char.repeat(64);
+
+// Documents of the stubbed store, by original file name
+const REMOTE_FILES = [
+  { name: 'unchanged.md', sha256: hash('a'), configHash: hash('c') },
+  { name: 'docs_changed.md', sha256: hash('a'), configHash: hash('c') },
+  { name: 'reconfigured.md', sha256: hash('a'), configHash: hash('c') },
+  { name: 'legacy-config.md', sha256: hash('a') },
+  { name: 'legacy.md' },
+  { name: 'orphan.md', sha256: hash('a') },
+];
+
+const MANIFEST = [
+  { path: 'unchanged.md', sha256: hash('a'), configHash: hash('c') },
+  { path: 'docs/changed.md', sha256: hash('b'), configHash: hash('c') },
+  { path: 'reconfigured.md', sha256: hash('a'), configHash: hash('d') },
+  { path: 'legacy-config.md', sha256: hash('a'), configHash: hash('d') },
+  { path: 'legacy.md', sha256: hash('a') },
+  { path: 'new.md', sha256: hash('a') },
+];
+
+interface PlanEntry {
+  file?: { path: string };
+  remoteFile?: { originalDisplayName?: string };
+  reason: string;
+}
+
+interface PlanResponse {
+  uploads: PlanEntry[];
+  skips: PlanEntry[];
+  deletes: PlanEntry[];
+  protection?: string;
+  blockedUploads: PlanEntry[];
+  blockedDeletes: PlanEntry[];
+}
+
+// "path: reason" of manifest entries, or "name: reason" of deletes
+function summarize(entries: PlanEntry[]): string[] {
+  return entries.map(
+    (entry) => `${entry.file?.path ?? entry.remoteFile?.originalDisplayName}: ${entry.reason}`
+  );
+}
+
+function toDocument(file: (typeof REMOTE_FILES)[number], i: number) {
+  return {
+    name: `fileSearchStores/docs/documents/doc${i}`,
+    displayName: file.name,
+    customMetadata: [
+      { key: 'originalFileName', stringValue: file.name },
+      ...(file.sha256 ? [{ key: 'sha256', stringValue: file.sha256 }] : []),
+      ...(file.configHash ? [{ key: 'configHash', stringValue: file.configHash }] : []),
+    ],
+  };
+}
+
+describe('POST /api/stores/:storeName/sync/plan', () => {
+  const realFetch = globalThis.fetch;
+  let server: http.Server;
+  let baseUrl: string;
+  let access: Access;
+
+  before(async () => {
+    process.env.STORAGE_DRIVER = 'memory';
+    process.env.GEMINI_API_KEY = 'test-key';
+
+    const app = new Koa<AccessState>();
+    app.use(bodyParser());
+    app.use(async (ctx, next) => {
+      ctx.state.access = access;
+      return next();
+    });
+    app.use(syncRouter.routes());
+
+    server = http.createServer(app.callback());
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    access = createAccess([{ storeName: 'fileSearchStores/docs', role: 'viewer' }]);
+    // Stub Gemini's document list; requests to the test server go through
+    mock.method(globalThis, 'fetch', async (input: string | URL, init?: RequestInit) => {
+      const url = String(input);
+      if (url.startsWith(baseUrl)) return realFetch(input, init);
+      if (url.includes('/fileSearchStores/docs/documents')) {
+        return Response.json({ documents: REMOTE_FILES.map(toDocument) });
+      }
+      return new Response('{}', { status: 404 });
+    });
+  });
+
+  afterEach(async () => {
+    mock.restoreAll();
+    const storage = await getStorage();
+    await storage.storeProtection.delete('fileSearchStores/docs');
+  });
+
+  async function plan(body: unknown, storeName = 'docs') {
+    const response = await fetch(`${baseUrl}/api/stores/${storeName}/sync/plan`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    return { status: response.status, body: (await response.json()) as PlanResponse };
+  }
+
+  async function setProtection(level: ProtectionLevel) {
+    const storage = await getStorage();
+    await storage.storeProtection.put({
+      storeName: 'fileSearchStores/docs',
+      level,
+      updateTime: new Date().toISOString(),
+    });
+  }
+
+  it('diffs the manifest against the store documents', async () => {
+    const { status, body } = await plan({ files: MANIFEST });
+
+    assert.equal(status, 200);
+    assert.deepEqual(summarize(body.uploads), [
+      'docs/changed.md: content changed',
+      'reconfigured.md: config changed',
+      'legacy.md: missing remote hash',
+      'new.md: new file',
+    ]);
+    assert.deepEqual(summarize(body.skips), [
+      'unchanged.md: unchanged',
+      // Imported before config hashes were recorded
+      'legacy-config.md: unchanged',
+    ]);
+    assert.deepEqual(body.deletes, []);
+    assert.equal(body.protection, undefined);
+  });
+
+  it('deletes documents missing from the manifest only when asked to', async () => {
+    const { body } = await plan({ files: MANIFEST, delete: true });
+
+    assert.deepEqual(summarize(body.deletes), ['orphan.md: not in local']);
+  });
+
+  it('blocks replacing uploads and deletes at no_file_delete', async () => {
+    await setProtection('no_file_delete');
+
+    const { body } = await plan({ files: MANIFEST, delete: true });
+
+    assert.equal(body.protection, 'no_file_delete');
+    assert.deepEqual(summarize(body.uploads), ['new.md: new file']);
+    assert.deepEqual(summarize(body.blockedUploads), [
+      'docs/changed.md: content changed',
+      'reconfigured.md: config changed',
+      'legacy.md: missing remote hash',
+    ]);
+    assert.deepEqual(body.deletes, []);
+    assert.deepEqual(summarize(body.blockedDeletes), ['orphan.md: not in local']);
+  });
+
+  it('blocks every upload of a read-only store', async () => {
+    await setProtection('read_only');
+
+    const { body } = await plan({ files: MANIFEST });
+
+    assert.deepEqual(body.uploads, []);
+    assert.equal(body.blockedUploads.length, 4);
+    assert.equal(body.skips.length, 2);
+  });
+
+  it('allows every change at no_store_delete', async () => {
+    await setProtection('no_store_delete');
+
+    const { body } = await plan({ files: MANIFEST, delete: true });
+
+    assert.equal(body.uploads.length, 4);
+    assert.equal(body.deletes.length, 1);
+    assert.deepEqual(body.blockedUploads, []);
+    assert.deepEqual(body.blockedDeletes, []);
+  });
+
+  it('rejects invalid manifests', async () => {
+    const cases: [unknown, string][] = [
+      [{}, 'files must be an array'],
+      [{ files: [{ sha256: hash('a') }] }, 'files[0].path is required'],
+      [
+        { files: [{ path: 'a.md', sha256: 'abc' }] },
+        'files[0].sha256 must be a hex SHA-256 digest',
+      ],
+      [
+        { files: [{ path: 'a.md', sha256: hash('a'), configHash: 'abc' }] },
+        'files[0].configHash must be a hex SHA-256 digest',
+      ],
+      [
+        { files: [{ path: 'a.md', sha256: hash('a'), size: -1 }] },
+        'files[0].size must be a non-negative integer',
+      ],
+      [
+        {
+          files: [
+            { path: 'a.md', sha256: hash('a') },
+            { path: 'a.md', sha256: hash('b') },
+          ],
+        },
+        'files[1].path "a.md" is duplicated',
+      ],
+      [{ files: [], delete: 'yes' }, 'delete must be a boolean'],
+    ];
+
+    for (const [body, message] of cases) {
+      const response = await plan(body);
+      assert.equal(response.status, 400);
+      assert.deepEqual(response.body, { message });
+    }
+  });
+
+  it('requires the viewer role on the store', async () => {
+    const response = await plan({ files: MANIFEST }, 'other');
+
+    assert.equal(response.status, 403);
+  });
+});
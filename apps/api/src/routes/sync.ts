@@ -0,0 +1,44 @@
+import Router from '@koa/router';
+import * as gemini from '../lib/gemini.js';
+import { requireRole } from '../lib/access.js';
+import { setErrorResponse } from '../lib/errors.js';
+import { getStoreProtection } from '../lib/protection.js';
+import { buildSyncPlan, parseManifest } from '../lib/sync-plan.js';
+
+const router = new Router({ prefix: '/api/stores' });
+
+interface SyncPlanRequestBody {
+  files?: unknown;
+  delete?: unknown;
+}
+
+// Plan a sync from a manifest of local files: which to upload, skip or delete,
+// and which of those the store's protection blocks
+router.post('/:storeName/sync/plan', requireRole('viewer', 'storeName'), async (ctx) => {
+  try {
+    const storeName = decodeURIComponent(ctx.params['storeName'] as string);
+    const body = (ctx.request.body ?? {}) as SyncPlanRequestBody;
+
+    const files = parseManifest(body.files);
+    if (typeof files === 'string') {
+      ctx.status = 400;
+      ctx.body = { message: files };
+      return;
+    }
+    if (body.delete !== undefined && typeof body.delete !== 'boolean') {
+      ctx.status = 400;
+      ctx.body = { message: 'delete must be a boolean' };
+      return;
+    }
+
+    const [remoteFiles, { level }] = await Promise.all([
+      gemini.listFiles(storeName),
+      getStoreProtection(storeName),
+    ]);
+    ctx.body = buildSyncPlan(files, remoteFiles, body.delete ?? false, level);
+  } catch (error) {
+    setErrorResponse(ctx, error, 'Failed to plan sync');
+  }
+});
+
+export default router;
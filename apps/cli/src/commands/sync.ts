@@ -3,10 +3,11 @@ import pc from 'picocolors';
 import ora from 'ora';
 import path from 'path';
 import { loadConfig, ConfigError } from '../lib/config.js';
-import { scanFiles } from '../lib/file-scanner.js';
-import { computeHashes } from '../lib/hasher.js';
+import { scanFiles, applyChunkingRules } from '../lib/file-scanner.js';
+import { computeConfigHash, computeHashes } from '../lib/hasher.js';
+import { applyMetadata } from '../lib/metadata.js';
 import { ApiClient, ApiConnectionError } from '../lib/api-client.js';
-import { buildSyncPlan } from '../lib/sync-engine.js';
+import { buildSyncPlan, fromServerPlan } from '../lib/sync-engine.js';
 import { executeUploads, executeDeletes } from '../lib/uploader.js';
 import {
   formatSyncPlan,
@@ -17,6 +18,7 @@ import {
 import { confirmSync, printCancelled, printDryRun } from '../lib/prompt.js';
 import { graceful, AbortError } from '../lib/graceful.js';
 import type { UploadResult, DeleteResult } from '../lib/uploader.js';
+import type { SyncPlan } from '../types/index.js';
 
 export const syncCommand = new Command('sync')
   .description('Sync local files to a Gemini File Search store')
@@ -62,6 +64,12 @@ export const syncCommand = new Command('sync')
       spinner = ora('Scanning local files...').start();
       const baseDir = path.dirname(configPath);
       const localFiles = await scanFiles(baseDir, config.collect.include, config.collect.exclude);
+      if (config.chunking?.length) {
+        await applyChunkingRules(baseDir, localFiles, config.chunking);
+      }
+      if (config.metadata) {
+        await applyMetadata(baseDir, localFiles, config.metadata);
+      }
       spinner.succeed(`Found ${pc.cyan(String(localFiles.length))} local file(s)`);
 
       graceful.checkAborted();
@@ -73,20 +81,47 @@ export const syncCommand = new Command('sync')
 
       graceful.checkAborted();
 
-      // 5. Fetch remote files
-      spinner = ora('Fetching remote files...').start();
-      const remoteFiles = await client.listFiles(storeName, graceful.signal);
-      spinner.succeed(`Found ${pc.cyan(String(remoteFiles.length))} remote file(s)`);
+      // 5. Plan the sync on the server from a manifest of local files
+      spinner = ora('Planning sync...').start();
+      const manifest = localFiles.flatMap((local) => {
+        const sha256 = localHashes.get(local.absolutePath);
+        return sha256
+          ? [
+              {
+                path: local.relativePath,
+                sha256,
+                size: local.size,
+                configHash: computeConfigHash(local),
+              },
+            ]
+          : [];
+      });
+      const serverPlan = await client.planSync(storeName, manifest, deleteRemote, graceful.signal);
+
+      // 6. Build sync plan (locally when the server has no sync plan endpoint)
+      let plan: SyncPlan;
+      if (serverPlan) {
+        plan = fromServerPlan(localFiles, serverPlan);
+        spinner.succeed('Sync planned');
+      } else {
+        spinner.text = 'Fetching remote files...';
+        const remoteFiles = await client.listFiles(storeName, graceful.signal);
+        spinner.succeed(`Found ${pc.cyan(String(remoteFiles.length))} remote file(s)`);
+        plan = buildSyncPlan(localFiles, localHashes, remoteFiles, deleteRemote);
+      }
 
       graceful.checkAborted();
-
-      // 6. Build sync plan
-      const plan = buildSyncPlan(localFiles, localHashes, remoteFiles, deleteRemote);
       console.log();
       console.log(formatSyncPlan(plan));
 
       // 7. Check if nothing to do
       if (plan.uploads.length === 0 && plan.deletes.length === 0) {
+        if (plan.blocked.length > 0) {
+          console.log(
+            pc.yellow('\nNothing to sync: store protection blocks the remaining changes.')
+          );
+          process.exit(1);
+        }
         console.log(pc.green('\nEverything is up to date!'));
         process.exit(0);
       }
@@ -169,10 +204,19 @@ export const syncCommand = new Command('sync')
         console.log(failures);
       }
 
-      // 13. Exit with appropriate code
+      if (plan.blocked.length > 0) {
+        console.log(
+          pc.yellow(
+            `\n${plan.blocked.length} change(s) were not synced because of store protection.`
+          )
+        );
+      }
+
+      // 13. Exit with appropriate code (blocked changes leave the store out of sync)
       const hasErrors =
         uploadResults.some((r) => !r.success && !r.cancelled) ||
-        deleteResults.some((r) => !r.success);
+        deleteResults.some((r) => !r.success) ||
+        plan.blocked.length > 0;
       process.exit(hasErrors ? 1 : 0);
     } catch (error) {
       if (spinner) {
@@ -1,20 +1,100 @@
-import fs from 'fs/promises';
+import fs from 'fs';
 import path from 'path';
-import type { RemoteFile } from '../types/index.js';
+import type { ChunkingConfig, CustomMetadata, RemoteFile } from '../types/index.js';
+
+export interface SyncManifestFile {
+  path: string;
+  sha256: string;
+  size?: number;
+  configHash?: string;
+}
+
+/**
+ * A Blob of a file's contents. File-backed where fs.openAsBlob exists
+ * (Node 19.8+), so contents are streamed from disk when the request body is
+ * sent; read into memory on Node 18.
+ */
+async function fileToBlob(filePath: string): Promise<Blob> {
+  if (typeof fs.openAsBlob === 'function') {
+    return fs.openAsBlob(filePath);
+  }
+  return new Blob([await fs.promises.readFile(filePath)]);
+}
+
+// Sync plan computed by the server; entries carry the manifest file they refer to
+export interface ServerSyncPlan {
+  uploads: { file: SyncManifestFile; remoteFile?: RemoteFile; reason: string }[];
+  skips: { file: SyncManifestFile; remoteFile: RemoteFile; reason: string }[];
+  deletes: { remoteFile: RemoteFile; reason: string }[];
+  // Set by servers with store protection
+  protection?: string;
+  blockedUploads?: { file: SyncManifestFile; remoteFile?: RemoteFile; reason: string }[];
+  blockedDeletes?: { remoteFile: RemoteFile; reason: string }[];
+}
+
+export interface UploadFileConfig {
+  chunkingConfig?: ChunkingConfig;
+  customMetadata?: CustomMetadata[];
+}
+
+export interface BatchUploadFile {
+  filePath: string;
+  displayName: string;
+  config?: UploadFileConfig;
+}
+
+export interface BatchUploadFileResult {
+  jobId?: string;
+  error?: string;
+}
 
 export interface ApiClientConfig {
   endpoint: string;
   token?: string;
 }
 
+export interface WaitForJobOptions {
+  pollIntervalMs?: number;
+  // Give up after this long; the job is then reported as failed
+  timeoutMs?: number;
+}
+
+export interface WaitForJobResult {
+  success: boolean;
+  error?: string;
+  // The job did not finish in time and may still be running on the server
+  timedOut?: boolean;
+}
+
+const DEFAULT_JOB_POLL_INTERVAL_MS = 2000;
+const DEFAULT_JOB_TIMEOUT_MS = 30 * 60 * 1000;
+
+interface ApiJobResponse {
+  id: string;
+  status: 'queued' | 'uploading' | 'importing' | 'indexed' | 'failed';
+  error?: string;
+}
+
 interface ApiFileResponse {
   name: string;
   displayName: string;
   originalDisplayName?: string;
   sha256?: string;
+  configHash?: string;
   state: string;
 }
 
+function toRemoteFile(f: ApiFileResponse): RemoteFile {
+  return {
+    name: f.name,
+    displayName: f.displayName,
+    originalFileName: f.originalDisplayName || f.displayName,
+    sha256: f.sha256,
+    configHash: f.configHash,
+    state: f.state,
+  };
+}
+
 /**
  * Custom error class for API connection failures.
  */
@@ -72,6 +152,8 @@ export class ApiClient {
     this.baseUrl = config.endpoint.replace(/\/$/, '');
     this.headers = {
       'Content-Type': 'application/json',
+      // Recorded as the source of changes in the server's audit log
+      'X-GemIndex-Client': 'cli',
     };
     if (config.token) {
       this.headers['Authorization'] = `Bearer ${config.token}`;
@@ -100,38 +182,93 @@ export class ApiClient {
     // Handle both { files: [...] } and direct array responses
     const files = Array.isArray(data) ? data : (data.files ?? []);
 
-    return files.map((f) => ({
-      name: f.name,
-      displayName: f.displayName,
-      originalFileName: f.originalDisplayName || f.displayName,
-      sha256: f.sha256,
-      state: f.state,
-    }));
+    return files.map(toRemoteFile);
   }
 
   /**
-   * Upload a file to a store.
+   * Ask the server which files to upload, skip or delete.
+   * Returns null when the server has no sync plan endpoint (older API versions):
+   * a 405, or a 404 that is not one of the API's JSON errors (e.g. a missing store).
+   */
+  async planSync(
+    storeName: string,
+    files: SyncManifestFile[],
+    deleteRemote: boolean,
+    signal?: AbortSignal
+  ): Promise<ServerSyncPlan | null> {
+    const response = await fetchWithConnectionCheck(
+      `${this.baseUrl}/api/stores/${encodeURIComponent(storeName)}/sync/plan`,
+      {
+        method: 'POST',
+        headers: this.headers,
+        body: JSON.stringify({ files, delete: deleteRemote }),
+        signal,
+      }
+    );
+
+    const isJson = response.headers.get('content-type')?.includes('application/json');
+    if (response.status === 405 || (response.status === 404 && !isJson)) {
+      return null;
+    }
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ message: 'Unknown error' }));
+      throw new Error(`Failed to plan sync: ${(error as { message: string }).message}`);
+    }
+
+    const plan = (await response.json()) as {
+      uploads: { file: SyncManifestFile; remoteFile?: ApiFileResponse; reason: string }[];
+      skips: { file: SyncManifestFile; remoteFile: ApiFileResponse; reason: string }[];
+      deletes: { remoteFile: ApiFileResponse; reason: string }[];
+      protection?: string;
+      blockedUploads?: { file: SyncManifestFile; remoteFile?: ApiFileResponse; reason: string }[];
+      blockedDeletes?: { remoteFile: ApiFileResponse; reason: string }[];
+    };
+    return {
+      uploads: plan.uploads.map((entry) => ({
+        ...entry,
+        remoteFile: entry.remoteFile && toRemoteFile(entry.remoteFile),
+      })),
+      skips: plan.skips.map((entry) => ({ ...entry, remoteFile: toRemoteFile(entry.remoteFile) })),
+      deletes: plan.deletes.map((entry) => ({
+        ...entry,
+        remoteFile: toRemoteFile(entry.remoteFile),
+      })),
+      protection: plan.protection,
+      blockedUploads: plan.blockedUploads?.map((entry) => ({
+        ...entry,
+        remoteFile: entry.remoteFile && toRemoteFile(entry.remoteFile),
+      })),
+      blockedDeletes: plan.blockedDeletes?.map((entry) => ({
+        ...entry,
+        remoteFile: toRemoteFile(entry.remoteFile),
+      })),
+    };
+  }
+
+  /**
+   * Upload a file to a store. The server processes it as a background job (see waitForJob).
    */
   async uploadFile(
     storeName: string,
     filePath: string,
     displayName: string,
+    config?: UploadFileConfig,
     signal?: AbortSignal
-  ): Promise<{ success: boolean; error?: string }> {
-    // Read file as buffer and create Blob
-    const fileBuffer = await fs.readFile(filePath);
+  ): Promise<{ success: boolean; error?: string; status?: number; jobId?: string }> {
+    const blob = await fileToBlob(filePath);
     const fileName = path.basename(displayName);
 
     // Use native FormData (available in Node.js 18+)
     const form = new FormData();
-    const blob = new Blob([fileBuffer]);
     form.append('file', blob, fileName);
-
-    const headers: Record<string, string> = {};
-    if (this.headers['Authorization']) {
-      headers['Authorization'] = this.headers['Authorization'];
+    if (config?.chunkingConfig || config?.customMetadata?.length) {
+      form.append('config', JSON.stringify(config));
     }
 
+    // fetch sets the multipart Content-Type with its boundary
+    const { 'Content-Type': _contentType, ...headers } = this.headers;
+
     const response = await fetchWithConnectionCheck(
       `${this.baseUrl}/api/stores/${encodeURIComponent(storeName)}/files`,
       {
@@ -144,10 +281,131 @@ export class ApiClient {
 
     if (!response.ok) {
       const error = await response.json().catch(() => ({ message: 'Unknown error' }));
-      return { success: false, error: (error as { message: string }).message };
+      return {
+        success: false,
+        error: (error as { message: string }).message,
+        status: response.status,
+      };
+    }
+
+    const job = (await response.json().catch(() => ({}))) as Partial<ApiJobResponse>;
+    return { success: true, jobId: job.id };
+  }
+
+  /**
+   * Upload several files in one request. The server lists the store once and queues
+   * a job per file; results are in the order of `files`.
+   * Falls back to one request per file when the server has no batch endpoint
+   * (older API versions).
+   */
+  async uploadFiles(
+    storeName: string,
+    files: BatchUploadFile[],
+    signal?: AbortSignal
+  ): Promise<{
+    success: boolean;
+    error?: string;
+    status?: number;
+    results: BatchUploadFileResult[];
+  }> {
+    const form = new FormData();
+    const manifest: Record<string, UploadFileConfig & { displayName: string }> = {};
+    for (const file of files) {
+      const fileName = path.basename(file.displayName);
+      form.append('files', await fileToBlob(file.filePath), fileName);
+      manifest[fileName] = { ...file.config, displayName: file.displayName };
+    }
+    form.append('manifest', JSON.stringify(manifest));
+
+    // fetch sets the multipart Content-Type with its boundary
+    const { 'Content-Type': _contentType, ...headers } = this.headers;
+
+    const response = await fetchWithConnectionCheck(
+      `${this.baseUrl}/api/stores/${encodeURIComponent(storeName)}/files/batch`,
+      {
+        method: 'POST',
+        body: form,
+        headers,
+        signal,
+      }
+    );
+
+    if (response.status === 404 || response.status === 405) {
+      const results: BatchUploadFileResult[] = [];
+      for (const file of files) {
+        const result = await this.uploadFile(
+          storeName,
+          file.filePath,
+          file.displayName,
+          file.config,
+          signal
+        );
+        results.push(result.success ? { jobId: result.jobId } : { error: result.error });
+      }
+      return { success: true, results };
+    }
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({ message: 'Unknown error' }));
+      return {
+        success: false,
+        error: (error as { message: string }).message,
+        status: response.status,
+        results: [],
+      };
     }
 
-    return { success: true };
+    const data = (await response.json()) as {
+      results: { name: string; job?: ApiJobResponse; error?: string }[];
+    };
+    return {
+      success: true,
+      results: files.map((_file, i) => {
+        const result = data.results[i];
+        if (!result) return { error: 'Missing from the server response' };
+        return result.job ? { jobId: result.job.id } : { error: result.error || 'Upload failed' };
+      }),
+    };
+  }
+
+  /**
+   * Poll an upload job until the file is indexed, the job fails or the timeout
+   * (30 minutes by default) expires.
+   */
+  async waitForJob(
+    jobId: string,
+    signal?: AbortSignal,
+    options: WaitForJobOptions = {}
+  ): Promise<WaitForJobResult> {
+    const pollIntervalMs = options.pollIntervalMs ?? DEFAULT_JOB_POLL_INTERVAL_MS;
+    const timeoutMs = options.timeoutMs ?? DEFAULT_JOB_TIMEOUT_MS;
+    const deadline = Date.now() + timeoutMs;
+
+    for (;;) {
+      const response = await fetchWithConnectionCheck(
+        `${this.baseUrl}/api/jobs/${encodeURIComponent(jobId)}`,
+        { headers: this.headers, signal }
+      );
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({ message: 'Unknown error' }));
+        throw new Error(`Failed to get job: ${(error as { message: string }).message}`);
+      }
+
+      const job = (await response.json()) as ApiJobResponse;
+      if (job.status === 'indexed') return { success: true };
+      if (job.status === 'failed') return { success: false, error: job.error || 'Upload failed' };
+
+      const remainingMs = deadline - Date.now();
+      if (remainingMs <= 0) {
+        return {
+          success: false,
+          error: `Timed out after ${timeoutMs / 1000}s waiting for the job (last status: ${job.status})`,
+          timedOut: true,
+        };
+      }
+      await new Promise((resolve) => setTimeout(resolve, Math.min(pollIntervalMs, remainingMs)));
+    }
   }
 
   /**
@@ -1,7 +1,7 @@
 import fs from 'fs';
 import path from 'path';
 import { parse as parseYaml } from 'yaml';
-import type { GemindexConfig } from '../types/index.js';
+import type { ChunkingRule, GemindexConfig, MetadataConfig } from '../types/index.js';
 
 export class ConfigError extends Error {
   constructor(message: string) {
@@ -25,6 +25,68 @@ const DEFAULT_CONFIG: Partial<GemindexConfig> = {
   },
 };
 
+/**
+ * Validate chunking rules.
+ */
+function validateChunkingRules(rules: unknown): ChunkingRule[] {
+  if (!Array.isArray(rules)) {
+    throw new ConfigError('Invalid field: chunking (must be a list of rules)');
+  }
+
+  return rules.map((rule: Partial<ChunkingRule>, index) => {
+    const field = `chunking[${index}]`;
+    if (!rule?.match || typeof rule.match !== 'string') {
+      throw new ConfigError(`Missing required field: ${field}.match`);
+    }
+    const maxTokens = rule.max_tokens_per_chunk;
+    if (typeof maxTokens !== 'number' || !Number.isInteger(maxTokens) || maxTokens <= 0) {
+      throw new ConfigError(
+        `Invalid field: ${field}.max_tokens_per_chunk (must be a positive integer)`
+      );
+    }
+    const overlap = rule.max_overlap_tokens;
+    if (
+      overlap !== undefined &&
+      (!Number.isInteger(overlap) || overlap < 0 || overlap >= maxTokens)
+    ) {
+      throw new ConfigError(
+        `Invalid field: ${field}.max_overlap_tokens (must be a non-negative integer less than max_tokens_per_chunk)`
+      );
+    }
+    return { match: rule.match, max_tokens_per_chunk: maxTokens, max_overlap_tokens: overlap };
+  });
+}
+
+/**
+ * Validate metadata settings.
+ */
+function validateMetadataConfig(metadata: unknown): MetadataConfig {
+  if (typeof metadata !== 'object' || metadata === null || Array.isArray(metadata)) {
+    throw new ConfigError('Invalid field: metadata (must be a mapping)');
+  }
+
+  const config = metadata as MetadataConfig;
+  for (const [key, value] of Object.entries(config.static ?? {})) {
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      throw new ConfigError(`Invalid field: metadata.static.${key} (must be a string or number)`);
+    }
+  }
+  if (
+    config.front_matter !== undefined &&
+    (!Array.isArray(config.front_matter) ||
+      !config.front_matter.every((field) => typeof field === 'string'))
+  ) {
+    throw new ConfigError('Invalid field: metadata.front_matter (must be a list of field names)');
+  }
+
+  return {
+    static: config.static ?? {},
+    directory: config.directory ?? false,
+    git_commit: config.git_commit ?? false,
+    front_matter: config.front_matter ?? [],
+  };
+}
+
 /**
  * Load and validate config file.
  */
@@ -76,6 +138,8 @@ export function loadConfig(configPath: string): GemindexConfig {
       delete: parsed.sync?.delete ?? DEFAULT_CONFIG.sync!.delete!,
       concurrency: parsed.sync?.concurrency ?? DEFAULT_CONFIG.sync!.concurrency!,
     },
+    chunking: parsed.chunking ? validateChunkingRules(parsed.chunking) : [],
+    metadata: parsed.metadata ? validateMetadataConfig(parsed.metadata) : undefined,
     api: {
       endpoint: parsed.api?.endpoint ?? DEFAULT_CONFIG.api!.endpoint!,
       token_env: parsed.api?.token_env,
@@ -1,6 +1,6 @@
 import fg from 'fast-glob';
 import path from 'path';
-import type { LocalFile } from '../types/index.js';
+import type { ChunkingRule, LocalFile } from '../types/index.js';
 
 /**
  * Scan files matching glob patterns.
@@ -30,3 +30,32 @@ export async function scanFiles(
     size: typeof entry === 'string' ? 0 : (entry.stats?.size ?? 0),
   }));
 }
+
+/**
+ * Attach chunking settings to files from the first matching rule.
+ * Rules use the same glob semantics as collect.include.
+ */
+export async function applyChunkingRules(
+  baseDir: string,
+  files: LocalFile[],
+  rules: ChunkingRule[]
+): Promise<void> {
+  const assigned = new Set<string>();
+
+  for (const rule of rules) {
+    const matches = new Set(
+      await fg(rule.match, { cwd: baseDir, onlyFiles: true, dot: false, absolute: false })
+    );
+
+    for (const file of files) {
+      if (assigned.has(file.relativePath) || !matches.has(file.relativePath)) continue;
+      file.chunking = {
+        whiteSpaceConfig: {
+          maxTokensPerChunk: rule.max_tokens_per_chunk,
+          maxOverlapTokens: rule.max_overlap_tokens,
+        },
+      };
+      assigned.add(file.relativePath);
+    }
+  }
+}
@@ -2,6 +2,24 @@ import fs from 'fs';
 import crypto from 'crypto';
 import type { LocalFile } from '../types/index.js';
 
+/**
+ * Hash of the settings a file is uploaded with (chunking config and metadata,
+ * in key order), sent in the sync manifest so changed settings trigger an upload.
+ * Matches the API's computeConfigHash.
+ */
+export function computeConfigHash(file: LocalFile): string {
+  const whiteSpace = file.chunking?.whiteSpaceConfig;
+  const canonical = JSON.stringify({
+    chunking: whiteSpace
+      ? [whiteSpace.maxTokensPerChunk, whiteSpace.maxOverlapTokens ?? null]
+      : null,
+    metadata: [...(file.metadata ?? [])]
+      .sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : 0))
+      .map((m) => [m.key, m.stringValue ?? null, m.numericValue ?? null]),
+  });
+  return crypto.createHash('sha256').update(canonical).digest('hex');
+}
+
 /**
  * Compute SHA256 hash of a file using streams for memory efficiency.
  */
@@ -0,0 +1,93 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import { parse as parseYaml } from 'yaml';
+import type { CustomMetadata, LocalFile, MetadataConfig } from '../types/index.js';
+
+const execFileAsync = promisify(execFile);
+
+// Front matter must start at the top of the file, so only the head is read
+const FRONT_MATTER_READ_BYTES = 64 * 1024;
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+
+/**
+ * Get the current HEAD commit of the repository containing baseDir.
+ * Returns undefined when baseDir is not inside a git repository.
+ */
+async function getGitCommit(baseDir: string): Promise<string | undefined> {
+  try {
+    const { stdout } = await execFileAsync('git', ['rev-parse', 'HEAD'], { cwd: baseDir });
+    return stdout.trim() || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Read YAML front matter from the head of a file.
+ */
+async function readFrontMatter(filePath: string): Promise<Record<string, unknown>> {
+  const handle = await fs.open(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(FRONT_MATTER_READ_BYTES);
+    const { bytesRead } = await handle.read(buffer, 0, buffer.length, 0);
+    const match = buffer.subarray(0, bytesRead).toString('utf-8').match(FRONT_MATTER_PATTERN);
+    if (!match?.[1]) return {};
+
+    const parsed = parseYaml(match[1]) as unknown;
+    return typeof parsed === 'object' && parsed !== null ? (parsed as Record<string, unknown>) : {};
+  } catch {
+    return {};
+  } finally {
+    await handle.close();
+  }
+}
+
+function toMetadata(key: string, value: unknown): CustomMetadata | null {
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return { key, numericValue: value };
+  }
+  if (typeof value === 'string' || typeof value === 'boolean') {
+    return { key, stringValue: String(value) };
+  }
+  return null;
+}
+
+/**
+ * Resolve custom metadata for each file from the metadata config.
+ * Later sources override earlier ones: static, directory, gitCommit, front matter.
+ */
+export async function applyMetadata(
+  baseDir: string,
+  files: LocalFile[],
+  config: MetadataConfig
+): Promise<void> {
+  const gitCommit = config.git_commit ? await getGitCommit(baseDir) : undefined;
+
+  for (const file of files) {
+    const entries = new Map<string, CustomMetadata>();
+    const add = (key: string, value: unknown) => {
+      const entry = toMetadata(key, value);
+      if (entry) entries.set(key, entry);
+    };
+
+    for (const [key, value] of Object.entries(config.static ?? {})) {
+      add(key, value);
+    }
+    if (config.directory) {
+      add('directory', path.posix.dirname(file.relativePath.replace(/\\/g, '/')));
+    }
+    if (gitCommit) {
+      add('gitCommit', gitCommit);
+    }
+    if (config.front_matter?.length) {
+      const frontMatter = await readFrontMatter(file.absolutePath);
+      for (const field of config.front_matter) {
+        add(field, frontMatter[field]);
+      }
+    }
+
+    file.metadata = [...entries.values()];
+  }
+}
@@ -35,13 +35,27 @@ export function formatSyncPlan(plan: SyncPlan): string {
     }
   }
 
+  // Refused by the store's protection
+  if (plan.blocked.length > 0) {
+    lines.push(
+      `  ${pc.yellow(`${plan.blocked.length} change(s) blocked by store protection (${plan.protection}):`)}`
+    );
+    for (const action of plan.blocked) {
+      const file =
+        action.type === 'upload'
+          ? action.localFile?.relativePath || 'unknown'
+          : action.remoteFile?.originalFileName || 'unknown';
+      lines.push(`    ${pc.yellow('!')} ${file} (${action.type}, ${action.reason})`);
+    }
+  }
+
   // Skips
   if (plan.skips.length > 0) {
     lines.push(`  ${pc.dim(`${plan.skips.length} file(s) unchanged (skipped)`)}`);
   }
 
   // No changes
-  if (plan.uploads.length === 0 && plan.deletes.length === 0) {
+  if (plan.uploads.length === 0 && plan.deletes.length === 0 && plan.blocked.length === 0) {
     lines.push(`  ${pc.dim('No changes detected.')}`);
   }
 
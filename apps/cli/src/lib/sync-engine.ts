@@ -1,3 +1,5 @@
+import type { ServerSyncPlan } from './api-client.js';
+import { computeConfigHash } from './hasher.js';
 import type { LocalFile, RemoteFile, SyncPlan } from '../types/index.js';
 
 /**
@@ -21,6 +23,7 @@ export function buildSyncPlan(
     uploads: [],
     skips: [],
     deletes: [],
+    blocked: [],
   };
 
   // Build map of remote files by originalFileName
@@ -61,6 +64,14 @@ export function buildSyncPlan(
         remoteFile: remote,
         reason: 'missing remote hash',
       });
+    } else if (remote.configHash && remote.configHash !== computeConfigHash(local)) {
+      // Chunking or metadata changed - upload with the new settings
+      plan.uploads.push({
+        type: 'upload',
+        localFile: local,
+        remoteFile: remote,
+        reason: 'config changed',
+      });
     } else {
       // Hashes match - skip
       plan.skips.push({
@@ -88,3 +99,44 @@ export function buildSyncPlan(
 
   return plan;
 }
+
+/**
+ * Convert a plan computed by the server (POST /sync/plan) into a sync plan over local files.
+ */
+export function fromServerPlan(localFiles: LocalFile[], serverPlan: ServerSyncPlan): SyncPlan {
+  const localByPath = new Map(localFiles.map((local) => [local.relativePath, local]));
+
+  return {
+    uploads: serverPlan.uploads.map((entry) => ({
+      type: 'upload',
+      localFile: localByPath.get(entry.file.path),
+      remoteFile: entry.remoteFile,
+      reason: entry.reason,
+    })),
+    skips: serverPlan.skips.map((entry) => ({
+      type: 'skip',
+      localFile: localByPath.get(entry.file.path),
+      remoteFile: entry.remoteFile,
+      reason: entry.reason,
+    })),
+    deletes: serverPlan.deletes.map((entry) => ({
+      type: 'delete',
+      remoteFile: entry.remoteFile,
+      reason: entry.reason,
+    })),
+    protection: serverPlan.protection,
+    blocked: [
+      ...(serverPlan.blockedUploads ?? []).map((entry) => ({
+        type: 'upload' as const,
+        localFile: localByPath.get(entry.file.path),
+        remoteFile: entry.remoteFile,
+        reason: entry.reason,
+      })),
+      ...(serverPlan.blockedDeletes ?? []).map((entry) => ({
+        type: 'delete' as const,
+        remoteFile: entry.remoteFile,
+        reason: entry.reason,
+      })),
+    ],
+  };
+}
@@ -1,6 +1,6 @@
 import { newQueue } from '@henrygd/queue';
-import type { ApiClient } from './api-client.js';
-import type { SyncAction, UploadResult, DeleteResult } from '../types/index.js';
+import type { ApiClient, BatchUploadFile } from './api-client.js';
+import type { LocalFile, SyncAction, UploadResult, DeleteResult } from '../types/index.js';
 
 export type { UploadResult, DeleteResult };
 
@@ -8,10 +8,14 @@ export interface UploaderConfig {
   concurrency: number;
   maxRetries?: number;
   baseDelayMs?: number;
+  batchSize?: number;
+  // How long to wait for each file's upload job (see ApiClient.waitForJob)
+  jobTimeoutMs?: number;
 }
 
 const DEFAULT_MAX_RETRIES = 3;
 const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_BATCH_SIZE = 25;
 
 /**
  * Convert a file path to a safe filename by replacing path separators with underscores.
@@ -21,33 +25,40 @@ function pathToFilename(relativePath: string): string {
   return relativePath.replace(/[/\\]/g, '_');
 }
 
+function toBatchFile(localFile: LocalFile): BatchUploadFile {
+  return {
+    filePath: localFile.absolutePath,
+    // Convert path to safe filename (e.g., "docs/guide.md" → "docs_guide.md")
+    displayName: pathToFilename(localFile.relativePath),
+    config: {
+      chunkingConfig: localFile.chunking,
+      customMetadata: localFile.metadata,
+    },
+  };
+}
+
 /**
- * Upload a single file with retry logic.
+ * Upload a batch of files in one request with retry logic.
+ * Files whose job fails are retried in a smaller batch; files rejected by the
+ * server (invalid config) or whose job timed out are not retried.
  */
-async function uploadWithRetry(
+async function uploadBatchWithRetry(
   client: ApiClient,
   storeName: string,
-  action: SyncAction,
+  actions: SyncAction[],
   maxRetries: number,
   baseDelayMs: number,
+  jobTimeoutMs: number | undefined,
+  onResult: (result: UploadResult) => void,
   signal?: AbortSignal
-): Promise<UploadResult> {
-  if (!action.localFile) {
-    return { action, success: false, error: 'No local file', retries: 0 };
-  }
+): Promise<void> {
+  let pending = actions;
+  const lastErrors = new Map<SyncAction, string | undefined>();
+  let attempt = 0;
 
-  // Check if already aborted
-  if (signal?.aborted) {
-    return { action, success: false, error: 'Cancelled', retries: 0, cancelled: true };
-  }
-
-  let lastError: string | undefined;
-
-  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+  for (; attempt <= maxRetries && pending.length > 0; attempt++) {
     // Check abort before each attempt
-    if (signal?.aborted) {
-      return { action, success: false, error: 'Cancelled', retries: attempt, cancelled: true };
-    }
+    if (signal?.aborted) break;
 
     // Exponential backoff (skip on first attempt)
     if (attempt > 0) {
@@ -55,41 +66,74 @@ async function uploadWithRetry(
       await new Promise((resolve) => setTimeout(resolve, delay));
     }
 
+    let response: Awaited<ReturnType<ApiClient['uploadFiles']>>;
     try {
-      // Convert path to safe filename (e.g., "docs/guide.md" → "docs_guide.md")
-      const displayName = pathToFilename(action.localFile.relativePath);
-
-      const result = await client.uploadFile(
+      response = await client.uploadFiles(
         storeName,
-        action.localFile.absolutePath,
-        displayName,
+        pending.map((action) => toBatchFile(action.localFile as LocalFile)),
         signal
       );
+    } catch (error) {
+      if (signal?.aborted) break;
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      pending.forEach((action) => lastErrors.set(action, message));
+      continue;
+    }
 
-      if (result.success) {
-        return { action, success: true, retries: attempt };
-      }
-
-      lastError = result.error;
-
-      // Don't retry on client errors (4xx)
-      if (result.error?.includes('400') || result.error?.includes('403')) {
+    if (!response.success) {
+      pending.forEach((action) => lastErrors.set(action, response.error));
+      // Don't retry on client errors (4xx), except rate limiting (429)
+      if (
+        response.status &&
+        response.status >= 400 &&
+        response.status < 500 &&
+        response.status !== 429
+      ) {
         break;
       }
-    } catch (error) {
-      if (signal?.aborted) {
-        return { action, success: false, error: 'Cancelled', retries: attempt, cancelled: true };
-      }
-      lastError = error instanceof Error ? error.message : 'Unknown error';
+      continue;
     }
+
+    // Wait for the server's upload jobs so failures while importing are reported too
+    const retries: SyncAction[] = [];
+    const retryCount = attempt;
+    await Promise.all(
+      pending.map(async (action, i) => {
+        const fileResult = response.results[i];
+        if (!fileResult?.jobId) {
+          onResult({ action, success: false, error: fileResult?.error, retries: retryCount });
+          return;
+        }
+        try {
+          const job = await client.waitForJob(fileResult.jobId, signal, {
+            timeoutMs: jobTimeoutMs,
+          });
+          if (job.success) {
+            onResult({ action, success: true, retries: retryCount });
+            return;
+          }
+          // The server may still finish the job; uploading again would duplicate the file
+          if (job.timedOut) {
+            onResult({ action, success: false, error: job.error, retries: retryCount });
+            return;
+          }
+          lastErrors.set(action, job.error);
+        } catch (error) {
+          lastErrors.set(action, error instanceof Error ? error.message : 'Unknown error');
+        }
+        retries.push(action);
+      })
+    );
+    pending = retries;
   }
 
-  return {
-    action,
-    success: false,
-    error: lastError,
-    retries: maxRetries,
-  };
+  for (const action of pending) {
+    onResult(
+      signal?.aborted
+        ? { action, success: false, error: 'Cancelled', retries: attempt, cancelled: true }
+        : { action, success: false, error: lastErrors.get(action), retries: maxRetries }
+    );
+  }
 }
 
 export interface UploadProgress {
@@ -100,7 +144,7 @@ export interface UploadProgress {
 }
 
 /**
- * Execute uploads with concurrency control.
+ * Execute uploads in batches (one request per batch) with concurrency control.
  */
 export async function executeUploads(
   client: ApiClient,
@@ -113,53 +157,70 @@ export async function executeUploads(
   const concurrency = config.concurrency || 8;
   const maxRetries = config.maxRetries ?? DEFAULT_MAX_RETRIES;
   const baseDelayMs = config.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+  const batchSize = config.batchSize || DEFAULT_BATCH_SIZE;
 
   const results: UploadResult[] = [];
   const queue = newQueue(concurrency);
   let completed = 0;
   const total = actions.length;
 
+  const recordResult = (result: UploadResult) => {
+    results.push(result);
+    completed++;
+
+    // Notify completion
+    onProgress?.({
+      completed,
+      total,
+      currentFile: result.action.localFile?.relativePath || 'unknown',
+      result,
+    });
+  };
+
+  const uploadable: SyncAction[] = [];
   for (const action of actions) {
+    if (!action.localFile) {
+      recordResult({ action, success: false, error: 'No local file', retries: 0 });
+    } else {
+      uploadable.push(action);
+    }
+  }
+
+  for (let i = 0; i < uploadable.length; i += batchSize) {
+    const batch = uploadable.slice(i, i + batchSize);
+
     if (signal?.aborted) {
       // Mark remaining as cancelled
-      results.push({
-        action,
-        success: false,
-        error: 'Cancelled',
-        retries: 0,
-        cancelled: true,
-      });
+      for (const action of batch) {
+        results.push({
+          action,
+          success: false,
+          error: 'Cancelled',
+          retries: 0,
+          cancelled: true,
+        });
+      }
       continue;
     }
 
     queue.add(async () => {
-      const fileName = action.localFile?.relativePath || 'unknown';
-
       // Notify start of upload
       onProgress?.({
         completed,
         total,
-        currentFile: fileName,
+        currentFile: batch[0]?.localFile?.relativePath || 'unknown',
       });
 
-      const result = await uploadWithRetry(
+      await uploadBatchWithRetry(
         client,
         storeName,
-        action,
+        batch,
         maxRetries,
         baseDelayMs,
+        config.jobTimeoutMs,
+        recordResult,
         signal
       );
-      results.push(result);
-      completed++;
-
-      // Notify completion
-      onProgress?.({
-        completed,
-        total,
-        currentFile: fileName,
-        result,
-      });
     });
   }
 
@@ -4,6 +4,34 @@ export interface LocalFile {
   relativePath: string; // Used as originalFileName for sync
   absolutePath: string;
   size: number;
+  chunking?: ChunkingConfig; // From the first matching chunking rule
+  metadata?: CustomMetadata[]; // Resolved from the metadata config
+}
+
+export interface CustomMetadata {
+  key: string;
+  stringValue?: string;
+  numericValue?: number;
+}
+
+export interface MetadataConfig {
+  static?: Record<string, string | number>; // Fixed values added to every file
+  directory?: boolean; // Add "directory" with the file's parent directory
+  git_commit?: boolean; // Add "gitCommit" with the current HEAD commit
+  front_matter?: string[]; // Copy these YAML front-matter fields from each file
+}
+
+export interface ChunkingConfig {
+  whiteSpaceConfig: {
+    maxTokensPerChunk: number;
+    maxOverlapTokens?: number;
+  };
+}
+
+export interface ChunkingRule {
+  match: string; // Glob pattern, relative to the config file directory
+  max_tokens_per_chunk: number;
+  max_overlap_tokens?: number;
 }
 
 export interface RemoteFile {
@@ -11,6 +39,7 @@ export interface RemoteFile {
   displayName: string; // Gemini-assigned display name
   originalFileName: string; // Our originalFileName from customMetadata
   sha256?: string; // SHA256 hash from customMetadata
+  configHash?: string; // Hash of the chunking config and metadata it was uploaded with
   state: string;
 }
 
@@ -25,6 +54,10 @@ export interface SyncPlan {
   uploads: SyncAction[];
   skips: SyncAction[];
   deletes: SyncAction[];
+  // Store protection level reported by the server (no_store_delete, no_file_delete, read_only)
+  protection?: string;
+  // Uploads and deletes the store's protection refuses; they are not executed
+  blocked: SyncAction[];
 }
 
 export interface GemindexConfig {
@@ -38,6 +71,8 @@ export interface GemindexConfig {
     delete?: boolean;
     concurrency?: number;
   };
+  chunking?: ChunkingRule[];
+  metadata?: MetadataConfig;
   api?: {
     endpoint?: string;
     token_env?: string;
@@ -7,8 +7,21 @@ import {
   useNavigate,
   useSearchParams,
   useLocation,
+  Link,
 } from 'react-router-dom';
-import { Sun, Moon, Monitor, Database, Search, FolderOpen } from 'lucide-react';
+import {
+  Sun,
+  Moon,
+  Monitor,
+  Database,
+  Search,
+  FolderOpen,
+  Layers,
+  MessagesSquare,
+  Settings,
+  UserRound,
+  Activity,
+} from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
@@ -16,12 +29,21 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/comp
 import { StoreList } from '@/components/stores/store-list';
 import { CreateStoreDialog } from '@/components/stores/create-store-dialog';
 import { FileList } from '@/components/files/file-list';
+import { DocumentViewer } from '@/components/files/document-viewer';
 import { SearchPanel } from '@/components/search/search-panel';
+import { SearchHistory } from '@/components/search/search-history';
+import { SavedAnswer } from '@/components/search/saved-answer';
+import { MultiStoreSearch } from '@/components/search/multi-store-search';
+import { ChatPanel } from '@/components/chat/chat-panel';
+import { StoreAuditLog } from '@/components/stores/store-audit-log';
+import { ApiKeysSettings } from '@/components/settings/api-keys-settings';
+import { useAccess } from '@/hooks/use-access';
 import { useTheme } from '@/hooks/use-theme';
 
 function StoreDetails() {
   const { storeId } = useParams<{ storeId: string }>();
   const [searchParams, setSearchParams] = useSearchParams();
+  const { can } = useAccess();
 
   const activeTab = searchParams.get('tab') || 'files';
   const storeName = storeId ? `fileSearchStores/${storeId}` : null;
@@ -55,6 +77,16 @@ function StoreDetails() {
             <Search className="h-3.5 w-3.5" />
             Search
           </TabsTrigger>
+          <TabsTrigger value="chat" className="gap-1.5 text-xs">
+            <MessagesSquare className="h-3.5 w-3.5" />
+            Chat
+          </TabsTrigger>
+          {can('admin', storeName) && (
+            <TabsTrigger value="activity" className="gap-1.5 text-xs">
+              <Activity className="h-3.5 w-3.5" />
+              Activity
+            </TabsTrigger>
+          )}
         </TabsList>
       </div>
 
@@ -67,16 +99,86 @@ function StoreDetails() {
       </TabsContent>
 
       <TabsContent value="search" className="flex-1 m-0 overflow-hidden">
+        <div className="flex h-full">
+          <ScrollArea className="flex-1">
+            <div className="p-4">
+              <SearchPanel storeNames={[storeName]} />
+            </div>
+          </ScrollArea>
+          <HistorySidebar storeName={storeName} />
+        </div>
+      </TabsContent>
+
+      <TabsContent value="chat" className="flex-1 m-0 overflow-hidden">
         <ScrollArea className="h-full">
           <div className="p-4">
-            <SearchPanel storeName={storeName} />
+            <ChatPanel storeName={storeName} />
           </div>
         </ScrollArea>
       </TabsContent>
+
+      {can('admin', storeName) && (
+        <TabsContent value="activity" className="flex-1 m-0 overflow-hidden">
+          <ScrollArea className="h-full">
+            <div className="p-4">
+              <StoreAuditLog storeName={storeName} />
+            </div>
+          </ScrollArea>
+        </TabsContent>
+      )}
     </Tabs>
   );
 }
 
+function HistorySidebar({ storeName, activeId }: { storeName: string; activeId?: string }) {
+  return (
+    <aside className="flex-none w-64 border-l bg-muted/10" aria-label="Search history">
+      <ScrollArea className="h-full">
+        <div className="p-3">
+          <SearchHistory storeName={storeName} activeId={activeId} />
+        </div>
+      </ScrollArea>
+    </aside>
+  );
+}
+
+// Permalink to a past answer: /stores/:storeId/answers/:answerId
+function StoreAnswer() {
+  const { storeId, answerId } = useParams<{ storeId: string; answerId: string }>();
+
+  if (!storeId || !answerId) {
+    return <NoStoreSelected />;
+  }
+
+  return (
+    <div className="flex h-full">
+      <ScrollArea className="flex-1">
+        <div className="p-4">
+          <SavedAnswer storeId={storeId} answerId={answerId} />
+        </div>
+      </ScrollArea>
+      <HistorySidebar storeName={`fileSearchStores/${storeId}`} activeId={answerId} />
+    </div>
+  );
+}
+
+// Document viewer, optionally at a passage: /stores/:storeId/documents/:documentId?start=&end=
+function StoreDocument() {
+  const { storeId, documentId } = useParams<{ storeId: string; documentId: string }>();
+
+  if (!storeId || !documentId) {
+    return <NoStoreSelected />;
+  }
+
+  return (
+    <ScrollArea className="h-full">
+      <div className="p-4">
+        <DocumentViewer storeId={storeId} documentId={documentId} />
+      </div>
+    </ScrollArea>
+  );
+}
+
 function NoStoreSelected() {
   return (
     <div className="flex flex-col items-center justify-center h-full text-muted-foreground gap-3">
@@ -125,6 +227,31 @@ function ThemeToggle() {
   );
 }
 
+// Signed-in user (from the auth proxy) or API key label
+function CurrentUser() {
+  const { me } = useAccess();
+  if (!me?.label) return null;
+
+  return (
+    <TooltipProvider delayDuration={300}>
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <span className="flex items-center gap-1.5 text-xs text-muted-foreground" tabIndex={0}>
+            <UserRound className="h-3.5 w-3.5" aria-hidden="true" />
+            <span className="max-w-48 truncate">{me.label}</span>
+          </span>
+        </TooltipTrigger>
+        <TooltipContent side="bottom">
+          <p className="text-xs font-medium">{me.subject}</p>
+          {me.groups && me.groups.length > 0 && (
+            <p className="text-[10px] opacity-70">Groups: {me.groups.join(', ')}</p>
+          )}
+        </TooltipContent>
+      </Tooltip>
+    </TooltipProvider>
+  );
+}
+
 function SkipLink() {
   return (
     <a
@@ -136,7 +263,7 @@ function SkipLink() {
   );
 }
 
-function DashboardLayout() {
+function DashboardLayout({ view = 'stores' }: { view?: 'stores' | 'search' | 'settings' }) {
   const location = useLocation();
   const navigate = useNavigate();
   const [createStoreOpen, setCreateStoreOpen] = useState(false);
@@ -150,23 +277,25 @@ function DashboardLayout() {
     const handleGlobalKeyDown = (e: KeyboardEvent) => {
       if ((e.metaKey || e.ctrlKey) && e.key === 'k') {
         e.preventDefault();
+        // Navigate to the store's search tab, or the multi-store search without a store
         if (storeId) {
-          // Navigate to search tab and focus search input
           navigate(`/stores/${storeId}?tab=search`);
-          // Focus search input after navigation
-          setTimeout(() => {
-            const searchInput = document.querySelector<HTMLInputElement>(
-              '[aria-label="Search query"]'
-            );
-            searchInput?.focus();
-          }, 100);
+        } else if (view !== 'search') {
+          navigate('/search');
         }
+        // Focus search input after navigation
+        setTimeout(() => {
+          const searchInput = document.querySelector<HTMLInputElement>(
+            '[aria-label="Search query"]'
+          );
+          searchInput?.focus();
+        }, 100);
       }
     };
 
     window.addEventListener('keydown', handleGlobalKeyDown);
     return () => window.removeEventListener('keydown', handleGlobalKeyDown);
-  }, [storeId, navigate]);
+  }, [storeId, view, navigate]);
 
   const handleStoreCreated = (storeName: string) => {
     const id = storeName.replace('fileSearchStores/', '');
@@ -191,7 +320,8 @@ function DashboardLayout() {
           <Database className="h-4 w-4 text-primary" />
           <h1 className="text-sm font-semibold">GemIndex</h1>
         </div>
-        <div className="ml-auto">
+        <div className="ml-auto flex items-center gap-2">
+          <CurrentUser />
           <ThemeToggle />
         </div>
       </header>
@@ -205,7 +335,29 @@ function DashboardLayout() {
           aria-label="Store navigation"
         >
           <ScrollArea className="flex-1">
-            <div className="p-3">
+            <div className="p-3 space-y-3">
+              <Button
+                asChild
+                variant={view === 'search' ? 'secondary' : 'ghost'}
+                size="sm"
+                className="w-full justify-start gap-2 h-8 text-xs"
+              >
+                <Link to="/search" aria-current={view === 'search' ? 'page' : undefined}>
+                  <Layers className="h-4 w-4" aria-hidden="true" />
+                  Search across stores
+                </Link>
+              </Button>
+              <Button
+                asChild
+                variant={view === 'settings' ? 'secondary' : 'ghost'}
+                size="sm"
+                className="w-full justify-start gap-2 h-8 text-xs"
+              >
+                <Link to="/settings" aria-current={view === 'settings' ? 'page' : undefined}>
+                  <Settings className="h-4 w-4" aria-hidden="true" />
+                  Settings
+                </Link>
+              </Button>
               <StoreList
                 onCreateStore={() => setCreateStoreOpen(true)}
                 onStoreDeleted={handleStoreDeleted}
@@ -221,10 +373,26 @@ function DashboardLayout() {
           role="main"
           tabIndex={-1}
         >
-          <Routes>
-            <Route path="/" element={<NoStoreSelected />} />
-            <Route path="/:storeId" element={<StoreDetails />} />
-          </Routes>
+          {view === 'search' ? (
+            <ScrollArea className="h-full">
+              <div className="p-4">
+                <MultiStoreSearch />
+              </div>
+            </ScrollArea>
+          ) : view === 'settings' ? (
+            <ScrollArea className="h-full">
+              <div className="p-4">
+                <ApiKeysSettings />
+              </div>
+            </ScrollArea>
+          ) : (
+            <Routes>
+              <Route path="/" element={<NoStoreSelected />} />
+              <Route path="/:storeId" element={<StoreDetails />} />
+              <Route path="/:storeId/answers/:answerId" element={<StoreAnswer />} />
+              <Route path="/:storeId/documents/:documentId" element={<StoreDocument />} />
+            </Routes>
+          )}
         </main>
       </div>
 
@@ -243,6 +411,8 @@ function App() {
     <Routes>
       <Route path="/" element={<Navigate to="/stores" replace />} />
       <Route path="/stores/*" element={<DashboardLayout />} />
+      <Route path="/search" element={<DashboardLayout view="search" />} />
+      <Route path="/settings" element={<DashboardLayout view="settings" />} />
     </Routes>
   );
 }
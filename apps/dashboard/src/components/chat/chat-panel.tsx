@@ -0,0 +1,256 @@
+import { useEffect, useRef, useState } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { Loader2, MessageSquarePlus, MessagesSquare, Send, User, Sparkles } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { CitedAnswer } from '@/components/search/cited-answer';
+import { SourceCard } from '@/components/search/source-card';
+import { useChat, useCreateChat, useSendChatMessage } from '@/hooks/use-chat';
+import { useSearchPresets } from '@/hooks/use-search-presets';
+import type { ChatMessage } from '@/types/api';
+
+interface ChatPanelProps {
+  storeName: string;
+}
+
+// A model answer with its inline citations and the sources grounding this turn
+function ModelTurn({ message, turnIndex }: { message: ChatMessage; turnIndex: number }) {
+  const [expandedSource, setExpandedSource] = useState<number | null>(null);
+  const sources = message.sources ?? [];
+  const supports = message.supports ?? [];
+  const citedIndices = new Set(supports.flatMap((s) => s.chunkIndices));
+
+  const sourceToCitedTexts = new Map<number, string[]>();
+  supports.forEach((support) => {
+    support.chunkIndices.forEach((chunkIdx) => {
+      const existing = sourceToCitedTexts.get(chunkIdx) ?? [];
+      if (!existing.includes(support.text)) {
+        sourceToCitedTexts.set(chunkIdx, [...existing, support.text]);
+      }
+    });
+  });
+
+  const sourcesId = `chat-turn-${turnIndex}-sources`;
+
+  return (
+    <div className="space-y-2">
+      <CitedAnswer
+        text={message.text}
+        sources={sources}
+        supports={supports}
+        onSourceClick={(index) => {
+          setExpandedSource(index);
+          document.getElementById(sourcesId)?.scrollIntoView({ behavior: 'smooth' });
+        }}
+      />
+      {sources.length > 0 && (
+        <details id={sourcesId} className="group" open={expandedSource !== null}>
+          <summary className="cursor-pointer text-xs text-muted-foreground hover:text-foreground">
+            {sources.length} source{sources.length === 1 ? '' : 's'} ({citedIndices.size} cited)
+          </summary>
+          <div className="grid gap-2 mt-2" role="list" aria-label="Sources for this answer">
+            {sources.map((source, index) => (
+              <SourceCard
+                key={index}
+                index={index}
+                source={source}
+                isExpanded={expandedSource === index}
+                onToggle={() => setExpandedSource(expandedSource === index ? null : index)}
+                isCited={citedIndices.has(index)}
+                citedTexts={sourceToCitedTexts.get(index) ?? []}
+                totalSources={sources.length}
+              />
+            ))}
+          </div>
+        </details>
+      )}
+    </div>
+  );
+}
+
+export function ChatPanel({ storeName }: ChatPanelProps) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [input, setInput] = useState('');
+  const [pendingQuestion, setPendingQuestion] = useState<string | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  // The active chat is kept in the URL so a conversation survives reloads
+  const chatId = searchParams.get('chat');
+  const { data: chat, error: chatError } = useChat(chatId);
+  const createChat = useCreateChat();
+  const sendMessage = useSendChatMessage();
+  const { settings } = useSearchPresets();
+
+  const messages = chat?.storeName === storeName ? chat.messages : [];
+  const isPending = createChat.isPending || sendMessage.isPending;
+  const error = sendMessage.error ?? createChat.error;
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [messages.length, pendingQuestion]);
+
+  const setChatId = (id: string | null) => {
+    setSearchParams(
+      (prev) => {
+        const next = new URLSearchParams(prev);
+        if (id) next.set('chat', id);
+        else next.delete('chat');
+        return next;
+      },
+      { replace: true }
+    );
+  };
+
+  const handleNewChat = () => {
+    setChatId(null);
+    setPendingQuestion(null);
+    sendMessage.reset();
+    createChat.reset();
+    inputRef.current?.focus();
+  };
+
+  const handleSend = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    const message = input.trim();
+    if (!message || isPending) return;
+
+    setPendingQuestion(message);
+    setInput('');
+    try {
+      // Start a session with the current search settings on the first message
+      let activeChatId = chat && chat.storeName === storeName ? chat.id : null;
+      if (!activeChatId) {
+        const created = await createChat.mutateAsync({
+          storeName,
+          systemPrompt: settings.systemPrompt || undefined,
+          model: settings.model || undefined,
+          temperature: settings.temperature,
+          topP: settings.topP,
+          topK: settings.topK,
+          maxOutputTokens: settings.maxOutputTokens,
+        });
+        activeChatId = created.id;
+        setChatId(created.id);
+      }
+      await sendMessage.mutateAsync({ chatId: activeChatId, message });
+    } catch {
+      // Restore the question so it can be retried
+      setInput(message);
+    } finally {
+      setPendingQuestion(null);
+    }
+  };
+
+  return (
+    <section className="flex flex-col gap-3" aria-label="Chat panel">
+      <div className="flex items-center gap-2">
+        <MessagesSquare className="h-4 w-4 text-primary" aria-hidden="true" />
+        <h2 className="text-sm font-medium">Conversation</h2>
+        <Button
+          variant="outline"
+          size="sm"
+          className="ml-auto gap-1.5 h-8"
+          onClick={handleNewChat}
+          disabled={isPending || (!chatId && messages.length === 0)}
+        >
+          <MessageSquarePlus className="h-3.5 w-3.5" aria-hidden="true" />
+          <span className="text-xs">New chat</span>
+        </Button>
+      </div>
+
+      {chatError && (
+        <Card className="border-destructive" role="alert">
+          <CardContent className="p-4 text-sm text-destructive">
+            Could not load this chat: {chatError.message}. Start a new chat to continue.
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="space-y-4" role="log" aria-live="polite" aria-label="Chat messages">
+        {messages.length === 0 && !pendingQuestion && (
+          <p className="text-sm text-muted-foreground py-8 text-center">
+            Ask a question about this store&apos;s documents. Follow-up questions can refer to
+            earlier answers.
+          </p>
+        )}
+
+        {messages.map((message, index) =>
+          message.role === 'user' ? (
+            <div key={index} className="flex gap-2 justify-end">
+              <div className="max-w-[80%] rounded-lg bg-primary text-primary-foreground px-3 py-2 text-sm whitespace-pre-wrap">
+                {message.text}
+              </div>
+              <User className="h-4 w-4 mt-2 text-muted-foreground" aria-label="You" />
+            </div>
+          ) : (
+            <div key={index} className="flex gap-2">
+              <Sparkles className="h-4 w-4 mt-2 text-primary" aria-label="Answer" />
+              <Card className="flex-1 min-w-0">
+                <CardContent className="p-3">
+                  <ModelTurn message={message} turnIndex={index} />
+                </CardContent>
+              </Card>
+            </div>
+          )
+        )}
+
+        {pendingQuestion && (
+          <>
+            <div className="flex gap-2 justify-end">
+              <div className="max-w-[80%] rounded-lg bg-primary/70 text-primary-foreground px-3 py-2 text-sm whitespace-pre-wrap">
+                {pendingQuestion}
+              </div>
+              <User className="h-4 w-4 mt-2 text-muted-foreground" aria-label="You" />
+            </div>
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+              Searching documents...
+            </div>
+          </>
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      {error && (
+        <Card className="border-destructive" role="alert" aria-live="assertive">
+          <CardContent className="p-4">
+            <p className="text-sm text-destructive">{error.message}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      <form onSubmit={handleSend} className="flex gap-2 items-end">
+        <Textarea
+          ref={inputRef}
+          placeholder={
+            messages.length
+              ? 'Ask a follow-up question...'
+              : 'Ask a question about your documents...'
+          }
+          value={input}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter sends, Shift+Enter inserts a newline
+            if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+              e.preventDefault();
+              handleSend();
+            }
+          }}
+          disabled={isPending}
+          rows={2}
+          className="flex-1 resize-none text-sm"
+          aria-label="Chat message"
+        />
+        <Button type="submit" disabled={!input.trim() || isPending} aria-label="Send message">
+          {isPending ? (
+            <Loader2 className="h-4 w-4 animate-spin" aria-hidden="true" />
+          ) : (
+            <Send className="h-4 w-4" aria-hidden="true" />
+          )}
+        </Button>
+      </form>
+    </section>
+  );
+}
@@ -0,0 +1,139 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { ArrowLeft, Check, Link2, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useFileText } from '@/hooks/use-files';
+import { findPassage, parsePassageRange, type PassageRange } from '@/lib/passages';
+
+interface DocumentViewerProps {
+  storeId: string;
+  documentId: string;
+}
+
+// Text of a document with a passage highlighted, addressed by ?passage= or ?start=&end=.
+// A ?passage= stays in the URL and is located again on every load, so links keep
+// working when the document changes. When the server cannot return the text, it is
+// shown on its own
+export function DocumentViewer({ storeId, documentId }: DocumentViewerProps) {
+  const storeName = `fileSearchStores/${storeId}`;
+  const { data, isLoading, error } = useFileText(storeName, documentId);
+  const [searchParams] = useSearchParams();
+  const highlightRef = useRef<HTMLElement>(null);
+  const [copied, setCopied] = useState(false);
+
+  const passage = searchParams.get('passage');
+  const start = searchParams.get('start');
+  const end = searchParams.get('end');
+  const range = useMemo<PassageRange | null>(() => {
+    if (!data) return null;
+    return passage !== null
+      ? findPassage(data.text, passage)
+      : parsePassageRange(start, end, data.text.length);
+  }, [data, passage, start, end]);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ block: 'center' });
+  }, [range]);
+
+  const filesPath = `/stores/${storeId}?tab=files`;
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(window.location.href).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="space-y-3">
+        <Button asChild variant="ghost" size="sm" className="h-7 gap-1.5 text-xs">
+          <Link to={filesPath}>
+            <ArrowLeft className="h-3.5 w-3.5" aria-hidden="true" />
+            Back to files
+          </Link>
+        </Button>
+        {passage ? (
+          // Without the full text (e.g. no blob store on the server), show what was cited
+          <>
+            <p className="text-sm text-muted-foreground" role="status">
+              The full document cannot be shown ({error?.message ?? 'document not found'}). Showing
+              the cited passage.
+            </p>
+            <pre className="whitespace-pre-wrap break-words rounded-md border p-4 text-xs leading-relaxed">
+              <mark className="rounded bg-primary/20 text-foreground">{passage}</mark>
+            </pre>
+          </>
+        ) : (
+          <p className="text-sm text-destructive">{error?.message ?? 'Document not found'}</p>
+        )}
+      </div>
+    );
+  }
+
+  const notFound = (passage !== null || start !== null) && !range;
+
+  return (
+    <article className="space-y-4" aria-labelledby="document-title">
+      <div className="flex items-center gap-2">
+        <Button asChild variant="ghost" size="sm" className="h-7 gap-1.5 text-xs">
+          <Link to={filesPath}>
+            <ArrowLeft className="h-3.5 w-3.5" aria-hidden="true" />
+            Back to files
+          </Link>
+        </Button>
+        <h2 id="document-title" className="min-w-0 truncate text-sm font-medium">
+          {data.displayName}
+        </h2>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="ml-auto h-7 gap-1.5 text-xs"
+          onClick={copyLink}
+        >
+          {copied ? (
+            <Check className="h-3.5 w-3.5" aria-hidden="true" />
+          ) : (
+            <Link2 className="h-3.5 w-3.5" aria-hidden="true" />
+          )}
+          {copied ? 'Copied' : 'Copy link'}
+        </Button>
+      </div>
+
+      {notFound && (
+        <div className="space-y-2" role="status">
+          <p className="text-sm text-muted-foreground">
+            The cited passage could not be located in this document.
+          </p>
+          {passage && (
+            <blockquote className="border-l-2 pl-3 text-xs text-muted-foreground whitespace-pre-wrap">
+              {passage}
+            </blockquote>
+          )}
+        </div>
+      )}
+
+      <pre className="whitespace-pre-wrap break-words rounded-md border p-4 text-xs leading-relaxed">
+        {range ? (
+          <>
+            {data.text.slice(0, range.start)}
+            <mark ref={highlightRef} className="rounded bg-primary/20 text-foreground">
+              {data.text.slice(range.start, range.end)}
+            </mark>
+            {data.text.slice(range.end)}
+          </>
+        ) : (
+          data.text
+        )}
+      </pre>
+    </article>
+  );
+}
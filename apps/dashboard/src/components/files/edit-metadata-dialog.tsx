@@ -0,0 +1,116 @@
+import { useEffect, useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useUpdateFile } from '@/hooks/use-files';
+import {
+  MetadataEditor,
+  metadataToRows,
+  rowsToMetadata,
+  validateMetadataRows,
+  type MetadataRow,
+} from '@/components/files/metadata-editor';
+import type { FileSearchStoreFile } from '@/types/api';
+
+interface EditMetadataDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  storeName: string;
+  file: FileSearchStoreFile;
+  // Fall back to re-uploading the file, e.g. when its uploaded content has expired
+  onReplace: () => void;
+}
+
+export function EditMetadataDialog({
+  open,
+  onOpenChange,
+  storeName,
+  file,
+  onReplace,
+}: EditMetadataDialogProps) {
+  const [metadataRows, setMetadataRows] = useState<MetadataRow[]>([]);
+  const triggerRef = useRef<Element | null>(null);
+  const updateFile = useUpdateFile();
+  const { reset } = updateFile;
+
+  // Save the element that had focus when dialog opens, and prefill the metadata
+  useEffect(() => {
+    if (open) {
+      triggerRef.current = document.activeElement;
+      setMetadataRows(metadataToRows(file.metadata));
+      reset();
+    }
+  }, [open, file.metadata, reset]);
+
+  const handleCloseAutoFocus = (e: Event) => {
+    // Restore focus to the element that opened the dialog
+    if (triggerRef.current instanceof HTMLElement) {
+      e.preventDefault();
+      triggerRef.current.focus();
+    }
+  };
+
+  const metadataError = validateMetadataRows(metadataRows);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (metadataError) return;
+
+    updateFile.mutate(
+      { storeName, fileName: file.name, customMetadata: rowsToMetadata(metadataRows) },
+      { onSuccess: () => onOpenChange(false) }
+    );
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent onCloseAutoFocus={handleCloseAutoFocus}>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>Edit Metadata</DialogTitle>
+            <DialogDescription>
+              {file.originalDisplayName || file.displayName} is re-indexed with the new metadata in
+              the background; the current version stays searchable until then.
+            </DialogDescription>
+          </DialogHeader>
+
+          <fieldset className="grid gap-2 py-4">
+            <legend className="text-sm font-medium mb-2">Metadata</legend>
+            <MetadataEditor
+              rows={metadataRows}
+              onChange={setMetadataRows}
+              disabled={updateFile.isPending}
+            />
+            {metadataError && <p className="text-xs text-destructive">{metadataError}</p>}
+          </fieldset>
+
+          {updateFile.error && (
+            <div className="space-y-2 pb-4" role="alert">
+              <p className="text-sm text-destructive">{updateFile.error.message}</p>
+              <Button type="button" variant="link" className="h-auto p-0" onClick={onReplace}>
+                Re-upload the file instead
+              </Button>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!!metadataError || updateFile.isPending}>
+              {updateFile.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
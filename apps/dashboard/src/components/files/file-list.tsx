@@ -1,21 +1,80 @@
-import { useState, useCallback, useRef } from 'react';
-import { File, Trash2, Loader2, Upload, AlertCircle, CheckCircle2, Clock, X } from 'lucide-react';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import {
+  File,
+  Trash2,
+  Loader2,
+  Upload,
+  AlertCircle,
+  CheckCircle2,
+  Clock,
+  X,
+  Tags,
+  Pencil,
+  Eye,
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
-import { useFiles, useDeleteFile, useUploadFile } from '@/hooks/use-files';
-import type { FileSearchStoreFile } from '@/types/api';
+import { Input } from '@/components/ui/input';
+import { UploadFileDialog } from '@/components/files/upload-file-dialog';
+import { EditMetadataDialog } from '@/components/files/edit-metadata-dialog';
+import { FilePreviewDialog } from '@/components/files/file-preview-dialog';
+import { StoreProtectionControl } from '@/components/stores/store-protection';
+import { useAccess } from '@/hooks/use-access';
+import { useStoreProtection } from '@/hooks/use-stores';
+import {
+  useFiles,
+  useDeleteFile,
+  useUpdateFile,
+  useUploadFiles,
+  useUploadJobs,
+  isJobActive,
+} from '@/hooks/use-files';
+import type { CustomMetadata, FileSearchStoreFile, Job, JobStatus } from '@/types/api';
 
 interface FileListProps {
   storeName: string | null;
 }
 
+// An upload or rename started in this session: sent to the API, then tracked through its job
 interface UploadingFile {
   id: string;
-  file: File;
-  status: 'pending' | 'uploading' | 'success' | 'error';
+  name: string;
+  size?: number;
+  kind: 'upload' | 'update';
+  status: 'sending' | 'queued' | 'error';
+  jobId?: string;
   error?: string;
 }
 
+interface UploadRow {
+  key: string;
+  name: string;
+  size?: number;
+  kind: UploadingFile['kind'];
+  status: UploadingFile['status'] | JobStatus;
+  error?: string;
+  onDismiss?: () => void;
+}
+
+const UPLOAD_STATUS_LABELS: Partial<Record<UploadRow['status'], string>> = {
+  sending: 'Sending...',
+  queued: 'Queued',
+  uploading: 'Uploading...',
+  importing: 'Importing...',
+  indexed: 'Done',
+};
+
+// Renames and metadata changes are re-imported, after uploading the server's copy again
+// when the previous upload has expired
+const UPDATE_STATUS_LABELS: Partial<Record<UploadRow['status'], string>> = {
+  ...UPLOAD_STATUS_LABELS,
+  importing: 'Updating...',
+};
+
+// Shown on rename and metadata buttons of files whose content can no longer be re-imported
+const NOT_UPDATABLE =
+  'The uploaded content has expired and no original is kept on the server; re-upload the file to change it';
+
 function FileStatusIcon({ state }: { state: FileSearchStoreFile['state'] }) {
   switch (state) {
     case 'ACTIVE':
@@ -40,6 +99,12 @@ function formatBytes(bytes: string | number | undefined): string {
   return `${(size / (1024 * 1024)).toFixed(1)} MB`;
 }
 
+function formatMetadataValue(metadata: CustomMetadata): string {
+  return metadata.numericValue !== undefined
+    ? String(metadata.numericValue)
+    : (metadata.stringValue ?? '');
+}
+
 function formatDate(dateString: string | undefined): string {
   if (!dateString) return '';
   const date = new Date(dateString);
@@ -55,11 +120,25 @@ function formatDate(dateString: string | undefined): string {
 export function FileList({ storeName }: FileListProps) {
   const { data: files, isLoading, error } = useFiles(storeName);
   const deleteFile = useDeleteFile();
-  const uploadFile = useUploadFile();
+  const uploadFilesBatch = useUploadFiles();
+  const { data: jobs } = useUploadJobs(storeName);
+  const { can } = useAccess();
+  const { data: protection } = useStoreProtection(storeName);
+  // Uploading needs the editor role and is refused by read-only stores. Renaming
+  // and editing metadata replace the document, so no_file_delete refuses them
+  // along with deleting
+  const canEdit = !!storeName && can('editor', storeName) && protection?.level !== 'read_only';
+  const canChangeFiles = canEdit && protection?.level !== 'no_file_delete';
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const [isDragging, setIsDragging] = useState(false);
   const [uploadingFiles, setUploadingFiles] = useState<UploadingFile[]>([]);
+  const [editingFile, setEditingFile] = useState<FileSearchStoreFile | null>(null);
+  const [replacingFile, setReplacingFile] = useState<FileSearchStoreFile | null>(null);
+  const [previewFile, setPreviewFile] = useState<FileSearchStoreFile | null>(null);
+  // Inline rename: document being renamed and the name typed so far
+  const [renaming, setRenaming] = useState<{ fileName: string; value: string } | null>(null);
+  const updateFile = useUpdateFile();
 
   const handleDelete = (file: FileSearchStoreFile) => {
     if (confirm(`Are you sure you want to delete "${file.displayName}"?`)) {
@@ -73,47 +152,43 @@ export function FileList({ storeName }: FileListProps) {
 
       const newUploadingFiles: UploadingFile[] = filesToUpload.map((file) => ({
         id: `${file.name}-${Date.now()}-${Math.random()}`,
-        file,
-        status: 'pending' as const,
+        name: file.name,
+        size: file.size,
+        kind: 'upload',
+        status: 'sending',
       }));
+      const ids = new Set(newUploadingFiles.map((f) => f.id));
 
       setUploadingFiles((prev) => [...prev, ...newUploadingFiles]);
 
-      for (const uploadingFile of newUploadingFiles) {
+      try {
+        // One request for all files; the server queues a job per file
+        const results = await uploadFilesBatch.mutateAsync({ storeName, files: filesToUpload });
+
         setUploadingFiles((prev) =>
-          prev.map((f) => (f.id === uploadingFile.id ? { ...f, status: 'uploading' } : f))
+          prev.map((f) => {
+            if (!ids.has(f.id)) return f;
+            const result = results[newUploadingFiles.findIndex((n) => n.id === f.id)];
+            return result?.job
+              ? { ...f, status: 'queued', jobId: result.job.id }
+              : { ...f, status: 'error', error: result?.error ?? 'Upload failed' };
+          })
+        );
+      } catch (err) {
+        setUploadingFiles((prev) =>
+          prev.map((f) =>
+            ids.has(f.id)
+              ? {
+                  ...f,
+                  status: 'error',
+                  error: err instanceof Error ? err.message : 'Upload failed',
+                }
+              : f
+          )
         );
-
-        try {
-          await uploadFile.mutateAsync({
-            storeName,
-            file: uploadingFile.file,
-          });
-
-          setUploadingFiles((prev) =>
-            prev.map((f) => (f.id === uploadingFile.id ? { ...f, status: 'success' } : f))
-          );
-
-          // Remove successful upload after 2 seconds
-          setTimeout(() => {
-            setUploadingFiles((prev) => prev.filter((f) => f.id !== uploadingFile.id));
-          }, 2000);
-        } catch (err) {
-          setUploadingFiles((prev) =>
-            prev.map((f) =>
-              f.id === uploadingFile.id
-                ? {
-                    ...f,
-                    status: 'error',
-                    error: err instanceof Error ? err.message : 'Upload failed',
-                  }
-                : f
-            )
-          );
-        }
       }
     },
-    [storeName, uploadFile]
+    [storeName, uploadFilesBatch]
   );
 
   const handleDragOver = useCallback((e: React.DragEvent) => {
@@ -156,10 +231,91 @@ export function FileList({ storeName }: FileListProps) {
     [uploadFiles]
   );
 
+  const startRename = (file: FileSearchStoreFile) => {
+    updateFile.reset();
+    setRenaming({ fileName: file.name, value: file.originalDisplayName || file.displayName || '' });
+  };
+
+  const submitRename = (file: FileSearchStoreFile) => {
+    if (!storeName || !renaming) return;
+    const displayName = renaming.value.trim();
+    if (!displayName || displayName === (file.originalDisplayName || file.displayName)) {
+      setRenaming(null);
+      return;
+    }
+
+    updateFile.mutate(
+      { storeName, fileName: file.name, displayName },
+      {
+        onSuccess: (result) => {
+          setRenaming(null);
+          // A job is returned when the rename runs as a copy-and-swap
+          if ('status' in result) {
+            setUploadingFiles((prev) => [
+              ...prev,
+              {
+                id: result.id,
+                name: displayName,
+                kind: 'update',
+                status: 'queued',
+                jobId: result.id,
+              },
+            ]);
+          }
+        },
+      }
+    );
+  };
+
   const removeUploadingFile = (id: string) => {
     setUploadingFiles((prev) => prev.filter((f) => f.id !== id));
   };
 
+  const jobsById = new Map((jobs ?? []).map((job) => [job.id, job]));
+
+  // Remove uploads 2 seconds after their job is indexed
+  const indexedIds = uploadingFiles
+    .filter((f) => f.jobId && jobsById.get(f.jobId)?.status === 'indexed')
+    .map((f) => f.id)
+    .join(',');
+  useEffect(() => {
+    if (!indexedIds) return;
+    const ids = indexedIds.split(',');
+    const timer = setTimeout(() => {
+      setUploadingFiles((prev) => prev.filter((f) => !ids.includes(f.id)));
+    }, 2000);
+    return () => clearTimeout(timer);
+  }, [indexedIds]);
+
+  // Uploads started here, followed by jobs still running from elsewhere (another tab, a reload)
+  const trackedJobIds = new Set(uploadingFiles.map((f) => f.jobId));
+  const uploadRows: UploadRow[] = [
+    ...uploadingFiles.map((f): UploadRow => {
+      const job = f.jobId ? jobsById.get(f.jobId) : undefined;
+      const status = job?.status ?? f.status;
+      return {
+        key: f.id,
+        name: f.name,
+        size: f.size,
+        kind: f.kind,
+        status,
+        error: job?.error ?? f.error,
+        onDismiss:
+          status === 'error' || status === 'failed' ? () => removeUploadingFile(f.id) : undefined,
+      };
+    }),
+    ...(jobs ?? [])
+      .filter((job) => isJobActive(job) && !trackedJobIds.has(job.id))
+      .map(
+        (job: Job): UploadRow => ({
+          key: job.id,
+          name: job.payload.config?.displayName ?? 'Untitled file',
+          kind: job.type === 'document-update' ? 'update' : 'upload',
+          status: job.status,
+        })
+      ),
+  ];
+
   if (!storeName) {
     return (
       <Card>
@@ -187,79 +343,88 @@ export function FileList({ storeName }: FileListProps) {
 
   return (
     <div className="space-y-4">
-      <div className="flex items-center justify-between">
-        <h2 className="text-lg font-semibold">Files</h2>
-        <Button size="sm" onClick={() => fileInputRef.current?.click()}>
-          <Upload className="h-4 w-4" />
-          Upload Files
-        </Button>
-        <input
-          ref={fileInputRef}
-          type="file"
-          multiple
-          className="hidden"
-          onChange={handleFileInputChange}
-        />
+      <div className="flex items-center gap-2">
+        <h2 className="mr-auto text-lg font-semibold">Files</h2>
+        {storeName && <StoreProtectionControl storeName={storeName} />}
+        {canEdit && (
+          <>
+            <Button size="sm" onClick={() => fileInputRef.current?.click()}>
+              <Upload className="h-4 w-4" />
+              Upload Files
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={handleFileInputChange}
+            />
+          </>
+        )}
       </div>
 
       {/* Drop Zone */}
-      <div
-        className={`border-2 border-dashed rounded-lg p-8 text-center transition-all ${
-          isDragging
-            ? 'border-primary bg-primary/5 scale-[1.02]'
-            : 'border-muted-foreground/25 hover:border-muted-foreground/50'
-        }`}
-        onDragOver={handleDragOver}
-        onDragLeave={handleDragLeave}
-        onDrop={handleDrop}
-        onClick={() => fileInputRef.current?.click()}
-      >
-        <Upload
-          className={`h-10 w-10 mx-auto mb-3 transition-colors ${
-            isDragging ? 'text-primary' : 'text-muted-foreground'
+      {canEdit && (
+        <div
+          className={`border-2 border-dashed rounded-lg p-8 text-center transition-all ${
+            isDragging
+              ? 'border-primary bg-primary/5 scale-[1.02]'
+              : 'border-muted-foreground/25 hover:border-muted-foreground/50'
           }`}
-        />
-        <p className="text-sm font-medium">
-          {isDragging ? 'Drop files here' : 'Drag & drop files here'}
-        </p>
-        <p className="text-xs text-muted-foreground mt-1">
-          or click to select files (PDF, TXT, MD, and more)
-        </p>
-      </div>
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+          onDrop={handleDrop}
+          onClick={() => fileInputRef.current?.click()}
+        >
+          <Upload
+            className={`h-10 w-10 mx-auto mb-3 transition-colors ${
+              isDragging ? 'text-primary' : 'text-muted-foreground'
+            }`}
+          />
+          <p className="text-sm font-medium">
+            {isDragging ? 'Drop files here' : 'Drag & drop files here'}
+          </p>
+          <p className="text-xs text-muted-foreground mt-1">
+            or click to select files (PDF, TXT, MD, and more)
+          </p>
+        </div>
+      )}
 
       {/* Uploading Files */}
-      {uploadingFiles.length > 0 && (
+      {uploadRows.length > 0 && (
         <div className="space-y-2">
           <h3 className="text-sm font-medium text-muted-foreground">Uploading</h3>
-          {uploadingFiles.map((uploadingFile) => (
-            <Card key={uploadingFile.id} className="bg-muted/50">
+          {uploadRows.map((row) => (
+            <Card key={row.key} className="bg-muted/50">
               <CardHeader className="p-3">
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-3 min-w-0">
-                    {uploadingFile.status === 'uploading' || uploadingFile.status === 'pending' ? (
-                      <Loader2 className="h-4 w-4 animate-spin text-primary flex-shrink-0" />
-                    ) : uploadingFile.status === 'success' ? (
+                    {row.status === 'indexed' ? (
                       <CheckCircle2 className="h-4 w-4 text-green-500 flex-shrink-0" />
-                    ) : (
+                    ) : row.status === 'error' || row.status === 'failed' ? (
                       <AlertCircle className="h-4 w-4 text-destructive flex-shrink-0" />
+                    ) : (
+                      <Loader2 className="h-4 w-4 animate-spin text-primary flex-shrink-0" />
                     )}
                     <div className="min-w-0">
-                      <p className="text-sm font-medium truncate">{uploadingFile.file.name}</p>
-                      <p className="text-xs text-muted-foreground">
-                        {formatBytes(uploadingFile.file.size)}
-                        {uploadingFile.status === 'pending' && ' • Waiting...'}
-                        {uploadingFile.status === 'uploading' && ' • Uploading...'}
-                        {uploadingFile.status === 'success' && ' • Done'}
-                        {uploadingFile.status === 'error' && ` • ${uploadingFile.error}`}
+                      <p className="text-sm font-medium truncate">{row.name}</p>
+                      <p className="text-xs text-muted-foreground" role="status">
+                        {row.size !== undefined && `${formatBytes(row.size)} • `}
+                        {(row.kind === 'update' ? UPDATE_STATUS_LABELS : UPLOAD_STATUS_LABELS)[
+                          row.status
+                        ] ??
+                          row.error ??
+                          'Upload failed'}
                       </p>
                     </div>
                   </div>
-                  {uploadingFile.status === 'error' && (
+                  {row.onDismiss && (
                     <Button
                       variant="ghost"
                       size="icon"
                       className="h-6 w-6"
-                      onClick={() => removeUploadingFile(uploadingFile.id)}
+                      onClick={row.onDismiss}
+                      aria-label={`Dismiss ${row.name}`}
                     >
                       <X className="h-3 w-3" />
                     </Button>
@@ -288,33 +453,109 @@ export function FileList({ storeName }: FileListProps) {
                   <div className="flex items-center gap-3 min-w-0 flex-1">
                     <File className="h-5 w-5 text-muted-foreground flex-shrink-0" />
                     <div className="min-w-0 flex-1">
-                      <div className="flex items-center gap-2">
-                        <CardTitle className="text-sm truncate">
-                          {file.originalDisplayName || file.displayName}
-                        </CardTitle>
-                        <FileStatusIcon state={file.state} />
-                      </div>
+                      {renaming?.fileName === file.name ? (
+                        <form
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            submitRename(file);
+                          }}
+                        >
+                          <Input
+                            autoFocus
+                            value={renaming.value}
+                            onChange={(e) => setRenaming({ ...renaming, value: e.target.value })}
+                            onKeyDown={(e) => e.key === 'Escape' && setRenaming(null)}
+                            onBlur={() => !updateFile.isPending && setRenaming(null)}
+                            disabled={updateFile.isPending}
+                            className="h-7 text-sm"
+                            aria-label={`New name for ${file.originalDisplayName || file.displayName}`}
+                          />
+                        </form>
+                      ) : (
+                        <div className="flex items-center gap-2">
+                          <CardTitle
+                            className="text-sm truncate"
+                            onDoubleClick={() => startRename(file)}
+                          >
+                            {file.originalDisplayName || file.displayName}
+                          </CardTitle>
+                          <FileStatusIcon state={file.state} />
+                        </div>
+                      )}
+                      {updateFile.error && updateFile.variables?.fileName === file.name && (
+                        <p className="text-xs text-destructive" role="alert">
+                          {updateFile.error.message}
+                        </p>
+                      )}
                       <CardDescription className="text-xs">
                         {formatBytes(file.sizeBytes)} • {file.mimeType || 'Unknown type'}
                       </CardDescription>
                       <CardDescription className="text-xs text-muted-foreground/70">
                         {formatDate(file.createTime)}
                       </CardDescription>
+                      {!!file.metadata?.length && (
+                        <div className="flex flex-wrap gap-1 mt-1.5" aria-label="Metadata">
+                          {file.metadata.map((m) => (
+                            <span
+                              key={m.key}
+                              className="inline-flex items-center rounded bg-muted px-1.5 py-0.5 text-[10px] text-muted-foreground"
+                            >
+                              <span className="font-medium text-foreground/80">{m.key}</span>
+                              &nbsp;{formatMetadataValue(m)}
+                            </span>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   </div>
                   <Button
                     variant="ghost"
                     size="icon"
                     className="flex-shrink-0"
-                    onClick={() => handleDelete(file)}
-                    disabled={deleteFile.isPending}
+                    onClick={() => setPreviewFile(file)}
+                    aria-label={`Preview ${file.originalDisplayName || file.displayName}`}
                   >
-                    {deleteFile.isPending ? (
-                      <Loader2 className="h-4 w-4 animate-spin" />
-                    ) : (
-                      <Trash2 className="h-4 w-4 text-muted-foreground hover:text-destructive" />
-                    )}
+                    <Eye className="h-4 w-4 text-muted-foreground" />
                   </Button>
+                  {canChangeFiles && (
+                    <>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="flex-shrink-0"
+                        onClick={() => startRename(file)}
+                        disabled={file.updatable === false}
+                        title={file.updatable === false ? NOT_UPDATABLE : undefined}
+                        aria-label={`Rename ${file.originalDisplayName || file.displayName}`}
+                      >
+                        <Pencil className="h-4 w-4 text-muted-foreground" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="flex-shrink-0"
+                        onClick={() => setEditingFile(file)}
+                        disabled={file.updatable === false}
+                        title={file.updatable === false ? NOT_UPDATABLE : undefined}
+                        aria-label={`Edit metadata of ${file.originalDisplayName || file.displayName}`}
+                      >
+                        <Tags className="h-4 w-4 text-muted-foreground" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="flex-shrink-0"
+                        onClick={() => handleDelete(file)}
+                        disabled={deleteFile.isPending}
+                      >
+                        {deleteFile.isPending ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Trash2 className="h-4 w-4 text-muted-foreground hover:text-destructive" />
+                        )}
+                      </Button>
+                    </>
+                  )}
                 </div>
                 {file.error && (
                   <p className="text-xs text-destructive mt-2">{file.error.message}</p>
@@ -324,6 +565,38 @@ export function FileList({ storeName }: FileListProps) {
           ))}
         </div>
       )}
+
+      {editingFile && (
+        <EditMetadataDialog
+          open={!!editingFile}
+          onOpenChange={(open) => !open && setEditingFile(null)}
+          storeName={storeName}
+          file={editingFile}
+          onReplace={() => {
+            setReplacingFile(editingFile);
+            setEditingFile(null);
+          }}
+        />
+      )}
+
+      {previewFile && (
+        <FilePreviewDialog
+          open={!!previewFile}
+          onOpenChange={(open) => !open && setPreviewFile(null)}
+          storeName={storeName}
+          file={previewFile}
+        />
+      )}
+
+      {replacingFile && (
+        <UploadFileDialog
+          open={!!replacingFile}
+          onOpenChange={(open) => !open && setReplacingFile(null)}
+          storeName={storeName}
+          initialDisplayName={replacingFile.originalDisplayName || replacingFile.displayName}
+          initialMetadata={replacingFile.metadata}
+        />
+      )}
     </div>
   );
 }
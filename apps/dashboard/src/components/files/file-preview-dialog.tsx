@@ -0,0 +1,108 @@
+import { useEffect, useMemo, useState } from 'react';
+import ReactMarkdown from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import { Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { useFileContent } from '@/hooks/use-files';
+import { saveBlob } from '@/lib/utils';
+import type { FileSearchStoreFile } from '@/types/api';
+
+type PreviewKind = 'markdown' | 'text' | 'pdf' | null;
+
+const TEXT_EXTENSIONS = ['.txt', '.csv', '.json', '.html', '.xml', '.yaml', '.yml', '.log'];
+
+function getPreviewKind(fileName: string, mimeType: string): PreviewKind {
+  const name = fileName.toLowerCase();
+  if (name.endsWith('.md') || name.endsWith('.markdown')) return 'markdown';
+  if (name.endsWith('.pdf') || mimeType === 'application/pdf') return 'pdf';
+  if (TEXT_EXTENSIONS.some((ext) => name.endsWith(ext)) || mimeType.startsWith('text/')) {
+    return 'text';
+  }
+  return null;
+}
+
+interface FilePreviewDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  storeName: string;
+  file: FileSearchStoreFile;
+}
+
+export function FilePreviewDialog({ open, onOpenChange, storeName, file }: FilePreviewDialogProps) {
+  const displayName = file.originalDisplayName || file.displayName || file.name;
+  const content = useFileContent(storeName, open ? file.name : null);
+  const blob = content.data ?? null;
+  const kind = blob ? getPreviewKind(displayName, blob.type) : null;
+
+  const [text, setText] = useState<string | null>(null);
+  useEffect(() => {
+    setText(null);
+    if (blob && (kind === 'markdown' || kind === 'text')) {
+      blob.text().then(setText);
+    }
+  }, [blob, kind]);
+
+  // PDFs are shown by the browser's viewer from an object URL
+  const pdfUrl = useMemo(
+    () => (blob && kind === 'pdf' ? URL.createObjectURL(blob) : null),
+    [blob, kind]
+  );
+  useEffect(() => () => (pdfUrl ? URL.revokeObjectURL(pdfUrl) : undefined), [pdfUrl]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl">
+        <DialogHeader>
+          <DialogTitle className="truncate pr-6">{displayName}</DialogTitle>
+          <DialogDescription>Original content as uploaded</DialogDescription>
+        </DialogHeader>
+
+        <div className="h-[70vh] overflow-auto rounded-md border">
+          {content.isLoading && (
+            <div className="flex h-full items-center justify-center">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          {content.error && (
+            <p className="p-4 text-sm text-destructive" role="alert">
+              {content.error.message}
+            </p>
+          )}
+          {blob && kind === null && (
+            <p className="p-4 text-sm text-muted-foreground">
+              No preview is available for this file type. Download it to open it.
+            </p>
+          )}
+          {pdfUrl && <iframe src={pdfUrl} title={displayName} className="h-full w-full" />}
+          {text !== null && kind === 'markdown' && (
+            <div className="prose prose-sm max-w-none p-4 dark:prose-invert">
+              <ReactMarkdown remarkPlugins={[remarkGfm]}>{text}</ReactMarkdown>
+            </div>
+          )}
+          {text !== null && kind === 'text' && (
+            <pre className="whitespace-pre-wrap break-words p-4 text-xs">{text}</pre>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            disabled={!blob}
+            onClick={() => blob && saveBlob(blob, displayName)}
+          >
+            <Download className="h-4 w-4" />
+            Download
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,127 @@
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { CustomMetadata } from '@/types/api';
+
+export interface MetadataRow {
+  key: string;
+  value: string;
+  type: 'string' | 'number';
+}
+
+export function metadataToRows(metadata: CustomMetadata[] | undefined): MetadataRow[] {
+  return (metadata ?? []).map((m) =>
+    m.numericValue !== undefined
+      ? { key: m.key, value: String(m.numericValue), type: 'number' }
+      : { key: m.key, value: m.stringValue ?? '', type: 'string' }
+  );
+}
+
+export function rowsToMetadata(rows: MetadataRow[]): CustomMetadata[] {
+  return rows
+    .filter((row) => row.key.trim())
+    .map((row) =>
+      row.type === 'number'
+        ? { key: row.key.trim(), numericValue: Number(row.value) }
+        : { key: row.key.trim(), stringValue: row.value }
+    );
+}
+
+// Returns an error message for the first invalid row, or null
+export function validateMetadataRows(rows: MetadataRow[]): string | null {
+  const keys = new Set<string>();
+  for (const row of rows) {
+    const key = row.key.trim();
+    if (!key) continue;
+    if (keys.has(key)) return `Duplicate key "${key}"`;
+    keys.add(key);
+    if (row.type === 'number' && (row.value.trim() === '' || !Number.isFinite(Number(row.value)))) {
+      return `"${key}" must be a number`;
+    }
+  }
+  return null;
+}
+
+interface MetadataEditorProps {
+  rows: MetadataRow[];
+  onChange: (rows: MetadataRow[]) => void;
+  disabled?: boolean;
+}
+
+export function MetadataEditor({ rows, onChange, disabled }: MetadataEditorProps) {
+  const updateRow = (index: number, patch: Partial<MetadataRow>) => {
+    onChange(rows.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  return (
+    <div className="space-y-2">
+      {rows.map((row, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            placeholder="Key"
+            value={row.key}
+            onChange={(e) => updateRow(index, { key: e.target.value })}
+            disabled={disabled}
+            className="h-8 text-xs flex-1"
+            aria-label={`Metadata key ${index + 1}`}
+          />
+          <Input
+            placeholder="Value"
+            value={row.value}
+            inputMode={row.type === 'number' ? 'decimal' : undefined}
+            onChange={(e) => updateRow(index, { value: e.target.value })}
+            disabled={disabled}
+            className="h-8 text-xs flex-1"
+            aria-label={`Metadata value ${index + 1}`}
+          />
+          <Select
+            value={row.type}
+            onValueChange={(value) => updateRow(index, { type: value as MetadataRow['type'] })}
+            disabled={disabled}
+          >
+            <SelectTrigger className="h-8 w-24 text-xs" aria-label={`Metadata type ${index + 1}`}>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="string" className="text-xs">
+                Text
+              </SelectItem>
+              <SelectItem value="number" className="text-xs">
+                Number
+              </SelectItem>
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8 flex-shrink-0"
+            onClick={() => onChange(rows.filter((_, i) => i !== index))}
+            disabled={disabled}
+            aria-label={`Remove metadata ${row.key || index + 1}`}
+          >
+            <X className="h-3 w-3" aria-hidden="true" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        className="h-7 text-xs"
+        onClick={() => onChange([...rows, { key: '', value: '', type: 'string' }])}
+        disabled={disabled}
+      >
+        <Plus className="h-3 w-3" aria-hidden="true" />
+        Add metadata
+      </Button>
+    </div>
+  );
+}
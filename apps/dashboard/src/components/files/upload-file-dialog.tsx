@@ -12,26 +12,49 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { useUploadFile } from '@/hooks/use-files';
+import {
+  MetadataEditor,
+  metadataToRows,
+  rowsToMetadata,
+  validateMetadataRows,
+  type MetadataRow,
+} from '@/components/files/metadata-editor';
+import type { CustomMetadata, FileUploadConfig } from '@/types/api';
 
 interface UploadFileDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   storeName: string;
+  // When set, the dialog replaces an existing document (same display name overwrites it)
+  initialDisplayName?: string;
+  initialMetadata?: CustomMetadata[];
 }
 
-export function UploadFileDialog({ open, onOpenChange, storeName }: UploadFileDialogProps) {
+export function UploadFileDialog({
+  open,
+  onOpenChange,
+  storeName,
+  initialDisplayName,
+  initialMetadata,
+}: UploadFileDialogProps) {
   const [file, setFile] = useState<File | null>(null);
   const [displayName, setDisplayName] = useState('');
+  const [maxTokensPerChunk, setMaxTokensPerChunk] = useState('');
+  const [maxOverlapTokens, setMaxOverlapTokens] = useState('');
+  const [metadataRows, setMetadataRows] = useState<MetadataRow[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const triggerRef = useRef<Element | null>(null);
   const uploadFile = useUploadFile();
+  const isReplace = initialDisplayName !== undefined;
 
-  // Save the element that had focus when dialog opens
+  // Save the element that had focus when dialog opens, and prefill when replacing
   useEffect(() => {
     if (open) {
       triggerRef.current = document.activeElement;
+      setDisplayName(initialDisplayName ?? '');
+      setMetadataRows(metadataToRows(initialMetadata));
     }
-  }, [open]);
+  }, [open, initialDisplayName, initialMetadata]);
 
   const handleCloseAutoFocus = (e: Event) => {
     // Restore focus to the element that opened the dialog
@@ -51,20 +74,51 @@ export function UploadFileDialog({ open, onOpenChange, storeName }: UploadFileDi
     }
   };
 
+  const resetForm = () => {
+    setFile(null);
+    setDisplayName('');
+    setMaxTokensPerChunk('');
+    setMaxOverlapTokens('');
+    setMetadataRows([]);
+  };
+
+  const metadataError = validateMetadataRows(metadataRows);
+
+  // Overlap must stay below the chunk size (validated again by the API)
+  const chunkingInvalid =
+    !!maxOverlapTokens &&
+    (!maxTokensPerChunk || parseInt(maxOverlapTokens, 10) >= parseInt(maxTokensPerChunk, 10));
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!file) return;
+    if (!file || chunkingInvalid || metadataError) return;
+
+    const config: FileUploadConfig = {};
+    if (displayName) {
+      config.displayName = displayName;
+    }
+    if (maxTokensPerChunk) {
+      config.chunkingConfig = {
+        whiteSpaceConfig: {
+          maxTokensPerChunk: parseInt(maxTokensPerChunk, 10),
+          maxOverlapTokens: maxOverlapTokens ? parseInt(maxOverlapTokens, 10) : undefined,
+        },
+      };
+    }
+    const customMetadata = rowsToMetadata(metadataRows);
+    if (customMetadata.length > 0) {
+      config.customMetadata = customMetadata;
+    }
 
     uploadFile.mutate(
       {
         storeName,
         file,
-        config: displayName ? { displayName } : undefined,
+        config: Object.keys(config).length > 0 ? config : undefined,
       },
       {
         onSuccess: () => {
-          setFile(null);
-          setDisplayName('');
+          resetForm();
           onOpenChange(false);
         },
       }
@@ -73,8 +127,7 @@ export function UploadFileDialog({ open, onOpenChange, storeName }: UploadFileDi
 
   const handleClose = (open: boolean) => {
     if (!open) {
-      setFile(null);
-      setDisplayName('');
+      resetForm();
     }
     onOpenChange(open);
   };
@@ -84,9 +137,11 @@ export function UploadFileDialog({ open, onOpenChange, storeName }: UploadFileDi
       <DialogContent onCloseAutoFocus={handleCloseAutoFocus}>
         <form onSubmit={handleSubmit}>
           <DialogHeader>
-            <DialogTitle>Upload File</DialogTitle>
+            <DialogTitle>{isReplace ? 'Replace File' : 'Upload File'}</DialogTitle>
             <DialogDescription>
-              Upload a file to the store. Supported formats: PDF, TXT, MD, and more.
+              {isReplace
+                ? 'Select the file again to re-upload it with updated metadata. The existing document is replaced.'
+                : 'Upload a file to the store. Supported formats: PDF, TXT, MD, and more.'}
             </DialogDescription>
           </DialogHeader>
 
@@ -130,15 +185,74 @@ export function UploadFileDialog({ open, onOpenChange, storeName }: UploadFileDi
                 disabled={uploadFile.isPending}
               />
             </div>
+
+            <fieldset className="grid grid-cols-2 gap-3">
+              <legend className="text-sm font-medium mb-2">Chunking (optional)</legend>
+              <div className="grid gap-2">
+                <Label htmlFor="maxTokensPerChunk" className="text-xs">
+                  Max tokens per chunk
+                </Label>
+                <Input
+                  id="maxTokensPerChunk"
+                  type="number"
+                  min={1}
+                  step={1}
+                  placeholder="Default"
+                  value={maxTokensPerChunk}
+                  onChange={(e) => setMaxTokensPerChunk(e.target.value)}
+                  disabled={uploadFile.isPending}
+                />
+              </div>
+              <div className="grid gap-2">
+                <Label htmlFor="maxOverlapTokens" className="text-xs">
+                  Max overlap tokens
+                </Label>
+                <Input
+                  id="maxOverlapTokens"
+                  type="number"
+                  min={0}
+                  step={1}
+                  placeholder="Default"
+                  value={maxOverlapTokens}
+                  onChange={(e) => setMaxOverlapTokens(e.target.value)}
+                  disabled={uploadFile.isPending || !maxTokensPerChunk}
+                  aria-invalid={chunkingInvalid}
+                />
+              </div>
+              {chunkingInvalid && (
+                <p className="col-span-2 text-xs text-destructive">
+                  Overlap must be less than the max tokens per chunk.
+                </p>
+              )}
+            </fieldset>
+
+            <fieldset className="grid gap-2">
+              <legend className="text-sm font-medium mb-2">Metadata (optional)</legend>
+              <MetadataEditor
+                rows={metadataRows}
+                onChange={setMetadataRows}
+                disabled={uploadFile.isPending}
+              />
+              {metadataError && <p className="text-xs text-destructive">{metadataError}</p>}
+            </fieldset>
+
+            {uploadFile.error && (
+              <p className="text-sm text-destructive" role="alert">
+                {uploadFile.error.message}
+              </p>
+            )}
           </div>
 
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => handleClose(false)}>
               Cancel
             </Button>
-            <Button type="submit" disabled={!file || uploadFile.isPending}>
+            <Button
+              type="submit"
+              disabled={!file || chunkingInvalid || !!metadataError || uploadFile.isPending}
+            >
               {uploadFile.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
-              Upload
+              {isReplace ? 'Replace' : 'Upload'}
             </Button>
           </DialogFooter>
         </form>
@@ -0,0 +1,318 @@
+import ReactMarkdown, { Components } from 'react-markdown';
+import remarkGfm from 'remark-gfm';
+import rehypeRaw from 'rehype-raw';
+import { FileText } from 'lucide-react';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import type { GroundingSource, GroundingSupport } from '@/types/api';
+
+interface CitedAnswerProps {
+  text: string;
+  sources: GroundingSource[];
+  supports: GroundingSupport[];
+  onSourceClick?: (sourceIndex: number) => void;
+}
+
+// Render answer text with inline source citations
+export function CitedAnswer({ text, sources, supports, onSourceClick }: CitedAnswerProps) {
+  if (!supports.length) {
+    return (
+      <div className="prose prose-sm max-w-none dark:prose-invert">
+        <ReactMarkdown remarkPlugins={[remarkGfm]}>{text}</ReactMarkdown>
+      </div>
+    );
+  }
+
+  // Convert byte index to character index
+  // Gemini API returns UTF-8 byte indices, but JS strings use UTF-16 characters
+  const byteToCharIndex = (byteIndex: number): number => {
+    const encoder = new TextEncoder(); // UTF-8 encoder
+    let byteCount = 0;
+    for (let charIdx = 0; charIdx < text.length; charIdx++) {
+      if (byteCount >= byteIndex) {
+        return charIdx;
+      }
+      // Get UTF-8 byte length of this character
+      const char = text[charIdx];
+      if (char) {
+        byteCount += encoder.encode(char).length;
+      }
+    }
+    return text.length;
+  };
+
+  // Adjust start index to skip markdown block-level syntax characters
+  // This prevents highlight markers from breaking markdown parsing
+  const adjustStartIndexForMarkdown = (txt: string, charIndex: number): number => {
+    // Find the start of the line containing this position
+    let lineStart = charIndex;
+    while (lineStart > 0 && txt[lineStart - 1] !== '\n') {
+      lineStart--;
+    }
+
+    const lineContent = txt.slice(lineStart);
+
+    // Markdown block-level syntax patterns at line start
+    const patterns = [
+      /^(\*|-|\+)\s+/, // Unordered list: * , - , +
+      /^\d+\.\s+/, // Ordered list: 1. , 2.
+      /^#{1,6}\s+/, // Headings: # , ## , ...
+      /^>\s*/, // Blockquote: >
+    ];
+
+    for (const pattern of patterns) {
+      const match = lineContent.match(pattern);
+      if (match) {
+        const markerEnd = lineStart + match[0].length;
+        // If charIndex is within the markdown marker, move it past the marker
+        if (charIndex >= lineStart && charIndex < markerEnd) {
+          return markerEnd;
+        }
+      }
+    }
+
+    return charIndex;
+  };
+
+  // Adjust end index to avoid ending within markdown block-level syntax
+  const adjustEndIndexForMarkdown = (txt: string, charIndex: number): number => {
+    // Find the start of the line containing this position
+    let lineStart = charIndex;
+    while (lineStart > 0 && txt[lineStart - 1] !== '\n') {
+      lineStart--;
+    }
+
+    // If at line start, no adjustment needed
+    if (charIndex === lineStart) {
+      return charIndex;
+    }
+
+    const lineContent = txt.slice(lineStart);
+
+    const patterns = [/^(\*|-|\+)\s+/, /^\d+\.\s+/, /^#{1,6}\s+/, /^>\s*/];
+
+    for (const pattern of patterns) {
+      const match = lineContent.match(pattern);
+      if (match) {
+        const markerEnd = lineStart + match[0].length;
+        // If charIndex is within the markdown marker, move it to line start (before newline)
+        if (charIndex > lineStart && charIndex <= markerEnd) {
+          return lineStart > 0 ? lineStart : 0;
+        }
+      }
+    }
+
+    return charIndex;
+  };
+
+  // Sort supports by startIndex
+  const sortedSupports = [...supports].sort((a, b) => a.startIndex - b.startIndex);
+
+  // Build marked text by inserting HTML markers at support boundaries
+  // Use HTML tags that will be processed by rehype-raw
+  // Insert in reverse order to preserve positions
+  let markedText = text;
+  for (let i = sortedSupports.length - 1; i >= 0; i--) {
+    const support = sortedSupports[i];
+    if (!support) continue;
+    const uniqueIndices = [...new Set(support.chunkIndices)];
+    // Convert byte indices to character indices and adjust for markdown syntax
+    const rawStartIndex = byteToCharIndex(support.startIndex);
+    const rawEndIndex = byteToCharIndex(support.endIndex);
+    const charStartIndex = adjustStartIndexForMarkdown(markedText, rawStartIndex);
+    const charEndIndex = adjustEndIndexForMarkdown(markedText, rawEndIndex);
+
+    // Skip if adjusted range is invalid
+    if (charStartIndex >= charEndIndex) {
+      continue;
+    }
+
+    // Use HTML span tags with data attributes for citation markers
+    const startMarker = `<span data-cite-start="${i}" data-sources="${uniqueIndices.join(',')}"></span>`;
+    const endMarker = `<span data-cite-end="${i}"></span>`;
+    markedText =
+      markedText.slice(0, charStartIndex) +
+      startMarker +
+      markedText.slice(charStartIndex, charEndIndex) +
+      endMarker +
+      markedText.slice(charEndIndex);
+  }
+
+  // Render source badge with support text context
+  const renderSourceBadge = (sourceIndex: number, _supportIdx: number, keyPrefix: string) => {
+    const source = sources[sourceIndex];
+
+    return (
+      <Tooltip key={`${keyPrefix}-tooltip`}>
+        <TooltipTrigger asChild>
+          <button
+            onClick={(e) => {
+              e.preventDefault();
+              e.stopPropagation();
+              onSourceClick?.(sourceIndex);
+            }}
+            className="inline-flex items-center justify-center w-4 h-4 text-[9px] font-bold bg-primary text-primary-foreground rounded-full hover:bg-primary/80 transition-colors cursor-pointer align-super ml-0.5"
+          >
+            {sourceIndex + 1}
+          </button>
+        </TooltipTrigger>
+        <TooltipContent side="top" className="max-w-sm p-0 overflow-hidden">
+          <div className="bg-primary text-primary-foreground px-3 py-1.5 text-xs font-medium flex items-center gap-2">
+            <FileText className="h-3 w-3" />
+            {source?.title ?? 'Unknown source'}
+          </div>
+          {source?.text && (
+            <div className="px-3 py-2 text-xs text-popover-foreground line-clamp-3">
+              {source.text.slice(0, 150)}
+              {source.text.length > 150 ? '...' : ''}
+            </div>
+          )}
+          <div className="px-3 py-1.5 bg-muted/50 text-[10px] text-popover-foreground/70">
+            Click to view full source
+          </div>
+        </TooltipContent>
+      </Tooltip>
+    );
+  };
+
+  // Wrap content in citation highlight spans
+  // Process the rendered children to add highlighting around cited content
+  const wrapCitedContent = (
+    children: React.ReactNode,
+    renderBadge: typeof renderSourceBadge
+  ): React.ReactNode => {
+    if (!Array.isArray(children)) {
+      return children;
+    }
+
+    const result: React.ReactNode[] = [];
+    let currentCitation: { idx: string; sources: string[] } | null = null;
+    let citedContent: React.ReactNode[] = [];
+
+    const flushCitation = () => {
+      if (currentCitation && citedContent.length > 0) {
+        result.push(
+          <span
+            key={`cite-wrap-${currentCitation.idx}`}
+            className="bg-primary/10 border-b border-primary/30 rounded-sm px-0.5 -mx-0.5"
+          >
+            {citedContent}
+          </span>
+        );
+        citedContent = [];
+      }
+      currentCitation = null;
+    };
+
+    for (let i = 0; i < children.length; i++) {
+      const child = children[i];
+
+      // Check if it's a citation marker span
+      if (child && typeof child === 'object' && 'props' in child && child.props) {
+        const childProps = child.props as Record<string, string | undefined>;
+        if (childProps['data-cite-start'] !== undefined) {
+          // Start a new citation
+          flushCitation();
+          currentCitation = {
+            idx: childProps['data-cite-start'],
+            sources: childProps['data-sources']?.split(',') ?? [],
+          };
+          continue;
+        }
+        if (childProps['data-cite-end'] !== undefined) {
+          // End current citation and add badges
+          if (currentCitation) {
+            result.push(
+              <span
+                key={`cite-wrap-${currentCitation.idx}`}
+                className="bg-primary/10 border-b border-primary/30 rounded-sm px-0.5 -mx-0.5"
+              >
+                {citedContent}
+                {currentCitation.sources.map((sourceIndexStr, badgeIdx) => {
+                  const sourceIndex = parseInt(sourceIndexStr, 10);
+                  return renderBadge(
+                    sourceIndex,
+                    parseInt(currentCitation!.idx, 10),
+                    `s${currentCitation!.idx}-b${badgeIdx}`
+                  );
+                })}
+              </span>
+            );
+            citedContent = [];
+            currentCitation = null;
+          }
+          continue;
+        }
+      }
+
+      // Add to current citation or result
+      if (currentCitation) {
+        citedContent.push(child);
+      } else {
+        result.push(child);
+      }
+    }
+
+    // Flush any remaining citation
+    flushCitation();
+
+    return result;
+  };
+
+  // Create markdown components
+  const markdownComponents: Components = {
+    span: ({ children, ...props }) => {
+      const dataProps = props as Record<string, string | undefined>;
+      const citeStartIdx = dataProps['data-cite-start'];
+      const citeEndIdx = dataProps['data-cite-end'];
+
+      // Citation markers are handled by parent wrapper, just render them for detection
+      if (citeStartIdx !== undefined || citeEndIdx !== undefined) {
+        return <span {...props}>{children}</span>;
+      }
+
+      // Regular span
+      return <span {...props}>{children}</span>;
+    },
+    p: ({ children, ...props }) => (
+      <p {...props}>{wrapCitedContent(children, renderSourceBadge)}</p>
+    ),
+    li: ({ children, ...props }) => (
+      <li {...props}>{wrapCitedContent(children, renderSourceBadge)}</li>
+    ),
+    td: ({ children, ...props }) => (
+      <td {...props}>{wrapCitedContent(children, renderSourceBadge)}</td>
+    ),
+    th: ({ children, ...props }) => (
+      <th {...props}>{wrapCitedContent(children, renderSourceBadge)}</th>
+    ),
+    h1: ({ children, ...props }) => (
+      <h1 {...props}>{wrapCitedContent(children, renderSourceBadge)}</h1>
+    ),
+    h2: ({ children, ...props }) => (
+      <h2 {...props}>{wrapCitedContent(children, renderSourceBadge)}</h2>
+    ),
+    h3: ({ children, ...props }) => (
+      <h3 {...props}>{wrapCitedContent(children, renderSourceBadge)}</h3>
+    ),
+    h4: ({ children, ...props }) => (
+      <h4 {...props}>{wrapCitedContent(children, renderSourceBadge)}</h4>
+    ),
+    blockquote: ({ children, ...props }) => (
+      <blockquote {...props}>{wrapCitedContent(children, renderSourceBadge)}</blockquote>
+    ),
+  };
+
+  return (
+    <TooltipProvider delayDuration={300}>
+      <div className="prose prose-sm max-w-none dark:prose-invert">
+        <ReactMarkdown
+          remarkPlugins={[remarkGfm]}
+          rehypePlugins={[rehypeRaw]}
+          components={markdownComponents}
+        >
+          {markedText}
+        </ReactMarkdown>
+      </div>
+    </TooltipProvider>
+  );
+}
@@ -0,0 +1,181 @@
+import { useMemo, useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import type { FileSearchStoreFile } from '@/types/api';
+
+interface MetadataKey {
+  key: string;
+  type: 'string' | 'number';
+  values: string[];
+}
+
+const STRING_OPERATORS = ['=', '!='];
+const NUMBER_OPERATORS = ['=', '!=', '<', '<=', '>', '>='];
+
+// Collect metadata keys (with type and sample values) present in the store's files
+function collectMetadataKeys(files: FileSearchStoreFile[]): MetadataKey[] {
+  const keys = new Map<string, MetadataKey>();
+  for (const file of files) {
+    for (const m of file.metadata ?? []) {
+      const type = m.numericValue !== undefined ? 'number' : 'string';
+      const value = m.numericValue !== undefined ? String(m.numericValue) : (m.stringValue ?? '');
+      const entry = keys.get(m.key) ?? { key: m.key, type, values: [] };
+      if (!entry.values.includes(value)) entry.values.push(value);
+      keys.set(m.key, entry);
+    }
+  }
+  return [...keys.values()].sort((a, b) => a.key.localeCompare(b.key));
+}
+
+function buildClause(key: MetadataKey, operator: string, value: string): string {
+  if (key.type === 'number') {
+    return `${key.key} ${operator} ${Number(value)}`;
+  }
+  return `${key.key} ${operator} "${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
+
+interface MetadataFilterBuilderProps {
+  files: FileSearchStoreFile[];
+  value: string;
+  onChange: (value: string) => void;
+}
+
+export function MetadataFilterBuilder({ files, value, onChange }: MetadataFilterBuilderProps) {
+  const metadataKeys = useMemo(() => collectMetadataKeys(files), [files]);
+  const [selectedKey, setSelectedKey] = useState('');
+  const [operator, setOperator] = useState('=');
+  const [clauseValue, setClauseValue] = useState('');
+
+  const keyInfo = metadataKeys.find((k) => k.key === selectedKey);
+  const operators = keyInfo?.type === 'number' ? NUMBER_OPERATORS : STRING_OPERATORS;
+  const valueInvalid =
+    !clauseValue.trim() || (keyInfo?.type === 'number' && !Number.isFinite(Number(clauseValue)));
+
+  const handleAddClause = () => {
+    if (!keyInfo || valueInvalid) return;
+    const clause = buildClause(keyInfo, operator, clauseValue.trim());
+    onChange(value.trim() ? `${value.trim()} AND ${clause}` : clause);
+    setClauseValue('');
+  };
+
+  return (
+    <div className="space-y-3">
+      {metadataKeys.length === 0 ? (
+        <p className="text-xs text-muted-foreground" role="status">
+          No metadata found in this store. Add metadata when uploading files to filter by it.
+        </p>
+      ) : (
+        <div className="space-y-2">
+          <Label className="text-xs font-medium">Add condition</Label>
+          <div className="flex gap-2">
+            <Select
+              value={selectedKey}
+              onValueChange={(key) => {
+                setSelectedKey(key);
+                setOperator('=');
+                setClauseValue('');
+              }}
+            >
+              <SelectTrigger className="h-8 text-xs flex-1" aria-label="Metadata key">
+                <SelectValue placeholder="Key" />
+              </SelectTrigger>
+              <SelectContent>
+                {metadataKeys.map((k) => (
+                  <SelectItem key={k.key} value={k.key} className="text-xs">
+                    {k.key}
+                    <span className="text-muted-foreground ml-1">({k.type})</span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={operator} onValueChange={setOperator} disabled={!keyInfo}>
+              <SelectTrigger className="h-8 w-16 text-xs" aria-label="Operator">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {operators.map((op) => (
+                  <SelectItem key={op} value={op} className="text-xs font-mono">
+                    {op}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex gap-2">
+            <Input
+              list="metadata-filter-values"
+              placeholder={keyInfo ? `Value (${keyInfo.type})` : 'Value'}
+              value={clauseValue}
+              onChange={(e) => setClauseValue(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleAddClause();
+                }
+              }}
+              disabled={!keyInfo}
+              className="h-8 text-xs"
+              aria-label="Metadata value"
+            />
+            <datalist id="metadata-filter-values">
+              {keyInfo?.values.map((v) => (
+                <option key={v} value={v} />
+              ))}
+            </datalist>
+            <Button
+              size="sm"
+              className="h-8 px-3"
+              onClick={handleAddClause}
+              disabled={!keyInfo || valueInvalid}
+              aria-label="Add condition to filter"
+            >
+              <Plus className="h-3 w-3 mr-1" aria-hidden="true" />
+              Add
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="metadata-filter" className="text-xs font-medium">
+            Filter expression
+          </Label>
+          {value && (
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-6 w-6"
+              onClick={() => onChange('')}
+              aria-label="Clear filter"
+            >
+              <X className="h-3 w-3" aria-hidden="true" />
+            </Button>
+          )}
+        </div>
+        <Textarea
+          id="metadata-filter"
+          placeholder='team = "billing" AND version >= 3'
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          rows={3}
+          className="text-xs font-mono resize-none"
+          aria-describedby="metadata-filter-hint"
+        />
+        <p id="metadata-filter-hint" className="text-[10px] text-muted-foreground">
+          Only documents matching this expression are retrieved. Combine conditions with AND / OR.
+        </p>
+      </div>
+    </div>
+  );
+}
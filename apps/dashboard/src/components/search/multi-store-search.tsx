@@ -0,0 +1,93 @@
+import { useSearchParams } from 'react-router-dom';
+import { Check, Database, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { useStores } from '@/hooks/use-stores';
+import { SearchPanel } from './search-panel';
+
+// Selected store IDs are kept in the URL (?stores=a,b) so the view can be shared
+function parseStoreIds(value: string | null): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((id) => id.trim())
+    .filter(Boolean);
+}
+
+export function MultiStoreSearch() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { data: stores, isLoading, error } = useStores();
+
+  const selectedIds = parseStoreIds(searchParams.get('stores'));
+  const storeNames = selectedIds.map((id) => `fileSearchStores/${id}`);
+
+  const setSelectedIds = (ids: string[]) => {
+    setSearchParams(ids.length ? { stores: ids.join(',') } : {}, { replace: true });
+  };
+
+  const toggleStore = (id: string) => {
+    setSelectedIds(
+      selectedIds.includes(id) ? selectedIds.filter((s) => s !== id) : [...selectedIds, id]
+    );
+  };
+
+  const allIds = stores?.map((store) => store.name.replace('fileSearchStores/', '')) ?? [];
+  const allSelected = allIds.length > 0 && allIds.every((id) => selectedIds.includes(id));
+
+  return (
+    <div className="space-y-4">
+      <section className="space-y-2" aria-labelledby="multi-store-heading">
+        <div className="flex items-center justify-between">
+          <h2
+            id="multi-store-heading"
+            className="text-xs font-medium text-muted-foreground uppercase tracking-wide"
+          >
+            Search across stores
+          </h2>
+          {allIds.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 text-xs"
+              onClick={() => setSelectedIds(allSelected ? [] : allIds)}
+            >
+              {allSelected ? 'Clear' : 'Select all'}
+            </Button>
+          )}
+        </div>
+
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : error ? (
+          <p className="text-sm text-destructive">Failed to load stores: {error.message}</p>
+        ) : !stores?.length ? (
+          <p className="text-xs text-muted-foreground">No stores yet</p>
+        ) : (
+          <div className="flex flex-wrap gap-1.5" role="group" aria-label="Stores to search">
+            {stores.map((store) => {
+              const id = store.name.replace('fileSearchStores/', '');
+              const isSelected = selectedIds.includes(id);
+              return (
+                <Button
+                  key={store.name}
+                  variant={isSelected ? 'default' : 'outline'}
+                  size="sm"
+                  className="h-7 gap-1.5 text-xs"
+                  aria-pressed={isSelected}
+                  onClick={() => toggleStore(id)}
+                >
+                  {isSelected ? (
+                    <Check className="h-3 w-3" aria-hidden="true" />
+                  ) : (
+                    <Database className="h-3 w-3" aria-hidden="true" />
+                  )}
+                  {store.displayName}
+                </Button>
+              );
+            })}
+          </div>
+        )}
+      </section>
+
+      <SearchPanel storeNames={storeNames} />
+    </div>
+  );
+}
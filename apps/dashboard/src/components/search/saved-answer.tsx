@@ -0,0 +1,225 @@
+import { useState, useCallback } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import {
+  ArrowLeft,
+  Check,
+  Link2,
+  Loader2,
+  MessageSquare,
+  Pin,
+  PinOff,
+  RefreshCw,
+  Trash2,
+} from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { useAccess } from '@/hooks/use-access';
+import { useSearch } from '@/hooks/use-search';
+import {
+  useSearchHistoryEntry,
+  usePinSearchHistoryEntry,
+  useDeleteSearchHistoryEntry,
+} from '@/hooks/use-search-history';
+import { useStores } from '@/hooks/use-stores';
+import { CitedAnswer } from './cited-answer';
+import { SourceList } from './source-list';
+
+// Permalink of a recorded answer, shown under the given store
+export function answerPath(storeName: string, answerId: string): string {
+  return `/stores/${storeName.replace('fileSearchStores/', '')}/answers/${answerId}`;
+}
+
+interface SavedAnswerProps {
+  storeId: string;
+  answerId: string;
+}
+
+// A past search reopened from history: its answer, sources and settings
+export function SavedAnswer({ storeId, answerId }: SavedAnswerProps) {
+  const navigate = useNavigate();
+  const { data: entry, isLoading, error } = useSearchHistoryEntry(answerId);
+  const { data: stores } = useStores();
+  const pinEntry = usePinSearchHistoryEntry();
+  const deleteEntry = useDeleteSearchHistoryEntry();
+  const rerun = useSearch();
+  const { can } = useAccess();
+  const [expandedSource, setExpandedSource] = useState<number | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const searchPath = `/stores/${storeId}?tab=search`;
+
+  const getStoreLabel = (storeName: string) =>
+    stores?.find((store) => store.name === storeName)?.displayName ??
+    storeName.replace('fileSearchStores/', '');
+
+  const scrollToSource = useCallback((index: number) => {
+    setExpandedSource(index);
+    document.getElementById('sources-section')?.scrollIntoView({ behavior: 'smooth' });
+  }, []);
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(window.location.href).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  };
+
+  // Run the same query with the same settings; the new answer gets its own permalink
+  const handleRerun = () => {
+    if (!entry) return;
+    rerun.mutate(
+      { storeNames: entry.storeNames, query: entry.query, ...entry.settings },
+      {
+        onSuccess: (data) => {
+          if (data.historyId) navigate(answerPath(storeId, data.historyId));
+        },
+      }
+    );
+  };
+
+  const handleDelete = () => {
+    deleteEntry.mutate(answerId, {
+      onSuccess: () => navigate(searchPath, { replace: true }),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (error || !entry) {
+    return (
+      <div className="space-y-3">
+        <Button asChild variant="ghost" size="sm" className="h-7 gap-1.5 text-xs">
+          <Link to={searchPath}>
+            <ArrowLeft className="h-3.5 w-3.5" aria-hidden="true" />
+            Back to search
+          </Link>
+        </Button>
+        <p className="text-sm text-destructive">{error?.message ?? 'Answer not found'}</p>
+      </div>
+    );
+  }
+
+  const isMultiStore = entry.storeNames.length > 1;
+  const actionError = rerun.error ?? pinEntry.error ?? deleteEntry.error;
+
+  return (
+    <article className="space-y-4" aria-labelledby="saved-answer-query">
+      <div className="flex items-center gap-2">
+        <Button asChild variant="ghost" size="sm" className="h-7 gap-1.5 text-xs">
+          <Link to={searchPath}>
+            <ArrowLeft className="h-3.5 w-3.5" aria-hidden="true" />
+            Back to search
+          </Link>
+        </Button>
+        <div className="ml-auto flex items-center gap-1">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1.5 text-xs"
+            onClick={() => pinEntry.mutate({ id: entry.id, pinned: !entry.pinned })}
+            disabled={pinEntry.isPending}
+            aria-pressed={entry.pinned}
+          >
+            {entry.pinned ? (
+              <PinOff className="h-3.5 w-3.5" aria-hidden="true" />
+            ) : (
+              <Pin className="h-3.5 w-3.5" aria-hidden="true" />
+            )}
+            {entry.pinned ? 'Unpin' : 'Pin'}
+          </Button>
+          <Button variant="ghost" size="sm" className="h-7 gap-1.5 text-xs" onClick={copyLink}>
+            {copied ? (
+              <Check className="h-3.5 w-3.5" aria-hidden="true" />
+            ) : (
+              <Link2 className="h-3.5 w-3.5" aria-hidden="true" />
+            )}
+            {copied ? 'Copied' : 'Copy link'}
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 gap-1.5 text-xs"
+            onClick={handleRerun}
+            disabled={rerun.isPending}
+          >
+            <RefreshCw
+              className={`h-3.5 w-3.5 ${rerun.isPending ? 'animate-spin' : ''}`}
+              aria-hidden="true"
+            />
+            Re-run
+          </Button>
+          {entry.storeNames.every((storeName) => can('editor', storeName)) && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 gap-1.5 text-xs text-muted-foreground hover:text-destructive"
+              onClick={handleDelete}
+              disabled={deleteEntry.isPending}
+            >
+              <Trash2 className="h-3.5 w-3.5" aria-hidden="true" />
+              Delete
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {actionError && (
+        <p className="text-sm text-destructive" role="alert">
+          {actionError.message}
+        </p>
+      )}
+
+      <div className="space-y-1">
+        <h2 id="saved-answer-query" className="text-lg font-semibold">
+          {entry.query}
+        </h2>
+        <p className="text-xs text-muted-foreground">
+          {new Date(entry.createTime).toLocaleString()} · {entry.model} ·{' '}
+          {(entry.latencyMs / 1000).toFixed(1)}s
+          {isMultiStore && <> · {entry.storeNames.map(getStoreLabel).join(', ')}</>}
+        </p>
+        {entry.settings.metadataFilter && (
+          <p className="text-xs text-muted-foreground">
+            Filter: <code className="text-[11px]">{entry.settings.metadataFilter}</code>
+          </p>
+        )}
+      </div>
+
+      <Card>
+        <CardHeader className="pb-2">
+          <div className="flex items-center gap-2">
+            <MessageSquare className="h-5 w-5 text-primary" />
+            <CardTitle className="text-base">Response</CardTitle>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <CitedAnswer
+            text={entry.answer}
+            sources={entry.sources}
+            supports={entry.supports}
+            onSourceClick={scrollToSource}
+          />
+        </CardContent>
+      </Card>
+
+      <SourceList
+        sources={entry.sources}
+        supports={entry.supports}
+        expandedSource={expandedSource}
+        onExpandedSourceChange={setExpandedSource}
+        getStoreLabel={
+          isMultiStore
+            ? (source) =>
+                source.fileSearchStore ? getStoreLabel(source.fileSearchStore) : undefined
+            : undefined
+        }
+      />
+    </article>
+  );
+}
@@ -0,0 +1,119 @@
+import { useEffect, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { History, Loader2, Pin } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useSearchHistory, usePinSearchHistoryEntry } from '@/hooks/use-search-history';
+import { answerPath } from './saved-answer';
+
+interface SearchHistoryProps {
+  storeName: string;
+  // Entry currently open, highlighted in the list
+  activeId?: string;
+}
+
+function formatTime(dateString: string): string {
+  return new Date(dateString).toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+// Past searches on a store, newest first; each opens its saved answer
+export function SearchHistory({ storeName, activeId }: SearchHistoryProps) {
+  const [filter, setFilter] = useState('');
+  const [query, setQuery] = useState('');
+  const [pinnedOnly, setPinnedOnly] = useState(false);
+  const pinEntry = usePinSearchHistoryEntry();
+
+  // Wait for typing to pause before filtering on the server
+  useEffect(() => {
+    const timer = setTimeout(() => setQuery(filter.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [filter]);
+
+  const { data, isLoading, error } = useSearchHistory({
+    storeName,
+    q: query || undefined,
+    pinned: pinnedOnly || undefined,
+  });
+  const entries = data?.entries ?? [];
+
+  return (
+    <section className="space-y-2" aria-labelledby="search-history-heading">
+      <div className="flex items-center justify-between">
+        <h2
+          id="search-history-heading"
+          className="flex items-center gap-1.5 text-xs font-medium text-muted-foreground uppercase tracking-wide"
+        >
+          <History className="h-3.5 w-3.5" aria-hidden="true" />
+          History
+        </h2>
+        <Button
+          variant={pinnedOnly ? 'secondary' : 'ghost'}
+          size="sm"
+          className="h-6 gap-1 text-xs"
+          onClick={() => setPinnedOnly((prev) => !prev)}
+          aria-pressed={pinnedOnly}
+        >
+          <Pin className="h-3 w-3" aria-hidden="true" />
+          Pinned
+        </Button>
+      </div>
+
+      <Input
+        placeholder="Filter questions..."
+        value={filter}
+        onChange={(e) => setFilter(e.target.value)}
+        className="h-7 text-xs"
+        aria-label="Filter search history"
+      />
+
+      {isLoading ? (
+        <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+      ) : error ? (
+        <p className="text-xs text-destructive">Failed to load history: {error.message}</p>
+      ) : entries.length === 0 ? (
+        <p className="text-xs text-muted-foreground py-4 text-center" role="status">
+          {query || pinnedOnly ? 'No matching searches' : 'No searches yet'}
+        </p>
+      ) : (
+        <ul className="space-y-0.5" aria-labelledby="search-history-heading">
+          {entries.map((entry) => (
+            <li
+              key={entry.id}
+              className={`group flex items-start gap-1 rounded-md px-2 py-1.5 hover:bg-muted focus-within:bg-muted ${entry.id === activeId ? 'bg-muted' : ''}`}
+            >
+              <Link
+                to={answerPath(storeName, entry.id)}
+                className="flex-1 min-w-0 focus:outline-none"
+                aria-current={entry.id === activeId ? 'page' : undefined}
+              >
+                <span className="block truncate text-xs">{entry.query}</span>
+                <span className="block text-[10px] text-muted-foreground">
+                  {formatTime(entry.createTime)}
+                  {entry.storeNames.length > 1 && ` · ${entry.storeNames.length} stores`}
+                </span>
+              </Link>
+              <Button
+                variant="ghost"
+                size="icon"
+                className={`h-5 w-5 shrink-0 ${entry.pinned ? '' : 'opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 focus:opacity-100'}`}
+                onClick={() => pinEntry.mutate({ id: entry.id, pinned: !entry.pinned })}
+                aria-pressed={entry.pinned}
+                aria-label={entry.pinned ? `Unpin "${entry.query}"` : `Pin "${entry.query}"`}
+              >
+                <Pin
+                  className={`h-3 w-3 ${entry.pinned ? 'fill-primary text-primary' : 'text-muted-foreground'}`}
+                  aria-hidden="true"
+                />
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </section>
+  );
+}
@@ -3,24 +3,26 @@ import {
   Search,
   Loader2,
   MessageSquare,
-  FileText,
   Settings2,
   Save,
   Trash2,
   RotateCcw,
-  Quote,
   Keyboard,
   Sparkles,
   BookmarkPlus,
+  Filter,
+  Zap,
+  Star,
+  Upload,
+  Link2,
 } from 'lucide-react';
-import ReactMarkdown, { Components } from 'react-markdown';
+import { Link } from 'react-router-dom';
+import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import rehypeRaw from 'rehype-raw';
 import { Button } from '@/components/ui/button';
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { ScrollArea } from '@/components/ui/scroll-area';
 import { Textarea } from '@/components/ui/textarea';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
@@ -32,144 +34,86 @@ import {
 } from '@/components/ui/select';
 import { Slider } from '@/components/ui/slider';
 import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
-import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { useSearch } from '@/hooks/use-search';
+import { useSearch, useSearchStream } from '@/hooks/use-search';
+import { useFilesForStores } from '@/hooks/use-files';
+import { useStores } from '@/hooks/use-stores';
+import { useAccess } from '@/hooks/use-access';
 import { useSearchPresets, AVAILABLE_MODELS } from '@/hooks/use-search-presets';
-import type { SearchResponse, GroundingSource, GroundingSupport } from '@/types/api';
+import type { SearchResponse } from '@/types/api';
+import { MetadataFilterBuilder } from './metadata-filter-builder';
+import { CitedAnswer } from './cited-answer';
+import { SourceList } from './source-list';
+import { answerPath } from './saved-answer';
 
-interface SearchPanelProps {
-  storeName: string | null;
-}
-
-function SourceCard({
-  index,
-  source,
-  isExpanded,
-  onToggle,
-  isCited,
-  citedTexts,
-  onNavigate,
-  totalSources,
-}: {
-  index: number;
-  source: GroundingSource;
-  isExpanded: boolean;
-  onToggle: () => void;
-  isCited: boolean;
-  citedTexts: string[];
-  onNavigate?: (direction: 'prev' | 'next' | 'first' | 'last') => void;
-  totalSources: number;
-}) {
-  // Extract first meaningful line as preview
-  const preview = source.text.split('\n').find((line) => line.trim().length > 0) || '';
+const STREAMING_STORAGE_KEY = 'gemindex-search-streaming';
 
-  const handleKeyDown = (e: React.KeyboardEvent) => {
-    switch (e.key) {
-      case 'Enter':
-      case ' ':
-        e.preventDefault();
-        onToggle();
-        break;
-      case 'ArrowDown':
-        e.preventDefault();
-        onNavigate?.('next');
-        break;
-      case 'ArrowUp':
-        e.preventDefault();
-        onNavigate?.('prev');
-        break;
-      case 'Home':
-        e.preventDefault();
-        onNavigate?.('first');
-        break;
-      case 'End':
-        e.preventDefault();
-        onNavigate?.('last');
-        break;
-    }
-  };
-
-  return (
-    <Card
-      role="button"
-      tabIndex={0}
-      aria-expanded={isExpanded}
-      aria-label={`Source ${index + 1} of ${totalSources}: ${source.title}${isCited ? '' : ' (not cited)'}${isExpanded ? ', expanded' : ', collapsed'}`}
-      className={`cursor-pointer transition-all focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 ${isExpanded ? 'ring-2 ring-primary' : 'hover:bg-muted/50'} ${!isCited ? 'opacity-50' : ''}`}
-      onClick={onToggle}
-      onKeyDown={handleKeyDown}
-    >
-      <CardHeader className="p-3 pb-2">
-        <div className="flex items-start gap-2">
-          <span
-            className={`flex items-center justify-center w-5 h-5 text-[10px] font-medium rounded-full flex-shrink-0 ${isCited ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground'}`}
-            aria-hidden="true"
-          >
-            {index + 1}
-          </span>
-          <div className="min-w-0 flex-1">
-            <CardTitle className="text-sm font-medium truncate">
-              {source.title}
-              {!isCited && <span className="text-xs text-muted-foreground ml-2">(not cited)</span>}
-            </CardTitle>
-            {!isExpanded && (
-              <CardDescription className="text-xs mt-1 line-clamp-2">{preview}</CardDescription>
-            )}
-          </div>
-          <FileText className="h-4 w-4 text-muted-foreground flex-shrink-0" aria-hidden="true" />
-        </div>
-      </CardHeader>
-      {isExpanded && (
-        <CardContent className="p-3 pt-0 space-y-3">
-          {/* Cited texts from supports */}
-          {citedTexts.length > 0 && (
-            <div className="space-y-2">
-              <div className="flex items-center gap-1.5 text-xs font-medium text-primary">
-                <Quote className="h-3 w-3" aria-hidden="true" />
-                Cited in response ({citedTexts.length})
-              </div>
-              <div className="space-y-1.5" role="list" aria-label="Cited texts">
-                {citedTexts.map((text, i) => (
-                  <div
-                    key={i}
-                    role="listitem"
-                    className="text-xs bg-primary/5 border-l-2 border-primary/30 pl-2 py-1 rounded-r"
-                  >
-                    {`"${text}"`}
-                  </div>
-                ))}
-              </div>
-            </div>
-          )}
-          {/* Source chunk text */}
-          <div className="space-y-1.5">
-            <div className="text-xs font-medium text-muted-foreground">Source chunk</div>
-            <ScrollArea className="h-40">
-              <div className="text-xs text-muted-foreground whitespace-pre-wrap pr-4">
-                {source.text}
-              </div>
-            </ScrollArea>
-          </div>
-        </CardContent>
-      )}
-    </Card>
-  );
+interface SearchPanelProps {
+  // Stores to search; more than one searches across all of them in one query
+  storeNames: string[];
 }
 
-export function SearchPanel({ storeName }: SearchPanelProps) {
+export function SearchPanel({ storeNames }: SearchPanelProps) {
   const [query, setQuery] = useState('');
   const [result, setResult] = useState<SearchResponse | null>(null);
   const [expandedSource, setExpandedSource] = useState<number | null>(null);
   const [settingsOpen, setSettingsOpen] = useState(false);
   const [presetName, setPresetName] = useState('');
   const [showShortcuts, setShowShortcuts] = useState(false);
+  const [filterOpen, setFilterOpen] = useState(false);
+  const [metadataFilter, setMetadataFilter] = useState('');
+  // Stream answers progressively unless the user turned it off
+  const [streaming, setStreaming] = useState(
+    () => localStorage.getItem(STREAMING_STORAGE_KEY) !== 'false'
+  );
 
   const searchInputRef = useRef<HTMLInputElement>(null);
   const sourceCardsRef = useRef<HTMLDivElement>(null);
 
-  const search = useSearch();
-  const { presets, settings, setSettings, resetSettings, savePreset, loadPreset, deletePreset } =
-    useSearchPresets();
+  const blockingSearch = useSearch();
+  const streamSearch = useSearchStream();
+  const search = streaming ? streamSearch : blockingSearch;
+  const isStreamingAnswer = streaming && streamSearch.isPending;
+  const files = useFilesForStores(storeNames);
+  const { data: stores } = useStores();
+  const isMultiStore = storeNames.length > 1;
+
+  // Label sources with their store's display name when searching several stores
+  const getStoreLabel = (storeName: string) =>
+    stores?.find((store) => store.name === storeName)?.displayName ??
+    storeName.replace('fileSearchStores/', '');
+  const {
+    presets,
+    settings,
+    setSettings,
+    resetSettings,
+    savePreset,
+    loadPreset,
+    applyPreset,
+    deletePreset,
+    setStoreDefault,
+    legacyPresets,
+    importLegacyPresets,
+    discardLegacyPresets,
+    isImporting,
+    error: presetsError,
+  } = useSearchPresets();
+  const { can, canOnAnyStore } = useAccess();
+  // Presets are shared by every team; editors of any store may change them
+  const canManagePresets = canOnAnyStore('editor');
+
+  // A store's default preset only applies when searching that store alone
+  const defaultStore = storeNames.length === 1 ? storeNames[0] : undefined;
+  const defaultPreset = defaultStore
+    ? presets.find((preset) => preset.defaultForStores.includes(defaultStore))
+    : undefined;
+
+  // Start from the store's default preset when a store is opened
+  const appliedDefaultForStore = useRef<string | undefined>(undefined);
+  useEffect(() => {
+    if (!defaultStore || !defaultPreset || appliedDefaultForStore.current === defaultStore) return;
+    appliedDefaultForStore.current = defaultStore;
+    applyPreset(defaultPreset);
+  }, [defaultStore, defaultPreset, applyPreset]);
 
   // Global keyboard shortcuts for search panel
   useEffect(() => {
@@ -186,7 +130,7 @@ export function SearchPanel({ storeName }: SearchPanelProps) {
         document.activeElement === searchInputRef.current
       ) {
         e.preventDefault();
-        if (query.trim() && storeName) {
+        if (query.trim() && storeNames.length > 0) {
           const form = searchInputRef.current?.closest('form');
           form?.requestSubmit();
         }
@@ -235,7 +179,7 @@ export function SearchPanel({ storeName }: SearchPanelProps) {
 
     window.addEventListener('keydown', handleGlobalKeyDown);
     return () => window.removeEventListener('keydown', handleGlobalKeyDown);
-  }, [query, storeName, settingsOpen, result, expandedSource]);
+  }, [query, storeNames.length, settingsOpen, result, expandedSource]);
 
   // Focus search input when component mounts or becomes visible
   useEffect(() => {
@@ -248,19 +192,21 @@ export function SearchPanel({ storeName }: SearchPanelProps) {
 
   const handleSearch = (e: React.FormEvent) => {
     e.preventDefault();
-    if (!storeName || !query.trim()) return;
+    if (storeNames.length === 0 || !query.trim()) return;
 
     setExpandedSource(null);
     search.mutate(
       {
-        storeName,
+        storeNames,
         query: query.trim(),
-        systemPrompt: settings.systemPrompt || undefined,
+        // Sent even when empty so a store default preset cannot bring its prompt back
+        systemPrompt: settings.systemPrompt,
         model: settings.model || undefined,
         temperature: settings.temperature,
         topP: settings.topP,
         topK: settings.topK,
         maxOutputTokens: settings.maxOutputTokens,
+        metadataFilter: metadataFilter.trim() || undefined,
       },
       {
         onSuccess: (data) => {
@@ -270,10 +216,16 @@ export function SearchPanel({ storeName }: SearchPanelProps) {
     );
   };
 
+  const toggleStreaming = () => {
+    setStreaming((prev) => {
+      localStorage.setItem(STREAMING_STORAGE_KEY, String(!prev));
+      return !prev;
+    });
+  };
+
   const handleSavePreset = () => {
     if (!presetName.trim()) return;
-    savePreset(presetName.trim());
-    setPresetName('');
+    savePreset(presetName.trim(), () => setPresetName(''));
   };
 
   const scrollToSource = useCallback((index: number) => {
@@ -282,353 +234,17 @@ export function SearchPanel({ storeName }: SearchPanelProps) {
     document.getElementById('sources-section')?.scrollIntoView({ behavior: 'smooth' });
   }, []);
 
-  // Navigate between source cards
-  const handleSourceNavigate = useCallback(
-    (currentIndex: number, direction: 'prev' | 'next' | 'first' | 'last') => {
-      if (!result?.sources.length) return;
-      let newIndex: number;
-      switch (direction) {
-        case 'prev':
-          newIndex = Math.max(0, currentIndex - 1);
-          break;
-        case 'next':
-          newIndex = Math.min(result.sources.length - 1, currentIndex + 1);
-          break;
-        case 'first':
-          newIndex = 0;
-          break;
-        case 'last':
-          newIndex = result.sources.length - 1;
-          break;
-      }
-      setTimeout(() => {
-        const cards = sourceCardsRef.current?.querySelectorAll('[role="button"]');
-        (cards?.[newIndex] as HTMLElement)?.focus();
-      }, 0);
-    },
-    [result]
-  );
-
-  if (!storeName) {
+  if (storeNames.length === 0) {
     return (
       <Card>
         <CardContent className="flex flex-col items-center justify-center py-12">
           <Search className="h-12 w-12 text-muted-foreground mb-4" />
-          <p className="text-muted-foreground">Select a store to search</p>
+          <p className="text-muted-foreground">Select one or more stores to search</p>
         </CardContent>
       </Card>
     );
   }
 
-  // Render text with inline source citations
-  const renderTextWithSources = (
-    text: string,
-    sources: GroundingSource[],
-    supports: GroundingSupport[]
-  ) => {
-    if (!supports.length) {
-      return (
-        <div className="prose prose-sm max-w-none dark:prose-invert">
-          <ReactMarkdown remarkPlugins={[remarkGfm]}>{text}</ReactMarkdown>
-        </div>
-      );
-    }
-
-    // Convert byte index to character index
-    // Gemini API returns UTF-8 byte indices, but JS strings use UTF-16 characters
-    const byteToCharIndex = (byteIndex: number): number => {
-      const encoder = new TextEncoder(); // UTF-8 encoder
-      let byteCount = 0;
-      for (let charIdx = 0; charIdx < text.length; charIdx++) {
-        if (byteCount >= byteIndex) {
-          return charIdx;
-        }
-        // Get UTF-8 byte length of this character
-        const char = text[charIdx];
-        if (char) {
-          byteCount += encoder.encode(char).length;
-        }
-      }
-      return text.length;
-    };
-
-    // Adjust start index to skip markdown block-level syntax characters
-    // This prevents highlight markers from breaking markdown parsing
-    const adjustStartIndexForMarkdown = (txt: string, charIndex: number): number => {
-      // Find the start of the line containing this position
-      let lineStart = charIndex;
-      while (lineStart > 0 && txt[lineStart - 1] !== '\n') {
-        lineStart--;
-      }
-
-      const lineContent = txt.slice(lineStart);
-
-      // Markdown block-level syntax patterns at line start
-      const patterns = [
-        /^(\*|-|\+)\s+/, // Unordered list: * , - , +
-        /^\d+\.\s+/, // Ordered list: 1. , 2.
-        /^#{1,6}\s+/, // Headings: # , ## , ...
-        /^>\s*/, // Blockquote: >
-      ];
-
-      for (const pattern of patterns) {
-        const match = lineContent.match(pattern);
-        if (match) {
-          const markerEnd = lineStart + match[0].length;
-          // If charIndex is within the markdown marker, move it past the marker
-          if (charIndex >= lineStart && charIndex < markerEnd) {
-            return markerEnd;
-          }
-        }
-      }
-
-      return charIndex;
-    };
-
-    // Adjust end index to avoid ending within markdown block-level syntax
-    const adjustEndIndexForMarkdown = (txt: string, charIndex: number): number => {
-      // Find the start of the line containing this position
-      let lineStart = charIndex;
-      while (lineStart > 0 && txt[lineStart - 1] !== '\n') {
-        lineStart--;
-      }
-
-      // If at line start, no adjustment needed
-      if (charIndex === lineStart) {
-        return charIndex;
-      }
-
-      const lineContent = txt.slice(lineStart);
-
-      const patterns = [/^(\*|-|\+)\s+/, /^\d+\.\s+/, /^#{1,6}\s+/, /^>\s*/];
-
-      for (const pattern of patterns) {
-        const match = lineContent.match(pattern);
-        if (match) {
-          const markerEnd = lineStart + match[0].length;
-          // If charIndex is within the markdown marker, move it to line start (before newline)
-          if (charIndex > lineStart && charIndex <= markerEnd) {
-            return lineStart > 0 ? lineStart : 0;
-          }
-        }
-      }
-
-      return charIndex;
-    };
-
-    // Sort supports by startIndex
-    const sortedSupports = [...supports].sort((a, b) => a.startIndex - b.startIndex);
-
-    // Build marked text by inserting HTML markers at support boundaries
-    // Use HTML tags that will be processed by rehype-raw
-    // Insert in reverse order to preserve positions
-    let markedText = text;
-    for (let i = sortedSupports.length - 1; i >= 0; i--) {
-      const support = sortedSupports[i];
-      if (!support) continue;
-      const uniqueIndices = [...new Set(support.chunkIndices)];
-      // Convert byte indices to character indices and adjust for markdown syntax
-      const rawStartIndex = byteToCharIndex(support.startIndex);
-      const rawEndIndex = byteToCharIndex(support.endIndex);
-      const charStartIndex = adjustStartIndexForMarkdown(markedText, rawStartIndex);
-      const charEndIndex = adjustEndIndexForMarkdown(markedText, rawEndIndex);
-
-      // Skip if adjusted range is invalid
-      if (charStartIndex >= charEndIndex) {
-        continue;
-      }
-
-      // Use HTML span tags with data attributes for citation markers
-      const startMarker = `<span data-cite-start="${i}" data-sources="${uniqueIndices.join(',')}"></span>`;
-      const endMarker = `<span data-cite-end="${i}"></span>`;
-      markedText =
-        markedText.slice(0, charStartIndex) +
-        startMarker +
-        markedText.slice(charStartIndex, charEndIndex) +
-        endMarker +
-        markedText.slice(charEndIndex);
-    }
-
-    // Render source badge with support text context
-    const renderSourceBadge = (sourceIndex: number, _supportIdx: number, keyPrefix: string) => {
-      const source = sources[sourceIndex];
-
-      return (
-        <Tooltip key={`${keyPrefix}-tooltip`}>
-          <TooltipTrigger asChild>
-            <button
-              onClick={(e) => {
-                e.preventDefault();
-                e.stopPropagation();
-                scrollToSource(sourceIndex);
-              }}
-              className="inline-flex items-center justify-center w-4 h-4 text-[9px] font-bold bg-primary text-primary-foreground rounded-full hover:bg-primary/80 transition-colors cursor-pointer align-super ml-0.5"
-            >
-              {sourceIndex + 1}
-            </button>
-          </TooltipTrigger>
-          <TooltipContent side="top" className="max-w-sm p-0 overflow-hidden">
-            <div className="bg-primary text-primary-foreground px-3 py-1.5 text-xs font-medium flex items-center gap-2">
-              <FileText className="h-3 w-3" />
-              {source?.title ?? 'Unknown source'}
-            </div>
-            {source?.text && (
-              <div className="px-3 py-2 text-xs text-popover-foreground line-clamp-3">
-                {source.text.slice(0, 150)}
-                {source.text.length > 150 ? '...' : ''}
-              </div>
-            )}
-            <div className="px-3 py-1.5 bg-muted/50 text-[10px] text-popover-foreground/70">
-              Click to view full source
-            </div>
-          </TooltipContent>
-        </Tooltip>
-      );
-    };
-
-    // Wrap content in citation highlight spans
-    // Process the rendered children to add highlighting around cited content
-    const wrapCitedContent = (
-      children: React.ReactNode,
-      renderBadge: typeof renderSourceBadge
-    ): React.ReactNode => {
-      if (!Array.isArray(children)) {
-        return children;
-      }
-
-      const result: React.ReactNode[] = [];
-      let currentCitation: { idx: string; sources: string[] } | null = null;
-      let citedContent: React.ReactNode[] = [];
-
-      const flushCitation = () => {
-        if (currentCitation && citedContent.length > 0) {
-          result.push(
-            <span
-              key={`cite-wrap-${currentCitation.idx}`}
-              className="bg-primary/10 border-b border-primary/30 rounded-sm px-0.5 -mx-0.5"
-            >
-              {citedContent}
-            </span>
-          );
-          citedContent = [];
-        }
-        currentCitation = null;
-      };
-
-      for (let i = 0; i < children.length; i++) {
-        const child = children[i];
-
-        // Check if it's a citation marker span
-        if (child && typeof child === 'object' && 'props' in child && child.props) {
-          const childProps = child.props as Record<string, string | undefined>;
-          if (childProps['data-cite-start'] !== undefined) {
-            // Start a new citation
-            flushCitation();
-            currentCitation = {
-              idx: childProps['data-cite-start'],
-              sources: childProps['data-sources']?.split(',') ?? [],
-            };
-            continue;
-          }
-          if (childProps['data-cite-end'] !== undefined) {
-            // End current citation and add badges
-            if (currentCitation) {
-              result.push(
-                <span
-                  key={`cite-wrap-${currentCitation.idx}`}
-                  className="bg-primary/10 border-b border-primary/30 rounded-sm px-0.5 -mx-0.5"
-                >
-                  {citedContent}
-                  {currentCitation.sources.map((sourceIndexStr, badgeIdx) => {
-                    const sourceIndex = parseInt(sourceIndexStr, 10);
-                    return renderBadge(
-                      sourceIndex,
-                      parseInt(currentCitation!.idx, 10),
-                      `s${currentCitation!.idx}-b${badgeIdx}`
-                    );
-                  })}
-                </span>
-              );
-              citedContent = [];
-              currentCitation = null;
-            }
-            continue;
-          }
-        }
-
-        // Add to current citation or result
-        if (currentCitation) {
-          citedContent.push(child);
-        } else {
-          result.push(child);
-        }
-      }
-
-      // Flush any remaining citation
-      flushCitation();
-
-      return result;
-    };
-
-    // Create markdown components
-    const markdownComponents: Components = {
-      span: ({ children, ...props }) => {
-        const dataProps = props as Record<string, string | undefined>;
-        const citeStartIdx = dataProps['data-cite-start'];
-        const citeEndIdx = dataProps['data-cite-end'];
-
-        // Citation markers are handled by parent wrapper, just render them for detection
-        if (citeStartIdx !== undefined || citeEndIdx !== undefined) {
-          return <span {...props}>{children}</span>;
-        }
-
-        // Regular span
-        return <span {...props}>{children}</span>;
-      },
-      p: ({ children, ...props }) => (
-        <p {...props}>{wrapCitedContent(children, renderSourceBadge)}</p>
-      ),
-      li: ({ children, ...props }) => (
-        <li {...props}>{wrapCitedContent(children, renderSourceBadge)}</li>
-      ),
-      td: ({ children, ...props }) => (
-        <td {...props}>{wrapCitedContent(children, renderSourceBadge)}</td>
-      ),
-      th: ({ children, ...props }) => (
-        <th {...props}>{wrapCitedContent(children, renderSourceBadge)}</th>
-      ),
-      h1: ({ children, ...props }) => (
-        <h1 {...props}>{wrapCitedContent(children, renderSourceBadge)}</h1>
-      ),
-      h2: ({ children, ...props }) => (
-        <h2 {...props}>{wrapCitedContent(children, renderSourceBadge)}</h2>
-      ),
-      h3: ({ children, ...props }) => (
-        <h3 {...props}>{wrapCitedContent(children, renderSourceBadge)}</h3>
-      ),
-      h4: ({ children, ...props }) => (
-        <h4 {...props}>{wrapCitedContent(children, renderSourceBadge)}</h4>
-      ),
-      blockquote: ({ children, ...props }) => (
-        <blockquote {...props}>{wrapCitedContent(children, renderSourceBadge)}</blockquote>
-      ),
-    };
-
-    return (
-      <TooltipProvider delayDuration={300}>
-        <div className="prose prose-sm max-w-none dark:prose-invert">
-          <ReactMarkdown
-            remarkPlugins={[remarkGfm]}
-            rehypePlugins={[rehypeRaw]}
-            components={markdownComponents}
-          >
-            {markedText}
-          </ReactMarkdown>
-        </div>
-      </TooltipProvider>
-    );
-  };
-
   return (
     <section className="space-y-3" aria-label="Search panel">
       {/* Toolbar */}
@@ -877,39 +493,80 @@ export function SearchPanel({ storeName }: SearchPanelProps) {
 
               {/* Presets Tab */}
               <TabsContent value="presets" className="m-0 p-3 space-y-3" tabIndex={-1}>
+                {/* Presets saved in this browser before they were shared through the API */}
+                {legacyPresets.length > 0 && (
+                  <div className="rounded-md border border-dashed p-2 space-y-2" role="status">
+                    <p className="text-xs text-muted-foreground">
+                      {legacyPresets.length} preset{legacyPresets.length === 1 ? ' is' : 's are'}{' '}
+                      saved only in this browser.{' '}
+                      {canManagePresets
+                        ? 'Import them to share them with your team.'
+                        : 'Sharing them needs the editor role on at least one store.'}
+                    </p>
+                    <div className="flex gap-2">
+                      {canManagePresets && (
+                        <Button
+                          size="sm"
+                          className="h-7 px-2 text-xs"
+                          onClick={importLegacyPresets}
+                          disabled={isImporting}
+                        >
+                          {isImporting ? (
+                            <Loader2 className="h-3 w-3 mr-1 animate-spin" aria-hidden="true" />
+                          ) : (
+                            <Upload className="h-3 w-3 mr-1" aria-hidden="true" />
+                          )}
+                          Import
+                        </Button>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-7 px-2 text-xs"
+                        onClick={discardLegacyPresets}
+                        disabled={isImporting}
+                      >
+                        Discard
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
                 {/* Save New Preset */}
-                <div className="space-y-2">
-                  <Label htmlFor="preset-name" className="text-xs font-medium">
-                    Save Current Settings
-                  </Label>
-                  <div className="flex gap-2">
-                    <Input
-                      id="preset-name"
-                      placeholder="Preset name..."
-                      value={presetName}
-                      onChange={(e) => setPresetName(e.target.value)}
-                      onKeyDown={(e) => {
-                        if (e.key === 'Enter') handleSavePreset();
-                      }}
-                      className="h-8 text-xs"
-                      aria-label="Preset name"
-                    />
-                    <Button
-                      size="sm"
-                      className="h-8 px-3"
-                      onClick={handleSavePreset}
-                      disabled={!presetName.trim()}
-                      aria-label={
-                        presetName.trim()
-                          ? `Save preset "${presetName}"`
-                          : 'Save preset (enter a name first)'
-                      }
-                    >
-                      <Save className="h-3 w-3 mr-1" aria-hidden="true" />
-                      Save
-                    </Button>
+                {canManagePresets && (
+                  <div className="space-y-2">
+                    <Label htmlFor="preset-name" className="text-xs font-medium">
+                      Save Current Settings
+                    </Label>
+                    <div className="flex gap-2">
+                      <Input
+                        id="preset-name"
+                        placeholder="Preset name..."
+                        value={presetName}
+                        onChange={(e) => setPresetName(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') handleSavePreset();
+                        }}
+                        className="h-8 text-xs"
+                        aria-label="Preset name"
+                      />
+                      <Button
+                        size="sm"
+                        className="h-8 px-3"
+                        onClick={handleSavePreset}
+                        disabled={!presetName.trim()}
+                        aria-label={
+                          presetName.trim()
+                            ? `Save preset "${presetName}"`
+                            : 'Save preset (enter a name first)'
+                        }
+                      >
+                        <Save className="h-3 w-3 mr-1" aria-hidden="true" />
+                        Save
+                      </Button>
+                    </div>
                   </div>
-                </div>
+                )}
 
                 {/* Preset List */}
                 <div className="space-y-2">
@@ -942,28 +599,106 @@ export function SearchPanel({ storeName }: SearchPanelProps) {
                           >
                             {preset.name}
                           </button>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="h-6 w-6 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 focus:opacity-100"
-                            onClick={() => deletePreset(preset.id)}
-                            aria-label={`Delete preset "${preset.name}"`}
-                          >
-                            <Trash2
-                              className="h-3 w-3 text-muted-foreground hover:text-destructive"
-                              aria-hidden="true"
-                            />
-                          </Button>
+                          {defaultStore && can('editor', defaultStore) && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className={`h-6 w-6 ${preset.id === defaultPreset?.id ? '' : 'opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 focus:opacity-100'}`}
+                              onClick={() =>
+                                setStoreDefault(
+                                  defaultStore,
+                                  preset.id === defaultPreset?.id ? null : preset.id
+                                )
+                              }
+                              aria-pressed={preset.id === defaultPreset?.id}
+                              aria-label={
+                                preset.id === defaultPreset?.id
+                                  ? `Stop using "${preset.name}" as this store's default`
+                                  : `Use "${preset.name}" as this store's default`
+                              }
+                            >
+                              <Star
+                                className={`h-3 w-3 ${preset.id === defaultPreset?.id ? 'fill-primary text-primary' : 'text-muted-foreground'}`}
+                                aria-hidden="true"
+                              />
+                            </Button>
+                          )}
+                          {canManagePresets && (
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-6 w-6 opacity-0 group-hover:opacity-100 group-focus-within:opacity-100 focus:opacity-100"
+                              onClick={() => deletePreset(preset.id)}
+                              aria-label={`Delete preset "${preset.name}"`}
+                            >
+                              <Trash2
+                                className="h-3 w-3 text-muted-foreground hover:text-destructive"
+                                aria-hidden="true"
+                              />
+                            </Button>
+                          )}
                         </div>
                       ))}
                     </div>
                   )}
                 </div>
+
+                {presetsError && (
+                  <p className="text-xs text-destructive" role="alert">
+                    {presetsError.message}
+                  </p>
+                )}
               </TabsContent>
             </Tabs>
           </PopoverContent>
         </Popover>
 
+        {/* Metadata Filter Popover */}
+        <Popover open={filterOpen} onOpenChange={setFilterOpen}>
+          <PopoverTrigger asChild>
+            <Button
+              variant="outline"
+              size="sm"
+              className="gap-1.5 h-8"
+              aria-label={`Metadata filter${metadataFilter.trim() ? ' (active)' : ''}`}
+              aria-expanded={filterOpen}
+              aria-haspopup="dialog"
+            >
+              <Filter className="h-3.5 w-3.5" aria-hidden="true" />
+              <span className="text-xs">Filter</span>
+              {metadataFilter.trim() && (
+                <span className="w-1.5 h-1.5 rounded-full bg-primary" aria-hidden="true" />
+              )}
+            </Button>
+          </PopoverTrigger>
+          <PopoverContent
+            className="w-96 p-3"
+            align="start"
+            role="dialog"
+            aria-label="Metadata filter"
+          >
+            <MetadataFilterBuilder
+              files={files}
+              value={metadataFilter}
+              onChange={setMetadataFilter}
+            />
+          </PopoverContent>
+        </Popover>
+
+        {/* Streaming Toggle */}
+        <Button
+          variant={streaming ? 'secondary' : 'outline'}
+          size="sm"
+          className="gap-1.5 h-8"
+          onClick={toggleStreaming}
+          disabled={search.isPending}
+          aria-pressed={streaming}
+          aria-label="Stream answers as they are generated"
+        >
+          <Zap className="h-3.5 w-3.5" aria-hidden="true" />
+          <span className="text-xs">Stream</span>
+        </Button>
+
         {/* Keyboard Shortcuts */}
         <Popover open={showShortcuts} onOpenChange={setShowShortcuts}>
           <PopoverTrigger asChild>
@@ -1038,7 +773,33 @@ export function SearchPanel({ storeName }: SearchPanelProps) {
         </Card>
       )}
 
-      {result && (
+      {isStreamingAnswer && (
+        <Card aria-live="polite" aria-busy="true">
+          <CardHeader className="pb-2">
+            <div className="flex items-center gap-2">
+              <MessageSquare className="h-5 w-5 text-primary" />
+              <CardTitle className="text-base">Response</CardTitle>
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" aria-hidden="true" />
+            </div>
+          </CardHeader>
+          <CardContent>
+            {streamSearch.streamingText ? (
+              <div className="prose prose-sm max-w-none dark:prose-invert">
+                <ReactMarkdown remarkPlugins={[remarkGfm]}>
+                  {streamSearch.streamingText}
+                </ReactMarkdown>
+              </div>
+            ) : (
+              <p className="text-sm text-muted-foreground">Searching documents...</p>
+            )}
+            <p className="text-xs text-muted-foreground mt-3">
+              Citations are attached when the answer is complete.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {result && !isStreamingAnswer && (
         <div className="space-y-4">
           {/* Response */}
           <Card>
@@ -1046,75 +807,44 @@ export function SearchPanel({ storeName }: SearchPanelProps) {
               <div className="flex items-center gap-2">
                 <MessageSquare className="h-5 w-5 text-primary" />
                 <CardTitle className="text-base">Response</CardTitle>
+                {result.historyId && storeNames[0] && (
+                  <Button asChild variant="ghost" size="sm" className="ml-auto h-7 gap-1.5 text-xs">
+                    <Link
+                      to={answerPath(storeNames[0], result.historyId)}
+                      aria-label="Open permalink to this answer"
+                    >
+                      <Link2 className="h-3.5 w-3.5" aria-hidden="true" />
+                      Permalink
+                    </Link>
+                  </Button>
+                )}
               </div>
             </CardHeader>
             <CardContent>
-              {renderTextWithSources(result.text, result.sources, result.supports)}
+              <CitedAnswer
+                text={result.text}
+                sources={result.sources}
+                supports={result.supports}
+                onSourceClick={scrollToSource}
+              />
             </CardContent>
           </Card>
 
           {/* Sources */}
-          {result.sources.length > 0 && (
-            <div id="sources-section" className="space-y-3" aria-label="Sources section">
-              {(() => {
-                // Calculate which sources are actually cited and collect cited texts
-                const citedIndices = new Set(result.supports.flatMap((s) => s.chunkIndices));
-                const citedCount = citedIndices.size;
-
-                // Build map of source index -> cited texts
-                const sourceToCitedTexts = new Map<number, string[]>();
-                result.supports.forEach((support) => {
-                  support.chunkIndices.forEach((chunkIdx) => {
-                    const existing = sourceToCitedTexts.get(chunkIdx) ?? [];
-                    if (support.text && !existing.includes(support.text)) {
-                      existing.push(support.text);
-                    }
-                    sourceToCitedTexts.set(chunkIdx, existing);
-                  });
-                });
-
-                return (
-                  <>
-                    <div className="flex items-center justify-between">
-                      <h3
-                        id="sources-heading"
-                        className="text-sm font-medium text-muted-foreground"
-                      >
-                        Sources ({citedCount} cited, {result.sources.length - citedCount} retrieved)
-                      </h3>
-                      <span className="text-xs text-muted-foreground">
-                        Press{' '}
-                        <kbd className="px-1 py-0.5 bg-muted rounded border text-[10px]">1-9</kbd>{' '}
-                        to jump
-                      </span>
-                    </div>
-                    <div
-                      ref={sourceCardsRef}
-                      className="grid gap-2"
-                      role="list"
-                      aria-labelledby="sources-heading"
-                    >
-                      {result.sources.map((source, index) => (
-                        <SourceCard
-                          key={index}
-                          index={index}
-                          source={source}
-                          isExpanded={expandedSource === index}
-                          onToggle={() =>
-                            setExpandedSource(expandedSource === index ? null : index)
-                          }
-                          isCited={citedIndices.has(index)}
-                          citedTexts={sourceToCitedTexts.get(index) ?? []}
-                          onNavigate={(direction) => handleSourceNavigate(index, direction)}
-                          totalSources={result.sources.length}
-                        />
-                      ))}
-                    </div>
-                  </>
-                );
-              })()}
-            </div>
-          )}
+          <SourceList
+            sources={result.sources}
+            supports={result.supports}
+            expandedSource={expandedSource}
+            onExpandedSourceChange={setExpandedSource}
+            getStoreLabel={
+              isMultiStore
+                ? (source) =>
+                    source.fileSearchStore ? getStoreLabel(source.fileSearchStore) : undefined
+                : undefined
+            }
+            showShortcutHint
+            listRef={sourceCardsRef}
+          />
         </div>
       )}
     </section>
@@ -0,0 +1,142 @@
+import { Link } from 'react-router-dom';
+import { FileText, Quote, Database, BookOpen } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { documentPath } from '@/lib/passages';
+import type { GroundingSource } from '@/types/api';
+
+export function SourceCard({
+  index,
+  source,
+  isExpanded,
+  onToggle,
+  isCited,
+  citedTexts,
+  onNavigate,
+  totalSources,
+  storeLabel,
+}: {
+  index: number;
+  source: GroundingSource;
+  isExpanded: boolean;
+  onToggle: () => void;
+  isCited: boolean;
+  citedTexts: string[];
+  onNavigate?: (direction: 'prev' | 'next' | 'first' | 'last') => void;
+  totalSources: number;
+  storeLabel?: string;
+}) {
+  // Extract first meaningful line as preview
+  const preview = source.text.split('\n').find((line) => line.trim().length > 0) || '';
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    switch (e.key) {
+      case 'Enter':
+      case ' ':
+        e.preventDefault();
+        onToggle();
+        break;
+      case 'ArrowDown':
+        e.preventDefault();
+        onNavigate?.('next');
+        break;
+      case 'ArrowUp':
+        e.preventDefault();
+        onNavigate?.('prev');
+        break;
+      case 'Home':
+        e.preventDefault();
+        onNavigate?.('first');
+        break;
+      case 'End':
+        e.preventDefault();
+        onNavigate?.('last');
+        break;
+    }
+  };
+
+  return (
+    <Card
+      role="button"
+      tabIndex={0}
+      aria-expanded={isExpanded}
+      aria-label={`Source ${index + 1} of ${totalSources}: ${source.title}${storeLabel ? ` from ${storeLabel}` : ''}${isCited ? '' : ' (not cited)'}${isExpanded ? ', expanded' : ', collapsed'}`}
+      className={`cursor-pointer transition-all focus:outline-none focus:ring-2 focus:ring-primary focus:ring-offset-2 ${isExpanded ? 'ring-2 ring-primary' : 'hover:bg-muted/50'} ${!isCited ? 'opacity-50' : ''}`}
+      onClick={onToggle}
+      onKeyDown={handleKeyDown}
+    >
+      <CardHeader className="p-3 pb-2">
+        <div className="flex items-start gap-2">
+          <span
+            className={`flex items-center justify-center w-5 h-5 text-[10px] font-medium rounded-full flex-shrink-0 ${isCited ? 'bg-primary text-primary-foreground' : 'bg-muted text-muted-foreground'}`}
+            aria-hidden="true"
+          >
+            {index + 1}
+          </span>
+          <div className="min-w-0 flex-1">
+            <CardTitle className="text-sm font-medium truncate">
+              {source.title}
+              {!isCited && <span className="text-xs text-muted-foreground ml-2">(not cited)</span>}
+            </CardTitle>
+            {storeLabel && (
+              <span className="inline-flex items-center gap-1 mt-1 px-1.5 py-0.5 rounded bg-muted text-[10px] text-muted-foreground">
+                <Database className="h-2.5 w-2.5" aria-hidden="true" />
+                {storeLabel}
+              </span>
+            )}
+            {!isExpanded && (
+              <CardDescription className="text-xs mt-1 line-clamp-2">{preview}</CardDescription>
+            )}
+          </div>
+          <FileText className="h-4 w-4 text-muted-foreground flex-shrink-0" aria-hidden="true" />
+        </div>
+      </CardHeader>
+      {isExpanded && (
+        <CardContent className="p-3 pt-0 space-y-3">
+          {/* Cited texts from supports */}
+          {citedTexts.length > 0 && (
+            <div className="space-y-2">
+              <div className="flex items-center gap-1.5 text-xs font-medium text-primary">
+                <Quote className="h-3 w-3" aria-hidden="true" />
+                Cited in response ({citedTexts.length})
+              </div>
+              <div className="space-y-1.5" role="list" aria-label="Cited texts">
+                {citedTexts.map((text, i) => (
+                  <div
+                    key={i}
+                    role="listitem"
+                    className="text-xs bg-primary/5 border-l-2 border-primary/30 pl-2 py-1 rounded-r"
+                  >
+                    {`"${text}"`}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+          {/* Source chunk text */}
+          <div className="space-y-1.5">
+            <div className="flex items-center justify-between gap-2">
+              <div className="text-xs font-medium text-muted-foreground">Source chunk</div>
+              {source.document && (
+                <Link
+                  to={documentPath(source.document, { passage: source.text })}
+                  className="inline-flex items-center gap-1 text-xs text-primary hover:underline"
+                  onClick={(e) => e.stopPropagation()}
+                  onKeyDown={(e) => e.stopPropagation()}
+                >
+                  <BookOpen className="h-3 w-3" aria-hidden="true" />
+                  Show in document
+                </Link>
+              )}
+            </div>
+            <ScrollArea className="h-40">
+              <div className="text-xs text-muted-foreground whitespace-pre-wrap pr-4">
+                {source.text}
+              </div>
+            </ScrollArea>
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,105 @@
+import { useCallback, useRef } from 'react';
+import type { GroundingSource, GroundingSupport } from '@/types/api';
+import { SourceCard } from './source-card';
+
+interface SourceListProps {
+  sources: GroundingSource[];
+  supports: GroundingSupport[];
+  expandedSource: number | null;
+  onExpandedSourceChange: (index: number | null) => void;
+  // Label for a source's store badge (shown for multi-store results)
+  getStoreLabel?: (source: GroundingSource) => string | undefined;
+  // Show the 1-9 shortcut hint (when the parent handles those keys)
+  showShortcutHint?: boolean;
+  listRef?: React.RefObject<HTMLDivElement>;
+}
+
+// Sources of an answer, split into cited and retrieved-only counts
+export function SourceList({
+  sources,
+  supports,
+  expandedSource,
+  onExpandedSourceChange,
+  getStoreLabel,
+  showShortcutHint = false,
+  listRef,
+}: SourceListProps) {
+  const ownRef = useRef<HTMLDivElement>(null);
+  const cardsRef = listRef ?? ownRef;
+
+  // Calculate which sources are actually cited and collect cited texts
+  const citedIndices = new Set(supports.flatMap((s) => s.chunkIndices));
+  const citedCount = citedIndices.size;
+
+  // Build map of source index -> cited texts
+  const sourceToCitedTexts = new Map<number, string[]>();
+  supports.forEach((support) => {
+    support.chunkIndices.forEach((chunkIdx) => {
+      const existing = sourceToCitedTexts.get(chunkIdx) ?? [];
+      if (support.text && !existing.includes(support.text)) {
+        existing.push(support.text);
+      }
+      sourceToCitedTexts.set(chunkIdx, existing);
+    });
+  });
+
+  // Navigate between source cards
+  const handleNavigate = useCallback(
+    (currentIndex: number, direction: 'prev' | 'next' | 'first' | 'last') => {
+      if (!sources.length) return;
+      let newIndex: number;
+      switch (direction) {
+        case 'prev':
+          newIndex = Math.max(0, currentIndex - 1);
+          break;
+        case 'next':
+          newIndex = Math.min(sources.length - 1, currentIndex + 1);
+          break;
+        case 'first':
+          newIndex = 0;
+          break;
+        case 'last':
+          newIndex = sources.length - 1;
+          break;
+      }
+      setTimeout(() => {
+        const cards = cardsRef.current?.querySelectorAll('[role="button"]');
+        (cards?.[newIndex] as HTMLElement)?.focus();
+      }, 0);
+    },
+    [sources, cardsRef]
+  );
+
+  if (sources.length === 0) return null;
+
+  return (
+    <div id="sources-section" className="space-y-3" aria-label="Sources section">
+      <div className="flex items-center justify-between">
+        <h3 id="sources-heading" className="text-sm font-medium text-muted-foreground">
+          Sources ({citedCount} cited, {sources.length - citedCount} retrieved)
+        </h3>
+        {showShortcutHint && (
+          <span className="text-xs text-muted-foreground">
+            Press <kbd className="px-1 py-0.5 bg-muted rounded border text-[10px]">1-9</kbd> to jump
+          </span>
+        )}
+      </div>
+      <div ref={cardsRef} className="grid gap-2" role="list" aria-labelledby="sources-heading">
+        {sources.map((source, index) => (
+          <SourceCard
+            key={index}
+            index={index}
+            source={source}
+            isExpanded={expandedSource === index}
+            onToggle={() => onExpandedSourceChange(expandedSource === index ? null : index)}
+            isCited={citedIndices.has(index)}
+            citedTexts={sourceToCitedTexts.get(index) ?? []}
+            onNavigate={(direction) => handleNavigate(index, direction)}
+            totalSources={sources.length}
+            storeLabel={getStoreLabel?.(source)}
+          />
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,358 @@
+import { useState } from 'react';
+import { Check, Copy, KeyRound, Loader2, ShieldCheck, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAccess } from '@/hooks/use-access';
+import {
+  useApiKeys,
+  useBrowserApiKey,
+  useCreateApiKey,
+  useDeleteApiKey,
+} from '@/hooks/use-api-keys';
+import type { CreatedApiKey, Role } from '@/types/api';
+
+const EXPIRY_OPTIONS = [
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: '365', label: '1 year' },
+  { value: 'never', label: 'Never' },
+];
+
+const ROLE_OPTIONS: { value: Role; label: string }[] = [
+  { value: 'viewer', label: 'Viewer' },
+  { value: 'editor', label: 'Editor' },
+  { value: 'admin', label: 'Admin' },
+];
+
+function formatTime(dateString: string | undefined, fallback: string): string {
+  if (!dateString) return fallback;
+  return new Date(dateString).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+}
+
+interface BrowserKeyProps {
+  apiKey: string | null;
+  setApiKey: (key: string | null) => void;
+}
+
+// API key sent by this browser with every request
+function BrowserKeyCard({ apiKey, setApiKey }: BrowserKeyProps) {
+  const [value, setValue] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!value.trim()) return;
+    setApiKey(value.trim());
+    setValue('');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">This browser</CardTitle>
+        <CardDescription>
+          When the API requires authentication, the dashboard sends this key with every request. It
+          is stored in this browser only.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm">
+          {apiKey ? (
+            <>
+              Using key <span className="font-mono">{apiKey.slice(0, 8)}…</span>
+            </>
+          ) : (
+            <span className="text-muted-foreground">No API key set</span>
+          )}
+        </p>
+        <form onSubmit={handleSubmit} className="flex gap-2">
+          <Input
+            type="password"
+            value={value}
+            onChange={(e) => setValue(e.target.value)}
+            placeholder="gmx_..."
+            aria-label="API key"
+            autoComplete="off"
+            className="h-8 text-sm"
+          />
+          <Button type="submit" size="sm" disabled={!value.trim()}>
+            Save
+          </Button>
+          {apiKey && (
+            <Button type="button" size="sm" variant="outline" onClick={() => setApiKey(null)}>
+              Clear
+            </Button>
+          )}
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Who this browser is to the API and which roles it has
+function AccessCard() {
+  const { me, isLoading } = useAccess();
+
+  const roles = Object.entries(me?.roles ?? {});
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base">Your access</CardTitle>
+        <CardDescription>
+          Viewers can search and list files, editors can also upload, change and delete files, and
+          admins can also delete stores.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="text-sm">
+        {isLoading ? (
+          <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+        ) : !me ? (
+          <p className="text-muted-foreground">Not signed in: set an API key above.</p>
+        ) : me.unrestricted ? (
+          <p className="flex items-center gap-2">
+            <ShieldCheck className="h-4 w-4 text-muted-foreground" aria-hidden="true" />
+            {me.label ?? 'Authentication is disabled'}: every role on every store
+          </p>
+        ) : roles.length === 0 ? (
+          <p className="text-muted-foreground">{me.label} has no roles yet.</p>
+        ) : (
+          <ul className="space-y-1" aria-label="Your roles">
+            {roles.map(([storeName, role]) => (
+              <li key={storeName} className="flex gap-2">
+                <span className="capitalize">{role}</span>
+                <span className="text-muted-foreground">
+                  {storeName === '*'
+                    ? 'on all stores'
+                    : `on ${storeName.replace('fileSearchStores/', '')}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+// Key shown once after creation, with a shortcut to use it in this browser
+function CreatedKeyNotice({
+  created,
+  onDismiss,
+  setApiKey,
+}: {
+  created: CreatedApiKey;
+  onDismiss: () => void;
+  setApiKey: (key: string) => void;
+}) {
+  const [copied, setCopied] = useState(false);
+
+  const copyKey = () => {
+    navigator.clipboard.writeText(created.key).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  };
+
+  return (
+    <div className="space-y-2 rounded-md border border-primary/40 bg-primary/5 p-3" role="status">
+      <p className="text-sm font-medium">
+        Copy the key for &quot;{created.label}&quot; now. It is not shown again.
+      </p>
+      <div className="flex items-center gap-2">
+        <code className="flex-1 truncate rounded bg-muted px-2 py-1 text-xs">{created.key}</code>
+        <Button size="sm" variant="outline" className="h-7 gap-1.5 text-xs" onClick={copyKey}>
+          {copied ? <Check className="h-3.5 w-3.5" /> : <Copy className="h-3.5 w-3.5" />}
+          {copied ? 'Copied' : 'Copy'}
+        </Button>
+      </div>
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          variant="secondary"
+          className="h-7 text-xs"
+          onClick={() => {
+            setApiKey(created.key);
+            onDismiss();
+          }}
+        >
+          Use in this browser
+        </Button>
+        <Button size="sm" variant="ghost" className="h-7 text-xs" onClick={onDismiss}>
+          Done
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+export function ApiKeysSettings() {
+  const { apiKey, setApiKey } = useBrowserApiKey();
+  const { data: keys, isLoading, error } = useApiKeys();
+  const createKey = useCreateApiKey();
+  const deleteKey = useDeleteApiKey();
+  const { can } = useAccess();
+  const [label, setLabel] = useState('');
+  const [expiry, setExpiry] = useState('90');
+  const [role, setRole] = useState<Role>('viewer');
+  const [created, setCreated] = useState<CreatedApiKey | null>(null);
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!label.trim()) return;
+
+    const expireTime =
+      expiry === 'never'
+        ? undefined
+        : new Date(Date.now() + Number(expiry) * 24 * 60 * 60 * 1000).toISOString();
+    createKey.mutate(
+      // The dashboard grants one role on all stores; per-store roles go through /api/grants
+      { label: label.trim(), expireTime, grants: [{ storeName: '*', role }] },
+      {
+        onSuccess: (key) => {
+          setCreated(key);
+          setLabel('');
+        },
+      }
+    );
+  };
+
+  return (
+    <div className="space-y-4 max-w-3xl">
+      <BrowserKeyCard apiKey={apiKey} setApiKey={setApiKey} />
+      <AccessCard />
+
+      {can('admin') && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">API keys</CardTitle>
+            <CardDescription>
+              Keys for the dashboard, the CLI (<span className="font-mono">api.token_env</span>) and
+              other clients. Only a hash of each key is kept on the server.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form onSubmit={handleCreate} className="flex flex-wrap items-end gap-2">
+              <div className="grid flex-1 gap-1.5">
+                <Label htmlFor="api-key-label" className="text-xs">
+                  Label
+                </Label>
+                <Input
+                  id="api-key-label"
+                  value={label}
+                  onChange={(e) => setLabel(e.target.value)}
+                  placeholder="e.g. CI sync"
+                  className="h-8 text-sm"
+                />
+              </div>
+              <div className="grid gap-1.5">
+                <Label className="text-xs">Expires after</Label>
+                <Select value={expiry} onValueChange={setExpiry}>
+                  <SelectTrigger className="h-8 w-28 text-xs" aria-label="Expires after">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {EXPIRY_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value} className="text-xs">
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="grid gap-1.5">
+                <Label className="text-xs">Role on all stores</Label>
+                <Select value={role} onValueChange={(value) => setRole(value as Role)}>
+                  <SelectTrigger className="h-8 w-28 text-xs" aria-label="Role on all stores">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {ROLE_OPTIONS.map((option) => (
+                      <SelectItem key={option.value} value={option.value} className="text-xs">
+                        {option.label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <Button type="submit" size="sm" disabled={!label.trim() || createKey.isPending}>
+                {createKey.isPending && <Loader2 className="h-4 w-4 animate-spin" />}
+                Create key
+              </Button>
+            </form>
+
+            {created && (
+              <CreatedKeyNotice
+                created={created}
+                onDismiss={() => setCreated(null)}
+                setApiKey={setApiKey}
+              />
+            )}
+
+            {(error ?? createKey.error ?? deleteKey.error) && (
+              <p className="text-sm text-destructive" role="alert">
+                {(error ?? createKey.error ?? deleteKey.error)?.message}
+              </p>
+            )}
+
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+              </div>
+            ) : keys && keys.length > 0 ? (
+              <ul className="divide-y rounded-md border" aria-label="API keys">
+                {keys.map((key) => (
+                  <li key={key.id} className="flex items-center gap-3 p-3">
+                    <KeyRound className="h-4 w-4 flex-shrink-0 text-muted-foreground" />
+                    <div className="min-w-0 flex-1">
+                      <p className="truncate text-sm font-medium">
+                        {key.label}{' '}
+                        <span className="font-mono text-xs text-muted-foreground">
+                          {key.prefix}…
+                        </span>
+                        {key.expired && (
+                          <span className="ml-2 text-xs text-destructive">Expired</span>
+                        )}
+                      </p>
+                      <p className="text-xs text-muted-foreground">
+                        Created {formatTime(key.createTime, '')} · Expires{' '}
+                        {formatTime(key.expireTime, 'never')} · Last used{' '}
+                        {formatTime(key.lastUsedTime, 'never')}
+                      </p>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="flex-shrink-0"
+                      onClick={() => deleteKey.mutate(key.id)}
+                      disabled={deleteKey.isPending}
+                      aria-label={`Revoke ${key.label}`}
+                    >
+                      <Trash2 className="h-4 w-4 text-muted-foreground" />
+                    </Button>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              !error && <p className="text-sm text-muted-foreground">No API keys yet.</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
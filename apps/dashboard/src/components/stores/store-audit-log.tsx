@@ -0,0 +1,242 @@
+import { useState } from 'react';
+import { AlertCircle, CheckCircle2, Download, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAuditLog } from '@/hooks/use-audit';
+import * as api from '@/lib/api';
+import { saveBlob } from '@/lib/utils';
+import type { AuditEntry, AuditFilter, AuditResult } from '@/types/api';
+
+const ACTION_LABELS: Record<string, string> = {
+  'store.create': 'Created store',
+  'store.delete': 'Deleted store',
+  'store.set_default_preset': 'Set default preset',
+  'store.clear_default_preset': 'Cleared default preset',
+  'store.set_protection': 'Set protection',
+  'store.clear_protection': 'Cleared protection',
+  'file.upload': 'Uploaded',
+  'file.update': 'Updated file',
+  'file.delete': 'Deleted file',
+  'job.upload': 'Finished upload',
+  'job.document_update': 'Finished file update',
+  'history.delete': 'Deleted search',
+  'grant.put': 'Granted role',
+  'grant.delete': 'Revoked role',
+};
+
+const SOURCE_LABELS: Record<AuditEntry['source'], string> = {
+  dashboard: 'Dashboard',
+  cli: 'CLI',
+  mcp: 'MCP',
+  api: 'API',
+};
+
+const ALL = 'all';
+
+function formatTime(dateString: string): string {
+  return new Date(dateString).toLocaleString(undefined, {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  });
+}
+
+// What an entry acted on, beyond its store
+function describeTarget(entry: AuditEntry): string | undefined {
+  const details = entry.details ?? {};
+  if (entry.documentName) return entry.documentName.split('/').pop();
+  if (typeof details.displayName === 'string') {
+    // Uploads that replaced documents with the same name
+    return Array.isArray(details.replaced) && details.replaced.length > 0
+      ? `${details.displayName} (replaced ${details.replaced.length})`
+      : details.displayName;
+  }
+  if (Array.isArray(details.jobIds)) return `${details.jobIds.length} files`;
+  if (typeof details.subject === 'string') {
+    return typeof details.role === 'string'
+      ? `${details.subject} as ${details.role}`
+      : details.subject;
+  }
+  return undefined;
+}
+
+interface StoreAuditLogProps {
+  storeName: string;
+}
+
+// Changes made to a store, newest first, from every client (visible to store admins)
+export function StoreAuditLog({ storeName }: StoreAuditLogProps) {
+  const [action, setAction] = useState(ALL);
+  const [result, setResult] = useState(ALL);
+  // nextBefore cursors of the pages before the current one
+  const [cursors, setCursors] = useState<string[]>([]);
+  const [isExporting, setIsExporting] = useState(false);
+  const [exportError, setExportError] = useState<string | null>(null);
+
+  const filter: AuditFilter = {
+    storeName,
+    action: action === ALL ? undefined : action,
+    result: result === ALL ? undefined : (result as AuditResult),
+    before: cursors[cursors.length - 1],
+  };
+  const { data, isLoading, error } = useAuditLog(filter);
+  const entries = data?.entries ?? [];
+  const nextBefore = data?.nextBefore;
+
+  const changeFilter = (update: () => void) => {
+    update();
+    setCursors([]);
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    setExportError(null);
+    try {
+      const blob = await api.exportAuditLog(filter);
+      saveBlob(blob, `audit-${storeName.replace('fileSearchStores/', '')}.jsonl`);
+    } catch (err) {
+      setExportError((err as Error).message);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  return (
+    <section className="space-y-4" aria-labelledby="audit-heading">
+      <div className="flex flex-wrap items-center gap-2">
+        <h2 id="audit-heading" className="mr-auto text-lg font-semibold">
+          Activity
+        </h2>
+        <Select value={action} onValueChange={(value) => changeFilter(() => setAction(value))}>
+          <SelectTrigger className="h-8 w-44 text-xs" aria-label="Action">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL} className="text-xs">
+              All actions
+            </SelectItem>
+            {Object.entries(ACTION_LABELS)
+              .filter(([value]) => value !== 'store.create')
+              .map(([value, label]) => (
+                <SelectItem key={value} value={value} className="text-xs">
+                  {label}
+                </SelectItem>
+              ))}
+          </SelectContent>
+        </Select>
+        <Select value={result} onValueChange={(value) => changeFilter(() => setResult(value))}>
+          <SelectTrigger className="h-8 w-32 text-xs" aria-label="Result">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL} className="text-xs">
+              All results
+            </SelectItem>
+            <SelectItem value="success" className="text-xs">
+              Succeeded
+            </SelectItem>
+            <SelectItem value="failure" className="text-xs">
+              Failed
+            </SelectItem>
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 gap-1.5 text-xs"
+          onClick={handleExport}
+          disabled={isExporting}
+        >
+          {isExporting ? (
+            <Loader2 className="h-3.5 w-3.5 animate-spin" aria-hidden="true" />
+          ) : (
+            <Download className="h-3.5 w-3.5" aria-hidden="true" />
+          )}
+          Export JSONL
+        </Button>
+      </div>
+
+      {(error ?? exportError) && (
+        <p className="text-sm text-destructive" role="alert">
+          {error?.message ?? exportError}
+        </p>
+      )}
+
+      {isLoading ? (
+        <div className="flex justify-center py-6">
+          <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+        </div>
+      ) : entries.length === 0 ? (
+        !error && (
+          <p className="py-6 text-center text-sm text-muted-foreground" role="status">
+            No recorded activity
+          </p>
+        )
+      ) : (
+        <ul className="divide-y rounded-md border" aria-label="Audit log">
+          {entries.map((entry) => {
+            const target = describeTarget(entry);
+            return (
+              <li key={entry.id} className="flex items-start gap-3 p-3">
+                {entry.result === 'success' ? (
+                  <CheckCircle2
+                    className="mt-0.5 h-4 w-4 flex-shrink-0 text-green-500"
+                    aria-label="Succeeded"
+                  />
+                ) : (
+                  <AlertCircle
+                    className="mt-0.5 h-4 w-4 flex-shrink-0 text-destructive"
+                    aria-label="Failed"
+                  />
+                )}
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-sm">
+                    <span className="font-medium">{entry.actorLabel ?? entry.actor}</span>{' '}
+                    {(ACTION_LABELS[entry.action] ?? entry.action).toLowerCase()}
+                    {target && <span className="text-muted-foreground"> · {target}</span>}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {formatTime(entry.createTime)} · {SOURCE_LABELS[entry.source]} · {entry.status}
+                  </p>
+                  {entry.error && <p className="text-xs text-destructive">{entry.error}</p>}
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {(cursors.length > 0 || nextBefore) && (
+        <div className="flex justify-between">
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => setCursors((prev) => prev.slice(0, -1))}
+            disabled={cursors.length === 0}
+          >
+            Newer
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 text-xs"
+            onClick={() => nextBefore && setCursors((prev) => [...prev, nextBefore])}
+            disabled={!nextBefore}
+          >
+            Older
+          </Button>
+        </div>
+      )}
+    </section>
+  );
+}
@@ -2,6 +2,7 @@ import { useRef, useCallback, useState, useEffect } from 'react';
 import { Link, useLocation } from 'react-router-dom';
 import { Database, Trash2, Plus, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { useAccess } from '@/hooks/use-access';
 import { useStores, useDeleteStore } from '@/hooks/use-stores';
 import type { FileSearchStore } from '@/types/api';
 
@@ -14,6 +15,7 @@ export function StoreList({ onCreateStore, onStoreDeleted }: StoreListProps) {
   const location = useLocation();
   const { data: stores, isLoading, error } = useStores();
   const deleteStore = useDeleteStore();
+  const { can } = useAccess();
   const listRef = useRef<HTMLDivElement>(null);
   const newStoreButtonRef = useRef<HTMLButtonElement>(null);
   const initialFocusSetRef = useRef(false);
@@ -185,26 +187,30 @@ export function StoreList({ onCreateStore, onStoreDeleted }: StoreListProps) {
         >
           Stores
         </h2>
-        <Button
-          ref={newStoreButtonRef}
-          variant="ghost"
-          size="icon"
-          className="h-6 w-6"
-          onClick={onCreateStore}
-          aria-label="Create new store"
-        >
-          <Plus className="h-4 w-4" aria-hidden="true" />
-        </Button>
+        {can('admin') && (
+          <Button
+            ref={newStoreButtonRef}
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6"
+            onClick={onCreateStore}
+            aria-label="Create new store"
+          >
+            <Plus className="h-4 w-4" aria-hidden="true" />
+          </Button>
+        )}
       </div>
 
       {!stores?.length ? (
         <div className="flex flex-col items-center justify-center py-8 text-center">
           <Database className="h-8 w-8 text-muted-foreground/50 mb-3" aria-hidden="true" />
           <p className="text-muted-foreground text-xs mb-2">No stores yet</p>
-          <Button variant="outline" size="sm" onClick={onCreateStore} className="text-xs">
-            <Plus className="h-3 w-3 mr-1" />
-            New Store
-          </Button>
+          {can('admin') && (
+            <Button variant="outline" size="sm" onClick={onCreateStore} className="text-xs">
+              <Plus className="h-3 w-3 mr-1" />
+              New Store
+            </Button>
+          )}
         </div>
       ) : (
         <div
@@ -244,7 +250,7 @@ export function StoreList({ onCreateStore, onStoreDeleted }: StoreListProps) {
                   aria-hidden="true"
                 />
                 <span className="flex-1 truncate text-xs font-medium">{store.displayName}</span>
-                {!store.protected && (
+                {!store.protected && can('admin', store.name) && (
                   <button
                     type="button"
                     tabIndex={-1}
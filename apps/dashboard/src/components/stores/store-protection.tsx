@@ -0,0 +1,102 @@
+import { Loader2, ShieldCheck } from 'lucide-react';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
+import { useAccess } from '@/hooks/use-access';
+import { useSetStoreProtection, useStoreProtection } from '@/hooks/use-stores';
+import type { ProtectionLevel } from '@/types/api';
+
+const NONE = 'none';
+
+const PROTECTION_OPTIONS: { value: ProtectionLevel; label: string; description: string }[] = [
+  {
+    value: 'no_store_delete',
+    label: 'No store delete',
+    description: 'The store cannot be deleted',
+  },
+  {
+    value: 'no_file_delete',
+    label: 'No file delete',
+    description: 'Files cannot be deleted, replaced, renamed or edited',
+  },
+  {
+    value: 'read_only',
+    label: 'Read-only',
+    description: 'No uploads, file edits or deletes',
+  },
+];
+
+interface StoreProtectionControlProps {
+  storeName: string;
+}
+
+// Protection level of a store: editable by its admins, shown to everyone else when set
+export function StoreProtectionControl({ storeName }: StoreProtectionControlProps) {
+  const { can } = useAccess();
+  const { data: protection } = useStoreProtection(storeName);
+  const setProtection = useSetStoreProtection();
+
+  const level = protection?.level ?? null;
+  const option = PROTECTION_OPTIONS.find((o) => o.value === level);
+
+  if (!can('admin', storeName)) {
+    if (!option) return null;
+    return (
+      <TooltipProvider>
+        <Tooltip>
+          <TooltipTrigger asChild>
+            <span className="inline-flex items-center gap-1 rounded-md border px-2 py-1 text-xs text-muted-foreground">
+              <ShieldCheck className="h-3.5 w-3.5" aria-hidden="true" />
+              {option.label}
+            </span>
+          </TooltipTrigger>
+          <TooltipContent>{option.description}</TooltipContent>
+        </Tooltip>
+      </TooltipProvider>
+    );
+  }
+
+  return (
+    <div className="flex items-center gap-2">
+      {setProtection.isPending ? (
+        <Loader2 className="h-3.5 w-3.5 animate-spin text-muted-foreground" />
+      ) : (
+        <ShieldCheck className="h-3.5 w-3.5 text-muted-foreground" aria-hidden="true" />
+      )}
+      <Select
+        value={protection?.storedLevel ?? NONE}
+        onValueChange={(value) =>
+          setProtection.mutate({
+            storeName,
+            level: value === NONE ? null : (value as ProtectionLevel),
+          })
+        }
+        disabled={!protection || setProtection.isPending}
+      >
+        <SelectTrigger className="h-8 w-40 text-xs" aria-label="Store protection">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={NONE} className="text-xs">
+            {protection?.env ? 'No store delete (server)' : 'Unprotected'}
+          </SelectItem>
+          {PROTECTION_OPTIONS.map((o) => (
+            <SelectItem key={o.value} value={o.value} className="text-xs">
+              {o.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      {setProtection.error && (
+        <span className="text-xs text-destructive" role="alert">
+          {setProtection.error.message}
+        </span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import { useQuery } from '@tanstack/react-query';
+import * as api from '@/lib/api';
+import type { Me, Role } from '@/types/api';
+
+export const meQueryKey = ['me'] as const;
+
+const ROLES: Role[] = ['viewer', 'editor', 'admin'];
+
+// Role on a store (or on every store with "*"), counting grants on "*"
+function roleFor(me: Me, storeName: string): Role | undefined {
+  if (me.unrestricted) return 'admin';
+  const name =
+    storeName === '*' || storeName.startsWith('fileSearchStores/')
+      ? storeName
+      : `fileSearchStores/${storeName}`;
+  const roles = [me.roles['*'], name === '*' ? undefined : me.roles[name]];
+  return roles.reduce<Role | undefined>(
+    (best, role) => (role && (!best || ROLES.indexOf(role) > ROLES.indexOf(best)) ? role : best),
+    undefined
+  );
+}
+
+// What the current caller may do. Nothing is allowed until its roles have loaded.
+export function useAccess() {
+  const { data: me, isLoading } = useQuery({
+    queryKey: meQueryKey,
+    queryFn: api.getMe,
+    retry: false,
+    staleTime: 60_000,
+  });
+
+  // Without a store name, the role is required on every store
+  const can = (role: Role, storeName = '*'): boolean => {
+    const granted = me ? roleFor(me, storeName) : undefined;
+    return !!granted && ROLES.indexOf(granted) >= ROLES.indexOf(role);
+  };
+
+  // Whether the role is held on at least one store, e.g. to manage shared presets
+  const canOnAnyStore = (role: Role): boolean =>
+    !!me &&
+    (me.unrestricted ||
+      Object.values(me.roles).some((granted) => ROLES.indexOf(granted) >= ROLES.indexOf(role)));
+
+  return { me, isLoading, can, canOnAnyStore };
+}
@@ -0,0 +1,50 @@
+import { useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as api from '@/lib/api';
+import type { CreateApiKeyRequest } from '@/types/api';
+
+export const apiKeysQueryKey = ['api-keys'] as const;
+
+export function useApiKeys() {
+  return useQuery({
+    queryKey: apiKeysQueryKey,
+    queryFn: api.listApiKeys,
+    retry: false,
+  });
+}
+
+export function useCreateApiKey() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: CreateApiKeyRequest) => api.createApiKey(request),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: apiKeysQueryKey });
+    },
+  });
+}
+
+export function useDeleteApiKey() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (keyId: string) => api.deleteApiKey(keyId),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: apiKeysQueryKey });
+    },
+  });
+}
+
+// API key of this browser. Changing it refetches everything with the new key.
+export function useBrowserApiKey() {
+  const queryClient = useQueryClient();
+  const [apiKey, setApiKeyState] = useState(api.getApiKey);
+
+  const setApiKey = (key: string | null) => {
+    api.setApiKey(key);
+    setApiKeyState(key);
+    queryClient.invalidateQueries();
+  };
+
+  return { apiKey, setApiKey };
+}
@@ -0,0 +1,13 @@
+import { useQuery } from '@tanstack/react-query';
+import * as api from '@/lib/api';
+import type { AuditFilter } from '@/types/api';
+
+export const auditQueryKey = ['audit'] as const;
+
+export function useAuditLog(filter: AuditFilter) {
+  return useQuery({
+    queryKey: [...auditQueryKey, filter],
+    queryFn: () => api.listAuditLog(filter),
+    retry: false,
+  });
+}
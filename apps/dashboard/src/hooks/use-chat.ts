@@ -0,0 +1,40 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as api from '@/lib/api';
+import type { ChatSession, CreateChatRequest } from '@/types/api';
+
+export const chatQueryKey = (chatId: string) => ['chats', chatId] as const;
+
+export function useChat(chatId: string | null) {
+  return useQuery({
+    queryKey: chatQueryKey(chatId ?? ''),
+    queryFn: () => api.getChat(chatId ?? ''),
+    enabled: !!chatId,
+    retry: false,
+  });
+}
+
+export function useCreateChat() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: CreateChatRequest) => api.createChat(request),
+    onSuccess: (chat) => {
+      queryClient.setQueryData(chatQueryKey(chat.id), chat);
+    },
+  });
+}
+
+export function useSendChatMessage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ chatId, message }: { chatId: string; message: string }) =>
+      api.sendChatMessage(chatId, message),
+    onSuccess: ({ chatId, question, message }) => {
+      queryClient.setQueryData<ChatSession>(
+        chatQueryKey(chatId),
+        (chat) => chat && { ...chat, messages: [...chat.messages, question, message] }
+      );
+    },
+  });
+}
@@ -1,8 +1,15 @@
-import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useEffect, useRef } from 'react';
+import { useQuery, useQueries, useMutation, useQueryClient } from '@tanstack/react-query';
 import * as api from '@/lib/api';
-import type { UploadFileRequest } from '@/types/api';
+import type { Job, UpdateFileRequest, UploadFileRequest, UploadFilesRequest } from '@/types/api';
 
 export const filesQueryKey = (storeName: string) => ['files', storeName] as const;
+export const jobsQueryKey = (storeName: string) => ['jobs', storeName] as const;
+
+const JOB_POLL_INTERVAL = 2000;
+
+export const isJobActive = (job: Job) =>
+  job.status === 'queued' || job.status === 'uploading' || job.status === 'importing';
 
 export function useFiles(storeName: string | null) {
   return useQuery({
@@ -12,17 +19,73 @@ export function useFiles(storeName: string | null) {
   });
 }
 
+// Original content of a file; not refetched, since a document's content never changes
+export function useFileContent(storeName: string, fileName: string | null) {
+  return useQuery({
+    queryKey: ['fileContent', storeName, fileName ?? ''],
+    queryFn: () => (fileName ? api.getFileContent(storeName, fileName) : Promise.resolve(null)),
+    enabled: !!fileName,
+    staleTime: Infinity,
+    retry: false,
+  });
+}
+
+// Text of a document for the document viewer
+export function useFileText(storeName: string, fileName: string) {
+  return useQuery({
+    queryKey: ['fileText', storeName, fileName],
+    queryFn: () => api.getFileText(storeName, fileName),
+    staleTime: Infinity,
+    retry: false,
+  });
+}
+
+// Files of several stores, flattened into one list
+export function useFilesForStores(storeNames: string[]) {
+  return useQueries({
+    queries: storeNames.map((storeName) => ({
+      queryKey: filesQueryKey(storeName),
+      queryFn: () => api.listFiles(storeName),
+    })),
+    combine: (results) => results.flatMap((result) => result.data ?? []),
+  });
+}
+
+// Upload jobs of a store, polled while any is still running.
+// The file list is refreshed whenever a job finishes.
+export function useUploadJobs(storeName: string | null) {
+  const queryClient = useQueryClient();
+  const activeJobIds = useRef(new Set<string>());
+
+  const query = useQuery({
+    queryKey: jobsQueryKey(storeName ?? ''),
+    queryFn: () => api.listJobs({ storeName: storeName ?? '' }),
+    enabled: !!storeName,
+    refetchInterval: (query) => (query.state.data?.some(isJobActive) ? JOB_POLL_INTERVAL : false),
+  });
+
+  useEffect(() => {
+    if (!storeName || !query.data) return;
+    const finished = query.data.some(
+      (job) => !isJobActive(job) && activeJobIds.current.has(job.id)
+    );
+    activeJobIds.current = new Set(query.data.filter(isJobActive).map((job) => job.id));
+    if (finished) {
+      queryClient.invalidateQueries({ queryKey: filesQueryKey(storeName) });
+    }
+  }, [storeName, query.data, queryClient]);
+
+  return query;
+}
+
+// Resolves once the upload is queued; progress is tracked through useUploadJobs
 export function useUploadFile() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (request: UploadFileRequest) => {
-      const operation = await api.uploadFile(request);
-      // Wait for operation to complete
-      return api.waitForOperation(operation.name);
-    },
+    mutationFn: (request: UploadFileRequest) => api.uploadFile(request),
     onSuccess: (_data, variables) => {
-      queryClient.invalidateQueries({ queryKey: filesQueryKey(variables.storeName) });
+      queryClient.invalidateQueries({ queryKey: jobsQueryKey(variables.storeName) });
     },
   });
 }
@@ -38,3 +101,27 @@ export function useDeleteFile() {
     },
   });
 }
+
+// Queues several files in one request (the server lists the store once)
+export function useUploadFiles() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: UploadFilesRequest) => api.uploadFiles(request),
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: jobsQueryKey(variables.storeName) });
+    },
+  });
+}
+
+export function useUpdateFile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (request: UpdateFileRequest) => api.updateFile(request),
+    onSuccess: (_data, variables) => {
+      queryClient.invalidateQueries({ queryKey: jobsQueryKey(variables.storeName) });
+      queryClient.invalidateQueries({ queryKey: filesQueryKey(variables.storeName) });
+    },
+  });
+}
@@ -0,0 +1,46 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as api from '@/lib/api';
+import type { SearchHistoryEntry, SearchHistoryFilter } from '@/types/api';
+
+export const searchHistoryQueryKey = ['search-history'] as const;
+
+export function useSearchHistory(filter: SearchHistoryFilter) {
+  return useQuery({
+    queryKey: [...searchHistoryQueryKey, 'list', filter],
+    queryFn: () => api.listSearchHistory(filter),
+  });
+}
+
+export function useSearchHistoryEntry(id: string | undefined) {
+  return useQuery({
+    queryKey: [...searchHistoryQueryKey, 'entry', id],
+    queryFn: () => api.getSearchHistoryEntry(id ?? ''),
+    enabled: !!id,
+    retry: false,
+  });
+}
+
+export function usePinSearchHistoryEntry() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, pinned }: { id: string; pinned: boolean }) =>
+      api.setSearchHistoryPinned(id, pinned),
+    onSuccess: (entry: SearchHistoryEntry) => {
+      queryClient.setQueryData([...searchHistoryQueryKey, 'entry', entry.id], entry);
+      queryClient.invalidateQueries({ queryKey: [...searchHistoryQueryKey, 'list'] });
+    },
+  });
+}
+
+export function useDeleteSearchHistoryEntry() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.deleteSearchHistoryEntry(id),
+    onSuccess: (_, id) => {
+      queryClient.removeQueries({ queryKey: [...searchHistoryQueryKey, 'entry', id] });
+      queryClient.invalidateQueries({ queryKey: [...searchHistoryQueryKey, 'list'] });
+    },
+  });
+}
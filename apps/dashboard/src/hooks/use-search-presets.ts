@@ -1,9 +1,14 @@
 import { useState, useCallback, useEffect } from 'react';
-import type { SearchPreset } from '@/types/api';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as api from '@/lib/api';
+import type { PresetSettings, SearchPreset } from '@/types/api';
 
-const PRESETS_STORAGE_KEY = 'gemindex-search-presets';
+// Presets used to live only in this browser; they are offered for import to the server
+const LEGACY_PRESETS_STORAGE_KEY = 'gemindex-search-presets';
 const LAST_SETTINGS_STORAGE_KEY = 'gemindex-last-search-settings';
 
+export const presetsQueryKey = ['presets'] as const;
+
 export interface SearchSettings {
   systemPrompt: string;
   model: string;
@@ -13,6 +18,18 @@ export interface SearchSettings {
   maxOutputTokens: number | undefined;
 }
 
+// Shape of presets saved in localStorage before presets moved to the API
+interface LegacySearchPreset {
+  id: string;
+  name: string;
+  systemPrompt: string;
+  model: string;
+  temperature: number;
+  topP: number;
+  topK: number;
+  maxOutputTokens: number;
+}
+
 const DEFAULT_SETTINGS: SearchSettings = {
   systemPrompt: '',
   model: 'gemini-2.5-flash',
@@ -30,19 +47,15 @@ export const AVAILABLE_MODELS = [
   'gemini-1.5-pro',
 ];
 
-function loadPresets(): SearchPreset[] {
+function loadLegacyPresets(): LegacySearchPreset[] {
   try {
-    const stored = localStorage.getItem(PRESETS_STORAGE_KEY);
+    const stored = localStorage.getItem(LEGACY_PRESETS_STORAGE_KEY);
     return stored ? JSON.parse(stored) : [];
   } catch {
     return [];
   }
 }
 
-function savePresets(presets: SearchPreset[]): void {
-  localStorage.setItem(PRESETS_STORAGE_KEY, JSON.stringify(presets));
-}
-
 function loadLastSettings(): SearchSettings {
   try {
     const stored = localStorage.getItem(LAST_SETTINGS_STORAGE_KEY);
@@ -60,14 +73,30 @@ function saveLastSettings(settings: SearchSettings): void {
   localStorage.setItem(LAST_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
 }
 
+// Only settings that are set are stored, so the preset keeps model defaults for the rest
+function toPresetSettings(settings: SearchSettings): PresetSettings {
+  return Object.fromEntries(
+    Object.entries(settings).filter(([, value]) => value !== undefined && value !== '')
+  );
+}
+
+export function usePresets() {
+  return useQuery({
+    queryKey: presetsQueryKey,
+    queryFn: api.listPresets,
+  });
+}
+
 export function useSearchPresets() {
-  const [presets, setPresets] = useState<SearchPreset[]>([]);
+  const queryClient = useQueryClient();
+  const { data: presets = [] } = usePresets();
   const [settings, setSettingsState] = useState<SearchSettings>(DEFAULT_SETTINGS);
+  const [legacyPresets, setLegacyPresets] = useState<LegacySearchPreset[]>([]);
   const [initialized, setInitialized] = useState(false);
 
   // Load from localStorage on mount
   useEffect(() => {
-    setPresets(loadPresets());
+    setLegacyPresets(loadLegacyPresets());
     setSettingsState(loadLastSettings());
     setInitialized(true);
   }, []);
@@ -79,6 +108,62 @@ export function useSearchPresets() {
     }
   }, [settings, initialized]);
 
+  const invalidatePresets = () => queryClient.invalidateQueries({ queryKey: presetsQueryKey });
+
+  const createMutation = useMutation({
+    mutationFn: api.createPreset,
+    onSuccess: invalidatePresets,
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: ({ presetId, name }: { presetId: string; name: string }) =>
+      api.updatePreset(presetId, { name, settings: toPresetSettings(settings) }),
+    onSuccess: invalidatePresets,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: api.deletePreset,
+    onSuccess: invalidatePresets,
+  });
+
+  const storeDefaultMutation = useMutation({
+    mutationFn: ({ storeName, presetId }: { storeName: string; presetId: string | null }) =>
+      api.setStoreDefaultPreset(storeName, presetId),
+    onSuccess: invalidatePresets,
+  });
+
+  // Copy browser-local presets to the server (skipping names it already has), then forget them
+  const importMutation = useMutation({
+    mutationFn: async () => {
+      const existingNames = new Set(presets.map((preset) => preset.name));
+      for (const legacy of legacyPresets) {
+        if (existingNames.has(legacy.name)) continue;
+        await api
+          .createPreset({
+            name: legacy.name,
+            settings: toPresetSettings({
+              systemPrompt: legacy.systemPrompt,
+              model: legacy.model,
+              temperature: legacy.temperature,
+              topP: legacy.topP,
+              topK: legacy.topK,
+              maxOutputTokens: legacy.maxOutputTokens,
+            }),
+          })
+          .catch((error: Error) => {
+            // Presets imported so far stay on the server; the rest stay in this browser
+            throw new Error(`Could not import preset "${legacy.name}": ${error.message}`);
+          });
+        existingNames.add(legacy.name);
+      }
+    },
+    onSuccess: () => {
+      localStorage.removeItem(LEGACY_PRESETS_STORAGE_KEY);
+      setLegacyPresets([]);
+    },
+    onSettled: invalidatePresets,
+  });
+
   const setSettings = useCallback(
     (newSettings: SearchSettings | ((prev: SearchSettings) => SearchSettings)) => {
       setSettingsState(newSettings);
@@ -90,83 +175,46 @@ export function useSearchPresets() {
     setSettingsState(DEFAULT_SETTINGS);
   }, []);
 
-  const savePreset = useCallback(
-    (name: string) => {
-      const newPreset: SearchPreset = {
-        id: crypto.randomUUID(),
-        name,
-        systemPrompt: settings.systemPrompt,
-        model: settings.model,
-        temperature: settings.temperature ?? 1.0,
-        topP: settings.topP ?? 0.95,
-        topK: settings.topK ?? 40,
-        maxOutputTokens: settings.maxOutputTokens ?? 8192,
-      };
-      const updatedPresets = [...presets, newPreset];
-      setPresets(updatedPresets);
-      savePresets(updatedPresets);
-      return newPreset;
-    },
-    [presets, settings]
-  );
+  const applyPreset = useCallback((preset: SearchPreset) => {
+    setSettingsState({ ...DEFAULT_SETTINGS, ...preset.settings });
+  }, []);
 
   const loadPreset = useCallback(
     (presetId: string) => {
       const preset = presets.find((p) => p.id === presetId);
-      if (preset) {
-        setSettingsState({
-          systemPrompt: preset.systemPrompt,
-          model: preset.model,
-          temperature: preset.temperature,
-          topP: preset.topP,
-          topK: preset.topK,
-          maxOutputTokens: preset.maxOutputTokens,
-        });
-      }
+      if (preset) applyPreset(preset);
     },
-    [presets]
+    [presets, applyPreset]
   );
 
-  const deletePreset = useCallback(
-    (presetId: string) => {
-      const updatedPresets = presets.filter((p) => p.id !== presetId);
-      setPresets(updatedPresets);
-      savePresets(updatedPresets);
-    },
-    [presets]
-  );
-
-  const updatePreset = useCallback(
-    (presetId: string, name: string) => {
-      const updatedPresets = presets.map((p) =>
-        p.id === presetId
-          ? {
-              ...p,
-              name,
-              systemPrompt: settings.systemPrompt,
-              model: settings.model,
-              temperature: settings.temperature ?? 1.0,
-              topP: settings.topP ?? 0.95,
-              topK: settings.topK ?? 40,
-              maxOutputTokens: settings.maxOutputTokens ?? 8192,
-            }
-          : p
-      );
-      setPresets(updatedPresets);
-      savePresets(updatedPresets);
-    },
-    [presets, settings]
-  );
+  const discardLegacyPresets = useCallback(() => {
+    localStorage.removeItem(LEGACY_PRESETS_STORAGE_KEY);
+    setLegacyPresets([]);
+  }, []);
 
   return {
     presets,
     settings,
     setSettings,
     resetSettings,
-    savePreset,
+    savePreset: (name: string, onSaved?: () => void) =>
+      createMutation.mutate({ name, settings: toPresetSettings(settings) }, { onSuccess: onSaved }),
     loadPreset,
-    deletePreset,
-    updatePreset,
+    applyPreset,
+    deletePreset: (presetId: string) => deleteMutation.mutate(presetId),
+    updatePreset: (presetId: string, name: string) => updateMutation.mutate({ presetId, name }),
+    setStoreDefault: (storeName: string, presetId: string | null) =>
+      storeDefaultMutation.mutate({ storeName, presetId }),
+    legacyPresets,
+    importLegacyPresets: () => importMutation.mutate(),
+    discardLegacyPresets,
+    isImporting: importMutation.isPending,
+    error:
+      createMutation.error ??
+      updateMutation.error ??
+      deleteMutation.error ??
+      storeDefaultMutation.error ??
+      importMutation.error,
     DEFAULT_SETTINGS,
   };
 }
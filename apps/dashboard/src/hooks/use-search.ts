@@ -1,9 +1,46 @@
-import { useMutation } from '@tanstack/react-query';
+import { useEffect, useRef, useState } from 'react';
+import { useMutation, useQueryClient } from '@tanstack/react-query';
 import * as api from '@/lib/api';
 import type { SearchRequest } from '@/types/api';
+import { searchHistoryQueryKey } from '@/hooks/use-search-history';
 
 export function useSearch() {
+  const queryClient = useQueryClient();
+
   return useMutation({
     mutationFn: (request: SearchRequest) => api.search(request),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...searchHistoryQueryKey, 'list'] });
+    },
   });
 }
+
+// Streaming search: streamingText grows as deltas arrive; the mutation resolves
+// with the full response (sources and supports included) when the stream completes
+export function useSearchStream() {
+  const queryClient = useQueryClient();
+  const [streamingText, setStreamingText] = useState('');
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Abort an in-flight stream on unmount
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const mutation = useMutation({
+    mutationFn: (request: SearchRequest) => {
+      abortRef.current?.abort();
+      const controller = new AbortController();
+      abortRef.current = controller;
+      setStreamingText('');
+      return api.searchStream(
+        request,
+        (text) => setStreamingText((prev) => prev + text),
+        controller.signal
+      );
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [...searchHistoryQueryKey, 'list'] });
+    },
+  });
+
+  return { ...mutation, streamingText };
+}
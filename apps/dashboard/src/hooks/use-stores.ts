@@ -1,9 +1,12 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import * as api from '@/lib/api';
-import type { CreateStoreRequest } from '@/types/api';
+import type { CreateStoreRequest, ProtectionLevel } from '@/types/api';
 
 export const storesQueryKey = ['stores'] as const;
 
+export const storeProtectionQueryKey = (storeName: string) =>
+  ['stores', storeName, 'protection'] as const;
+
 export function useStores() {
   return useQuery({
     queryKey: storesQueryKey,
@@ -33,3 +36,24 @@ export function useDeleteStore() {
     },
   });
 }
+
+export function useStoreProtection(storeName: string | null) {
+  return useQuery({
+    queryKey: storeProtectionQueryKey(storeName ?? ''),
+    queryFn: () => api.getStoreProtection(storeName ?? ''),
+    enabled: !!storeName,
+  });
+}
+
+export function useSetStoreProtection() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ storeName, level }: { storeName: string; level: ProtectionLevel | null }) =>
+      api.setStoreProtection(storeName, level),
+    onSuccess: () => {
+      // Also refreshes the protection queries, which are keyed under "stores"
+      queryClient.invalidateQueries({ queryKey: storesQueryKey });
+    },
+  });
+}
@@ -1,19 +1,65 @@
 import type {
   FileSearchStore,
+  ProtectionLevel,
+  StoreProtection,
   FileSearchStoreFile,
   CreateStoreRequest,
   ListStoresResponse,
   ListFilesResponse,
   UploadFileRequest,
+  UploadFilesRequest,
+  UpdateFileRequest,
+  DocumentText,
+  UploadFilesResult,
+  UploadFilesResponse,
   SearchRequest,
   SearchResponse,
   Operation,
+  Job,
+  JobStatus,
+  ListJobsResponse,
+  ChatSession,
+  CreateChatRequest,
+  SendChatMessageResponse,
+  SearchPreset,
+  ListPresetsResponse,
+  SavePresetRequest,
+  SearchHistoryEntry,
+  SearchHistoryFilter,
+  ListSearchHistoryResponse,
+  ApiKey,
+  CreatedApiKey,
+  CreateApiKeyRequest,
+  ListApiKeysResponse,
+  Me,
+  AuditFilter,
+  ListAuditResponse,
 } from '@/types/api';
 
 const API_BASE = '/api';
+const API_KEY_STORAGE_KEY = 'gemindex-api-key';
+
+// API key this browser sends with every request (set in Settings)
+export function getApiKey(): string | null {
+  return localStorage.getItem(API_KEY_STORAGE_KEY);
+}
+
+export function setApiKey(key: string | null) {
+  if (key) localStorage.setItem(API_KEY_STORAGE_KEY, key);
+  else localStorage.removeItem(API_KEY_STORAGE_KEY);
+}
+
+function authorizedFetch(url: string, options?: RequestInit): Promise<Response> {
+  const headers = new Headers(options?.headers);
+  // Recorded as the source of changes in the audit log
+  headers.set('X-GemIndex-Client', 'dashboard');
+  const apiKey = getApiKey();
+  if (apiKey) headers.set('Authorization', `Bearer ${apiKey}`);
+  return fetch(url, { ...options, headers });
+}
 
 async function fetchApi<T>(url: string, options?: RequestInit): Promise<T> {
-  const response = await fetch(`${API_BASE}${url}`, {
+  const response = await authorizedFetch(`${API_BASE}${url}`, {
     ...options,
     headers: {
       'Content-Type': 'application/json',
@@ -46,8 +92,34 @@ export async function getStore(storeName: string): Promise<FileSearchStore> {
   return fetchApi<FileSearchStore>(`/stores/${encodeURIComponent(storeName)}`);
 }
 
+export async function getStoreProtection(storeName: string): Promise<StoreProtection> {
+  return fetchApi<StoreProtection>(`/stores/${encodeURIComponent(storeName)}/protection`);
+}
+
+// Sets (or with null, clears) a store's protection level
+export async function setStoreProtection(
+  storeName: string,
+  level: ProtectionLevel | null
+): Promise<void> {
+  const response = await authorizedFetch(
+    `${API_BASE}/stores/${encodeURIComponent(storeName)}/protection`,
+    level
+      ? {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ level }),
+        }
+      : { method: 'DELETE' }
+  );
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'Unknown error' }));
+    throw new Error(error.message || `HTTP ${response.status}`);
+  }
+}
+
 export async function deleteStore(storeName: string, force = false): Promise<void> {
-  const response = await fetch(
+  const response = await authorizedFetch(
     `${API_BASE}/stores/${encodeURIComponent(storeName)}?force=${force}`,
     {
       method: 'DELETE',
@@ -66,14 +138,15 @@ export async function listFiles(storeName: string): Promise<FileSearchStoreFile[
   return data.files;
 }
 
-export async function uploadFile(request: UploadFileRequest): Promise<Operation> {
+// Queues the upload as a server-side job; poll getJob/listJobs for its progress
+export async function uploadFile(request: UploadFileRequest): Promise<Job> {
   const formData = new FormData();
   formData.append('file', request.file);
   if (request.config) {
     formData.append('config', JSON.stringify(request.config));
   }
 
-  const response = await fetch(
+  const response = await authorizedFetch(
     `${API_BASE}/stores/${encodeURIComponent(request.storeName)}/files`,
     {
       method: 'POST',
@@ -89,8 +162,73 @@ export async function uploadFile(request: UploadFileRequest): Promise<Operation>
   return response.json();
 }
 
+// Queues every file in one request; results follow the order of request.files
+export async function uploadFiles(request: UploadFilesRequest): Promise<UploadFilesResult[]> {
+  const formData = new FormData();
+  for (const file of request.files) {
+    formData.append('files', file);
+  }
+  if (request.config) {
+    formData.append('config', JSON.stringify(request.config));
+  }
+  if (request.manifest) {
+    formData.append('manifest', JSON.stringify(request.manifest));
+  }
+
+  const response = await authorizedFetch(
+    `${API_BASE}/stores/${encodeURIComponent(request.storeName)}/files/batch`,
+    {
+      method: 'POST',
+      body: formData,
+    }
+  );
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'Unknown error' }));
+    throw new Error(error.message || `HTTP ${response.status}`);
+  }
+
+  const data: UploadFilesResponse = await response.json();
+  return data.results;
+}
+
+// Returns the queued update job, or the file itself when nothing changed
+export async function updateFile({
+  storeName,
+  fileName,
+  ...changes
+}: UpdateFileRequest): Promise<Job | FileSearchStoreFile> {
+  return fetchApi<Job | FileSearchStoreFile>(
+    `/stores/${encodeURIComponent(storeName)}/files/${encodeURIComponent(fileName)}`,
+    {
+      method: 'PATCH',
+      body: JSON.stringify(changes),
+    }
+  );
+}
+
+// Original content of a file, as kept by the API's blob store
+export async function getFileContent(storeName: string, fileName: string): Promise<Blob> {
+  const response = await authorizedFetch(
+    `${API_BASE}/stores/${encodeURIComponent(storeName)}/files/${encodeURIComponent(fileName)}/content`
+  );
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'Unknown error' }));
+    throw new Error(error.message || `HTTP ${response.status}`);
+  }
+
+  return response.blob();
+}
+
+export async function getFileText(storeName: string, fileName: string): Promise<DocumentText> {
+  return fetchApi<DocumentText>(
+    `/stores/${encodeURIComponent(storeName)}/files/${encodeURIComponent(fileName)}/text`
+  );
+}
+
 export async function deleteFile(storeName: string, fileName: string): Promise<void> {
-  const response = await fetch(
+  const response = await authorizedFetch(
     `${API_BASE}/stores/${encodeURIComponent(storeName)}/files/${encodeURIComponent(fileName)}`,
     {
       method: 'DELETE',
@@ -111,6 +249,255 @@ export async function search(request: SearchRequest): Promise<SearchResponse> {
   });
 }
 
+// Streams a search answer over SSE, calling onDelta with each text chunk.
+// Resolves with the full response (including sources/supports) once the stream completes.
+export async function searchStream(
+  request: SearchRequest,
+  onDelta: (text: string) => void,
+  signal?: AbortSignal
+): Promise<SearchResponse> {
+  const response = await authorizedFetch(`${API_BASE}/search/stream`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(request),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const error = await response.json().catch(() => ({ message: 'Unknown error' }));
+    throw new Error(error.message || `HTTP ${response.status}`);
+  }
+
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += value;
+
+    // Events are separated by a blank line; keep the trailing partial event
+    const events = buffer.split('\n\n');
+    buffer = events.pop() ?? '';
+    for (const event of events) {
+      const type = event.match(/^event: (.*)$/m)?.[1];
+      const data = event.match(/^data: (.*)$/m)?.[1];
+      if (!type || !data) continue;
+
+      const payload = JSON.parse(data);
+      if (type === 'delta') {
+        onDelta(payload.text);
+      } else if (type === 'done') {
+        return payload as SearchResponse;
+      } else if (type === 'error') {
+        throw new Error(payload.message || 'Search stream failed');
+      }
+    }
+  }
+
+  throw new Error('Search stream ended unexpectedly');
+}
+
+// Search History API
+export async function listSearchHistory(
+  filter: SearchHistoryFilter = {}
+): Promise<ListSearchHistoryResponse> {
+  const params = new URLSearchParams();
+  if (filter.storeName) params.set('storeName', filter.storeName);
+  if (filter.q) params.set('q', filter.q);
+  if (filter.pinned !== undefined) params.set('pinned', String(filter.pinned));
+  if (filter.before) params.set('before', filter.before);
+  if (filter.limit) params.set('limit', String(filter.limit));
+  const queryString = params.toString();
+  return fetchApi<ListSearchHistoryResponse>(
+    `/search/history${queryString ? `?${queryString}` : ''}`
+  );
+}
+
+export async function getSearchHistoryEntry(id: string): Promise<SearchHistoryEntry> {
+  return fetchApi<SearchHistoryEntry>(`/search/history/${encodeURIComponent(id)}`);
+}
+
+export async function setSearchHistoryPinned(
+  id: string,
+  pinned: boolean
+): Promise<SearchHistoryEntry> {
+  return fetchApi<SearchHistoryEntry>(`/search/history/${encodeURIComponent(id)}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ pinned }),
+  });
+}
+
+export async function deleteSearchHistoryEntry(id: string): Promise<void> {
+  const response = await authorizedFetch(`${API_BASE}/search/history/${encodeURIComponent(id)}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'Unknown error' }));
+    throw new Error(error.message || `HTTP ${response.status}`);
+  }
+}
+
+// Chats API
+export async function createChat({
+  storeName,
+  ...config
+}: CreateChatRequest): Promise<ChatSession> {
+  return fetchApi<ChatSession>(`/stores/${encodeURIComponent(storeName)}/chats`, {
+    method: 'POST',
+    body: JSON.stringify(config),
+  });
+}
+
+export async function getChat(chatId: string): Promise<ChatSession> {
+  return fetchApi<ChatSession>(`/chats/${encodeURIComponent(chatId)}`);
+}
+
+export async function sendChatMessage(
+  chatId: string,
+  message: string
+): Promise<SendChatMessageResponse> {
+  return fetchApi<SendChatMessageResponse>(`/chats/${encodeURIComponent(chatId)}/messages`, {
+    method: 'POST',
+    body: JSON.stringify({ message }),
+  });
+}
+
+// Presets API
+export async function listPresets(): Promise<SearchPreset[]> {
+  const data = await fetchApi<ListPresetsResponse>('/presets');
+  return data.presets;
+}
+
+export async function createPreset(request: SavePresetRequest): Promise<SearchPreset> {
+  return fetchApi<SearchPreset>('/presets', {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+}
+
+export async function updatePreset(
+  presetId: string,
+  request: SavePresetRequest
+): Promise<SearchPreset> {
+  return fetchApi<SearchPreset>(`/presets/${encodeURIComponent(presetId)}`, {
+    method: 'PATCH',
+    body: JSON.stringify(request),
+  });
+}
+
+export async function deletePreset(presetId: string): Promise<void> {
+  const response = await authorizedFetch(`${API_BASE}/presets/${encodeURIComponent(presetId)}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'Unknown error' }));
+    throw new Error(error.message || `HTTP ${response.status}`);
+  }
+}
+
+// Sets (or with null, clears) the preset a store's searches use when they name none
+export async function setStoreDefaultPreset(
+  storeName: string,
+  presetId: string | null
+): Promise<void> {
+  const response = await authorizedFetch(
+    `${API_BASE}/stores/${encodeURIComponent(storeName)}/default-preset`,
+    presetId
+      ? {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ presetId }),
+        }
+      : { method: 'DELETE' }
+  );
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'Unknown error' }));
+    throw new Error(error.message || `HTTP ${response.status}`);
+  }
+}
+
+// Jobs API
+export async function listJobs(
+  filter: { storeName?: string; status?: JobStatus; limit?: number } = {}
+): Promise<Job[]> {
+  const params = new URLSearchParams();
+  if (filter.storeName) params.set('storeName', filter.storeName);
+  if (filter.status) params.set('status', filter.status);
+  if (filter.limit) params.set('limit', String(filter.limit));
+  const queryString = params.toString();
+  const data = await fetchApi<ListJobsResponse>(`/jobs${queryString ? `?${queryString}` : ''}`);
+  return data.jobs;
+}
+
+export async function getJob(jobId: string): Promise<Job> {
+  return fetchApi<Job>(`/jobs/${encodeURIComponent(jobId)}`);
+}
+
+// API keys API
+export async function listApiKeys(): Promise<ApiKey[]> {
+  const data = await fetchApi<ListApiKeysResponse>('/keys');
+  return data.keys;
+}
+
+export async function createApiKey(request: CreateApiKeyRequest): Promise<CreatedApiKey> {
+  return fetchApi<CreatedApiKey>('/keys', {
+    method: 'POST',
+    body: JSON.stringify(request),
+  });
+}
+
+export async function deleteApiKey(keyId: string): Promise<void> {
+  const response = await authorizedFetch(`${API_BASE}/keys/${encodeURIComponent(keyId)}`, {
+    method: 'DELETE',
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'Unknown error' }));
+    throw new Error(error.message || `HTTP ${response.status}`);
+  }
+}
+
+// Audit log API
+function auditQueryString(filter: AuditFilter, format?: 'jsonl'): string {
+  const params = new URLSearchParams();
+  if (filter.storeName) params.set('storeName', filter.storeName);
+  if (filter.action) params.set('action', filter.action);
+  if (filter.result) params.set('result', filter.result);
+  if (filter.before) params.set('before', filter.before);
+  if (filter.limit) params.set('limit', String(filter.limit));
+  if (format) params.set('format', format);
+  const queryString = params.toString();
+  return queryString ? `?${queryString}` : '';
+}
+
+export async function listAuditLog(filter: AuditFilter = {}): Promise<ListAuditResponse> {
+  return fetchApi<ListAuditResponse>(`/audit${auditQueryString(filter)}`);
+}
+
+// Every matching entry as JSON Lines
+export async function exportAuditLog(filter: AuditFilter = {}): Promise<Blob> {
+  const { before: _before, limit: _limit, ...exportFilter } = filter;
+  const response = await authorizedFetch(
+    `${API_BASE}/audit${auditQueryString(exportFilter, 'jsonl')}`
+  );
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ message: 'Unknown error' }));
+    throw new Error(error.message || `HTTP ${response.status}`);
+  }
+
+  return response.blob();
+}
+
+// Access API
+export async function getMe(): Promise<Me> {
+  return fetchApi<Me>('/me');
+}
+
 // Operations API
 export async function getOperation(operationName: string): Promise<Operation> {
   return fetchApi<Operation>(`/operations/${encodeURIComponent(operationName)}`);
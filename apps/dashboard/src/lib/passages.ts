@@ -0,0 +1,72 @@
+export interface PassageRange {
+  start: number;
+  end: number;
+}
+
+// Leading part of a passage tried on its own when the whole passage is not found
+const PREFIX_LENGTH = 200;
+
+// Viewer URL of a document: /stores/:storeId/documents/:documentId
+export function documentPath(document: string, params?: { passage: string } | PassageRange) {
+  const [, storeId, , documentId] = document.split('/');
+  const path = `/stores/${storeId}/documents/${documentId}`;
+  if (!params) return path;
+
+  const search =
+    'passage' in params
+      ? new URLSearchParams({ passage: params.passage })
+      : new URLSearchParams({ start: String(params.start), end: String(params.end) });
+  return `${path}?${search}`;
+}
+
+// Collapse whitespace runs to single spaces, keeping the original offset of each character
+function normalize(text: string): { normalized: string; offsets: number[] } {
+  let normalized = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (/\s/.test(text.charAt(i))) {
+      if (normalized.endsWith(' ') || normalized.length === 0) continue;
+      normalized += ' ';
+    } else {
+      normalized += text.charAt(i);
+    }
+    offsets.push(i);
+  }
+  return { normalized, offsets };
+}
+
+/**
+ * Locate a retrieved chunk in the document text. Chunks may differ from the
+ * original in whitespace, so matching ignores it; when the whole chunk is not
+ * found, its beginning is searched for and the range spans the chunk's length.
+ */
+export function findPassage(text: string, passage: string): PassageRange | null {
+  const trimmed = passage.trim();
+  if (!trimmed) return null;
+
+  const exact = text.indexOf(trimmed);
+  if (exact !== -1) return { start: exact, end: exact + trimmed.length };
+
+  const { normalized, offsets } = normalize(text);
+  const needle = normalize(trimmed).normalized.trim();
+  let index = normalized.indexOf(needle);
+  if (index === -1 && needle.length > PREFIX_LENGTH) {
+    index = normalized.indexOf(needle.slice(0, PREFIX_LENGTH));
+  }
+  if (index === -1) return null;
+
+  const last = Math.min(index + needle.length, offsets.length) - 1;
+  return { start: offsets[index] ?? 0, end: (offsets[last] ?? text.length - 1) + 1 };
+}
+
+// Range from ?start=&end=, if it lies within the text
+export function parsePassageRange(
+  start: string | null,
+  end: string | null,
+  textLength: number
+): PassageRange | null {
+  const range = { start: Number(start), end: Number(end) };
+  if (start === null || end === null || !Number.isInteger(range.start)) return null;
+  if (!Number.isInteger(range.end) || range.start < 0 || range.end > textLength) return null;
+  return range.start < range.end ? range : null;
+}
@@ -1,10 +1,21 @@
 // Gemini File Search API Types
 
+// Lowest to highest; each level blocks what the ones before it block
+export type ProtectionLevel = 'no_store_delete' | 'no_file_delete' | 'read_only';
+
 export interface FileSearchStore {
   name: string;
   displayName: string;
   createTime: string;
-  protected?: boolean;
+  protected?: boolean; // Cannot be deleted (any protection level)
+  protection?: ProtectionLevel;
+}
+
+export interface StoreProtection {
+  storeName: string;
+  level: ProtectionLevel | null; // Effective level
+  storedLevel: ProtectionLevel | null; // Level set from the dashboard or API
+  env: boolean; // Listed in the server's PROTECTED_STORES
 }
 
 export interface FileSearchStoreFile {
@@ -28,6 +39,8 @@ export interface FileSearchStoreFile {
     message: string;
   };
   metadata?: CustomMetadata[];
+  // Whether the content can still be re-imported, so the file can be renamed or edited
+  updatable?: boolean;
 }
 
 export interface CustomMetadata {
@@ -49,7 +62,7 @@ export interface Operation {
 export interface ChunkingConfig {
   whiteSpaceConfig?: {
     maxTokensPerChunk: number;
-    maxOverlapTokens: number;
+    maxOverlapTokens?: number;
   };
 }
 
@@ -71,10 +84,12 @@ export interface CreateStoreResponse {
 
 export interface ListStoresResponse {
   stores: FileSearchStore[];
+  nextPageToken?: string;
 }
 
 export interface ListFilesResponse {
   files: FileSearchStoreFile[];
+  nextPageToken?: string;
 }
 
 export interface UploadFileRequest {
@@ -83,8 +98,57 @@ export interface UploadFileRequest {
   config?: FileUploadConfig;
 }
 
-export interface SearchRequest {
+// Rename and/or replace metadata; applied by the server as a copy-and-swap job
+export interface UpdateFileRequest {
+  storeName: string;
+  fileName: string;
+  displayName?: string;
+  customMetadata?: CustomMetadata[];
+}
+
+export interface UploadFilesRequest {
+  storeName: string;
+  files: File[];
+  // Applied to every file; per-file settings go in manifest, keyed by file name
+  config?: FileUploadConfig;
+  manifest?: Record<string, FileUploadConfig>;
+}
+
+export interface UploadFilesResult {
+  name: string;
+  displayName?: string;
+  // Documents replaced by this file (same original file name)
+  replaces?: string[];
+  job?: Job;
+  error?: string;
+}
+
+export interface UploadFilesResponse {
+  results: UploadFilesResult[];
+}
+
+// Upload Job Types
+export type JobStatus = 'queued' | 'uploading' | 'importing' | 'indexed' | 'failed';
+
+export interface Job {
+  id: string;
+  type: string;
+  status: JobStatus;
   storeName: string;
+  payload: { config?: FileUploadConfig };
+  result?: Record<string, unknown>;
+  error?: string;
+  createTime: string;
+  updateTime: string;
+}
+
+export interface ListJobsResponse {
+  jobs: Job[];
+}
+
+export interface SearchRequest {
+  storeName?: string;
+  storeNames?: string[]; // Search across several stores in one query
   query: string;
   systemPrompt?: string;
   model?: string;
@@ -92,23 +156,51 @@ export interface SearchRequest {
   topP?: number;
   topK?: number;
   maxOutputTokens?: number;
+  metadataFilter?: string; // AIP-160 filter over custom metadata
+  preset?: string; // Preset id or name; explicit fields override its settings
+}
+
+// Search settings a preset stores; unset fields fall back to the model defaults
+export interface PresetSettings {
+  systemPrompt?: string;
+  model?: string;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxOutputTokens?: number;
 }
 
 export interface SearchPreset {
   id: string;
   name: string;
-  systemPrompt: string;
-  model: string;
-  temperature: number;
-  topP: number;
-  topK: number;
-  maxOutputTokens: number;
+  settings: PresetSettings;
+  defaultForStores: string[]; // Stores that use this preset when a search names none
+  createTime: string;
+  updateTime: string;
+}
+
+export interface ListPresetsResponse {
+  presets: SearchPreset[];
+}
+
+export interface SavePresetRequest {
+  name?: string;
+  settings?: PresetSettings;
 }
 
 export interface GroundingSource {
   title: string;
   text: string;
-  fileSearchStore: string;
+  fileSearchStore: string; // Store the source was retrieved from
+  document?: string; // fileSearchStores/{store}/documents/{id}, when known
+}
+
+// Text of a document, as shown by the document viewer
+export interface DocumentText {
+  name: string;
+  displayName: string;
+  mimeType: string;
+  text: string;
 }
 
 export interface GroundingSupport {
@@ -122,4 +214,144 @@ export interface SearchResponse {
   text: string;
   sources: GroundingSource[];
   supports: GroundingSupport[];
+  historyId?: string; // Search history entry recorded for this answer
+}
+
+// Search History API Types
+export interface SearchHistoryEntry {
+  id: string;
+  storeNames: string[];
+  query: string;
+  settings: PresetSettings & { metadataFilter?: string };
+  model: string;
+  answer: string;
+  sources: GroundingSource[];
+  supports: GroundingSupport[];
+  latencyMs: number;
+  pinned: boolean;
+  createTime: string;
+}
+
+export interface SearchHistoryFilter {
+  storeName?: string;
+  q?: string; // Substring of the query
+  pinned?: boolean;
+  before?: string; // Cursor from nextBefore
+  limit?: number;
+}
+
+export interface ListSearchHistoryResponse {
+  entries: SearchHistoryEntry[];
+  nextBefore?: string;
+}
+
+// Chat API Types
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+  sources?: GroundingSource[];
+  supports?: GroundingSupport[];
+  createTime: string;
+}
+
+export interface ChatSession {
+  id: string;
+  storeName: string;
+  config: Omit<SearchRequest, 'storeName' | 'storeNames' | 'query' | 'preset'>;
+  messages: ChatMessage[];
+  createTime: string;
+  updateTime: string;
+}
+
+export interface CreateChatRequest extends Omit<
+  SearchRequest,
+  'storeName' | 'storeNames' | 'query' | 'preset'
+> {
+  storeName: string;
+}
+
+export interface SendChatMessageResponse {
+  chatId: string;
+  question: ChatMessage;
+  message: ChatMessage; // The model's answer
+}
+
+// API keys (Settings); the key itself is only returned when it is created
+export interface ApiKey {
+  id: string;
+  label: string;
+  prefix: string;
+  expireTime?: string;
+  lastUsedTime?: string;
+  createTime: string;
+  expired: boolean;
+}
+
+export interface CreatedApiKey extends ApiKey {
+  key: string;
+  grants: RoleGrant[];
+}
+
+export interface CreateApiKeyRequest {
+  label: string;
+  expireTime?: string;
+  grants?: { storeName: string; role: Role }[];
+}
+
+export interface ListApiKeysResponse {
+  keys: ApiKey[];
+}
+
+// Audit log
+export type AuditSource = 'dashboard' | 'cli' | 'mcp' | 'api';
+export type AuditResult = 'success' | 'failure';
+
+export interface AuditEntry {
+  id: string;
+  actor: string;
+  actorLabel?: string;
+  action: string;
+  storeName?: string;
+  documentName?: string;
+  source: AuditSource;
+  result: AuditResult;
+  status: number;
+  error?: string;
+  details?: Record<string, unknown>;
+  createTime: string;
+}
+
+export interface AuditFilter {
+  storeName?: string;
+  action?: string;
+  result?: AuditResult;
+  before?: string; // Cursor from nextBefore
+  limit?: number;
+}
+
+export interface ListAuditResponse {
+  entries: AuditEntry[];
+  nextBefore?: string;
+}
+
+// Roles per store: viewers search and list, editors also change files, admins also delete stores
+export type Role = 'viewer' | 'editor' | 'admin';
+
+export interface RoleGrant {
+  subject: string;
+  // Store name, or "*" for every store
+  storeName: string;
+  role: Role;
+  createTime: string;
+}
+
+// The caller of the API and its roles
+export interface Me {
+  subject?: string;
+  label?: string;
+  // Users signed in through the trusted proxy
+  email?: string;
+  groups?: string[];
+  unrestricted: boolean;
+  roles: Record<string, Role>;
 }